@@ -1,17 +1,40 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useRef } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Calendar } from "@/components/ui/calendar"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
-import { Plus, Clock, MapPin, Trash2 } from "lucide-react"
+import { Plus, Clock, MapPin, Trash2, Repeat, Upload, Rss } from "lucide-react"
 import { EventFormDialog } from "@/components/events/event-form-dialog"
+import { RecurrenceScopeDialog } from "@/components/events/recurrence-scope-dialog"
+import { CalendarFeedDialog } from "@/components/events/calendar-feed-dialog"
+import { EventWeekView, EventMonthView } from "@/components/events/event-calendar-views"
 import { ConfirmDialog } from "@/components/ui/confirm-dialog"
-import { listEventsByDate, createEvent, updateEvent, deleteEvent } from "@/lib/data/events"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  listEventsInRange,
+  createEvent,
+  updateEvent,
+  deleteEvent,
+  importIcsEvents,
+  shiftTime,
+  type RecurrenceRule,
+  type RecurrenceScope,
+  type EventFilters,
+  type ExternalParticipant,
+} from "@/lib/data/events"
+import { listClients } from "@/lib/data/clients"
+import { listProjects } from "@/lib/data/projects"
+import { listProfiles } from "@/lib/data/tasks"
+import { addDays, endOfWeek, startOfMonth, startOfWeek } from "date-fns"
+import { describeRecurrence } from "@/lib/utils/recurrence"
+import { EventConflictError } from "@/lib/types"
 import { Protected } from "@/components/protected"
 import { usePermissions } from "@/contexts/permission-context"
 import { AppMainBleed } from "@/components/app-main-bleed"
+import { useToast } from "@/hooks/use-toast"
 
 type User = {
   id: string
@@ -29,34 +52,141 @@ type Event = {
   description: string
   date: Date
   time: string
+  endTime: string
   location: string
   type: "meeting" | "deadline" | "visit"
-  users?: User[]
+  participants?: string[]
+  externalParticipants?: ExternalParticipant[]
+  reminders?: number[]
   client?: Client
+  occurrenceDate: string
+  recurrence?: RecurrenceRule | null
+}
+
+type EventFormValues = {
+  title: string
+  description: string
+  date: string
+  time: string
+  endTime: string
+  location: string
+  type: "meeting" | "deadline" | "visit"
+  users: User[]
+  externalParticipants: ExternalParticipant[]
+  client?: Client
+  reminders: number[]
+  recurrence: RecurrenceRule | null
+}
+
+type SaveOptions = { allowConflicts: boolean }
+
+type AgendaView = "day" | "week" | "month"
+
+type FilterOption = {
+  id: string
+  name: string
+}
+
+// Ação aguardando a escolha do escopo ("este", "este e seguintes", "todos") em eventos recorrentes
+type PendingRecurringAction =
+  | { kind: "edit"; event: Event; data: EventFormValues; options?: SaveOptions }
+  | { kind: "move"; event: Event; date: string; time: string }
+  | { kind: "delete"; event: Event }
+
+const ALL = "all"
+
+/** Período carregado para a visão: o dia, a semana (dom–sáb) ou as 6 semanas da grade do mês. */
+function getViewRange(view: AgendaView, date: Date): [Date, Date] {
+  if (view === "week") {
+    return [startOfWeek(date, { weekStartsOn: 0 }), endOfWeek(date, { weekStartsOn: 0 })]
+  }
+  if (view === "month") {
+    const gridStart = startOfWeek(startOfMonth(date), { weekStartsOn: 0 })
+    return [gridStart, addDays(gridStart, 41)]
+  }
+  return [date, date]
+}
+
+function toISODate(date: Date): string {
+  const year = date.getFullYear()
+  const month = String(date.getMonth() + 1).padStart(2, "0")
+  const day = String(date.getDate()).padStart(2, "0")
+  return `${year}-${month}-${day}`
+}
+
+function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number)
+  return hours * 60 + minutes
+}
+
+function showSaveError(err: unknown) {
+  if (err instanceof EventConflictError) {
+    alert("Um ou mais participantes já têm compromisso neste horário. Revise o evento e tente novamente.")
+    return
+  }
+  alert("Falha ao salvar evento. Verifique se está autenticado e tente novamente.")
+}
+
+function fromISODate(iso: string): Date {
+  const [year, month, day] = iso.split("-").map(Number)
+  return new Date(year, month - 1, day)
 }
 
 export default function AgendaPage() {
   const { hasPermission } = usePermissions()
+  const { toast } = useToast()
   const [date, setDate] = useState<Date | undefined>(new Date())
   const [isDialogOpen, setIsDialogOpen] = useState(false)
   const [editingEvent, setEditingEvent] = useState<Event | null>(null)
   const [deleteConfirmOpen, setDeleteConfirmOpen] = useState(false)
   const [eventToDelete, setEventToDelete] = useState<string | null>(null)
+  const [pendingRecurring, setPendingRecurring] = useState<PendingRecurringAction | null>(null)
+  const [feedDialogOpen, setFeedDialogOpen] = useState(false)
+  const [importing, setImporting] = useState(false)
+  const importInputRef = useRef<HTMLInputElement>(null)
+
+  const [view, setView] = useState<AgendaView>("day")
+  const [filters, setFilters] = useState<EventFilters>({})
+  const [newEventTime, setNewEventTime] = useState("10:00")
+  const [clientOptions, setClientOptions] = useState<FilterOption[]>([])
+  const [projectOptions, setProjectOptions] = useState<FilterOption[]>([])
+  const [userOptions, setUserOptions] = useState<FilterOption[]>([])
 
   const [events, setEvents] = useState<Event[]>([])
 
+  // Só a resposta da última busca é aplicada (trocas rápidas de período ou filtro)
+  const fetchRequestRef = useRef(0)
+
+  const fetchEvents = async () => {
+    const requestId = ++fetchRequestRef.current
+    const [from, to] = getViewRange(view, date ?? new Date())
+    const data = await listEventsInRange(from, to, filters)
+    if (requestId !== fetchRequestRef.current) return
+    setEvents(data as Event[])
+  }
+
   useEffect(() => {
-    async function load() {
+    fetchEvents().catch((err) => console.error("Erro ao carregar eventos:", err))
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [date, view, filters])
+
+  useEffect(() => {
+    async function loadFilterOptions() {
       try {
-        const current = date ?? new Date()
-        const data = await listEventsByDate(current)
-        setEvents(data as Event[])
+        const [clientsRes, projects, profiles] = await Promise.all([
+          listClients(),
+          listProjects(),
+          listProfiles(),
+        ])
+        setClientOptions(clientsRes.data.map((c) => ({ id: c.id, name: c.name })))
+        setProjectOptions(projects.map((p) => ({ id: p.id, name: `${p.code} - ${p.name}` })))
+        setUserOptions(profiles.map((p) => ({ id: p.id, name: p.fullName || p.email })))
       } catch (err) {
-        console.error("Erro ao carregar eventos:", err)
+        console.error("Erro ao carregar filtros da agenda:", err)
       }
     }
-    load()
-  }, [date])
+    loadFilterOptions()
+  }, [])
 
   const getEventTypeColor = (type: Event["type"]) => {
     switch (type) {
@@ -84,49 +214,90 @@ export default function AgendaPage() {
     }
   }
 
-  // Eventos já vêm filtrados pela data do Supabase, não precisa filtrar novamente
+  // Eventos já vêm filtrados pelo período do Supabase, não precisa filtrar novamente
   const todayEvents = events
 
-  const handleSaveEvent = async (data: {
-    title: string
-    description: string
-    date: string
-    time: string
-    location: string
-    type: "meeting" | "deadline" | "visit"
-    users: User[]
-    client?: Client
-  }) => {
+  const reloadEvents = fetchEvents
+
+  const toUsers = (participantIds?: string[]): User[] =>
+    (participantIds ?? []).map((id) => ({
+      id,
+      name: userOptions.find((u) => u.id === id)?.name ?? "Usuário",
+    }))
+
+  const updateFilter = (key: keyof EventFilters, value: string) => {
+    setFilters((prev) => ({ ...prev, [key]: value === ALL ? undefined : value }))
+  }
+
+  const saveEventChanges = async (
+    event: Event,
+    data: EventFormValues,
+    options?: SaveOptions,
+    scope?: RecurrenceScope
+  ) => {
     try {
-      if (editingEvent) {
-        await updateEvent(editingEvent.id, {
+      await updateEvent(
+        event.id,
+        {
           title: data.title,
           description: data.description,
           date: data.date,
           time: data.time,
+          endTime: data.endTime || null,
           location: data.location,
           type: data.type,
           client_id: data.client?.id ?? null,
-        })
-        setEditingEvent(null)
-      } else {
-        await createEvent({
+          participants: data.users.map((u) => u.id),
+          externalParticipants: data.externalParticipants,
+          reminders: data.reminders,
+          recurrence: data.recurrence,
+        },
+        {
+          ...(scope ? { scope, occurrenceDate: event.occurrenceDate } : {}),
+          allowConflicts: options?.allowConflicts,
+        }
+      )
+      await reloadEvents()
+    } catch (err) {
+      console.error("Erro ao salvar evento:", err)
+      showSaveError(err)
+    }
+  }
+
+  const handleSaveEvent = async (data: EventFormValues, options?: SaveOptions) => {
+    if (editingEvent) {
+      const event = editingEvent
+      setEditingEvent(null)
+      if (event.recurrence) {
+        setPendingRecurring({ kind: "edit", event, data, options })
+        return
+      }
+      await saveEventChanges(event, data, options)
+      return
+    }
+
+    try {
+      await createEvent(
+        {
           title: data.title,
           description: data.description,
           date: data.date,
           time: data.time,
+          endTime: data.endTime || null,
           location: data.location,
           type: data.type,
           client_id: data.client?.id ?? null,
-        })
-      }
-      // Reload events
-      const current = date ?? new Date()
-      const refreshed = await listEventsByDate(current)
-      setEvents(refreshed as Event[])
+          participants: data.users.map((u) => u.id),
+          externalParticipants: data.externalParticipants,
+          reminders: data.reminders,
+          recurrence: data.recurrence,
+        },
+        options
+      )
+      await reloadEvents()
     } catch (err) {
       console.error("Erro ao salvar evento:", err)
-      alert("Falha ao salvar evento. Verifique se está autenticado e tente novamente.")
+      showSaveError(err)
     }
   }
 
@@ -135,8 +306,12 @@ export default function AgendaPage() {
     setIsDialogOpen(true)
   }
 
-  const handleDeleteEvent = (eventId: string) => {
-    setEventToDelete(eventId)
+  const handleDeleteEvent = (event: Event) => {
+    if (event.recurrence) {
+      setPendingRecurring({ kind: "delete", event })
+      return
+    }
+    setEventToDelete(event.id)
     setDeleteConfirmOpen(true)
   }
 
@@ -145,9 +320,7 @@ export default function AgendaPage() {
       if (eventToDelete) {
         await deleteEvent(eventToDelete)
         setEventToDelete(null)
-        const current = date ?? new Date()
-        const refreshed = await listEventsByDate(current)
-        setEvents(refreshed as Event[])
+        await reloadEvents()
       }
     } catch (err) {
       console.error("Erro ao excluir evento:", err)
@@ -156,7 +329,122 @@ export default function AgendaPage() {
     setDeleteConfirmOpen(false)
   }
 
+  const moveEvent = async (
+    event: Event,
+    newDate: string,
+    newTime: string,
+    scope?: RecurrenceScope
+  ) => {
+    try {
+      // Reagendar mantém a duração do evento
+      const duration = timeToMinutes(event.endTime) - timeToMinutes(event.time)
+      await updateEvent(
+        event.id,
+        { date: newDate, time: newTime, endTime: shiftTime(newTime, duration) },
+        scope ? { scope, occurrenceDate: event.occurrenceDate } : undefined
+      )
+      await reloadEvents()
+    } catch (err) {
+      console.error("Erro ao reagendar evento:", err)
+      alert(
+        err instanceof EventConflictError
+          ? "Um ou mais participantes já têm compromisso neste horário."
+          : "Falha ao reagendar evento."
+      )
+      // Desfaz a atualização otimista do cartão
+      await reloadEvents().catch((reloadErr) => console.error("Erro ao carregar eventos:", reloadErr))
+    }
+  }
+
+  const handleMoveEvent = async (event: Event, newDate: string, newTime: string) => {
+    if (event.recurrence) {
+      setPendingRecurring({ kind: "move", event, date: newDate, time: newTime })
+      return
+    }
+    // Atualização otimista para o cartão não "voltar" enquanto salva
+    setEvents((prev) =>
+      prev.map((e) =>
+        e.id === event.id && e.occurrenceDate === event.occurrenceDate
+          ? {
+              ...e,
+              occurrenceDate: newDate,
+              date: fromISODate(newDate),
+              time: newTime,
+              endTime: shiftTime(newTime, timeToMinutes(e.endTime) - timeToMinutes(e.time)),
+            }
+          : e
+      )
+    )
+    await moveEvent(event, newDate, newTime)
+  }
+
+  const handleSlotClick = (slotDate: string, slotTime?: string) => {
+    if (!hasPermission("agenda", "create")) return
+    setDate(fromISODate(slotDate))
+    setNewEventTime(slotTime ?? "10:00")
+    setEditingEvent(null)
+    setIsDialogOpen(true)
+  }
+
+  const handleRecurringScope = async (scope: RecurrenceScope) => {
+    const pending = pendingRecurring
+    setPendingRecurring(null)
+    if (!pending) return
+
+    if (pending.kind === "edit") {
+      await saveEventChanges(pending.event, pending.data, pending.options, scope)
+      return
+    }
+
+    if (pending.kind === "move") {
+      await moveEvent(pending.event, pending.date, pending.time, scope)
+      return
+    }
+
+    try {
+      await deleteEvent(pending.event.id, {
+        scope,
+        occurrenceDate: pending.event.occurrenceDate,
+      })
+      await reloadEvents()
+    } catch (err) {
+      console.error("Erro ao excluir evento:", err)
+      alert("Falha ao excluir evento.")
+    }
+  }
+
+  const handleImportFile = async (file: File) => {
+    setImporting(true)
+    try {
+      const result = await importIcsEvents(await file.text())
+      await reloadEvents()
+
+      const details = [
+        `${result.imported} evento(s) importado(s)`,
+        result.skipped > 0 ? `${result.skipped} já existente(s)` : null,
+        result.unmatchedAttendees.length > 0
+          ? `Participantes sem cadastro: ${result.unmatchedAttendees.join(", ")}`
+          : null,
+        result.unsupported.length > 0
+          ? `Não importados (recorrência não suportada): ${result.unsupported.join(", ")}`
+          : null,
+      ]
+      toast({ title: "Importação concluída", description: details.filter(Boolean).join(". ") })
+    } catch (err) {
+      console.error("Erro ao importar .ics:", err)
+      toast({
+        title: "Erro",
+        description: "Falha ao importar o arquivo .ics.",
+        variant: "destructive",
+      })
+    } finally {
+      setImporting(false)
+      if (importInputRef.current) importInputRef.current.value = ""
+    }
+  }
+
   const handleNewEvent = () => {
+    setNewEventTime("10:00")
     setEditingEvent(null)
     setIsDialogOpen(true)
   }
@@ -170,14 +458,40 @@ export default function AgendaPage() {
             Gerencie seus compromissos e prazos
           </p>
         </div>
-        <Protected section="agenda" action="create">
-          <Button onClick={handleNewEvent}>
-            <Plus className="mr-2 h-4 w-4" />
-            Novo Evento
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => setFeedDialogOpen(true)}>
+            <Rss className="mr-2 h-4 w-4" />
+            Assinar agenda
           </Button>
-        </Protected>
+          <Protected section="agenda" action="create">
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".ics,text/calendar"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                if (file) handleImportFile(file)
+              }}
+            />
+            <Button
+              variant="outline"
+              onClick={() => importInputRef.current?.click()}
+              disabled={importing}
+            >
+              <Upload className="mr-2 h-4 w-4" />
+              {importing ? "Importando..." : "Importar .ics"}
+            </Button>
+            <Button onClick={handleNewEvent}>
+              <Plus className="mr-2 h-4 w-4" />
+              Novo Evento
+            </Button>
+          </Protected>
+        </div>
       </div>
 
+      <CalendarFeedDialog open={feedDialogOpen} onOpenChange={setFeedDialogOpen} />
+
       <ConfirmDialog
         open={deleteConfirmOpen}
         onOpenChange={setDeleteConfirmOpen}
@@ -189,6 +503,15 @@ export default function AgendaPage() {
         variant="destructive"
       />
 
+      <RecurrenceScopeDialog
+        open={pendingRecurring !== null}
+        onOpenChange={(open) => {
+          if (!open) setPendingRecurring(null)
+        }}
+        onSelect={handleRecurringScope}
+        action={pendingRecurring?.kind === "delete" ? "delete" : "edit"}
+      />
+
       <EventFormDialog
         open={isDialogOpen}
         onOpenChange={(open) => {
@@ -203,21 +526,93 @@ export default function AgendaPage() {
                 description: editingEvent.description,
                 date: editingEvent.date.toISOString().split("T")[0],
                 time: editingEvent.time,
+                endTime: editingEvent.endTime,
                 location: editingEvent.location,
                 type: editingEvent.type,
-                users: editingEvent.users ?? [],
+                users: toUsers(editingEvent.participants),
+                externalParticipants: editingEvent.externalParticipants ?? [],
                 client: editingEvent.client,
+                reminders: editingEvent.reminders ?? [],
+                recurrence: editingEvent.recurrence ?? null,
               }
             : date
             ? {
-                date: date.toISOString().split("T")[0],
-                time: "10:00",
+                date: toISODate(date),
+                time: newEventTime,
               }
             : undefined
         }
         mode={editingEvent ? "edit" : "create"}
+        eventId={editingEvent?.id}
       />
 
+      <div className="flex flex-wrap items-center gap-3">
+        <Tabs value={view} onValueChange={(value) => setView(value as AgendaView)}>
+          <TabsList>
+            <TabsTrigger value="day">Dia</TabsTrigger>
+            <TabsTrigger value="week">Semana</TabsTrigger>
+            <TabsTrigger value="month">Mês</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        <Select value={filters.type ?? ALL} onValueChange={(value) => updateFilter("type", value)}>
+          <SelectTrigger className="w-[150px]">
+            <SelectValue placeholder="Tipo" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>Todos os tipos</SelectItem>
+            <SelectItem value="meeting">Reunião</SelectItem>
+            <SelectItem value="deadline">Prazo</SelectItem>
+            <SelectItem value="visit">Visita</SelectItem>
+          </SelectContent>
+        </Select>
+
+        <Select value={filters.clientId ?? ALL} onValueChange={(value) => updateFilter("clientId", value)}>
+          <SelectTrigger className="w-[200px]">
+            <SelectValue placeholder="Cliente" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>Todos os clientes</SelectItem>
+            {clientOptions.map((client) => (
+              <SelectItem key={client.id} value={client.id}>
+                {client.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select value={filters.projectId ?? ALL} onValueChange={(value) => updateFilter("projectId", value)}>
+          <SelectTrigger className="w-[200px]">
+            <SelectValue placeholder="Projeto" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>Todos os projetos</SelectItem>
+            {projectOptions.map((project) => (
+              <SelectItem key={project.id} value={project.id}>
+                {project.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select
+          value={filters.participantId ?? ALL}
+          onValueChange={(value) => updateFilter("participantId", value)}
+        >
+          <SelectTrigger className="w-[200px]">
+            <SelectValue placeholder="Participante" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>Todos os participantes</SelectItem>
+            {userOptions.map((user) => (
+              <SelectItem key={user.id} value={user.id}>
+                {user.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
       <div className="grid gap-6 md:grid-cols-[350px_1fr]">
         <Card>
           <CardHeader>
@@ -237,8 +632,8 @@ export default function AgendaPage() {
         <Card>
           <CardHeader>
             <CardTitle>
-              Eventos do Dia
-              {date && (
+              {view === "week" ? "Eventos da Semana" : view === "month" ? "Eventos do Mês" : "Eventos do Dia"}
+              {date && view === "day" && (
                 <span className="ml-2 text-sm font-normal text-muted-foreground">
                   {date.toLocaleDateString("pt-BR", {
                     weekday: "long",
@@ -251,10 +646,29 @@ export default function AgendaPage() {
             </CardTitle>
             <CardDescription>
               {todayEvents.length} eventos agendados
+              {view !== "day" && hasPermission("agenda", "edit") && " · arraste um evento para reagendá-lo"}
             </CardDescription>
           </CardHeader>
           <CardContent>
-            {todayEvents.length === 0 ? (
+            {view === "week" ? (
+              <EventWeekView
+                referenceDate={date ?? new Date()}
+                events={todayEvents}
+                canEdit={hasPermission("agenda", "edit")}
+                onEventClick={handleEditEvent}
+                onEventMove={handleMoveEvent}
+                onSlotClick={handleSlotClick}
+              />
+            ) : view === "month" ? (
+              <EventMonthView
+                referenceDate={date ?? new Date()}
+                events={todayEvents}
+                canEdit={hasPermission("agenda", "edit")}
+                onEventClick={handleEditEvent}
+                onEventMove={handleMoveEvent}
+                onSlotClick={handleSlotClick}
+              />
+            ) : todayEvents.length === 0 ? (
               <div className="flex h-[400px] items-center justify-center rounded-lg border border-dashed">
                 <div className="text-center">
                   <p className="text-sm text-muted-foreground">
@@ -269,7 +683,7 @@ export default function AgendaPage() {
               <div className="space-y-4">
                 {todayEvents.map((event) => (
                   <Card
-                    key={event.id}
+                    key={`${event.id}:${event.occurrenceDate}`}
                     className="cursor-pointer transition-colors hover:bg-accent/50"
                     onClick={() => handleEditEvent(event)}
                   >
@@ -292,7 +706,7 @@ export default function AgendaPage() {
                               className="h-8 w-8"
                               onClick={(e) => {
                                 e.stopPropagation()
-                                handleDeleteEvent(event.id)
+                                handleDeleteEvent(event)
                               }}
                             >
                               <Trash2 className="h-4 w-4" />
@@ -306,20 +720,37 @@ export default function AgendaPage() {
                         <div className="flex flex-col gap-2 text-sm text-muted-foreground">
                           <div className="flex items-center gap-2">
                             <Clock className="h-4 w-4" />
-                            {event.time}
+                            {event.time} – {event.endTime}
                           </div>
                           <div className="flex items-center gap-2">
                             <MapPin className="h-4 w-4" />
                             {event.location}
                           </div>
+                          {event.recurrence && (
+                            <div className="flex items-center gap-2">
+                              <Repeat className="h-4 w-4" />
+                              {describeRecurrence(event.recurrence)}
+                            </div>
+                          )}
                         </div>
-                        {event.users && event.users.length > 0 && (
+                        {((event.participants?.length ?? 0) > 0 ||
+                          (event.externalParticipants?.length ?? 0) > 0) && (
                           <div className="flex flex-wrap gap-1">
-                            {event.users.map((user) => (
+                            {toUsers(event.participants).map((user) => (
                               <Badge key={user.id} variant="secondary" className="text-xs">
                                 {user.name}
                               </Badge>
                             ))}
+                            {(event.externalParticipants ?? []).map((participant) => (
+                              <Badge
+                                key={participant.email}
+                                variant="outline"
+                                className="text-xs"
+                                title={participant.email}
+                              >
+                                {participant.name || participant.email}
+                              </Badge>
+                            ))}
                           </div>
                         )}
                         {event.client && (
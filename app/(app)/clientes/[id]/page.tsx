@@ -57,6 +57,9 @@ import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
 import { AppMainBleed } from "@/components/app-main-bleed";
 import { Protected } from "@/components/protected";
+import { ClientContactsSection } from "@/components/clientes/client-contacts";
+import { ClientDealsSection } from "@/components/pipeline/client-deals";
+import { ClientProposalsSection } from "@/components/proposals/client-proposals";
 import { usePermissions } from "@/contexts/permission-context";
 import type { Client, ClientCrmDetail, ClientCrmProject } from "@/lib/types";
 import {
@@ -64,6 +67,7 @@ import {
   getClientCrmDetail,
   updateClientRecord,
 } from "@/lib/data/clients";
+import { getDocumentError } from "@/lib/utils/document";
 
 // ── Helpers ────────────────────────────────────────────────────────────────
 
@@ -218,6 +222,7 @@ export default function ClienteDetailPage() {
   const [editDocument, setEditDocument] = useState("");
   const [editAddress, setEditAddress] = useState("");
   const [editNotes, setEditNotes] = useState("");
+  const [editDocumentBlurred, setEditDocumentBlurred] = useState(false);
 
   useEffect(() => {
     async function load() {
@@ -265,11 +270,18 @@ export default function ClienteDetailPage() {
     setEditDocument(formatDocument(client.document ?? ""));
     setEditAddress(client.address ?? "");
     setEditNotes(client.notes ?? "");
+    setEditDocumentBlurred(false);
     setEditOpen(true);
   }
 
   async function handleSaveEdit() {
     if (!client) return;
+    const documentError = getDocumentError(editDocument);
+    if (documentError) {
+      setEditDocumentBlurred(true);
+      toast({ title: "Documento inválido", description: documentError, variant: "destructive" });
+      return;
+    }
     const { error } = await updateClientRecord(client.id, {
       name: editName,
       email: editEmail,
@@ -299,6 +311,8 @@ export default function ClienteDetailPage() {
     setEditOpen(false);
   }
 
+  const editDocumentError = editDocumentBlurred ? getDocumentError(editDocument) : null;
+
   // ── Loading / error states ───────────────────────────────────────────────
   if (loading) {
     return (
@@ -407,6 +421,21 @@ export default function ClienteDetailPage() {
 
       <Separator />
 
+      {/* ── Contacts ── */}
+      <ClientContactsSection clientId={client.id} />
+
+      <Separator />
+
+      {/* ── Deals ── */}
+      <ClientDealsSection clientId={client.id} />
+
+      <Separator />
+
+      {/* ── Proposals ── */}
+      <ClientProposalsSection clientId={client.id} />
+
+      <Separator />
+
       {/* ── Period selector + KPI cards ── */}
       <div className="space-y-4">
         <div className="flex items-center justify-between gap-4 flex-wrap">
@@ -575,9 +604,15 @@ export default function ClienteDetailPage() {
                 <Input
                   id="edit_document"
                   value={editDocument}
-                  onChange={(e) => setEditDocument(formatDocument(e.target.value))}
+                  onChange={(e) => {
+                    setEditDocument(formatDocument(e.target.value));
+                    setEditDocumentBlurred(false);
+                  }}
+                  onBlur={() => setEditDocumentBlurred(true)}
                   inputMode="numeric"
+                  aria-invalid={!!editDocumentError}
                 />
+                {editDocumentError && <p className="text-xs text-destructive">{editDocumentError}</p>}
               </div>
               <div className="grid gap-2">
                 <Label htmlFor="edit_phone">Telefone</Label>
@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useRef } from "react"
 import Link from "next/link"
 import { useRouter } from "next/navigation"
 import { Button } from "@/components/ui/button"
@@ -27,7 +27,7 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table"
-import { Plus, Search, Edit, Trash2, Eye, Loader2 } from "lucide-react"
+import { Plus, Search, Edit, Trash2, Eye, Loader2, Upload, Download } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
 import type { Client, ClientListMetrics } from "@/lib/types"
 import {
@@ -36,9 +36,19 @@ import {
   updateClientRecord,
   deleteClientRecord,
   getClientsListMetrics,
+  lookupCompanyByCnpj,
 } from "@/lib/data/clients"
+import { getDocumentError, isValidCnpj } from "@/lib/utils/document"
 import { ConfirmDialog } from "@/components/ui/confirm-dialog"
 import { AppMainBleed } from "@/components/app-main-bleed"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { ClientImportDialog } from "@/components/clientes/client-import-dialog"
+import { exportClientsSpreadsheet, type ClientExportFormat } from "@/lib/utils/client-spreadsheet"
 
 const sanitizeDigits = (value: string) => value.replace(/\D/g, "")
 
@@ -110,6 +120,9 @@ export default function ClientesPage() {
   const [newEmail, setNewEmail] = useState("")
   const [newPhone, setNewPhone] = useState("")
   const [newAddress, setNewAddress] = useState("")
+  const [newDocumentBlurred, setNewDocumentBlurred] = useState(false)
+  const [companyLookupLoading, setCompanyLookupLoading] = useState(false)
+  const lastLookedUpCnpjRef = useRef<string | null>(null)
   const [createAddressSuggestions, setCreateAddressSuggestions] = useState<AddressSuggestion[]>([])
   const [createAddressLoading, setCreateAddressLoading] = useState(false)
 
@@ -121,9 +134,12 @@ export default function ClientesPage() {
   const [editEmail, setEditEmail] = useState("")
   const [editPhone, setEditPhone] = useState("")
   const [editAddress, setEditAddress] = useState("")
+  const [editDocumentBlurred, setEditDocumentBlurred] = useState(false)
   const [editAddressSuggestions, setEditAddressSuggestions] = useState<AddressSuggestion[]>([])
   const [editAddressLoading, setEditAddressLoading] = useState(false)
 
+  const [importOpen, setImportOpen] = useState(false)
+
   // Delete confirmation state
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false)
   const [clientToDelete, setClientToDelete] = useState<Client | null>(null)
@@ -163,6 +179,16 @@ export default function ClientesPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [searchTerm])
 
+  // Exporta a lista como está na tela (já filtrada pela busca)
+  function handleExport(format: ClientExportFormat) {
+    try {
+      exportClientsSpreadsheet(clients, metrics, format)
+    } catch (err) {
+      console.error("Erro ao exportar clientes:", err)
+      toast({ title: "Erro ao exportar clientes", variant: "destructive" })
+    }
+  }
+
   useEffect(() => {
     if (!createOpen) {
       setCreateAddressSuggestions([])
@@ -277,9 +303,61 @@ export default function ClientesPage() {
     }
   }, [editAddress, editOpen, mapboxAccessToken])
 
+  // Ao completar um CNPJ válido no cadastro, busca os dados da empresa e preenche os campos vazios
+  useEffect(() => {
+    const digits = sanitizeDigits(newDocument)
+    if (!createOpen || !isValidCnpj(digits) || lastLookedUpCnpjRef.current === digits) return
+    lastLookedUpCnpjRef.current = digits
+
+    let cancelled = false
+    let settled = false
+    setCompanyLookupLoading(true)
+    lookupCompanyByCnpj(digits)
+      .then(({ data, error }) => {
+        settled = true
+        if (cancelled) return
+        if (error || !data) {
+          toast({ title: "CNPJ não consultado", description: error ?? "Preencha os dados manualmente." })
+          return
+        }
+        setNewName((prev) => prev || data.name)
+        setNewAddress((prev) => prev || data.address || "")
+        setNewEmail((prev) => prev || data.email || "")
+        setNewPhone((prev) => prev || formatPhone(data.phone ?? ""))
+        toast({ title: "Dados da empresa preenchidos", description: data.tradeName ?? data.name })
+      })
+      .finally(() => {
+        if (!cancelled) setCompanyLookupLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+      // Consulta interrompida: permite repetir ao digitar o mesmo CNPJ de novo
+      if (!settled) lastLookedUpCnpjRef.current = null
+      setCompanyLookupLoading(false)
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [newDocument, createOpen])
+
+  useEffect(() => {
+    if (!createOpen) {
+      lastLookedUpCnpjRef.current = null
+      setNewDocumentBlurred(false)
+    }
+  }, [createOpen])
+
+  const newDocumentError = newDocumentBlurred ? getDocumentError(newDocument) : null
+  const editDocumentError = editDocumentBlurred ? getDocumentError(editDocument) : null
+
   const filteredClients = clients
 
   async function handleCreateClient() {
+    const documentError = getDocumentError(newDocument)
+    if (documentError) {
+      setNewDocumentBlurred(true)
+      toast({ title: "Documento inválido", description: documentError, variant: "destructive" })
+      return
+    }
     const documentDigits = sanitizeDigits(newDocument)
     const phoneDigits = sanitizeDigits(newPhone)
     const { error } = await createClientRecord({
@@ -312,11 +390,18 @@ export default function ClientesPage() {
     setEditPhone(formatPhone(client.phone ?? ""))
     setEditAddress(client.address)
     setEditAddressSuggestions([])
+    setEditDocumentBlurred(false)
     setEditOpen(true)
   }
 
   async function handleUpdateClient() {
     if (!editingClient) return
+    const documentError = getDocumentError(editDocument)
+    if (documentError) {
+      setEditDocumentBlurred(true)
+      toast({ title: "Documento inválido", description: documentError, variant: "destructive" })
+      return
+    }
     const documentDigits = sanitizeDigits(editDocument)
     const phoneDigits = sanitizeDigits(editPhone)
     const { error } = await updateClientRecord(editingClient.id, {
@@ -366,95 +451,129 @@ export default function ClientesPage() {
             Gerencie seus clientes cadastrados
           </p>
         </div>
-        <Protected section="clientes" action="create">
-          <Dialog open={createOpen} onOpenChange={setCreateOpen}>
-            <DialogTrigger asChild>
-              <Button>
-                <Plus className="mr-2 h-4 w-4" />
-                Novo Cliente
+        <div className="flex items-center gap-2">
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" disabled={loading || clients.length === 0}>
+                <Download className="mr-2 h-4 w-4" />
+                Exportar
               </Button>
-            </DialogTrigger>
-          <DialogContent className="sm:max-w-[600px]">
-            <DialogHeader>
-              <DialogTitle>Novo Cliente</DialogTitle>
-              <DialogDescription>
-                Preencha os dados do novo cliente
-              </DialogDescription>
-            </DialogHeader>
-            <div className="grid gap-4 py-4">
-              <div className="grid gap-2">
-                <Label htmlFor="name">Nome / Razão Social</Label>
-                <Input id="name" placeholder="Nome do cliente" value={newName} onChange={(e) => setNewName(e.target.value)} />
-              </div>
-              <div className="grid grid-cols-2 gap-4">
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => handleExport("csv")}>CSV</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExport("xlsx")}>Excel (XLSX)</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Protected section="clientes" action="create">
+            <Button variant="outline" onClick={() => setImportOpen(true)}>
+              <Upload className="mr-2 h-4 w-4" />
+              Importar
+            </Button>
+            <ClientImportDialog open={importOpen} onOpenChange={setImportOpen} onImported={fetchClients} />
+          </Protected>
+          <Protected section="clientes" action="create">
+            <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+              <DialogTrigger asChild>
+                <Button>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Novo Cliente
+                </Button>
+              </DialogTrigger>
+            <DialogContent className="sm:max-w-[600px]">
+              <DialogHeader>
+                <DialogTitle>Novo Cliente</DialogTitle>
+                <DialogDescription>
+                  Preencha os dados do novo cliente
+                </DialogDescription>
+              </DialogHeader>
+              <div className="grid gap-4 py-4">
                 <div className="grid gap-2">
-                  <Label htmlFor="document">CNPJ / CPF</Label>
-                  <Input
-                    id="document"
-                    placeholder="00.000.000/0000-00"
-                    value={newDocument}
-                    onChange={(e) => setNewDocument(formatDocument(e.target.value))}
-                    inputMode="numeric"
-                  />
+                  <Label htmlFor="name">Nome / Razão Social</Label>
+                  <Input id="name" placeholder="Nome do cliente" value={newName} onChange={(e) => setNewName(e.target.value)} />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="grid gap-2">
+                    <Label htmlFor="document">CNPJ / CPF</Label>
+                    <Input
+                      id="document"
+                      placeholder="00.000.000/0000-00"
+                      value={newDocument}
+                      onChange={(e) => {
+                        setNewDocument(formatDocument(e.target.value))
+                        setNewDocumentBlurred(false)
+                      }}
+                      onBlur={() => setNewDocumentBlurred(true)}
+                      inputMode="numeric"
+                      aria-invalid={!!newDocumentError}
+                    />
+                    {companyLookupLoading ? (
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                        <Loader2 className="h-3 w-3 animate-spin" />
+                        Consultando CNPJ...
+                      </div>
+                    ) : newDocumentError ? (
+                      <p className="text-xs text-destructive">{newDocumentError}</p>
+                    ) : null}
+                  </div>
+                  <div className="grid gap-2">
+                    <Label htmlFor="phone">Telefone</Label>
+                    <Input
+                      id="phone"
+                      placeholder="(00) 00000-0000"
+                      value={newPhone}
+                      onChange={(e) => setNewPhone(formatPhone(e.target.value))}
+                      inputMode="tel"
+                    />
+                  </div>
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="email">Email</Label>
+                  <Input id="email" type="email" placeholder="email@exemplo.com" value={newEmail} onChange={(e) => setNewEmail(e.target.value)} />
                 </div>
                 <div className="grid gap-2">
-                  <Label htmlFor="phone">Telefone</Label>
+                  <Label htmlFor="address">Endereço</Label>
                   <Input
-                    id="phone"
-                    placeholder="(00) 00000-0000"
-                    value={newPhone}
-                    onChange={(e) => setNewPhone(formatPhone(e.target.value))}
-                    inputMode="tel"
+                    id="address"
+                    placeholder="Endereço completo"
+                    value={newAddress}
+                    onChange={(e) => setNewAddress(e.target.value)}
+                    autoComplete="off"
                   />
+                  {createAddressLoading && (
+                    <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                      <Loader2 className="h-3 w-3 animate-spin" />
+                      Buscando sugestões...
+                    </div>
+                  )}
+                  {createAddressSuggestions.length > 0 && (
+                    <div className="max-h-48 overflow-y-auto rounded-md border bg-popover text-popover-foreground shadow">
+                      {createAddressSuggestions.map((suggestion) => (
+                        <button
+                          key={suggestion.id}
+                          type="button"
+                          className="w-full px-3 py-2 text-left text-sm hover:bg-accent"
+                          onClick={() => {
+                            setNewAddress(suggestion.full)
+                            setCreateAddressSuggestions([])
+                          }}
+                        >
+                          <div className="font-medium">{suggestion.label}</div>
+                          {suggestion.description && (
+                            <div className="text-xs text-muted-foreground">{suggestion.description}</div>
+                          )}
+                        </button>
+                      ))}
+                    </div>
+                  )}
                 </div>
               </div>
-              <div className="grid gap-2">
-                <Label htmlFor="email">Email</Label>
-                <Input id="email" type="email" placeholder="email@exemplo.com" value={newEmail} onChange={(e) => setNewEmail(e.target.value)} />
-              </div>
-              <div className="grid gap-2">
-                <Label htmlFor="address">Endereço</Label>
-                <Input
-                  id="address"
-                  placeholder="Endereço completo"
-                  value={newAddress}
-                  onChange={(e) => setNewAddress(e.target.value)}
-                  autoComplete="off"
-                />
-                {createAddressLoading && (
-                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
-                    <Loader2 className="h-3 w-3 animate-spin" />
-                    Buscando sugestões...
-                  </div>
-                )}
-                {createAddressSuggestions.length > 0 && (
-                  <div className="max-h-48 overflow-y-auto rounded-md border bg-popover text-popover-foreground shadow">
-                    {createAddressSuggestions.map((suggestion) => (
-                      <button
-                        key={suggestion.id}
-                        type="button"
-                        className="w-full px-3 py-2 text-left text-sm hover:bg-accent"
-                        onClick={() => {
-                          setNewAddress(suggestion.full)
-                          setCreateAddressSuggestions([])
-                        }}
-                      >
-                        <div className="font-medium">{suggestion.label}</div>
-                        {suggestion.description && (
-                          <div className="text-xs text-muted-foreground">{suggestion.description}</div>
-                        )}
-                      </button>
-                    ))}
-                  </div>
-                )}
-              </div>
-            </div>
-            <DialogFooter>
-              <Button type="button" onClick={handleCreateClient}>Salvar Cliente</Button>
-            </DialogFooter>
-          </DialogContent>
-        </Dialog>
-        </Protected>
+              <DialogFooter>
+                <Button type="button" onClick={handleCreateClient}>Salvar Cliente</Button>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
+          </Protected>
+        </div>
       </div>
 
       <Card>
@@ -547,9 +666,15 @@ export default function ClientesPage() {
                 <Input
                   id="edit_document"
                   value={editDocument}
-                  onChange={(e) => setEditDocument(formatDocument(e.target.value))}
+                  onChange={(e) => {
+                    setEditDocument(formatDocument(e.target.value))
+                    setEditDocumentBlurred(false)
+                  }}
+                  onBlur={() => setEditDocumentBlurred(true)}
                   inputMode="numeric"
+                  aria-invalid={!!editDocumentError}
                 />
+                {editDocumentError && <p className="text-xs text-destructive">{editDocumentError}</p>}
               </div>
               <div className="grid gap-2">
                 <Label htmlFor="edit_phone">Telefone</Label>
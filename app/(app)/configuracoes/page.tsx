@@ -4,7 +4,7 @@ import { useCallback, useEffect, useState } from "react"
 import Link from "next/link"
 import { Plus, Pencil, Trash2, GripVertical, Users, User,
   Settings2, ChevronRight, Shield, CircleDot, Palette,
-  Moon, Sun,
+  Moon, Sun, Bell,
 } from "lucide-react"
 import { Label } from "@/components/ui/label"
 import { Input } from "@/components/ui/input"
@@ -28,6 +28,12 @@ import {
   deleteProjectStatus,
   type ProjectStatus,
 } from "@/lib/data/project-statuses"
+import {
+  listNotificationPreferences,
+  setNotificationPreference,
+  type NotificationPreference,
+} from "@/lib/data/notifications"
+import { NOTIFICATION_TYPES } from "@/lib/utils/notifications"
 import { useToast } from "@/hooks/use-toast"
 import { AppMainBleed } from "@/components/app-main-bleed"
 import { createClient } from "@/lib/supabase/client"
@@ -42,7 +48,7 @@ interface UserProfile {
   group_name: string | null
 }
 
-type Section = "perfil" | "status" | "administracao"
+type Section = "perfil" | "notificacoes" | "status" | "administracao"
 
 interface NavItem {
   id: Section
@@ -59,6 +65,12 @@ const NAV_ITEMS: NavItem[] = [
     icon: User,
     description: "Nome, email e grupo",
   },
+  {
+    id: "notificacoes",
+    label: "Notificações",
+    icon: Bell,
+    description: "O que você recebe no app e por email",
+  },
   {
     id: "status",
     label: "Status de Projetos",
@@ -79,6 +91,14 @@ export default function ConfiguracoesPage() {
   const { hasPermission, currentUser } = usePermissions()
   const [activeSection, setActiveSection] = useState<Section>("perfil")
 
+  // Atalho vindo do sino de notificações: /configuracoes?secao=notificacoes
+  useEffect(() => {
+    const section = new URLSearchParams(window.location.search).get("secao")
+    if (NAV_ITEMS.some((item) => item.id === section && !item.adminOnly)) {
+      setActiveSection(section as Section)
+    }
+  }, [])
+
   // Status
   const [statuses, setStatuses] = useState<ProjectStatus[]>([])
   const [loading, setLoading] = useState(true)
@@ -271,6 +291,8 @@ export default function ConfiguracoesPage() {
             />
           )}
 
+          {activeSection === "notificacoes" && <SectionNotificacoes />}
+
           {activeSection === "status" && (
             <SectionStatus
               statuses={statuses}
@@ -492,6 +514,91 @@ function SectionPerfil({
   )
 }
 
+/* ─── Section: Notificações ──────────────────────────────────────────────── */
+
+function SectionNotificacoes() {
+  const { toast } = useToast()
+  const [preferences, setPreferences] = useState<NotificationPreference[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    ;(async () => {
+      try {
+        setPreferences(await listNotificationPreferences())
+      } catch (error) {
+        console.error("Erro ao carregar preferências de notificação:", error)
+      } finally {
+        setLoading(false)
+      }
+    })()
+  }, [])
+
+  const handleChange = async (next: NotificationPreference) => {
+    const previous = preferences
+    setPreferences((prev) => prev.map((p) => (p.type === next.type ? next : p)))
+    try {
+      await setNotificationPreference(next)
+    } catch (error) {
+      console.error("Erro ao salvar preferência de notificação:", error)
+      setPreferences(previous)
+      toast({ title: "Erro", description: "Não foi possível salvar a preferência", variant: "destructive" })
+    }
+  }
+
+  return (
+    <div className="w-full space-y-6">
+      <div>
+        <h2 className="text-base font-semibold">Notificações</h2>
+        <p className="text-sm text-muted-foreground mt-0.5">
+          Escolha, por tipo, se quer ser avisado no app e por email
+        </p>
+      </div>
+
+      {loading ? (
+        <div className="space-y-2">
+          {[1, 2, 3].map(i => (
+            <div key={i} className="h-14 rounded-lg bg-muted animate-pulse" />
+          ))}
+        </div>
+      ) : (
+        <div className="rounded-lg border overflow-hidden divide-y divide-border">
+          <div className="flex items-center gap-3 px-4 py-2 bg-muted/40 text-xs font-medium text-muted-foreground">
+            <span className="flex-1">Tipo</span>
+            <span className="w-14 text-center">No app</span>
+            <span className="w-14 text-center">Email</span>
+          </div>
+          {NOTIFICATION_TYPES.map((type) => {
+            const preference = preferences.find((p) => p.type === type.value)
+            if (!preference) return null
+            return (
+              <div key={type.value} className="flex items-center gap-3 px-4 py-3 bg-card">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium">{type.label}</p>
+                  <p className="text-xs text-muted-foreground truncate mt-0.5">{type.description}</p>
+                </div>
+                <div className="w-14 flex justify-center">
+                  <Switch
+                    checked={preference.inApp}
+                    onCheckedChange={(checked) => handleChange({ ...preference, inApp: checked })}
+                    aria-label={`${type.label} no app`}
+                  />
+                </div>
+                <div className="w-14 flex justify-center">
+                  <Switch
+                    checked={preference.email}
+                    onCheckedChange={(checked) => handleChange({ ...preference, email: checked })}
+                    aria-label={`${type.label} por email`}
+                  />
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
+
 /* ─── Section: Status de Projetos ────────────────────────────────────────── */
 
 function SectionStatus({
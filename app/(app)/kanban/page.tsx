@@ -1,6 +1,7 @@
 "use client"
 
-import { useState, useEffect, useRef, type ReactNode } from "react"
+import { Suspense, useState, useEffect, useCallback, useMemo, useRef, type ReactNode } from "react"
+import { useRouter, useSearchParams } from "next/navigation"
 import {
   DndContext,
   DragEndEvent,
@@ -19,14 +20,63 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
-import { Plus, Calendar, User, Trash2, Check, X, GripVertical, FolderKanban } from "lucide-react"
+import {
+  Plus,
+  Calendar,
+  User,
+  Trash2,
+  Check,
+  X,
+  GripVertical,
+  FolderKanban,
+  Lock,
+  ListTree,
+  CornerDownRight,
+  Loader2,
+  Rows3,
+  Repeat,
+  LayoutGrid,
+  List,
+  Timer,
+} from "lucide-react"
+import { Progress } from "@/components/ui/progress"
+import { Checkbox } from "@/components/ui/checkbox"
 import { ConfirmDialog } from "@/components/ui/confirm-dialog"
 import { TaskModal } from "@/components/kanban/task-modal"
+import { SavedFiltersMenu } from "@/components/kanban/saved-filters-menu"
+import { ColumnLoadBadge } from "@/components/kanban/column-load-badge"
+import { BulkTaskActions } from "@/components/kanban/bulk-task-actions"
+import { TaskListView } from "@/components/kanban/task-list-view"
+import { TaskFilterDialog } from "@/components/project/task-filter-dialog"
 import { Protected } from "@/components/protected"
 import { usePermissions } from "@/contexts/permission-context"
-import { listTasks, moveTask, updateTask, createTask, deleteTask } from "@/lib/data/tasks"
+import { useRealtimeChanges } from "@/hooks/use-realtime-changes"
+import {
+  listTasks,
+  moveTask,
+  updateTask,
+  createTask,
+  deleteTask,
+  bulkUpdateTasks,
+  listProfiles,
+  DONE_STATUS,
+  TASK_PRIORITIES,
+  type KanbanTask,
+  type Profile,
+  type TaskFilters,
+  type TaskPriority,
+  type MoveTaskOptions,
+  type BulkTaskOperation,
+} from "@/lib/data/tasks"
+import {
+  hasActiveTaskFilters,
+  taskFiltersFromSearchParams,
+  taskFiltersToSearchParams,
+} from "@/lib/data/task-filters"
+import { ColumnWipLimitError, TaskBlockedError } from "@/lib/types"
 import {
   listKanbanColumns,
+  listKanbanColumnsWithFallback,
   createKanbanColumn,
   updateKanbanColumn,
   deleteKanbanColumn,
@@ -36,6 +86,16 @@ import { listProjects, type ProjectListItem } from "@/lib/data/projects"
 import { ProjectTag } from "@/components/ui/project-tag"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { useToast } from "@/hooks/use-toast"
+import { createClient } from "@/lib/supabase/client"
+
+// Última visualização usada (query string do /kanban)
+const FILTERS_STORAGE_KEY = "kanban-filters"
+// Chave antiga que guardava apenas o projeto selecionado
+const LEGACY_PROJECT_FILTER_KEY = "kanban-project-filter"
+const SWIMLANES_STORAGE_KEY = "kanban-swimlanes"
+const VIEW_STORAGE_KEY = "kanban-view"
+
+type BoardView = "board" | "list"
 
 type Task = {
   id: string
@@ -46,6 +106,11 @@ type Task = {
   assignee: string
   assigneeId?: string | null
   labels?: string[]
+  priority?: TaskPriority
+  blockedBy?: string[]
+  parentTask?: { id: string; title: string } | null
+  subtasks?: { total: number; completed: number }
+  recurring?: boolean
   project?: {
     id: string
     name: string
@@ -57,14 +122,100 @@ type Task = {
   comments?: { id: string; author: string; text: string; date: string }[]
 }
 
+function toBoardTask(t: KanbanTask): Task {
+  return {
+    id: t.id,
+    title: t.title,
+    description: t.description ?? null,
+    status: t.status,
+    deadline: t.deadline ?? null,
+    assignee: t.assignee ?? "",
+    assigneeId: t.assigneeId ?? null,
+    labels: t.labels ?? [],
+    priority: t.priority,
+    blockedBy: t.blockedBy ?? [],
+    parentTask: t.parentTask ?? null,
+    subtasks: t.subtasks,
+    recurring: !!t.recurrence,
+    project: t.project,
+  }
+}
+
 type Column = {
   id: string
   title: string
   color?: string
   statusKey: string
+  projectId: string | null // null = coluna global
+  wipLimit: number | null
+  inProgress: boolean
+}
+
+function toBoardColumn(col: KanbanColumn): Column {
+  return {
+    id: col.id,
+    title: col.name,
+    color: col.color,
+    statusKey: col.statusKey,
+    projectId: col.project_id,
+    wipLimit: col.wipLimit,
+    inProgress: col.inProgress,
+  }
+}
+
+// Raias do quadro: agrupam as mesmas colunas por projeto, responsável ou prioridade
+type Swimlane = "none" | "project" | "assignee" | "priority"
+
+type Lane = {
+  key: string
+  title: string
+  color?: string | null
+}
+
+const SWIMLANE_OPTIONS: { value: Swimlane; label: string }[] = [
+  { value: "none", label: "Sem raias" },
+  { value: "project", label: "Raias por projeto" },
+  { value: "assignee", label: "Raias por responsável" },
+  { value: "priority", label: "Raias por prioridade" },
+]
+
+const NO_LANE = "none"
+const LANE_CELL_PREFIX = "lane:"
+
+// Área de soltura de uma coluna dentro de uma raia: "lane:{laneKey}:{columnId}"
+function laneCellId(laneKey: string, columnId: string): string {
+  return `${LANE_CELL_PREFIX}${laneKey}:${columnId}`
+}
+
+function parseDropTarget(id: string): { columnId: string; laneKey: string | null } {
+  if (!id.startsWith(LANE_CELL_PREFIX)) return { columnId: id, laneKey: null }
+  const rest = id.slice(LANE_CELL_PREFIX.length)
+  const separator = rest.lastIndexOf(":")
+  return { laneKey: rest.slice(0, separator), columnId: rest.slice(separator + 1) }
+}
+
+function getTaskLaneKey(task: Task, swimlane: Swimlane): string {
+  switch (swimlane) {
+    case "project":
+      return task.project?.id ?? NO_LANE
+    case "assignee":
+      return task.assigneeId ?? NO_LANE
+    case "priority":
+      return task.priority ?? "medium"
+    default:
+      return NO_LANE
+  }
 }
 
-function ColumnDropZone({ columnId, children }: { columnId: string; children: ReactNode }) {
+function ColumnDropZone({
+  columnId,
+  compact,
+  children,
+}: {
+  columnId: string
+  compact?: boolean
+  children: ReactNode
+}) {
   const { isOver, setNodeRef } = useDroppable({
     id: columnId,
   })
@@ -72,14 +223,28 @@ function ColumnDropZone({ columnId, children }: { columnId: string; children: Re
   return (
     <div
       ref={setNodeRef}
-      className={`min-h-[200px] space-y-3 ${isOver ? "outline outline-2 outline-primary/40 rounded-md" : ""}`}
+      className={`${compact ? "min-h-[80px]" : "min-h-[200px]"} space-y-3 ${isOver ? "outline outline-2 outline-primary/40 rounded-md" : ""}`}
     >
       {children}
     </div>
   )
 }
 
-function TaskCard({ task, onClick }: { task: Task; onClick: () => void }) {
+function TaskCard({
+  task,
+  blocked,
+  selected,
+  selectionActive,
+  onClick,
+  onToggleSelect,
+}: {
+  task: Task
+  blocked?: boolean
+  selected?: boolean
+  selectionActive?: boolean // com alguma tarefa selecionada, o clique seleciona em vez de abrir
+  onClick: () => void
+  onToggleSelect?: () => void
+}) {
   const {
     attributes,
     listeners,
@@ -103,8 +268,14 @@ function TaskCard({ task, onClick }: { task: Task; onClick: () => void }) {
       style={style}
     >
       <Card
-        className="hover:border-primary transition-colors cursor-pointer"
-        onClick={onClick}
+        className={`group hover:border-primary transition-colors cursor-pointer ${selected ? "border-primary ring-1 ring-primary" : ""}`}
+        onClick={(e) => {
+          if (onToggleSelect && (selectionActive || e.metaKey || e.ctrlKey)) {
+            onToggleSelect()
+          } else {
+            onClick()
+          }
+        }}
       >
         <CardHeader className="p-4 pb-3">
           <div className="flex items-start gap-2">
@@ -119,6 +290,25 @@ function TaskCard({ task, onClick }: { task: Task; onClick: () => void }) {
             <div className="flex-1 min-w-0">
               <CardTitle className="text-sm font-medium leading-snug">{task.title}</CardTitle>
             </div>
+            {onToggleSelect && (
+              <Checkbox
+                checked={!!selected}
+                onClick={(e) => e.stopPropagation()}
+                onCheckedChange={onToggleSelect}
+                className={selected || selectionActive ? "" : "opacity-0 group-hover:opacity-100"}
+                aria-label={`Selecionar ${task.title}`}
+              />
+            )}
+            {task.recurring && (
+              <span title="Tarefa recorrente">
+                <Repeat className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+              </span>
+            )}
+            {blocked && (
+              <span title="Aguardando tarefas das quais depende">
+                <Lock className="h-4 w-4 flex-shrink-0 text-destructive" />
+              </span>
+            )}
           </div>
         </CardHeader>
         <CardContent className="p-4 pt-0 space-y-2">
@@ -133,6 +323,23 @@ function TaskCard({ task, onClick }: { task: Task; onClick: () => void }) {
             </div>
           )}
           <div className="pl-7 space-y-1.5">
+            {task.parentTask && (
+              <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                <CornerDownRight className="h-3 w-3 flex-shrink-0" />
+                <span className="truncate">{task.parentTask.title}</span>
+              </div>
+            )}
+            {!!task.subtasks?.total && (
+              <div className="space-y-1">
+                <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                  <ListTree className="h-3 w-3 flex-shrink-0" />
+                  <span>
+                    {task.subtasks.completed}/{task.subtasks.total} subtarefas
+                  </span>
+                </div>
+                <Progress value={(task.subtasks.completed / task.subtasks.total) * 100} className="h-1" />
+              </div>
+            )}
             {deadlineDisplay && (
               <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
                 <Calendar className="h-3 w-3 flex-shrink-0" />
@@ -152,7 +359,9 @@ function TaskCard({ task, onClick }: { task: Task; onClick: () => void }) {
   )
 }
 
-export default function TarefasPage() {
+function KanbanContent() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
   const { toast } = useToast()
   const { hasPermission } = usePermissions()
   const [columns, setColumns] = useState<Column[]>([])
@@ -160,15 +369,70 @@ export default function TarefasPage() {
   const [loadingColumns, setLoadingColumns] = useState(true)
   const [loadingTasks, setLoadingTasks] = useState(true)
   const [projects, setProjects] = useState<ProjectListItem[]>([])
-  const [selectedProjectId, setSelectedProjectId] = useState<string | null>(null)
+  const [profiles, setProfiles] = useState<Profile[]>([])
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null)
+  const [filtersReady, setFiltersReady] = useState(false)
+  const [swimlane, setSwimlane] = useState<Swimlane>("none")
+
+  // Os filtros ativos ficam na URL para que a visualização possa ser compartilhada
+  const filters = useMemo(() => taskFiltersFromSearchParams(searchParams), [searchParams])
+  const selectedProjectId = filters.projectId ?? null
+  // Tarefa aberta por link (ex.: notificação de menção): /kanban?task=<id>
+  const linkedTaskIdRef = useRef(searchParams.get("task"))
+
+  const applyFilters = useCallback(
+    (next: TaskFilters) => {
+      const query = taskFiltersToSearchParams(next).toString()
+      localStorage.setItem(FILTERS_STORAGE_KEY, query)
+      router.replace(query ? `/kanban?${query}` : "/kanban", { scroll: false })
+    },
+    [router]
+  )
+
+  // Sem filtros na URL, restaura a última visualização usada (exceto ao abrir uma tarefa por link)
+  useEffect(() => {
+    if (!hasActiveTaskFilters(filters) && !linkedTaskIdRef.current) {
+      const legacyProjectId = localStorage.getItem(LEGACY_PROJECT_FILTER_KEY)
+      const stored =
+        localStorage.getItem(FILTERS_STORAGE_KEY) ??
+        (legacyProjectId && legacyProjectId !== "all" ? `project=${legacyProjectId}` : "")
+      localStorage.removeItem(LEGACY_PROJECT_FILTER_KEY)
+
+      const restored = taskFiltersFromSearchParams(new URLSearchParams(stored))
+      if (hasActiveTaskFilters(restored)) applyFilters(restored)
+    }
+    setFiltersReady(true)
+
+    const storedView = localStorage.getItem(VIEW_STORAGE_KEY)
+    if (storedView === "board" || storedView === "list") setView(storedView)
+
+    const storedSwimlane = localStorage.getItem(SWIMLANES_STORAGE_KEY)
+    if (SWIMLANE_OPTIONS.some((option) => option.value === storedSwimlane)) {
+      setSwimlane(storedSwimlane as Swimlane)
+    }
+
+    createClient()
+      .auth.getUser()
+      .then(({ data }) => setCurrentUserId(data.user?.id ?? null))
+    listProfiles()
+      .then(setProfiles)
+      .catch((err) => console.error("Erro ao carregar usuários:", err))
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
   const columnRefs = useRef<Map<string, HTMLDivElement | null>>(new Map())
 
+  // Projeto com colunas próprias (ex.: criado a partir de um modelo) usa essas colunas
+  const fetchColumns = useCallback(
+    () => (selectedProjectId ? listKanbanColumnsWithFallback(selectedProjectId) : listKanbanColumns()),
+    [selectedProjectId]
+  )
+
   // Carregar colunas do Supabase
   useEffect(() => {
     (async () => {
       try {
         setLoadingColumns(true)
-        const data = await listKanbanColumns()
+        const data = await fetchColumns()
 
         // Se não houver colunas, criar as padrões
         if (data.length === 0) {
@@ -176,7 +440,7 @@ export default function TarefasPage() {
           const defaultColumns = [
             { name: "Backlog", color: "#6B7280" },
             { name: "A Fazer", color: "#3B82F6" },
-            { name: "Em Progresso", color: "#F59E0B" },
+            { name: "Em Progresso", color: "#F59E0B", is_in_progress: true },
             { name: "Revisão", color: "#8B5CF6" },
             { name: "Concluído", color: "#10B981" },
           ]
@@ -186,24 +450,10 @@ export default function TarefasPage() {
           }
 
           // Recarregar colunas
-          const newData = await listKanbanColumns()
-          setColumns(
-            newData.map((col) => ({
-              id: col.id,
-              title: col.name,
-              color: col.color,
-              statusKey: col.statusKey,
-            }))
-          )
+          const newData = await fetchColumns()
+          setColumns(newData.map(toBoardColumn))
         } else {
-          setColumns(
-            data.map((col) => ({
-              id: col.id,
-              title: col.name,
-              color: col.color,
-              statusKey: col.statusKey,
-            }))
-          )
+          setColumns(data.map(toBoardColumn))
         }
       } catch (err) {
         console.error("Erro ao carregar colunas:", err)
@@ -216,7 +466,7 @@ export default function TarefasPage() {
         setLoadingColumns(false)
       }
     })()
-  }, [toast])
+  }, [toast, fetchColumns])
 
   // Carregar projetos
   useEffect(() => {
@@ -224,12 +474,6 @@ export default function TarefasPage() {
       try {
         const data = await listProjects()
         setProjects(data)
-
-        // Restaurar filtro do localStorage
-        const savedFilter = localStorage.getItem("kanban-project-filter")
-        if (savedFilter && savedFilter !== "all") {
-          setSelectedProjectId(savedFilter)
-        }
       } catch (err) {
         console.error("Erro ao carregar projetos:", err)
       }
@@ -238,23 +482,13 @@ export default function TarefasPage() {
 
   // Carregar tarefas do Supabase
   useEffect(() => {
-    (async () => {
+    if (!filtersReady) return
+    let cancelled = false
+    ;(async () => {
       try {
         setLoadingTasks(true)
-        const data = await listTasks(selectedProjectId ? { projectId: selectedProjectId } : undefined)
-        setTasks(
-          data.map((t) => ({
-            id: t.id,
-            title: t.title,
-            description: t.description ?? null,
-            status: t.status,
-            deadline: t.deadline ?? null,
-            assignee: t.assignee ?? "",
-            assigneeId: t.assigneeId ?? null,
-            labels: t.labels ?? [],
-            project: t.project,
-          }))
-        )
+        const data = await listTasks(filters)
+        if (!cancelled) setTasks(data.map(toBoardTask))
       } catch (err) {
         console.error("Erro ao carregar tarefas:", err)
         toast({
@@ -263,10 +497,13 @@ export default function TarefasPage() {
           variant: "destructive",
         })
       } finally {
-        setLoadingTasks(false)
+        if (!cancelled) setLoadingTasks(false)
       }
     })()
-  }, [toast, selectedProjectId])
+    return () => {
+      cancelled = true
+    }
+  }, [toast, filters, filtersReady])
 
   const [activeId, setActiveId] = useState<string | null>(null)
   const [editingColumnId, setEditingColumnId] = useState<string | null>(null)
@@ -275,8 +512,54 @@ export default function TarefasPage() {
   const [columnToDelete, setColumnToDelete] = useState<string | null>(null)
   const [selectedTask, setSelectedTask] = useState<Task | null>(null)
   const [taskModalOpen, setTaskModalOpen] = useState(false)
+
+  // Abre a tarefa do link assim que as tarefas carregam e tira o parâmetro da URL
+  useEffect(() => {
+    const taskId = linkedTaskIdRef.current
+    if (!taskId || !filtersReady || loadingTasks) return
+    linkedTaskIdRef.current = null
+
+    const task = tasks.find((t) => t.id === taskId)
+    if (task) {
+      setSelectedTask(task)
+      setTaskModalOpen(true)
+    } else {
+      toast({
+        title: "Tarefa não encontrada",
+        description: "A tarefa pode ter sido excluída ou não corresponder aos filtros atuais.",
+        variant: "destructive",
+      })
+    }
+
+    const params = new URLSearchParams(searchParams.toString())
+    params.delete("task")
+    const query = params.toString()
+    router.replace(query ? `/kanban?${query}` : "/kanban", { scroll: false })
+  }, [filtersReady, loadingTasks, tasks, searchParams, router, toast])
   const [addingTaskToColumn, setAddingTaskToColumn] = useState<string | null>(null)
   const [newTaskTitle, setNewTaskTitle] = useState("")
+  const [blockedMove, setBlockedMove] = useState<{
+    task: Task
+    column: Column
+    laneKey: string | null
+    blockers: TaskBlockedError["blockers"]
+  } | null>(null)
+  // Coluna no limite de WIP: confirmar repete a ação permitindo exceder o limite
+  const [wipOverflow, setWipOverflow] = useState<{
+    error: ColumnWipLimitError
+    onConfirm: () => void
+  } | null>(null)
+  const [view, setView] = useState<BoardView>("board")
+  const [selectedTaskIds, setSelectedTaskIds] = useState<string[]>([])
+  const [bulkBusy, setBulkBusy] = useState(false)
+  // Confirmação das ações em lote (exclusão e bloqueios de dependência)
+  const [bulkConfirm, setBulkConfirm] = useState<{
+    title: string
+    description: string
+    confirmText: string
+    destructive?: boolean
+    onConfirm: () => void
+  } | null>(null)
 
   const sensors = useSensors(
     useSensor(PointerSensor, {
@@ -333,70 +616,290 @@ export default function TarefasPage() {
       return
     }
 
+    const target = parseDropTarget(destinationColumnId)
     const activeTask = tasks.find((task) => task.id === active.id)
-    const targetColumn = columns.find((col) => col.id === destinationColumnId)
+    const targetColumn = columns.find((col) => col.id === target.columnId)
 
     if (!activeTask || !targetColumn) {
       setActiveId(null)
       return
     }
 
+    await performMove(activeTask, targetColumn, target.laneKey)
+
+    setActiveId(null)
+  }
+
+  // Alterações na tarefa ao soltá-la em outra raia
+  const buildLaneChange = (task: Task, laneKey: string) => {
+    if (laneKey === getTaskLaneKey(task, swimlane)) return null
+    const lane = lanes.find((l) => l.key === laneKey)
+    if (!lane) return null
+
+    switch (swimlane) {
+      case "project": {
+        const projectId = laneKey === NO_LANE ? null : laneKey
+        const project = projects.find((p) => p.id === projectId)
+        return {
+          label: lane.title,
+          changes: { project_id: projectId },
+          patch: {
+            project: project
+              ? { id: project.id, name: project.name, code: project.code, color: project.color }
+              : null,
+          } as Partial<Task>,
+        }
+      }
+      case "assignee": {
+        const assigneeId = laneKey === NO_LANE ? null : laneKey
+        return {
+          label: lane.title,
+          changes: { assigned_to: assigneeId },
+          patch: {
+            assigneeId,
+            assignee: profiles.find((p) => p.id === assigneeId)?.fullName ?? "",
+          } as Partial<Task>,
+        }
+      }
+      case "priority":
+        return {
+          label: lane.title,
+          changes: { priority: laneKey as TaskPriority },
+          patch: { priority: laneKey as TaskPriority } as Partial<Task>,
+        }
+      default:
+        return null
+    }
+  }
+
+  const performMove = async (
+    activeTask: Task,
+    targetColumn: Column,
+    laneKey: string | null = null,
+    options: MoveTaskOptions = {}
+  ) => {
     const newStatus = targetColumn.statusKey
+    const statusChanged = activeTask.status !== newStatus
+    const laneChange = laneKey !== null ? buildLaneChange(activeTask, laneKey) : null
 
-    if (activeTask && activeTask.status !== newStatus) {
-      // Atualizar UI otimisticamente
-      setTasks((prev) =>
-        prev.map((task) =>
-          task.id === active.id ? { ...task, status: newStatus } : task
-        )
+    if (!statusChanged && !laneChange) return
+
+    // Atualizar UI otimisticamente
+    setTasks((prev) =>
+      prev.map((task) =>
+        task.id === activeTask.id ? { ...task, status: newStatus, ...laneChange?.patch } : task
       )
+    )
 
-      try {
-        await moveTask(active.id as string, newStatus)
-        toast({
-          title: "Tarefa movida",
-          description: `Tarefa movida para ${targetColumn.title}`,
-        })
-      } catch (err) {
-        console.error("Erro ao mover tarefa:", err)
-        toast({
-          title: "Erro ao mover tarefa",
-          description: "Não foi possível mover a tarefa. Recarregue a página.",
-          variant: "destructive",
+    try {
+      if (statusChanged) {
+        await moveTask(activeTask.id, newStatus, undefined, options)
+      }
+      if (laneChange) {
+        await updateTask(activeTask.id, laneChange.changes)
+      }
+      toast({
+        title: "Tarefa movida",
+        description: [statusChanged ? `Tarefa movida para ${targetColumn.title}` : null, laneChange?.label]
+          .filter(Boolean)
+          .join(" · "),
+      })
+      // Atualiza o progresso exibido no card da tarefa principal e exibe a
+      // próxima instância gerada ao concluir uma tarefa recorrente
+      if (activeTask.parentTask || (activeTask.recurring && newStatus === DONE_STATUS)) await reloadTasks()
+    } catch (err) {
+      // Reverter mudança em caso de erro
+      setTasks((prev) => prev.map((task) => (task.id === activeTask.id ? activeTask : task)))
+
+      if (err instanceof TaskBlockedError) {
+        setBlockedMove({ task: activeTask, column: targetColumn, laneKey, blockers: err.blockers })
+        return
+      }
+
+      if (err instanceof ColumnWipLimitError) {
+        setWipOverflow({
+          error: err,
+          onConfirm: () => performMove(activeTask, targetColumn, laneKey, { ...options, allowOverLimit: true }),
         })
-        // Reverter mudança em caso de erro
-        setTasks((prev) =>
-          prev.map((task) =>
-            task.id === active.id ? { ...task, status: activeTask.status } : task
-          )
-        )
+        return
       }
-    }
 
-    setActiveId(null)
+      console.error("Erro ao mover tarefa:", err)
+      toast({
+        title: "Erro ao mover tarefa",
+        description: "Não foi possível mover a tarefa. Recarregue a página.",
+        variant: "destructive",
+      })
+      // A coluna pode ter sido salva antes da falha na raia
+      if (statusChanged && laneChange) await reloadTasks()
+    }
   }
 
+  // Bloqueio conhecido apenas para dependências carregadas no quadro atual
+  const isTaskBlocked = (task: Task) =>
+    (task.blockedBy ?? []).some((id) => {
+      const blocker = tasks.find((t) => t.id === id)
+      return !!blocker && blocker.status !== DONE_STATUS
+    })
+
   const getTasksByColumn = (column: Column) => {
     return tasks.filter((task) => task.status === column.statusKey)
   }
 
+  const lanes = useMemo<Lane[]>(() => {
+    switch (swimlane) {
+      case "project": {
+        const byId = new Map<string, Lane>()
+        let hasTaskWithoutProject = false
+        tasks.forEach((task) => {
+          if (!task.project) {
+            hasTaskWithoutProject = true
+            return
+          }
+          byId.set(task.project.id, {
+            key: task.project.id,
+            title: `${task.project.code} - ${task.project.name}`,
+            color: task.project.color,
+          })
+        })
+        const projectLanes = Array.from(byId.values()).sort((a, b) => a.title.localeCompare(b.title))
+        return hasTaskWithoutProject ? [...projectLanes, { key: NO_LANE, title: "Sem projeto" }] : projectLanes
+      }
+      case "assignee":
+        // Todos os usuários aparecem para mostrar também quem está sem carga
+        return [
+          { key: NO_LANE, title: "Sem responsável" },
+          ...[...profiles]
+            .sort((a, b) => a.fullName.localeCompare(b.fullName))
+            .map((profile) => ({ key: profile.id, title: profile.fullName })),
+        ]
+      case "priority":
+        return TASK_PRIORITIES.map((priority) => ({ key: priority.value, title: priority.label }))
+      default:
+        return []
+    }
+  }, [swimlane, tasks, profiles])
+
+  const handleSwimlaneChange = (value: string) => {
+    setSwimlane(value as Swimlane)
+    localStorage.setItem(SWIMLANES_STORAGE_KEY, value)
+  }
+
+  const handleViewChange = (value: BoardView) => {
+    setView(value)
+    localStorage.setItem(VIEW_STORAGE_KEY, value)
+  }
+
+  // Seleção para ações em lote: descarta tarefas que saíram do quadro (filtros, exclusões)
+  useEffect(() => {
+    setSelectedTaskIds((prev) => {
+      const next = prev.filter((id) => tasks.some((task) => task.id === id))
+      return next.length === prev.length ? prev : next
+    })
+  }, [tasks])
+
+  const toggleTaskSelection = (taskId: string) => {
+    setSelectedTaskIds((prev) =>
+      prev.includes(taskId) ? prev.filter((id) => id !== taskId) : [...prev, taskId]
+    )
+  }
+
+  const knownLabels = useMemo(
+    () => Array.from(new Set(tasks.flatMap((task) => task.labels ?? []))).sort((a, b) => a.localeCompare(b)),
+    [tasks]
+  )
+
+  const describeBulkOperation = (operation: BulkTaskOperation): string => {
+    switch (operation.type) {
+      case "move":
+        return `movida(s) para ${columns.find((col) => col.statusKey === operation.status)?.title ?? operation.status}`
+      case "assign":
+        return operation.assigneeId
+          ? `atribuída(s) a ${profiles.find((p) => p.id === operation.assigneeId)?.fullName ?? "responsável"}`
+          : "sem responsável"
+      case "deadline":
+        return operation.deadline
+          ? `com prazo em ${new Date(`${operation.deadline}T00:00:00`).toLocaleDateString("pt-BR")}`
+          : "sem prazo"
+      case "add_label":
+        return `com a etiqueta "${operation.label}"`
+      case "remove_label":
+        return `sem a etiqueta "${operation.label}"`
+      case "add_watchers":
+        return "com novos observadores"
+      case "delete":
+        return "excluída(s)"
+    }
+  }
+
+  const runBulkOperation = async (operation: BulkTaskOperation, options: MoveTaskOptions = {}) => {
+    const taskIds = selectedTaskIds
+    try {
+      setBulkBusy(true)
+      const changed = await bulkUpdateTasks(taskIds, operation, options)
+      toast({
+        title: "Tarefas atualizadas",
+        description: `${changed} de ${taskIds.length} tarefa(s) ${describeBulkOperation(operation)}.`,
+      })
+      if (operation.type === "delete") setSelectedTaskIds([])
+      await reloadTasks()
+    } catch (err) {
+      if (err instanceof ColumnWipLimitError) {
+        setWipOverflow({
+          error: err,
+          onConfirm: () => runBulkOperation(operation, { ...options, allowOverLimit: true }),
+        })
+        return
+      }
+
+      if (err instanceof TaskBlockedError) {
+        setBulkConfirm({
+          title: "Tarefas bloqueadas",
+          description: `Algumas tarefas dependem de tarefas ainda não concluídas: ${err.blockers
+            .map((b) => b.title)
+            .join(", ")}. Deseja mover mesmo assim?`,
+          confirmText: "Mover mesmo assim",
+          onConfirm: () => runBulkOperation(operation, { ...options, allowBlocked: true }),
+        })
+        return
+      }
+
+      console.error("Erro na operação em lote:", err)
+      toast({
+        title: "Erro ao atualizar tarefas",
+        description: "Não foi possível aplicar a ação às tarefas selecionadas.",
+        variant: "destructive",
+      })
+    } finally {
+      setBulkBusy(false)
+    }
+  }
+
+  const handleBulkAction = (operation: BulkTaskOperation) => {
+    if (operation.type === "delete") {
+      setBulkConfirm({
+        title: "Excluir tarefas",
+        description: `Tem certeza que deseja excluir ${selectedTaskIds.length} tarefa(s)? Esta ação não pode ser desfeita.`,
+        confirmText: "Excluir",
+        destructive: true,
+        onConfirm: () => runBulkOperation(operation),
+      })
+      return
+    }
+    runBulkOperation(operation)
+  }
+
   const handleAddColumn = async () => {
     try {
       await createKanbanColumn({
         name: "Nova Coluna",
         color: "#6B7280",
+        project_id: columns[0]?.projectId ?? null,
       })
 
       // Recarregar colunas do banco de dados
-      const data = await listKanbanColumns()
-      setColumns(
-        data.map((col) => ({
-          id: col.id,
-          title: col.name,
-          color: col.color,
-          statusKey: col.statusKey,
-        }))
-      )
+      const data = await fetchColumns()
+      setColumns(data.map(toBoardColumn))
 
       toast({
         title: "Coluna criada",
@@ -448,26 +951,63 @@ export default function TarefasPage() {
         variant: "destructive",
       })
       // Recarregar colunas em caso de erro
-      const data = await listKanbanColumns()
-      setColumns(
-        data.map((col) => ({
-          id: col.id,
-          title: col.name,
-          color: col.color,
-          statusKey: col.statusKey,
-        }))
-      )
+      const data = await fetchColumns()
+      setColumns(data.map(toBoardColumn))
     } finally {
       setEditingColumnId(null)
       setEditingColumnTitle("")
     }
   }
 
+  const handleWipLimitChange = async (columnId: string, limit: number | null) => {
+    setColumns((prev) => prev.map((col) => (col.id === columnId ? { ...col, wipLimit: limit } : col)))
+
+    try {
+      await updateKanbanColumn(columnId, { wip_limit: limit })
+      toast({
+        title: "Limite de WIP atualizado",
+        description: limit === null ? "A coluna não tem mais limite." : `Máximo de ${limit} tarefas na coluna.`,
+      })
+    } catch (err) {
+      console.error("Erro ao atualizar limite de WIP:", err)
+      toast({
+        title: "Erro ao atualizar limite",
+        description: "Não foi possível alterar o limite de WIP da coluna.",
+        variant: "destructive",
+      })
+      const data = await fetchColumns()
+      setColumns(data.map(toBoardColumn))
+    }
+  }
+
   const handleCancelEdit = () => {
     setEditingColumnId(null)
     setEditingColumnTitle("")
   }
 
+  const handleInProgressToggle = async (columnId: string, inProgress: boolean) => {
+    setColumns((prev) => prev.map((col) => (col.id === columnId ? { ...col, inProgress } : col)))
+
+    try {
+      await updateKanbanColumn(columnId, { is_in_progress: inProgress })
+      toast({
+        title: inProgress ? "Coluna marcada como em andamento" : "Coluna desmarcada",
+        description: inProgress
+          ? "Mover tarefas com dependências pendentes para esta coluna exigirá confirmação."
+          : "A coluna não verifica mais dependências pendentes.",
+      })
+    } catch (err) {
+      console.error("Erro ao atualizar coluna:", err)
+      toast({
+        title: "Erro ao atualizar coluna",
+        description: "Não foi possível alterar a coluna.",
+        variant: "destructive",
+      })
+      const data = await fetchColumns()
+      setColumns(data.map(toBoardColumn))
+    }
+  }
+
   const handleDeleteColumn = (columnId: string) => {
     setColumnToDelete(columnId)
     setDeleteConfirmOpen(true)
@@ -501,16 +1041,9 @@ export default function TarefasPage() {
       await deleteKanbanColumn(columnToDelete)
 
       // Recarregar colunas
-      const columnsData = await listKanbanColumns()
-
-      setColumns(
-        columnsData.map((col) => ({
-          id: col.id,
-          title: col.name,
-          color: col.color,
-          statusKey: col.statusKey,
-        }))
-      )
+      const columnsData = await fetchColumns()
+
+      setColumns(columnsData.map(toBoardColumn))
 
       toast({
         title: "Coluna excluída",
@@ -529,6 +1062,57 @@ export default function TarefasPage() {
     }
   }
 
+  const reloadTasks = async () => {
+    try {
+      const data = await listTasks(filters)
+      setTasks(data.map(toBoardTask))
+    } catch (err) {
+      console.error("Erro ao recarregar tarefas:", err)
+    }
+  }
+
+  // Alterações feitas por outras pessoas (Supabase Realtime). Durante o arraste,
+  // espera o card ser solto para não mudar o quadro sob o cursor.
+  const pendingRealtimeTablesRef = useRef<Set<string>>(new Set())
+
+  const applyRealtimeChanges = async (tables: Set<string>) => {
+    try {
+      if (tables.has("kanban_columns")) {
+        const data = await fetchColumns()
+        setColumns(data.map(toBoardColumn))
+      }
+      if (tables.has("tasks") || tables.has("task_dependencies")) {
+        const data = (await listTasks(filters)).map(toBoardTask)
+        setTasks(data)
+        setSelectedTask((prev) => (prev ? data.find((task) => task.id === prev.id) ?? prev : prev))
+      }
+    } catch (err) {
+      console.error("Erro ao atualizar o quadro em tempo real:", err)
+    }
+  }
+
+  useRealtimeChanges(
+    "kanban-board",
+    ["tasks", "kanban_columns", "task_dependencies"],
+    (changes) => {
+      const tables = new Set(changes.map((change) => change.table))
+      if (activeId) {
+        tables.forEach((table) => pendingRealtimeTablesRef.current.add(table))
+        return
+      }
+      void applyRealtimeChanges(tables)
+    },
+    filtersReady
+  )
+
+  useEffect(() => {
+    if (activeId || pendingRealtimeTablesRef.current.size === 0) return
+    const tables = new Set(pendingRealtimeTablesRef.current)
+    pendingRealtimeTablesRef.current.clear()
+    void applyRealtimeChanges(tables)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [activeId])
+
   const handleTaskClick = (task: Task) => {
     setSelectedTask(task)
     setTaskModalOpen(true)
@@ -559,20 +1143,8 @@ export default function TarefasPage() {
       })
       // Recarregar tarefas em caso de erro
       try {
-        const data = await listTasks(selectedProjectId ? { projectId: selectedProjectId } : undefined)
-        setTasks(
-          data.map((t) => ({
-            id: t.id,
-            title: t.title,
-            description: t.description ?? null,
-            status: t.status,
-            deadline: t.deadline ?? null,
-            assignee: t.assignee ?? "",
-            assigneeId: t.assigneeId ?? null,
-            labels: t.labels ?? [],
-            project: t.project,
-          }))
-        )
+        const data = await listTasks(filters)
+        setTasks(data.map(toBoardTask))
       } catch (reloadErr) {
         console.error("Erro ao recarregar tarefas:", reloadErr)
       }
@@ -601,20 +1173,8 @@ export default function TarefasPage() {
       })
       // Recarregar tarefas em caso de erro
       try {
-        const data = await listTasks(selectedProjectId ? { projectId: selectedProjectId } : undefined)
-        setTasks(
-          data.map((t) => ({
-            id: t.id,
-            title: t.title,
-            description: t.description ?? null,
-            status: t.status,
-            deadline: t.deadline ?? null,
-            assignee: t.assignee ?? "",
-            assigneeId: t.assigneeId ?? null,
-            labels: t.labels ?? [],
-            project: t.project,
-          }))
-        )
+        const data = await listTasks(filters)
+        setTasks(data.map(toBoardTask))
       } catch (reloadErr) {
         console.error("Erro ao recarregar tarefas:", reloadErr)
       }
@@ -631,7 +1191,7 @@ export default function TarefasPage() {
     setNewTaskTitle("")
   }
 
-  const handleSaveNewTask = async (columnId: string) => {
+  const handleSaveNewTask = async (columnId: string, allowOverLimit = false) => {
     if (!newTaskTitle.trim()) {
       handleCancelAddTask()
       return
@@ -643,26 +1203,18 @@ export default function TarefasPage() {
     const statusKey = column.statusKey
 
     try {
-      await createTask({
-        title: newTaskTitle.trim(),
-        status: statusKey,
-        project_id: selectedProjectId,
-      })
-
-      const data = await listTasks(selectedProjectId ? { projectId: selectedProjectId } : undefined)
-      setTasks(
-        data.map((t) => ({
-          id: t.id,
-          title: t.title,
-          description: t.description ?? null,
-          status: t.status,
-          deadline: t.deadline ?? null,
-          assignee: t.assignee ?? "",
-          labels: t.labels ?? [],
-          project: t.project,
-        }))
+      await createTask(
+        {
+          title: newTaskTitle.trim(),
+          status: statusKey,
+          project_id: selectedProjectId,
+        },
+        { allowOverLimit }
       )
 
+      const data = await listTasks(filters)
+      setTasks(data.map(toBoardTask))
+
       handleCancelAddTask()
 
       toast({
@@ -670,6 +1222,11 @@ export default function TarefasPage() {
         description: "Nova tarefa adicionada à coluna",
       })
     } catch (err) {
+      if (err instanceof ColumnWipLimitError) {
+        setWipOverflow({ error: err, onConfirm: () => handleSaveNewTask(columnId, true) })
+        return
+      }
+
       console.error("Erro ao criar tarefa:", err)
       toast({
         title: "Erro ao criar tarefa",
@@ -698,15 +1255,11 @@ export default function TarefasPage() {
         </Protected>
       </div>
 
-      {/* Filtro de Projeto */}
+      {/* Filtros */}
       <div className="flex items-center gap-4 mb-6">
         <Select
           value={selectedProjectId || "all"}
-          onValueChange={(v) => {
-            const newValue = v === "all" ? null : v
-            setSelectedProjectId(newValue)
-            localStorage.setItem("kanban-project-filter", v)
-          }}
+          onValueChange={(v) => applyFilters({ ...filters, projectId: v === "all" ? undefined : v })}
         >
           <SelectTrigger className="w-[300px]">
             <SelectValue>
@@ -743,18 +1296,53 @@ export default function TarefasPage() {
             ))}
           </SelectContent>
         </Select>
-        {selectedProjectId && (
+        <TaskFilterDialog
+          filters={filters}
+          onFiltersChange={applyFilters}
+          profiles={profiles}
+          columns={columns.map((col) => ({ id: col.id, name: col.title, statusKey: col.statusKey }))}
+        />
+        <SavedFiltersMenu filters={filters} currentUserId={currentUserId} onApply={applyFilters} />
+        {hasActiveTaskFilters(filters) && (
+          <Button variant="ghost" size="sm" onClick={() => applyFilters({})}>
+            Limpar filtros
+          </Button>
+        )}
+        <Select value={swimlane} onValueChange={handleSwimlaneChange}>
+          <SelectTrigger className="ml-auto w-[220px]">
+            <div className="flex items-center gap-2">
+              <Rows3 className="h-4 w-4" />
+              <SelectValue />
+            </div>
+          </SelectTrigger>
+          <SelectContent>
+            {SWIMLANE_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="flex items-center gap-2">
           <Button
-            variant="ghost"
-            size="sm"
-            onClick={() => {
-              setSelectedProjectId(null)
-              localStorage.setItem("kanban-project-filter", "all")
-            }}
+            type="button"
+            variant={view === "board" ? "default" : "outline"}
+            size="icon"
+            onClick={() => handleViewChange("board")}
+            aria-label="Visualização em quadro"
           >
-            Limpar filtro
+            <LayoutGrid className="h-4 w-4" />
           </Button>
-        )}
+          <Button
+            type="button"
+            variant={view === "list" ? "default" : "outline"}
+            size="icon"
+            onClick={() => handleViewChange("list")}
+            aria-label="Visualização em lista"
+          >
+            <List className="h-4 w-4" />
+          </Button>
+        </div>
       </div>
 
       <ConfirmDialog
@@ -768,12 +1356,166 @@ export default function TarefasPage() {
         variant="destructive"
       />
 
+      <ConfirmDialog
+        open={!!blockedMove}
+        onOpenChange={(open) => {
+          if (!open) setBlockedMove(null)
+        }}
+        onConfirm={() => {
+          if (blockedMove) {
+            performMove(blockedMove.task, blockedMove.column, blockedMove.laneKey, { allowBlocked: true })
+          }
+          setBlockedMove(null)
+        }}
+        title="Tarefa bloqueada"
+        description={
+          blockedMove
+            ? `"${blockedMove.task.title}" depende de tarefas ainda não concluídas: ${blockedMove.blockers
+                .map((b) => b.title)
+                .join(", ")}. Deseja mover mesmo assim?`
+            : ""
+        }
+        confirmText="Mover mesmo assim"
+        cancelText="Cancelar"
+      />
+
+      <ConfirmDialog
+        open={!!wipOverflow}
+        onOpenChange={(open) => {
+          if (!open) setWipOverflow(null)
+        }}
+        onConfirm={() => {
+          wipOverflow?.onConfirm()
+          setWipOverflow(null)
+        }}
+        title="Limite de WIP atingido"
+        description={
+          wipOverflow
+            ? `"${wipOverflow.error.column.name}" já tem ${wipOverflow.error.count} de ${wipOverflow.error.column.wipLimit} tarefas permitidas. Exceder o limite pode atrasar o fluxo da equipe. Deseja continuar?`
+            : ""
+        }
+        confirmText="Exceder limite"
+        cancelText="Cancelar"
+      />
+
+      <ConfirmDialog
+        open={!!bulkConfirm}
+        onOpenChange={(open) => {
+          if (!open) setBulkConfirm(null)
+        }}
+        onConfirm={() => {
+          bulkConfirm?.onConfirm()
+          setBulkConfirm(null)
+        }}
+        title={bulkConfirm?.title ?? ""}
+        description={bulkConfirm?.description ?? ""}
+        confirmText={bulkConfirm?.confirmText ?? "Confirmar"}
+        cancelText="Cancelar"
+        variant={bulkConfirm?.destructive ? "destructive" : undefined}
+      />
+
+      {view === "list" ? (
+        loadingTasks ? (
+          <div className="flex items-center justify-center w-full py-12">
+            <p className="text-muted-foreground">Carregando tarefas...</p>
+          </div>
+        ) : (
+          <TaskListView
+            tasks={tasks}
+            columns={columns.map((col) => ({ statusKey: col.statusKey, title: col.title, color: col.color }))}
+            selectedIds={selectedTaskIds}
+            isBlocked={isTaskBlocked}
+            onToggleSelect={toggleTaskSelection}
+            onToggleSelectAll={(selected) => setSelectedTaskIds(selected ? tasks.map((task) => task.id) : [])}
+            onOpen={handleTaskClick}
+          />
+        )
+      ) : (
       <DndContext
         sensors={sensors}
         onDragStart={handleDragStart}
         onDragEnd={handleDragEnd}
         collisionDetection={rectIntersection}
       >
+        {swimlane !== "none" && !loadingColumns ? (
+          <div className="flex-1 overflow-auto pb-4">
+            <div className="inline-flex min-w-full flex-col gap-3">
+              {/* Cabeçalho das colunas, compartilhado pelas raias */}
+              <div className="sticky top-0 z-10 flex gap-4 bg-background pb-1 pl-[196px]">
+                {columns.map((column) => (
+                  <div
+                    key={column.id}
+                    className="flex w-[280px] flex-shrink-0 items-center justify-between rounded-md border bg-card px-3 py-2"
+                  >
+                    <span className="truncate text-sm font-semibold">{column.title}</span>
+                    <ColumnLoadBadge count={getTasksByColumn(column).length} wipLimit={column.wipLimit} />
+                  </div>
+                ))}
+              </div>
+
+              {lanes.map((lane) => {
+                const laneTasks = tasks.filter((task) => getTaskLaneKey(task, swimlane) === lane.key)
+                return (
+                  <div key={lane.key} className="flex gap-4">
+                    <div className="sticky left-0 z-[5] w-[180px] flex-shrink-0 rounded-md border bg-card p-3">
+                      <div className="flex items-center gap-2">
+                        {lane.color && (
+                          <div
+                            className="h-2.5 w-2.5 flex-shrink-0 rounded-full"
+                            style={{ backgroundColor: lane.color }}
+                          />
+                        )}
+                        <p className="truncate text-sm font-medium" title={lane.title}>
+                          {lane.title}
+                        </p>
+                      </div>
+                      <p className="mt-1 text-xs text-muted-foreground">
+                        {laneTasks.length} {laneTasks.length === 1 ? "tarefa" : "tarefas"}
+                      </p>
+                    </div>
+                    {columns.map((column) => {
+                      const cellId = laneCellId(lane.key, column.id)
+                      const cellTasks = laneTasks.filter((task) => task.status === column.statusKey)
+                      return (
+                        <div
+                          key={cellId}
+                          className="w-[280px] flex-shrink-0 rounded-md border bg-muted/30 p-2"
+                          ref={(node) => {
+                            if (node) {
+                              columnRefs.current.set(cellId, node)
+                            } else {
+                              columnRefs.current.delete(cellId)
+                            }
+                          }}
+                        >
+                          <SortableContext
+                            items={cellTasks.map((task) => task.id)}
+                            strategy={verticalListSortingStrategy}
+                            id={cellId}
+                          >
+                            <ColumnDropZone columnId={cellId} compact>
+                              {cellTasks.map((task) => (
+                                <TaskCard
+                                  key={task.id}
+                                  task={task}
+                                  blocked={isTaskBlocked(task)}
+                                  selected={selectedTaskIds.includes(task.id)}
+                                  selectionActive={selectedTaskIds.length > 0}
+                                  onClick={() => handleTaskClick(task)}
+                                  onToggleSelect={() => toggleTaskSelection(task.id)}
+                                />
+                              ))}
+                            </ColumnDropZone>
+                          </SortableContext>
+                        </div>
+                      )
+                    })}
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+        ) : (
         <div className="flex gap-4 overflow-x-auto flex-1 pb-4">
           {loadingColumns ? (
             <div className="flex items-center justify-center w-full h-full">
@@ -794,7 +1536,11 @@ export default function TarefasPage() {
                   }
                 }}
               >
-                <Card className="flex flex-col h-full">
+                <Card
+                  className={`flex flex-col h-full ${
+                    column.wipLimit !== null && columnTasks.length > column.wipLimit ? "border-destructive/60" : ""
+                  }`}
+                >
                   <CardHeader className="p-4 flex-shrink-0">
                     <div className="flex items-center justify-between gap-2">
                       {editingColumnId === column.id ? (
@@ -839,7 +1585,31 @@ export default function TarefasPage() {
                             {column.title}
                           </CardTitle>
                           <div className="flex items-center gap-2">
-                            <Badge variant="secondary">{columnTasks.length}</Badge>
+                            <ColumnLoadBadge
+                              count={columnTasks.length}
+                              wipLimit={column.wipLimit}
+                              onLimitChange={
+                                hasPermission("kanban", "edit")
+                                  ? (limit) => handleWipLimitChange(column.id, limit)
+                                  : undefined
+                              }
+                            />
+                            <Protected section="kanban" action="edit">
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                className={`h-8 w-8 ${column.inProgress ? "text-primary" : "text-muted-foreground"}`}
+                                onClick={() => handleInProgressToggle(column.id, !column.inProgress)}
+                                aria-pressed={column.inProgress}
+                                title={
+                                  column.inProgress
+                                    ? "Coluna em andamento: avisa sobre dependências pendentes"
+                                    : "Marcar como coluna em andamento"
+                                }
+                              >
+                                <Timer className="h-4 w-4" />
+                              </Button>
+                            </Protected>
                             {columns.length > 1 && (
                               <Protected section="kanban" action="delete">
                                 <Button
@@ -868,7 +1638,11 @@ export default function TarefasPage() {
                           <TaskCard
                             key={task.id}
                             task={task}
+                            blocked={isTaskBlocked(task)}
+                            selected={selectedTaskIds.includes(task.id)}
+                            selectionActive={selectedTaskIds.length > 0}
                             onClick={() => handleTaskClick(task)}
+                            onToggleSelect={() => toggleTaskSelection(task.id)}
                           />
                         ))}
 
@@ -928,6 +1702,7 @@ export default function TarefasPage() {
             })
           )}
         </div>
+        )}
 
         <DragOverlay>
           {activeTask ? (
@@ -935,6 +1710,19 @@ export default function TarefasPage() {
           ) : null}
         </DragOverlay>
       </DndContext>
+      )}
+
+      <BulkTaskActions
+        count={selectedTaskIds.length}
+        columns={columns.map((col) => ({ statusKey: col.statusKey, title: col.title }))}
+        profiles={profiles}
+        labels={knownLabels}
+        busy={bulkBusy}
+        canEdit={hasPermission("kanban", "edit")}
+        canDelete={hasPermission("kanban", "delete")}
+        onAction={handleBulkAction}
+        onClear={() => setSelectedTaskIds([])}
+      />
 
       <TaskModal
         task={selectedTask}
@@ -942,7 +1730,23 @@ export default function TarefasPage() {
         onOpenChange={setTaskModalOpen}
         onUpdate={handleTaskUpdate}
         onDelete={handleDeleteTask}
+        onSubtasksChange={reloadTasks}
+        onRecurrenceChange={reloadTasks}
       />
     </div>
   )
 }
+
+export default function TarefasPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="flex h-full items-center justify-center">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      }
+    >
+      <KanbanContent />
+    </Suspense>
+  )
+}
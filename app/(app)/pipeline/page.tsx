@@ -0,0 +1,478 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useState, type ReactNode } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import {
+  DndContext,
+  DragEndEvent,
+  DragOverlay,
+  DragStartEvent,
+  PointerSensor,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors,
+} from "@dnd-kit/core"
+import { CSS } from "@dnd-kit/utilities"
+import { Calendar, Briefcase, GripVertical, Plus, Search, Trash2 } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { ConfirmDialog } from "@/components/ui/confirm-dialog"
+import { Input } from "@/components/ui/input"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { AppMainBleed } from "@/components/app-main-bleed"
+import { Protected } from "@/components/protected"
+import { DealFormDialog } from "@/components/pipeline/deal-form-dialog"
+import { DealCloseDialog } from "@/components/pipeline/deal-close-dialog"
+import { DealConvertDialog } from "@/components/pipeline/deal-convert-dialog"
+import { usePermissions } from "@/contexts/permission-context"
+import { useToast } from "@/hooks/use-toast"
+import { listClients } from "@/lib/data/clients"
+import {
+  createDeal,
+  deleteDeal,
+  listDeals,
+  updateDeal,
+  type Deal,
+  type DealInput,
+} from "@/lib/data/deals"
+import {
+  DEAL_STAGES,
+  OPEN_DEAL_STAGES,
+  formatDealValue,
+  isClosedDealStage,
+  isDealStage,
+  type DealStage,
+} from "@/lib/utils/deals"
+
+function StageDropZone({ stage, children }: { stage: DealStage; children: ReactNode }) {
+  const { isOver, setNodeRef } = useDroppable({ id: stage })
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={`min-h-[200px] space-y-3 ${isOver ? "outline outline-2 outline-primary/40 rounded-md" : ""}`}
+    >
+      {children}
+    </div>
+  )
+}
+
+function DealCard({
+  deal,
+  draggable,
+  canDelete,
+  onClick,
+  onDelete,
+}: {
+  deal: Deal
+  draggable: boolean
+  canDelete: boolean
+  onClick: () => void
+  onDelete: () => void
+}) {
+  const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({
+    id: deal.id,
+    disabled: !draggable,
+  })
+
+  const style = {
+    transform: CSS.Translate.toString(transform),
+    opacity: isDragging ? 0.5 : 1,
+  }
+
+  return (
+    <div ref={setNodeRef} style={style}>
+      <DealCardContent
+        deal={deal}
+        dragHandle={
+          draggable ? (
+            <div
+              {...attributes}
+              {...listeners}
+              className="cursor-grab active:cursor-grabbing pt-0.5 hover:bg-accent rounded p-1 -ml-1"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <GripVertical className="h-4 w-4 text-muted-foreground" />
+            </div>
+          ) : null
+        }
+        onClick={onClick}
+        onDelete={canDelete ? onDelete : undefined}
+      />
+    </div>
+  )
+}
+
+function DealCardContent({
+  deal,
+  dragHandle,
+  onClick,
+  onDelete,
+}: {
+  deal: Deal
+  dragHandle?: ReactNode
+  onClick?: () => void
+  onDelete?: () => void
+}) {
+  const today = new Date().toISOString().slice(0, 10)
+  const overdue = !isClosedDealStage(deal.stage) && !!deal.expectedCloseDate && deal.expectedCloseDate < today
+
+  return (
+    <Card className="group hover:border-primary transition-colors cursor-pointer" onClick={onClick}>
+      <CardHeader className="p-4 pb-2">
+        <div className="flex items-start gap-2">
+          {dragHandle}
+          <div className="flex-1 min-w-0">
+            <CardTitle className="text-sm font-medium leading-snug">{deal.title}</CardTitle>
+            <p className="text-xs text-muted-foreground truncate mt-0.5">{deal.clientName}</p>
+          </div>
+          {onDelete && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6 opacity-0 group-hover:opacity-100"
+              onClick={(e) => {
+                e.stopPropagation()
+                onDelete()
+              }}
+              aria-label="Excluir negócio"
+            >
+              <Trash2 className="h-3.5 w-3.5 text-destructive" />
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="p-4 pt-0 space-y-2">
+        <p className="text-sm font-semibold">{formatDealValue(deal.estimatedValue)}</p>
+        <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+          {deal.expectedCloseDate && (
+            <span className={`flex items-center gap-1 ${overdue ? "text-destructive font-medium" : ""}`}>
+              <Calendar className="h-3 w-3" />
+              {new Date(`${deal.expectedCloseDate}T00:00:00`).toLocaleDateString("pt-BR")}
+            </span>
+          )}
+          {deal.closeReason && (
+            <Badge variant="outline" className="text-xs font-normal">
+              {deal.closeReason}
+            </Badge>
+          )}
+          {deal.projectId && (
+            <Link
+              href={`/projetos/${deal.projectId}`}
+              onClick={(e) => e.stopPropagation()}
+              className="flex items-center gap-1 hover:text-foreground"
+            >
+              <Briefcase className="h-3 w-3" />
+              {deal.projectCode ?? "Projeto"}
+            </Link>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+export default function PipelinePage() {
+  const router = useRouter()
+  const { toast } = useToast()
+  const { hasPermission } = usePermissions()
+  const canCreate = hasPermission("clientes", "create")
+  const canEdit = hasPermission("clientes", "edit")
+  const canDelete = hasPermission("clientes", "delete")
+  const canCreateProject = hasPermission("projetos", "create")
+
+  const [deals, setDeals] = useState<Deal[]>([])
+  const [loading, setLoading] = useState(true)
+  const [clients, setClients] = useState<{ id: string; name: string }[]>([])
+  const [clientFilter, setClientFilter] = useState("all")
+  const [search, setSearch] = useState("")
+  const [activeId, setActiveId] = useState<string | null>(null)
+
+  const [formOpen, setFormOpen] = useState(false)
+  const [editingDeal, setEditingDeal] = useState<Deal | null>(null)
+  const [closing, setClosing] = useState<{ deal: Deal; outcome: "won" | "lost" } | null>(null)
+  const [converting, setConverting] = useState<Deal | null>(null)
+  const [dealToDelete, setDealToDelete] = useState<Deal | null>(null)
+
+  const loadDeals = useCallback(async () => {
+    try {
+      const data = await listDeals({ clientId: clientFilter === "all" ? undefined : clientFilter })
+      setDeals(data)
+    } catch (err) {
+      console.error("Erro ao carregar negócios:", err)
+      toast({ title: "Erro ao carregar negócios", variant: "destructive" })
+    } finally {
+      setLoading(false)
+    }
+  }, [clientFilter, toast])
+
+  useEffect(() => {
+    loadDeals()
+  }, [loadDeals])
+
+  useEffect(() => {
+    listClients().then(({ data, error }) => {
+      if (error) {
+        console.error("Erro ao carregar clientes:", error)
+        return
+      }
+      setClients(data.map((c) => ({ id: c.id, name: c.name })))
+    })
+  }, [])
+
+  const visibleDeals = useMemo(() => {
+    const term = search.trim().toLowerCase()
+    if (!term) return deals
+    return deals.filter(
+      (deal) => deal.title.toLowerCase().includes(term) || deal.clientName.toLowerCase().includes(term)
+    )
+  }, [deals, search])
+
+  const openDeals = visibleDeals.filter((deal) => OPEN_DEAL_STAGES.includes(deal.stage))
+  const openTotal = openDeals.reduce((sum, deal) => sum + (deal.estimatedValue ?? 0), 0)
+  const activeDeal = activeId ? deals.find((deal) => deal.id === activeId) ?? null : null
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, {
+      activationConstraint: {
+        distance: 8,
+      },
+    })
+  )
+
+  function replaceDeal(updated: Deal) {
+    setDeals((prev) => prev.map((deal) => (deal.id === updated.id ? updated : deal)))
+  }
+
+  async function moveDeal(deal: Deal, stage: DealStage) {
+    const previous = deal
+    replaceDeal({ ...deal, stage, closeReason: null, closeNotes: null, closedAt: null })
+    try {
+      replaceDeal(await updateDeal(deal.id, { stage }))
+    } catch (err) {
+      console.error("Erro ao mover negócio:", err)
+      replaceDeal(previous)
+      toast({ title: "Erro ao mover negócio", variant: "destructive" })
+    }
+  }
+
+  const handleDragStart = (event: DragStartEvent) => {
+    setActiveId(event.active.id as string)
+  }
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    const { active, over } = event
+    setActiveId(null)
+    if (!over || !isDealStage(over.id)) return
+
+    const deal = deals.find((d) => d.id === active.id)
+    const stage = over.id
+    if (!deal || deal.stage === stage) return
+
+    // Ganho/perdido pede o motivo antes de gravar
+    if (isClosedDealStage(stage)) {
+      setClosing({ deal, outcome: stage })
+      return
+    }
+    moveDeal(deal, stage)
+  }
+
+  async function handleClose(reason: string, notes: string) {
+    if (!closing) return
+    const { deal, outcome } = closing
+    try {
+      const updated = await updateDeal(deal.id, { stage: outcome, closeReason: reason, closeNotes: notes })
+      replaceDeal(updated)
+      toast({ title: outcome === "won" ? "Negócio ganho" : "Negócio perdido", description: deal.title })
+      if (outcome === "won" && !updated.projectId && canCreateProject) {
+        setConverting(updated)
+      }
+    } catch (err) {
+      console.error("Erro ao fechar negócio:", err)
+      toast({ title: "Erro ao fechar negócio", variant: "destructive" })
+      throw err
+    }
+  }
+
+  async function handleSave(input: DealInput) {
+    try {
+      if (editingDeal) {
+        replaceDeal(await updateDeal(editingDeal.id, input))
+        toast({ title: "Negócio atualizado" })
+      } else {
+        const created = await createDeal(input)
+        setDeals((prev) => [...prev, created])
+        toast({ title: "Negócio criado", description: created.title })
+      }
+    } catch (err) {
+      console.error("Erro ao salvar negócio:", err)
+      toast({ title: "Erro ao salvar negócio", variant: "destructive" })
+      throw err
+    }
+  }
+
+  async function handleConfirmDelete() {
+    if (!dealToDelete) return
+    const deal = dealToDelete
+    setDealToDelete(null)
+    try {
+      await deleteDeal(deal.id)
+      setDeals((prev) => prev.filter((d) => d.id !== deal.id))
+      toast({ title: "Negócio excluído" })
+    } catch (err) {
+      console.error("Erro ao excluir negócio:", err)
+      toast({ title: "Erro ao excluir negócio", variant: "destructive" })
+    }
+  }
+
+  return (
+    <AppMainBleed className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Pipeline</h1>
+          <p className="text-muted-foreground">
+            {openDeals.length} {openDeals.length === 1 ? "negócio em aberto" : "negócios em aberto"} ·{" "}
+            {formatDealValue(openTotal)}
+          </p>
+        </div>
+        <Protected section="clientes" action="create">
+          <Button
+            onClick={() => {
+              setEditingDeal(null)
+              setFormOpen(true)
+            }}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Novo negócio
+          </Button>
+        </Protected>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="relative w-full max-w-xs">
+          <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Buscar negócio ou cliente..."
+            className="pl-8"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+        </div>
+        <Select value={clientFilter} onValueChange={setClientFilter}>
+          <SelectTrigger className="w-[220px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Todos os clientes</SelectItem>
+            {clients.map((client) => (
+              <SelectItem key={client.id} value={client.id}>
+                {client.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {loading ? (
+        <p className="text-muted-foreground">Carregando negócios...</p>
+      ) : (
+        <DndContext sensors={sensors} onDragStart={handleDragStart} onDragEnd={handleDragEnd}>
+          <div className="flex gap-4 overflow-x-auto pb-4">
+            {DEAL_STAGES.map((stage) => {
+              const stageDeals = visibleDeals.filter((deal) => deal.stage === stage.value)
+              const stageTotal = stageDeals.reduce((sum, deal) => sum + (deal.estimatedValue ?? 0), 0)
+              return (
+                <div key={stage.value} className="w-72 shrink-0 space-y-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                      <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: stage.color }} />
+                      <h2 className="text-sm font-semibold">{stage.label}</h2>
+                      <Badge variant="secondary" className="text-xs">
+                        {stageDeals.length}
+                      </Badge>
+                    </div>
+                    <span className="text-xs text-muted-foreground">{formatDealValue(stageTotal)}</span>
+                  </div>
+                  <StageDropZone stage={stage.value}>
+                    {stageDeals.map((deal) => (
+                      <DealCard
+                        key={deal.id}
+                        deal={deal}
+                        draggable={canEdit}
+                        canDelete={canDelete}
+                        onClick={() => {
+                          setEditingDeal(deal)
+                          setFormOpen(true)
+                        }}
+                        onDelete={() => setDealToDelete(deal)}
+                      />
+                    ))}
+                  </StageDropZone>
+                </div>
+              )
+            })}
+          </div>
+
+          <DragOverlay>
+            {activeDeal ? <DealCardContent deal={activeDeal} /> : null}
+          </DragOverlay>
+        </DndContext>
+      )}
+
+      <DealFormDialog
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        deal={editingDeal}
+        readOnly={editingDeal ? !canEdit : !canCreate}
+        onSave={handleSave}
+        onConvert={
+          canCreateProject
+            ? () => {
+                setFormOpen(false)
+                setConverting(editingDeal)
+              }
+            : undefined
+        }
+      />
+
+      {closing && (
+        <DealCloseDialog
+          open={!!closing}
+          onOpenChange={(open) => !open && setClosing(null)}
+          outcome={closing.outcome}
+          dealTitle={closing.deal.title}
+          onConfirm={handleClose}
+        />
+      )}
+
+      <DealConvertDialog
+        open={!!converting}
+        onOpenChange={(open) => !open && setConverting(null)}
+        deal={converting}
+        onConverted={(projectId) => {
+          loadDeals()
+          router.push(`/projetos/${projectId}`)
+        }}
+      />
+
+      <ConfirmDialog
+        open={!!dealToDelete}
+        onOpenChange={(open) => !open && setDealToDelete(null)}
+        onConfirm={handleConfirmDelete}
+        title="Excluir negócio"
+        description={`Tem certeza que deseja excluir o negócio "${dealToDelete?.title ?? ""}"?`}
+        confirmText="Excluir"
+        variant="destructive"
+      />
+    </AppMainBleed>
+  )
+}
@@ -24,6 +24,10 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
   Dialog,
   DialogContent,
@@ -37,6 +41,7 @@ import {
   updateProjectName,
   updateProjectStatus,
   updateProjectBudget,
+  updateProject,
   addProjectMember,
   removeProjectMember,
   type ProjectDetails,
@@ -58,8 +63,13 @@ import { type KanbanColumn } from "@/lib/data/kanban-columns";
 import { ProjectDetailHeader } from "@/components/project/project-detail-header";
 import { ProjectDetailKpis } from "@/components/project/project-detail-kpis";
 import { ProjectDetailCharts } from "@/components/project/project-detail-charts";
+import { ProjectDetailFlowAnalytics } from "@/components/project/project-detail-flow-analytics";
 import { ProjectDetailPipeline } from "@/components/project/project-detail-pipeline";
 import { ProjectDetailExecutionSummary } from "@/components/project/project-detail-execution-summary";
+import { ProjectGantt, toGanttTask } from "@/components/project/project-gantt";
+import { usePermissions } from "@/contexts/permission-context";
+import { getProjectTimeSummary, type ProjectTimeSummary } from "@/lib/data/time-entries";
+import { saveProjectAsTemplate } from "@/lib/data/project-templates";
 
 const TaskModal = dynamic(
   () => import("@/components/kanban/task-modal").then((m) => m.TaskModal),
@@ -91,6 +101,7 @@ export default function ProjectDetailPage() {
   const router = useRouter();
   const projectId = params.id as string;
   const { toast } = useToast();
+  const { hasPermission } = usePermissions();
 
   const [project, setProject] = useState<ProjectDetails | null>(null);
   const [files, setFiles] = useState<ProjectFile[]>([]);
@@ -101,10 +112,18 @@ export default function ProjectDetailPage() {
     totalItems: 0,
     completedItems: 0,
     completionPercentage: 0,
+    totalSubtasks: 0,
+    completedSubtasks: 0,
   });
+  const [timeSummary, setTimeSummary] = useState<ProjectTimeSummary | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isColorDialogOpen, setIsColorDialogOpen] = useState(false);
+  const [isTemplateDialogOpen, setIsTemplateDialogOpen] = useState(false);
+  const [templateName, setTemplateName] = useState("");
+  const [templateDescription, setTemplateDescription] = useState("");
+  const [templateFolders, setTemplateFolders] = useState("");
+  const [savingTemplate, setSavingTemplate] = useState(false);
   const [selectedColor, setSelectedColor] = useState<string>("#3B82F6");
   const [filters, setFilters] = useState<TaskFilters>({});
   const [selectedTask, setSelectedTask] = useState<KanbanTask | null>(null);
@@ -129,6 +148,13 @@ export default function ProjectDetailPage() {
     setChecklistSummary(bundle.checklistSummary);
     setSelectedColor(bundle.project.color || "#3B82F6");
     setEditedName(bundle.project.name);
+
+    // Horas não impedem o carregamento da página
+    try {
+      setTimeSummary(await getProjectTimeSummary(projectId));
+    } catch (err) {
+      console.error("Erro ao carregar horas do projeto:", err);
+    }
   }, [projectId]);
 
   useEffect(() => {
@@ -162,6 +188,39 @@ export default function ProjectDetailPage() {
     }
   };
 
+  const openTemplateDialog = () => {
+    setTemplateName(project?.name ?? "");
+    setTemplateDescription("");
+    setTemplateFolders("");
+    setIsTemplateDialogOpen(true);
+  };
+
+  const handleTemplateSave = async () => {
+    if (!templateName.trim()) return;
+    try {
+      setSavingTemplate(true);
+      await saveProjectAsTemplate(projectId, {
+        name: templateName,
+        description: templateDescription,
+        driveFolders: templateFolders.split("\n"),
+      });
+      toast({
+        title: "Modelo salvo",
+        description: "Colunas, tarefas, checklists e equipe foram salvos no modelo.",
+      });
+      setIsTemplateDialogOpen(false);
+    } catch (err) {
+      console.error("Erro ao salvar modelo:", err);
+      toast({
+        title: "Erro ao salvar modelo",
+        description: err instanceof Error ? err.message : "Não foi possível salvar o modelo.",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingTemplate(false);
+    }
+  };
+
   const handleNameSave = async () => {
     if (!editedName.trim()) {
       toast({
@@ -244,6 +303,21 @@ export default function ProjectDetailPage() {
     }
   };
 
+  const handleProjectDatesChange = async (_id: string, startDate: string, endDate: string) => {
+    setProject((prev) => (prev ? { ...prev, startDate, endDate } : null));
+    try {
+      await updateProject(projectId, { start_date: startDate, end_date: endDate });
+    } catch (err) {
+      console.error("Erro ao atualizar datas do projeto:", err);
+      toast({
+        title: "Erro",
+        description: "Não foi possível atualizar o período do projeto",
+        variant: "destructive",
+      });
+      await loadProjectBundle();
+    }
+  };
+
   const handleAddMember = async (userId: string) => {
     try {
       await addProjectMember(projectId, userId);
@@ -376,6 +450,7 @@ export default function ProjectDetailPage() {
         onBack={() => router.push("/projetos")}
         onStatusChange={handleStatusChange}
         onOpenColorDialog={() => setIsColorDialogOpen(true)}
+        onOpenTemplateDialog={hasPermission("projetos", "create") ? openTemplateDialog : undefined}
       />
 
       {project.description && (
@@ -394,12 +469,54 @@ export default function ProjectDetailPage() {
         completionPercentage={completionPercentage}
         completedTasks={completedTasks}
         totalTasks={totalTasks}
+        timeSummary={timeSummary}
         onBudgetUpdate={handleBudgetUpdate}
       />
-      <ProjectDetailCharts tasks={tasks} columns={columns} projectColor={project.color} />
+      <Tabs defaultValue="overview" className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="overview">Visão geral</TabsTrigger>
+          <TabsTrigger value="flow">Fluxo</TabsTrigger>
+        </TabsList>
+        <TabsContent value="overview">
+          <ProjectDetailCharts tasks={tasks} columns={columns} projectColor={project.color} />
+        </TabsContent>
+        <TabsContent value="flow">
+          <ProjectDetailFlowAnalytics projectId={project.id} columns={columns} projectColor={project.color} />
+        </TabsContent>
+      </Tabs>
       <ProjectDetailPipeline tasks={tasks} columns={columns} />
       <ProjectDetailExecutionSummary checklist={checklistSummary} tasks={tasks} />
 
+      <Card>
+        <CardHeader>
+          <CardTitle>Cronograma</CardTitle>
+          <CardDescription>Período do projeto e prazos das tarefas</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ProjectGantt
+            projects={[
+              {
+                id: project.id,
+                code: project.code,
+                name: project.name,
+                color: project.color,
+                startDate: project.startDate,
+                endDate: project.endDate,
+                closed: project.status === "Concluído" || project.status === "Cancelado",
+                tasks: tasks.map(toGanttTask),
+              },
+            ]}
+            canEdit={hasPermission("projetos", "edit")}
+            onProjectDatesChange={handleProjectDatesChange}
+            onTaskClick={(taskId) => {
+              const task = tasks.find((t) => t.id === taskId);
+              if (task) handleTaskClick(task);
+            }}
+            defaultExpanded
+          />
+        </CardContent>
+      </Card>
+
       <div className="grid gap-6 md:grid-cols-2">
         {/* Informações do Cliente */}
         <Card>
@@ -682,6 +799,60 @@ export default function ProjectDetailPage() {
         </DialogContent>
       </Dialog>
 
+      {/* Dialog de Salvar como Modelo */}
+      <Dialog open={isTemplateDialogOpen} onOpenChange={setIsTemplateDialogOpen}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>Salvar como Modelo</DialogTitle>
+            <DialogDescription>
+              As colunas do projeto, as tarefas com checklist e a equipe serão usadas em novos projetos.
+              Um modelo com o mesmo nome será substituído.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-2">
+            <div className="grid gap-2">
+              <Label htmlFor="template-name">Nome</Label>
+              <Input
+                id="template-name"
+                value={templateName}
+                onChange={(e) => setTemplateName(e.target.value)}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="template-description">Descrição</Label>
+              <Textarea
+                id="template-description"
+                rows={2}
+                value={templateDescription}
+                onChange={(e) => setTemplateDescription(e.target.value)}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="template-folders">Pastas no Drive</Label>
+              <Textarea
+                id="template-folders"
+                rows={3}
+                placeholder={"Laudos\nFotos/Vistoria"}
+                value={templateFolders}
+                onChange={(e) => setTemplateFolders(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Uma pasta por linha; use / para subpastas.
+              </p>
+            </div>
+          </div>
+          <div className="flex justify-end gap-2 mt-4">
+            <Button variant="outline" onClick={() => setIsTemplateDialogOpen(false)}>
+              Cancelar
+            </Button>
+            <Button onClick={handleTemplateSave} disabled={savingTemplate || !templateName.trim()}>
+              {savingTemplate && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Salvar modelo
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
       {/* Dialog de Gestão de Membros */}
       <Dialog open={isMemberDialogOpen} onOpenChange={setIsMemberDialogOpen}>
         <DialogContent>
@@ -27,12 +27,21 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table"
-import { Plus, Search, LayoutGrid, List, Calendar as CalendarIcon, Loader2 } from "lucide-react"
-import { listProjects, createProject, fetchNextProjectCode, type ProjectStatusUI } from "@/lib/data/projects"
+import { Plus, Search, LayoutGrid, List, GanttChart, Calendar as CalendarIcon, Loader2 } from "lucide-react"
+import {
+  listProjects,
+  createProject,
+  updateProject,
+  fetchNextProjectCode,
+  type ProjectStatusUI,
+} from "@/lib/data/projects"
+import { listTasks, type KanbanTask } from "@/lib/data/tasks"
+import { listProjectTemplates, type ProjectTemplate } from "@/lib/data/project-templates"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { listClients } from "@/lib/data/clients"
 import { useToast } from "@/hooks/use-toast"
 import { AppMainBleed } from "@/components/app-main-bleed"
+import { ProjectGantt, toGanttTask, type GanttProject } from "@/components/project/project-gantt"
 
 type ProjectStatus = ProjectStatusUI
 
@@ -44,6 +53,7 @@ type Project = {
   status: ProjectStatus
   statusId: string | null
   statusColor: string | null
+  startDate: string | null
   endDate: string | null
   color: string | null
 }
@@ -63,6 +73,8 @@ export default function ProjetosPage() {
   const [selectedClientId, setSelectedClientId] = useState<string>("")
   const [newEndDate, setNewEndDate] = useState("")
   const [clients, setClients] = useState<ClientOption[]>([])
+  const [templates, setTemplates] = useState<ProjectTemplate[]>([])
+  const [selectedTemplateId, setSelectedTemplateId] = useState<string>("none")
   const [createDialogOpen, setCreateDialogOpen] = useState(false)
   const [loadingProjectCode, setLoadingProjectCode] = useState(false)
 
@@ -79,6 +91,7 @@ export default function ProjetosPage() {
           status: p.status,
           statusId: p.statusId ?? null,
           statusColor: p.statusColor ?? null,
+          startDate: p.startDate,
           endDate: p.endDate,
           color: p.color ?? null,
         }))
@@ -115,6 +128,13 @@ export default function ProjetosPage() {
     })()
   }, [toast])
 
+  useEffect(() => {
+    if (!createDialogOpen) return
+    listProjectTemplates()
+      .then(setTemplates)
+      .catch((err) => console.error("Erro ao carregar modelos de projeto:", err))
+  }, [createDialogOpen])
+
   useEffect(() => {
     if (!createDialogOpen) return
     let cancelled = false
@@ -146,7 +166,24 @@ export default function ProjetosPage() {
   }, [createDialogOpen, toast])
 
   const [searchTerm, setSearchTerm] = useState("")
-  const [view, setView] = useState<"list" | "grid">("grid")
+  const [view, setView] = useState<"list" | "grid" | "gantt">("grid")
+  const [ganttTasks, setGanttTasks] = useState<KanbanTask[] | null>(null)
+
+  // Tarefas só são carregadas ao abrir o cronograma
+  useEffect(() => {
+    if (view !== "gantt" || ganttTasks) return
+    listTasks()
+      .then(setGanttTasks)
+      .catch((err) => {
+        console.error("Erro ao carregar tarefas:", err)
+        setGanttTasks([])
+        toast({
+          title: "Erro ao carregar tarefas",
+          description: "O cronograma será exibido sem as tarefas.",
+          variant: "destructive",
+        })
+      })
+  }, [view, ganttTasks, toast])
 
   const normalizedSearch = searchTerm.trim().toLowerCase()
 
@@ -159,6 +196,33 @@ export default function ProjetosPage() {
     )
   })
 
+  const ganttProjects: GanttProject[] = filteredProjects.map((project) => ({
+    id: project.id,
+    code: project.code,
+    name: project.name,
+    color: project.color,
+    startDate: project.startDate,
+    endDate: project.endDate,
+    closed: project.status === "Concluído" || project.status === "Cancelado",
+    tasks: (ganttTasks ?? []).filter((task) => task.project?.id === project.id).map(toGanttTask),
+  }))
+
+  async function handleProjectDatesChange(projectId: string, startDate: string, endDate: string) {
+    // Atualização otimista; recarrega a lista em caso de erro
+    setProjects((prev) => prev.map((p) => (p.id === projectId ? { ...p, startDate, endDate } : p)))
+    try {
+      await updateProject(projectId, { start_date: startDate, end_date: endDate })
+    } catch (err) {
+      console.error("Erro ao atualizar datas do projeto:", err)
+      toast({
+        title: "Erro ao atualizar datas",
+        description: "Não foi possível salvar o novo período do projeto.",
+        variant: "destructive",
+      })
+      await loadProjects()
+    }
+  }
+
   const getStatusBadgeConfig = (status: string, statusColor?: string | null): {
     variant: ComponentProps<typeof Badge>["variant"]
     style?: CSSProperties
@@ -194,8 +258,11 @@ export default function ProjetosPage() {
     setNewName("")
     setSelectedClientId("")
     setNewEndDate("")
+    setSelectedTemplateId("none")
   }
 
+  const selectedTemplate = templates.find((t) => t.id === selectedTemplateId) ?? null
+
   async function handleSaveProject() {
     const code = newCode.trim()
     const name = newName.trim()
@@ -216,6 +283,7 @@ export default function ProjetosPage() {
         name,
         clientId: selectedClientId,
         endDate: newEndDate,
+        templateId: selectedTemplateId === "none" ? null : selectedTemplateId,
       })
       toast({
         title: "Projeto criado",
@@ -308,6 +376,27 @@ export default function ProjetosPage() {
                 <Label htmlFor="endDate">Prazo</Label>
                 <Input id="endDate" type="date" value={newEndDate} onChange={(e) => setNewEndDate(e.target.value)} />
               </div>
+              <div className="grid gap-2">
+                <Label htmlFor="template">Modelo</Label>
+                <Select value={selectedTemplateId} onValueChange={setSelectedTemplateId}>
+                  <SelectTrigger id="template">
+                    <SelectValue placeholder="Nenhum" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Nenhum</SelectItem>
+                    {templates.map((t) => (
+                      <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {selectedTemplate && (
+                  <p className="text-xs text-muted-foreground">
+                    {selectedTemplate.kanbanColumns.length} colunas, {selectedTemplate.tasks.length} tarefas
+                    {selectedTemplate.driveFolders.length > 0 && `, ${selectedTemplate.driveFolders.length} pastas no Drive`}
+                    {selectedTemplate.description && ` — ${selectedTemplate.description}`}
+                  </p>
+                )}
+              </div>
             </div>
             <DialogFooter>
               <Button
@@ -360,10 +449,30 @@ export default function ProjetosPage() {
               >
                 <LayoutGrid className="h-4 w-4" />
               </Button>
+              <Button
+                type="button"
+                variant={view === "gantt" ? "default" : "outline"}
+                size="icon"
+                onClick={() => setView("gantt")}
+                aria-label="Visualização em cronograma"
+              >
+                <GanttChart className="h-4 w-4" />
+              </Button>
             </div>
           </div>
 
-          {view === "list" ? (
+          {view === "gantt" ? (
+            <ProjectGantt
+              projects={ganttProjects}
+              canEdit={hasPermission("projetos", "edit")}
+              onProjectDatesChange={handleProjectDatesChange}
+              onProjectClick={(projectId) => router.push(`/projetos/${projectId}`)}
+              onTaskClick={(taskId) => {
+                const projectId = ganttTasks?.find((task) => task.id === taskId)?.project?.id
+                if (projectId) router.push(`/projetos/${projectId}`)
+              }}
+            />
+          ) : view === "list" ? (
             <Table>
               <TableHeader>
                 <TableRow>
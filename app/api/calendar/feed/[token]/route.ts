@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { buildCalendarFeed } from '@/lib/services/calendar-feed'
+
+/**
+ * API Route for the iCalendar (.ics) feed
+ * 
+ * GET /api/calendar/feed/[token] - Events of the token owner in iCalendar format
+ * 
+ * This endpoint is public (no session) so calendar clients can subscribe to it;
+ * access is granted by the secret token and the owner's `agenda` view permission
+ */
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params
+
+    // Clientes de calendário costumam exigir a extensão .ics na URL
+    const calendar = await buildCalendarFeed(token.replace(/\.ics$/i, ''))
+
+    if (!calendar) {
+      return NextResponse.json(
+        { error: 'Calendar feed not found', code: 'NOT_FOUND' },
+        { status: 404 }
+      )
+    }
+
+    return new NextResponse(calendar, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="avaliatec.ics"',
+        'Cache-Control': 'private, max-age=300',
+      }
+    })
+  } catch (error) {
+    console.error('Error in GET /api/calendar/feed/[token]:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withPermissionCheck } from '@/lib/middleware/api-protection'
+import { getOrCreateFeedToken } from '@/lib/services/calendar-feed'
+import { resolveSiteOrigin } from '@/lib/auth/resolve-site-origin'
+
+/**
+ * API Route for the current user's iCalendar feed link
+ * 
+ * GET /api/calendar/feed - Get (or create) the personal feed URL
+ * POST /api/calendar/feed - Regenerate the feed URL (previous link stops working)
+ */
+
+function feedUrl(request: NextRequest, token: string): string {
+  return `${resolveSiteOrigin(request)}/api/calendar/feed/${token}.ics`
+}
+
+export async function GET(request: NextRequest) {
+  return withPermissionCheck(request, 'agenda', async (_userId, authUserId) => {
+    try {
+      const token = await getOrCreateFeedToken(authUserId)
+
+      return NextResponse.json({
+        success: true,
+        data: { url: feedUrl(request, token) }
+      })
+    } catch (error) {
+      console.error('Error in GET /api/calendar/feed:', error)
+      return NextResponse.json(
+        { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+export async function POST(request: NextRequest) {
+  return withPermissionCheck(request, 'agenda', async (_userId, authUserId) => {
+    try {
+      const token = await getOrCreateFeedToken(authUserId, true)
+
+      return NextResponse.json({
+        success: true,
+        data: { url: feedUrl(request, token) }
+      })
+    } catch (error) {
+      console.error('Error in POST /api/calendar/feed:', error)
+      return NextResponse.json(
+        { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+        { status: 500 }
+      )
+    }
+  })
+}
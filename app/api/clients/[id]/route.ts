@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { withPermissionCheck } from '@/lib/middleware/api-protection'
+import { validateClientDocument } from '@/lib/server/validateClientDocument'
 
 /**
  * API Route for Individual Client Operations
@@ -57,6 +58,15 @@ export async function PUT(
       const supabase = await createClient()
       const body = await request.json()
 
+      // Validate CPF/CNPJ only when it is being changed
+      if ('document' in body) {
+        const documentValidation = await validateClientDocument(supabase, body.document, id)
+        if (!documentValidation.ok) {
+          return NextResponse.json(documentValidation.json, { status: documentValidation.status })
+        }
+        body.document = documentValidation.document
+      }
+
       const { data: client, error } = await supabase
         .from('clients')
         .update(body)
@@ -66,6 +76,12 @@ export async function PUT(
 
       if (error) {
         console.error('Error updating client:', error)
+        if (error.code === '23505') {
+          return NextResponse.json(
+            { error: 'Já existe um cliente com este CPF/CNPJ', code: 'DUPLICATE_DOCUMENT' },
+            { status: 409 }
+          )
+        }
         return NextResponse.json(
           { error: 'Failed to update client', code: 'UPDATE_ERROR' },
           { status: 500 }
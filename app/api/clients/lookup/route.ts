@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withPermissionCheck } from '@/lib/middleware/api-protection'
+import { lookupCompany } from '@/lib/services/company-lookup'
+import { isValidCnpj, normalizeDocument } from '@/lib/utils/document'
+
+/**
+ * API Route for Company Lookup
+ *
+ * GET /api/clients/lookup?cnpj=<cnpj> - Company registration data used to
+ * pre-fill the client form. The provider is set by COMPANY_LOOKUP_PROVIDER
+ * (see lib/services/company-lookup.ts).
+ */
+
+export async function GET(request: NextRequest) {
+  return withPermissionCheck(request, 'clientes', async () => {
+    try {
+      const cnpj = normalizeDocument(request.nextUrl.searchParams.get('cnpj'))
+
+      if (!isValidCnpj(cnpj)) {
+        return NextResponse.json(
+          { error: 'CNPJ inválido', code: 'INVALID_DOCUMENT' },
+          { status: 422 }
+        )
+      }
+
+      const company = await lookupCompany(cnpj)
+      if (!company) {
+        return NextResponse.json(
+          { error: 'CNPJ não encontrado', code: 'NOT_FOUND' },
+          { status: 404 }
+        )
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: company
+      })
+    } catch (error) {
+      console.error('Error in GET /api/clients/lookup:', error)
+      return NextResponse.json(
+        { error: 'Não foi possível consultar o CNPJ', code: 'LOOKUP_ERROR' },
+        { status: 502 }
+      )
+    }
+  })
+}
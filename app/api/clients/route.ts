@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { withPermissionCheck } from '@/lib/middleware/api-protection'
+import { validateClientDocument } from '@/lib/server/validateClientDocument'
 
 /**
  * API Route for Clients Management
@@ -56,11 +57,18 @@ export async function POST(request: NextRequest) {
         )
       }
 
+      // Validate CPF/CNPJ (check digits + uniqueness)
+      const documentValidation = await validateClientDocument(supabase, body.document)
+      if (!documentValidation.ok) {
+        return NextResponse.json(documentValidation.json, { status: documentValidation.status })
+      }
+
       // Create client with user as assigned user
       const { data: client, error } = await supabase
         .from('clients')
         .insert({
           ...body,
+          document: documentValidation.document,
           created_by: userId,
           assigned_users: [userId, ...(body.assigned_users || [])]
         })
@@ -69,6 +77,12 @@ export async function POST(request: NextRequest) {
 
       if (error) {
         console.error('Error creating client:', error)
+        if (error.code === '23505') {
+          return NextResponse.json(
+            { error: 'Já existe um cliente com este CPF/CNPJ', code: 'DUPLICATE_DOCUMENT' },
+            { status: 409 }
+          )
+        }
         return NextResponse.json(
           { error: 'Failed to create client', code: 'CREATE_ERROR' },
           { status: 500 }
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { dispatchEventReminders } from '@/lib/services/event-reminders'
+import { resolveSiteOrigin } from '@/lib/auth/resolve-site-origin'
+import { isAuthorizedCron } from '@/lib/auth/cron'
+
+/**
+ * API Route for Event Reminders
+ * 
+ * POST /api/events/reminders - Send due reminder emails to event participants
+ * 
+ * Meant to be called by a cron job (e.g. every 5 minutes). There is no user
+ * session: requests must send the `X-Cron-Secret` header (or
+ * `Authorization: Bearer <secret>`) matching CRON_SECRET
+ */
+
+export async function POST(request: NextRequest) {
+  if (!isAuthorizedCron(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const result = await dispatchEventReminders(resolveSiteOrigin(request))
+
+    return NextResponse.json({
+      success: true,
+      data: result
+    })
+  } catch (error) {
+    console.error('Error in POST /api/events/reminders:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+      { status: 500 }
+    )
+  }
+}
@@ -6,27 +6,7 @@ import {
   resolveProjectFolder,
   driveUploadFile,
 } from '@/lib/services/googleDriveService'
-
-const ALLOWED_MIME_TYPES = new Set([
-  'application/pdf',
-  'image/jpeg',
-  'image/png',
-  'image/webp',
-  'image/gif',
-  'application/msword',
-  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-  'application/vnd.ms-excel',
-  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-  'application/vnd.ms-powerpoint',
-  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
-  'text/plain',
-  'text/csv',
-  'application/zip',
-  'application/x-zip-compressed',
-])
-
-const MAX_FILE_SIZE = 100 * 1024 * 1024 // 100 MB
-const BLOCKED_EXTENSIONS = new Set(['exe', 'bat', 'cmd', 'sh', 'ps1', 'vbs', 'js', 'msi'])
+import { validateUploadFile } from '@/lib/server/validateUploadFile'
 
 /**
  * GET /api/files
@@ -167,33 +147,11 @@ export async function POST(request: NextRequest) {
         )
       }
 
-      // Validate MIME type
-      if (!ALLOWED_MIME_TYPES.has(fileBlob.type)) {
-        return NextResponse.json(
-          { error: `File type "${fileBlob.type}" is not allowed`, code: 'INVALID_FILE_TYPE' },
-          { status: 422 }
-        )
-      }
-
-      // Validate extension
-      const ext = fileBlob.name.split('.').pop()?.toLowerCase() ?? ''
-      if (BLOCKED_EXTENSIONS.has(ext)) {
-        return NextResponse.json(
-          { error: `File extension .${ext} is not allowed`, code: 'INVALID_FILE_TYPE' },
-          { status: 422 }
-        )
-      }
-
-      // Validate size
-      if (fileBlob.size > MAX_FILE_SIZE) {
-        return NextResponse.json(
-          {
-            error: `File exceeds maximum size of ${MAX_FILE_SIZE / 1024 / 1024} MB`,
-            code: 'FILE_TOO_LARGE',
-          },
-          { status: 422 }
-        )
+      const validation = validateUploadFile(fileBlob)
+      if (!validation.ok) {
+        return NextResponse.json(validation.json, { status: validation.status })
       }
+      const ext = validation.ext
 
       // Resolve target folder
       let targetFolderId: string
@@ -0,0 +1,176 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getAuthenticatedUser } from '@/lib/middleware/api-protection'
+import { resolveSiteOrigin } from '@/lib/auth/resolve-site-origin'
+import { notifyUsers } from '@/lib/services/notifications'
+import { isNotificationType, type NotificationType } from '@/lib/utils/notifications'
+
+/**
+ * API Route for Notifications
+ *
+ * POST /api/notifications - Notify users about a change the caller just made
+ *
+ * Body: { type, entityId: string, userIds: string[] }
+ * - task_assigned: the task's current assignee
+ * - task_watcher: users currently watching the task
+ * - event_participant: users currently participating in the event
+ * - project_team: users currently in the project team
+ *
+ * The entity is read with the caller's session (RLS), and only users that hold
+ * the relation right now are notified, so callers cannot notify arbitrary users.
+ * Each recipient is notified at most once per type and entity within
+ * DEDUP_WINDOW_MINUTES, so replaying the request does not resend.
+ * Mentions use POST /api/tasks/[id]/mentions.
+ */
+
+const DEDUP_WINDOW_MINUTES = 10
+
+type NotificationContent = {
+  userIds: string[]
+  title: string
+  message: string
+  link: string
+  entityType: string
+}
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>
+
+async function resolveContent(
+  supabase: SupabaseServerClient,
+  type: NotificationType,
+  entityId: string,
+  actorName: string
+): Promise<NotificationContent | null> {
+  switch (type) {
+    case 'task_assigned':
+    case 'task_watcher': {
+      const { data: task, error } = await supabase
+        .from('tasks')
+        .select('id, title, assigned_to, watchers')
+        .eq('id', entityId)
+        .maybeSingle()
+      if (error) throw error
+      if (!task) return null
+
+      const assigned = type === 'task_assigned'
+      return {
+        userIds: assigned ? (task.assigned_to ? [task.assigned_to] : []) : task.watchers ?? [],
+        title: assigned ? 'Nova tarefa atribuída a você' : 'Você está observando uma tarefa',
+        message: assigned
+          ? `${actorName} atribuiu a tarefa "${task.title}" a você.`
+          : `${actorName} adicionou você como observador da tarefa "${task.title}".`,
+        link: `/kanban?task=${task.id}`,
+        entityType: 'task',
+      }
+    }
+    case 'event_participant': {
+      const { data: event, error } = await supabase
+        .from('events')
+        .select('id, title, event_date, event_time, event_participants(user_id)')
+        .eq('id', entityId)
+        .maybeSingle()
+      if (error) throw error
+      if (!event) return null
+
+      const [year, month, day] = String(event.event_date).split('-')
+      const when = `${day}/${month}/${year}${event.event_time ? ` às ${String(event.event_time).slice(0, 5)}` : ''}`
+      return {
+        userIds: (event.event_participants ?? []).map((p: { user_id: string }) => p.user_id),
+        title: 'Você foi adicionado a um evento',
+        message: `${actorName} adicionou você ao evento "${event.title}" em ${when}.`,
+        link: '/agenda',
+        entityType: 'event',
+      }
+    }
+    case 'project_team': {
+      const { data: project, error } = await supabase
+        .from('projects')
+        .select('id, name, code, team_members')
+        .eq('id', entityId)
+        .maybeSingle()
+      if (error) throw error
+      if (!project) return null
+
+      return {
+        userIds: project.team_members ?? [],
+        title: 'Você entrou na equipe de um projeto',
+        message: `${actorName} adicionou você à equipe do projeto ${project.code ? `${project.code} - ` : ''}${project.name}.`,
+        link: `/projetos/${project.id}`,
+        entityType: 'project',
+      }
+    }
+    default:
+      return null
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const type = body.type
+    const entityId = typeof body.entityId === 'string' ? body.entityId : null
+    const requested: string[] = Array.isArray(body.userIds)
+      ? body.userIds.filter((id: unknown): id is string => typeof id === 'string')
+      : []
+
+    if (!isNotificationType(type) || type === 'task_mention' || !entityId) {
+      return NextResponse.json(
+        { error: 'Valid type and entityId are required', code: 'VALIDATION_ERROR' },
+        { status: 400 }
+      )
+    }
+
+    if (requested.length === 0) {
+      return NextResponse.json({ success: true, data: { notified: 0, emailed: 0 } })
+    }
+
+    const supabase = await createClient()
+    const { data: actor } = await supabase
+      .from('users')
+      .select('full_name')
+      .eq('auth_user_id', user.authUserId)
+      .maybeSingle()
+
+    const content = await resolveContent(supabase, type, entityId, actor?.full_name || 'Alguém')
+    if (!content) {
+      return NextResponse.json(
+        { error: 'Entity not found', code: 'NOT_FOUND' },
+        { status: 404 }
+      )
+    }
+
+    const result = await notifyUsers(
+      {
+        userIds: requested.filter((id) => content.userIds.includes(id)),
+        type,
+        title: content.title,
+        message: content.message,
+        link: content.link,
+        actorId: user.authUserId,
+        entityType: content.entityType,
+        entityId,
+        dedupWindowMinutes: DEDUP_WINDOW_MINUTES,
+      },
+      resolveSiteOrigin(request)
+    )
+
+    return NextResponse.json({
+      success: true,
+      data: result
+    })
+  } catch (error) {
+    console.error('Error in POST /api/notifications:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+      { status: 500 }
+    )
+  }
+}
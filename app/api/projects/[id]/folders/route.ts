@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { withPermissionCheck } from '@/lib/middleware/api-protection'
+import { resolveProjectFolder, resolveProjectSubfolder } from '@/lib/services/googleDriveService'
+
+/**
+ * API Route for Project Drive Folders
+ *
+ * POST /api/projects/[id]/folders - Create the project folder in Drive and the
+ * given sub-folders (body: { folders: string[] }, nested paths use "/")
+ */
+
+const MAX_FOLDERS = 50
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return withPermissionCheck(request, 'projetos', async () => {
+    try {
+      const { id } = await params
+      const supabase = await createClient()
+      const body = await request.json().catch(() => ({}))
+
+      const folders: string[] = Array.isArray(body.folders)
+        ? body.folders.filter((f: unknown): f is string => typeof f === 'string' && f.trim() !== '')
+        : []
+
+      if (folders.length > MAX_FOLDERS) {
+        return NextResponse.json(
+          { error: `At most ${MAX_FOLDERS} folders per request`, code: 'INVALID_INPUT' },
+          { status: 400 }
+        )
+      }
+
+      // RLS garante que o usuário enxerga o projeto
+      const { data: project, error } = await supabase
+        .from('projects')
+        .select('id')
+        .eq('id', id)
+        .maybeSingle()
+
+      if (error || !project) {
+        return NextResponse.json(
+          { error: 'Project not found', code: 'NOT_FOUND' },
+          { status: 404 }
+        )
+      }
+
+      const projectFolderId = await resolveProjectFolder(id)
+      const created: { path: string; folderId: string }[] = []
+      for (const path of folders) {
+        created.push({ path, folderId: await resolveProjectSubfolder(id, path) })
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: { projectFolderId, folders: created }
+      }, { status: 201 })
+    } catch (error) {
+      console.error('Error in POST /api/projects/[id]/folders:', error)
+      return NextResponse.json(
+        { error: 'Failed to create Drive folders', code: 'DRIVE_ERROR' },
+        { status: 500 }
+      )
+    }
+  })
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { withPermissionCheck } from '@/lib/middleware/api-protection'
+import {
+  getProposal,
+  renderProposal,
+  storeProposalPdf,
+} from '@/lib/services/proposals'
+import { getProposalFileName } from '@/lib/utils/proposals'
+
+/**
+ * API Route for Proposal PDFs
+ *
+ * GET  /api/proposals/[id]/pdf - Render the proposal PDF on the fly
+ *      (inline preview; `?download=1` forces a download)
+ * POST /api/proposals/[id]/pdf - Render the PDF and store it in the client's
+ *      Drive folder ("Clientes/<client id>/Propostas"), replacing the previous version.
+ *      Only drafts: the PDF of a sent proposal is the copy the client received.
+ */
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  return withPermissionCheck(request, 'clientes', async () => {
+    try {
+      const { id } = await params
+      const supabase = await createClient()
+
+      const proposal = await getProposal(supabase, id)
+      if (!proposal) {
+        return NextResponse.json(
+          { error: 'Proposal not found', code: 'NOT_FOUND' },
+          { status: 404 }
+        )
+      }
+
+      const pdf = await renderProposal(proposal)
+      const fileName = getProposalFileName(proposal)
+      const asciiName = fileName.normalize('NFD').replace(/[^\w.\-_ ]/g, '_')
+      const disposition = request.nextUrl.searchParams.get('download') ? 'attachment' : 'inline'
+
+      return new NextResponse(new Uint8Array(pdf), {
+        headers: {
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `${disposition}; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+          'Cache-Control': 'no-store',
+        },
+      })
+    } catch (error) {
+      console.error('Error in GET /api/proposals/[id]/pdf:', error)
+      return NextResponse.json(
+        { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  return withPermissionCheck(request, 'clientes', async () => {
+    try {
+      const { id } = await params
+      const supabase = await createClient()
+
+      const proposal = await getProposal(supabase, id)
+      if (!proposal) {
+        return NextResponse.json(
+          { error: 'Proposal not found', code: 'NOT_FOUND' },
+          { status: 404 }
+        )
+      }
+
+      if (proposal.status !== 'draft') {
+        return NextResponse.json(
+          { error: 'Proposal was already sent; its PDF cannot be replaced', code: 'PROPOSAL_ALREADY_SENT' },
+          { status: 409 }
+        )
+      }
+
+      await storeProposalPdf(supabase, proposal, await renderProposal(proposal))
+
+      return NextResponse.json({
+        success: true,
+        data: await getProposal(supabase, id)
+      })
+    } catch (error) {
+      console.error('Error in POST /api/proposals/[id]/pdf:', error)
+      return NextResponse.json(
+        { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+        { status: 500 }
+      )
+    }
+  })
+}
@@ -0,0 +1,157 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { withPermissionCheck } from '@/lib/middleware/api-protection'
+import { checkPermission } from '@/lib/services/permissions'
+import { generateProposalEmail, sendEmail } from '@/lib/email'
+import {
+  getProposal,
+  renderProposal,
+  storeProposalPdf,
+} from '@/lib/services/proposals'
+import { formatCurrencyBRL, formatProposalNumber, getProposalFileName } from '@/lib/utils/proposals'
+
+/**
+ * POST /api/proposals/[id]/send
+ *
+ * Renders the proposal PDF, stores it in the client's Drive folder and emails
+ * it as an attachment. The proposal becomes "sent" (read-only) and a linked
+ * deal still in "lead" moves to "proposal_sent".
+ *
+ * A proposal already sent is only emailed again with `resend: true`: the PDF
+ * keeps its original issue date and the copy stored in Drive is left untouched.
+ *
+ * Sending changes the proposal, so besides `create` (POST) the user also needs
+ * `edit` on "clientes".
+ *
+ * Body: { to: string[], cc?: string[], subject: string, message: string, resend?: boolean }
+ */
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+function parseEmails(value: unknown): string[] | null {
+  if (value === undefined) return []
+  if (!Array.isArray(value)) return null
+  const emails = value.map((v) => (typeof v === 'string' ? v.trim().toLowerCase() : ''))
+  if (emails.some((email) => !EMAIL_PATTERN.test(email))) return null
+  return Array.from(new Set(emails))
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  return withPermissionCheck(request, 'clientes', async (userId) => {
+    try {
+      if (!(await checkPermission(userId, 'clientes', 'edit'))) {
+        return NextResponse.json(
+          { error: 'Permission denied', code: 'PERMISSION_DENIED' },
+          { status: 403 }
+        )
+      }
+
+      const { id } = await params
+      const supabase = await createClient()
+
+      const body = await request.json().catch(() => null)
+      const to = parseEmails(body?.to)
+      const cc = parseEmails(body?.cc)
+      const subject = typeof body?.subject === 'string' ? body.subject.trim() : ''
+      const message = typeof body?.message === 'string' ? body.message : ''
+      const resend = body?.resend === true
+
+      if (!to || to.length === 0 || !cc || !subject) {
+        return NextResponse.json(
+          { error: 'Valid recipients (to) and subject are required', code: 'INVALID_INPUT' },
+          { status: 400 }
+        )
+      }
+
+      const proposal = await getProposal(supabase, id)
+      if (!proposal) {
+        return NextResponse.json(
+          { error: 'Proposal not found', code: 'NOT_FOUND' },
+          { status: 404 }
+        )
+      }
+
+      const isDraft = proposal.status === 'draft'
+      if (!isDraft && !resend) {
+        return NextResponse.json(
+          { error: 'Proposal was already sent; use resend to email it again', code: 'PROPOSAL_ALREADY_SENT' },
+          { status: 409 }
+        )
+      }
+
+      // Proposta enviada é somente leitura: o PDF gerado de novo é igual ao enviado
+      const pdf = await renderProposal(proposal)
+      if (isDraft) {
+        await storeProposalPdf(supabase, proposal, pdf)
+      }
+
+      const { data: sender } = await supabase
+        .from('users')
+        .select('full_name')
+        .eq('id', userId)
+        .maybeSingle()
+
+      const email = generateProposalEmail({
+        to,
+        cc,
+        subject,
+        message,
+        proposalNumber: formatProposalNumber(Number(proposal.number)),
+        proposalTitle: proposal.title,
+        total: formatCurrencyBRL(Number(proposal.total)),
+        validUntil: new Date(`${proposal.valid_until}T00:00:00`).toLocaleDateString('pt-BR'),
+        senderName: sender?.full_name || undefined,
+      })
+
+      const result = await sendEmail({
+        ...email,
+        attachments: [
+          {
+            filename: getProposalFileName(proposal),
+            content: pdf,
+            contentType: 'application/pdf',
+          },
+        ],
+      })
+
+      if (!result.success) {
+        return NextResponse.json(
+          { error: result.error ?? 'Failed to send email', code: 'EMAIL_SEND_FAILED' },
+          { status: 502 }
+        )
+      }
+
+      const recipients = [...to, ...cc]
+      const { error: updateError } = await supabase
+        .from('proposals')
+        .update(
+          isDraft
+            ? { status: 'sent', sent_at: new Date().toISOString(), sent_to: recipients }
+            : { sent_to: Array.from(new Set([...(proposal.sent_to ?? []), ...recipients])) }
+        )
+        .eq('id', id)
+      if (updateError) throw updateError
+
+      if (isDraft && proposal.deal_id && proposal.deals?.stage === 'lead') {
+        const { error: dealError } = await supabase
+          .from('deals')
+          .update({ stage: 'proposal_sent' })
+          .eq('id', proposal.deal_id)
+        if (dealError) console.error('Error advancing deal after sending proposal:', dealError)
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: await getProposal(supabase, id)
+      })
+    } catch (error) {
+      console.error('Error in POST /api/proposals/[id]/send:', error)
+      return NextResponse.json(
+        { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+        { status: 500 }
+      )
+    }
+  })
+}
@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { withPermissionCheck } from '@/lib/middleware/api-protection'
+import { driveUploadFile, resolveProjectSubfolder } from '@/lib/services/googleDriveService'
+import { validateUploadFile } from '@/lib/server/validateUploadFile'
+
+/**
+ * API Route for Task Attachments
+ *
+ * GET  /api/tasks/[id]/attachments - List files attached to a task
+ * POST /api/tasks/[id]/attachments - Upload a file (multipart/form-data, field `file`)
+ *
+ * Files are uploaded to the Drive sub-folder "Tarefas/<task id>" of the task's
+ * project folder and recorded in `files` with `project_id` and `task_id`.
+ * Preview, download and delete go through /api/files/[id].
+ */
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+const TASK_ATTACHMENT_COLUMNS =
+  'id, name, original_name, mime_type, size_bytes, web_view_link, external_file_id, uploaded_by, created_at'
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  return withPermissionCheck(request, 'kanban', async () => {
+    try {
+      const { id } = await params
+      const supabase = await createClient()
+
+      const { data, error } = await supabase
+        .from('files')
+        .select(TASK_ATTACHMENT_COLUMNS)
+        .eq('task_id', id)
+        .order('created_at', { ascending: false })
+
+      if (error) throw error
+
+      return NextResponse.json({
+        success: true,
+        data: data ?? []
+      })
+    } catch (error) {
+      console.error('Error in GET /api/tasks/[id]/attachments:', error)
+      return NextResponse.json(
+        { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  return withPermissionCheck(request, 'kanban', async (userId) => {
+    try {
+      const { id } = await params
+      const supabase = await createClient()
+
+      let formData: FormData
+      try {
+        formData = await request.formData()
+      } catch {
+        return NextResponse.json(
+          { error: 'Expected multipart/form-data', code: 'INVALID_INPUT' },
+          { status: 400 }
+        )
+      }
+
+      const fileBlob = formData.get('file') as File | null
+      if (!fileBlob) {
+        return NextResponse.json(
+          { error: 'file is required', code: 'INVALID_INPUT' },
+          { status: 400 }
+        )
+      }
+
+      const validation = validateUploadFile(fileBlob)
+      if (!validation.ok) {
+        return NextResponse.json(validation.json, { status: validation.status })
+      }
+
+      const { data: task, error: taskError } = await supabase
+        .from('tasks')
+        .select('id, project_id')
+        .eq('id', id)
+        .maybeSingle()
+
+      if (taskError) throw taskError
+      if (!task) {
+        return NextResponse.json(
+          { error: 'Task not found', code: 'NOT_FOUND' },
+          { status: 404 }
+        )
+      }
+
+      // Os arquivos ficam na pasta do projeto no Drive
+      if (!task.project_id) {
+        return NextResponse.json(
+          { error: 'Task must belong to a project to receive attachments', code: 'TASK_WITHOUT_PROJECT' },
+          { status: 422 }
+        )
+      }
+
+      const folderId = await resolveProjectSubfolder(task.project_id, `Tarefas/${task.id}`)
+      const driveFile = await driveUploadFile({
+        name: fileBlob.name,
+        mimeType: fileBlob.type,
+        buffer: Buffer.from(await fileBlob.arrayBuffer()),
+        folderId,
+      })
+
+      const { data: fileRecord, error: insertError } = await supabase
+        .from('files')
+        .insert({
+          name: fileBlob.name,
+          original_name: fileBlob.name,
+          file_type: fileBlob.type.split('/')[1] ?? validation.ext,
+          mime_type: fileBlob.type,
+          size_bytes: fileBlob.size,
+          storage_path: '',
+          project_id: task.project_id,
+          task_id: task.id,
+          uploaded_by: userId,
+          external_provider: 'google_drive',
+          external_file_id: driveFile.id,
+          web_view_link: driveFile.webViewLink,
+          drive_parent_id: folderId,
+        })
+        .select(TASK_ATTACHMENT_COLUMNS)
+        .single()
+
+      if (insertError) {
+        console.error('Error saving task attachment metadata:', insertError)
+        return NextResponse.json(
+          {
+            error: 'File uploaded to Drive but metadata save failed. Contact support.',
+            code: 'METADATA_SAVE_ERROR',
+            drive_file_id: driveFile.id,
+          },
+          { status: 500 }
+        )
+      }
+
+      return NextResponse.json(
+        { success: true, data: fileRecord },
+        { status: 201 }
+      )
+    } catch (error) {
+      console.error('Error in POST /api/tasks/[id]/attachments:', error)
+      return NextResponse.json(
+        { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+        { status: 500 }
+      )
+    }
+  })
+}
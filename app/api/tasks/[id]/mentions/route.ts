@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { withPermissionCheck } from '@/lib/middleware/api-protection'
+import { resolveSiteOrigin } from '@/lib/auth/resolve-site-origin'
+import { notifyUsers } from '@/lib/services/notifications'
+import { extractMentionedUserIds } from '@/lib/utils/mentions'
+
+/**
+ * API Route for Comment Mentions
+ *
+ * POST /api/tasks/[id]/mentions - Add mentioned users as watchers and notify them
+ *
+ * Body: { commentId: string, userIds?: string[] }
+ * - Only the comment author can trigger the notifications
+ * - `userIds` restricts the notification to newly added mentions (comment edits);
+ *   ids not stored in the comment's `mentioned_user_ids` are ignored
+ * - Only active users whose "@Name" appears in the comment text are notified
+ * - Each user is notified once per comment (`claim_comment_mentions`, 050), so
+ *   replaying the request is a no-op
+ */
+
+const EXCERPT_LENGTH = 280
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return withPermissionCheck(request, 'kanban', async (_userId, authUserId) => {
+    try {
+      const { id } = await params
+      const body = await request.json().catch(() => ({}))
+      const commentId = typeof body.commentId === 'string' ? body.commentId : null
+
+      if (!commentId) {
+        return NextResponse.json(
+          { error: 'commentId is required', code: 'VALIDATION_ERROR' },
+          { status: 400 }
+        )
+      }
+
+      const supabase = await createClient()
+      const { data: comment, error } = await supabase
+        .from('task_comments')
+        .select('id, user_id, text, mentioned_user_ids, tasks:task_id(id, title), profiles:profiles!task_comments_user_id_fkey(full_name)')
+        .eq('id', commentId)
+        .eq('task_id', id)
+        .maybeSingle()
+
+      if (error) throw error
+      if (!comment) {
+        return NextResponse.json(
+          { error: 'Comment not found', code: 'NOT_FOUND' },
+          { status: 404 }
+        )
+      }
+
+      if (comment.user_id !== authUserId) {
+        return NextResponse.json(
+          { error: 'Only the comment author can notify mentions', code: 'FORBIDDEN' },
+          { status: 403 }
+        )
+      }
+
+      const mentioned: string[] = comment.mentioned_user_ids ?? []
+      const requested: string[] | null = Array.isArray(body.userIds) ? body.userIds : null
+      const candidateIds = requested ? mentioned.filter((userId) => requested.includes(userId)) : mentioned
+
+      const task = comment.tasks as unknown as { id: string; title: string } | null
+      if (candidateIds.length === 0 || !task) {
+        return NextResponse.json({ success: true, data: { notified: 0, emailed: 0 } })
+      }
+
+      // `mentioned_user_ids` vem do cliente: vale só quem está ativo e aparece como "@Nome" no texto
+      const admin = createAdminClient()
+      const { data: users, error: usersError } = await admin
+        .from('users')
+        .select('auth_user_id, full_name')
+        .in('auth_user_id', candidateIds)
+        .eq('status', 'active')
+      if (usersError) throw usersError
+
+      const verifiedIds = extractMentionedUserIds(
+        comment.text,
+        (users ?? []).map((user: any) => ({ id: user.auth_user_id, name: user.full_name ?? '' }))
+      )
+
+      // Marca os avisados e inclui os mencionados como observadores (quem comenta pode
+      // não ter permissão de editar a tarefa); ids já avisados não voltam
+      const { data: claimed, error: claimError } = verifiedIds.length > 0
+        ? await admin.rpc('claim_comment_mentions', { p_comment_id: comment.id, p_user_ids: verifiedIds })
+        : { data: [], error: null }
+      if (claimError) throw claimError
+
+      const userIds: string[] = claimed ?? []
+      if (userIds.length === 0) {
+        return NextResponse.json({ success: true, data: { notified: 0, emailed: 0 } })
+      }
+
+      const author = (comment.profiles as unknown as { full_name: string | null } | null)?.full_name || 'Alguém'
+      const excerpt =
+        comment.text.length > EXCERPT_LENGTH ? `${comment.text.slice(0, EXCERPT_LENGTH)}…` : comment.text
+
+      const result = await notifyUsers(
+        {
+          userIds,
+          type: 'task_mention',
+          title: `${author} mencionou você`,
+          message: `Em "${task.title}": ${excerpt}`,
+          link: `/kanban?task=${id}`,
+          actorId: authUserId,
+          entityType: 'task',
+          entityId: id,
+        },
+        resolveSiteOrigin(request)
+      )
+
+      return NextResponse.json({
+        success: true,
+        data: result
+      })
+    } catch (error) {
+      console.error('Error in POST /api/tasks/[id]/mentions:', error)
+      return NextResponse.json(
+        { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+        { status: 500 }
+      )
+    }
+  })
+}
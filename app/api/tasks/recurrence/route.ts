@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { generateScheduledTasks } from '@/lib/services/task-recurrence'
+import { isAuthorizedCron } from '@/lib/auth/cron'
+
+/**
+ * API Route for Recurring Tasks
+ *
+ * POST /api/tasks/recurrence - Create the next instance of scheduled recurring tasks
+ *
+ * Meant to be called by a cron job (e.g. once a day). There is no user
+ * session: requests must send the `X-Cron-Secret` header (or
+ * `Authorization: Bearer <secret>`) matching CRON_SECRET
+ */
+
+export async function POST(request: NextRequest) {
+  if (!isAuthorizedCron(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const result = await generateScheduledTasks()
+
+    return NextResponse.json({
+      success: true,
+      data: result
+    })
+  } catch (error) {
+    console.error('Error in POST /api/tasks/recurrence:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+      { status: 500 }
+    )
+  }
+}
@@ -12,6 +12,7 @@ import {
   Briefcase,
   Mail,
   LogOut,
+  TrendingUp,
 } from "lucide-react"
 import {
   Sidebar,
@@ -24,6 +25,7 @@ import {
 } from "@/components/ui/sidebar"
 import { Separator } from "@/components/ui/separator"
 import { Button } from "@/components/ui/button"
+import { NotificationBell } from "@/components/notification-bell"
 import Image from "next/image"
 import { createClient } from "@/lib/supabase/client"
 import { useToast } from "@/hooks/use-toast"
@@ -44,6 +46,12 @@ const menuItems = [
     icon: Users,
     sectionKey: "clientes" as SectionKey,
   },
+  {
+    title: "Pipeline",
+    href: "/pipeline",
+    icon: TrendingUp,
+    sectionKey: "clientes" as SectionKey,
+  },
   {
     title: "Projetos",
     href: "/projetos",
@@ -198,6 +206,7 @@ export function AppSidebar() {
         </SidebarGroup>
       </SidebarContent>
       <SidebarFooter>
+        <NotificationBell />
         <Button
           variant="ghost"
           className="w-full justify-start gap-3 text-sidebar-muted-foreground hover:text-sidebar-foreground hover:bg-[linear-gradient(90deg,hsl(0_0%_100%_/0),hsl(0_0%_100%_/0.06))] [&_svg]:text-inherit"
@@ -0,0 +1,329 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Edit, Mail, Phone, Plus, Star, Trash2, Users } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Checkbox } from "@/components/ui/checkbox"
+import { ConfirmDialog } from "@/components/ui/confirm-dialog"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Protected } from "@/components/protected"
+import { usePermissions } from "@/contexts/permission-context"
+import { useToast } from "@/hooks/use-toast"
+import type { ClientContact } from "@/lib/types"
+import {
+  createClientContact,
+  deleteClientContact,
+  listClientContacts,
+  updateClientContact,
+} from "@/lib/data/client-contacts"
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+const formatPhone = (value: string) => {
+  const digits = value.replace(/\D/g, "")
+  if (digits.length === 10) return digits.replace(/^(\d{2})(\d{4})(\d{4})$/, "($1) $2-$3")
+  if (digits.length === 11) return digits.replace(/^(\d{2})(\d{5})(\d{4})$/, "($1) $2-$3")
+  return value
+}
+
+type ContactForm = {
+  name: string
+  role: string
+  email: string
+  phone: string
+  is_primary: boolean
+}
+
+const EMPTY_FORM: ContactForm = {
+  name: "",
+  role: "",
+  email: "",
+  phone: "",
+  is_primary: false,
+}
+
+interface ClientContactsSectionProps {
+  clientId: string
+}
+
+/** Contatos do cliente (financeiro, técnico, diretoria...), com um principal. */
+export function ClientContactsSection({ clientId }: ClientContactsSectionProps) {
+  const { toast } = useToast()
+  const { hasPermission } = usePermissions()
+  const canEdit = hasPermission("clientes", "edit")
+
+  const [contacts, setContacts] = useState<ClientContact[]>([])
+  const [loading, setLoading] = useState(true)
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [editingContact, setEditingContact] = useState<ClientContact | null>(null)
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [saving, setSaving] = useState(false)
+  const [contactToDelete, setContactToDelete] = useState<ClientContact | null>(null)
+
+  async function loadContacts() {
+    const { data, error } = await listClientContacts(clientId)
+    if (error) {
+      toast({ title: "Erro ao carregar contatos", description: error, variant: "destructive" })
+    } else {
+      setContacts(data)
+    }
+    setLoading(false)
+  }
+
+  useEffect(() => {
+    setLoading(true)
+    loadContacts()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [clientId])
+
+  function openCreate() {
+    setEditingContact(null)
+    // O primeiro contato cadastrado já entra como principal
+    setForm({ ...EMPTY_FORM, is_primary: contacts.length === 0 })
+    setDialogOpen(true)
+  }
+
+  function openEdit(contact: ClientContact) {
+    setEditingContact(contact)
+    setForm({
+      name: contact.name,
+      role: contact.role ?? "",
+      email: contact.email ?? "",
+      phone: contact.phone ? formatPhone(contact.phone) : "",
+      is_primary: contact.is_primary,
+    })
+    setDialogOpen(true)
+  }
+
+  const emailError = form.email.trim() && !EMAIL_PATTERN.test(form.email.trim()) ? "Email inválido" : null
+
+  async function handleSave() {
+    if (!form.name.trim() || emailError) return
+    setSaving(true)
+    const { error } = editingContact
+      ? await updateClientContact(editingContact.id, form)
+      : await createClientContact(clientId, form)
+    setSaving(false)
+
+    if (error) {
+      toast({ title: "Erro ao salvar contato", description: error, variant: "destructive" })
+      return
+    }
+    toast({ title: editingContact ? "Contato atualizado" : "Contato adicionado" })
+    setDialogOpen(false)
+    loadContacts()
+  }
+
+  async function handleSetPrimary(contact: ClientContact) {
+    const { error } = await updateClientContact(contact.id, { is_primary: true })
+    if (error) {
+      toast({ title: "Erro ao definir contato principal", description: error, variant: "destructive" })
+      return
+    }
+    loadContacts()
+  }
+
+  async function handleConfirmDelete() {
+    if (!contactToDelete) return
+    const contact = contactToDelete
+    setContactToDelete(null)
+    const { error } = await deleteClientContact(contact.id)
+    if (error) {
+      toast({ title: "Não foi possível excluir", description: error, variant: "destructive" })
+      return
+    }
+    toast({ title: "Contato excluído" })
+    setContacts((prev) => prev.filter((c) => c.id !== contact.id))
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-base font-semibold">Contatos</h2>
+        <Protected section="clientes" action="edit">
+          <Button variant="outline" size="sm" onClick={openCreate}>
+            <Plus className="mr-2 h-4 w-4" />
+            Novo contato
+          </Button>
+        </Protected>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-muted-foreground">Carregando contatos...</p>
+      ) : contacts.length === 0 ? (
+        <div className="flex flex-col items-center justify-center gap-2 py-8 text-muted-foreground border border-dashed rounded-lg">
+          <Users className="h-8 w-8 opacity-40" />
+          <p className="text-sm">Nenhum contato cadastrado para este cliente.</p>
+        </div>
+      ) : (
+        <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+          {contacts.map((contact) => (
+            <Card key={contact.id} className="group p-4 space-y-2">
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium truncate">{contact.name}</p>
+                    {contact.is_primary && (
+                      <Badge variant="secondary" className="text-xs shrink-0">
+                        Principal
+                      </Badge>
+                    )}
+                  </div>
+                  {contact.role && <p className="text-xs text-muted-foreground">{contact.role}</p>}
+                </div>
+                {canEdit && (
+                  <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+                    {!contact.is_primary && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        onClick={() => handleSetPrimary(contact)}
+                        aria-label="Definir como contato principal"
+                        title="Definir como principal"
+                      >
+                        <Star className="h-3.5 w-3.5" />
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => openEdit(contact)}
+                      aria-label="Editar contato"
+                    >
+                      <Edit className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => setContactToDelete(contact)}
+                      aria-label="Excluir contato"
+                    >
+                      <Trash2 className="h-3.5 w-3.5 text-destructive" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+              <div className="space-y-1 text-sm text-muted-foreground">
+                {contact.email && (
+                  <a
+                    href={`mailto:${contact.email}`}
+                    className="flex items-center gap-1.5 hover:text-foreground transition-colors"
+                  >
+                    <Mail className="h-3.5 w-3.5 shrink-0" />
+                    <span className="truncate">{contact.email}</span>
+                  </a>
+                )}
+                {contact.phone && (
+                  <a
+                    href={`tel:${contact.phone}`}
+                    className="flex items-center gap-1.5 hover:text-foreground transition-colors"
+                  >
+                    <Phone className="h-3.5 w-3.5 shrink-0" />
+                    {formatPhone(contact.phone)}
+                  </a>
+                )}
+              </div>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>{editingContact ? "Editar contato" : "Novo contato"}</DialogTitle>
+            <DialogDescription>
+              Contatos com email aparecem como sugestão de destinatário e de participante em eventos.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="contact_name">Nome</Label>
+                <Input
+                  id="contact_name"
+                  value={form.name}
+                  onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="contact_role">Cargo / Função</Label>
+                <Input
+                  id="contact_role"
+                  placeholder="Financeiro, técnico, diretoria..."
+                  value={form.role}
+                  onChange={(e) => setForm((prev) => ({ ...prev, role: e.target.value }))}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="contact_email">Email</Label>
+                <Input
+                  id="contact_email"
+                  type="email"
+                  value={form.email}
+                  onChange={(e) => setForm((prev) => ({ ...prev, email: e.target.value }))}
+                  aria-invalid={!!emailError}
+                />
+                {emailError && <p className="text-xs text-destructive">{emailError}</p>}
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="contact_phone">Telefone</Label>
+                <Input
+                  id="contact_phone"
+                  placeholder="(00) 00000-0000"
+                  value={form.phone}
+                  onChange={(e) => setForm((prev) => ({ ...prev, phone: formatPhone(e.target.value) }))}
+                  inputMode="tel"
+                />
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="contact_primary"
+                checked={form.is_primary}
+                onCheckedChange={(checked) => setForm((prev) => ({ ...prev, is_primary: checked === true }))}
+              />
+              <Label htmlFor="contact_primary" className="font-normal">
+                Contato principal
+              </Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancelar
+            </Button>
+            <Button type="button" onClick={handleSave} disabled={saving || !form.name.trim() || !!emailError}>
+              {saving ? "Salvando..." : "Salvar contato"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog
+        open={!!contactToDelete}
+        onOpenChange={(open) => !open && setContactToDelete(null)}
+        onConfirm={handleConfirmDelete}
+        title="Excluir contato"
+        description={`Tem certeza que deseja excluir o contato "${contactToDelete?.name ?? ""}"?`}
+        confirmText="Excluir"
+        variant="destructive"
+      />
+    </div>
+  )
+}
@@ -0,0 +1,387 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { FileSpreadsheet, Loader2, Upload } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { useToast } from "@/hooks/use-toast"
+import { findExistingClientKeys, importClientRecords } from "@/lib/data/clients"
+import { formatDocument } from "@/lib/utils/document"
+import {
+  CLIENT_IMPORT_FIELDS,
+  buildClientImportRows,
+  guessColumnMapping,
+  markExistingClients,
+  parseClientSpreadsheet,
+  type ClientColumnMapping,
+  type ClientImportRow,
+  type ClientImportStatus,
+  type ClientSpreadsheet,
+} from "@/lib/utils/client-spreadsheet"
+
+interface ClientImportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onImported: () => void
+}
+
+type Step = "upload" | "mapping" | "preview" | "done"
+
+const MAX_FILE_SIZE = 5 * 1024 * 1024
+
+const STATUS_LABELS: Record<ClientImportStatus | "imported", { label: string; className: string }> = {
+  ready: { label: "Pronta", className: "border-blue-500 text-blue-600" },
+  duplicate: { label: "Duplicada", className: "border-amber-500 text-amber-600" },
+  error: { label: "Erro", className: "border-destructive text-destructive" },
+  imported: { label: "Importada", className: "border-green-600 text-green-600" },
+}
+
+type ResultRow = ClientImportRow & { imported?: boolean }
+
+/**
+ * Importação de clientes por CSV/XLSX: mapeamento das colunas, simulação com
+ * duplicados (documento/email) e erros por linha, e gravação só das linhas prontas.
+ */
+export function ClientImportDialog({ open, onOpenChange, onImported }: ClientImportDialogProps) {
+  const { toast } = useToast()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [step, setStep] = useState<Step>("upload")
+  const [fileName, setFileName] = useState("")
+  const [sheet, setSheet] = useState<ClientSpreadsheet | null>(null)
+  const [mapping, setMapping] = useState<ClientColumnMapping | null>(null)
+  const [rows, setRows] = useState<ResultRow[]>([])
+  const [onlyProblems, setOnlyProblems] = useState(false)
+  const [working, setWorking] = useState(false)
+  const [progress, setProgress] = useState(0)
+
+  function reset() {
+    setStep("upload")
+    setFileName("")
+    setSheet(null)
+    setMapping(null)
+    setRows([])
+    setOnlyProblems(false)
+    setProgress(0)
+  }
+
+  function handleOpenChange(next: boolean) {
+    if (working) return
+    if (!next) reset()
+    onOpenChange(next)
+  }
+
+  async function handleFile(file: File) {
+    if (file.size > MAX_FILE_SIZE) {
+      toast({ title: "Arquivo muito grande", description: "O limite é 5 MB.", variant: "destructive" })
+      return
+    }
+    setWorking(true)
+    try {
+      const parsed = await parseClientSpreadsheet(file)
+      if (parsed.rows.length === 0) {
+        toast({ title: "Nenhuma linha encontrada", description: "A planilha só tem o cabeçalho.", variant: "destructive" })
+        return
+      }
+      setFileName(file.name)
+      setSheet(parsed)
+      setMapping(guessColumnMapping(parsed.headers))
+      setStep("mapping")
+    } catch (err) {
+      console.error("Erro ao ler planilha:", err)
+      toast({
+        title: "Não foi possível ler o arquivo",
+        description: err instanceof Error ? err.message : "Use um arquivo CSV ou XLSX.",
+        variant: "destructive",
+      })
+    } finally {
+      setWorking(false)
+      if (fileInputRef.current) fileInputRef.current.value = ""
+    }
+  }
+
+  async function handleDryRun() {
+    if (!sheet || !mapping) return
+    setWorking(true)
+    try {
+      const built = buildClientImportRows(sheet, mapping)
+      const candidates = built.filter((row) => row.status === "ready")
+      const { data: existing, error } = await findExistingClientKeys(
+        candidates.map((row) => row.values.document),
+        candidates.map((row) => row.values.email)
+      )
+      if (error) {
+        toast({ title: "Erro ao verificar duplicados", description: error, variant: "destructive" })
+        return
+      }
+      setRows(markExistingClients(built, existing))
+      setStep("preview")
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  async function handleImport() {
+    const ready = rows.filter((row) => row.status === "ready")
+    if (ready.length === 0) return
+    setWorking(true)
+    setProgress(0)
+    try {
+      const { data: results, error } = await importClientRecords(
+        ready.map((row) => ({ rowNumber: row.rowNumber, ...row.values })),
+        setProgress
+      )
+      if (error) {
+        toast({ title: "Erro ao importar clientes", description: error, variant: "destructive" })
+        return
+      }
+      const byRow = new Map(results.map((result) => [result.rowNumber, result.error]))
+      setRows((prev) =>
+        prev.map((row) => {
+          if (!byRow.has(row.rowNumber)) return row
+          const rowError = byRow.get(row.rowNumber)
+          return rowError
+            ? { ...row, status: "error", messages: [rowError] }
+            : { ...row, imported: true }
+        })
+      )
+      const importedCount = results.filter((result) => !result.error).length
+      toast({
+        title: "Importação concluída",
+        description: `${importedCount} de ${ready.length} clientes importados.`,
+      })
+      setStep("done")
+      if (importedCount > 0) onImported()
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const counts = rows.reduce(
+    (acc, row) => {
+      if (row.imported) acc.imported += 1
+      else acc[row.status] += 1
+      return acc
+    },
+    { ready: 0, duplicate: 0, error: 0, imported: 0 }
+  )
+  const visibleRows = onlyProblems ? rows.filter((row) => row.status !== "ready" && !row.imported) : rows
+  const sampleRow = sheet?.rows[0] ?? []
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[860px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Importar clientes</DialogTitle>
+          <DialogDescription>
+            {step === "upload" && "Envie uma planilha CSV ou XLSX com uma linha de cabeçalho."}
+            {step === "mapping" && `${fileName} · ${sheet?.rows.length ?? 0} linhas. Indique a coluna de cada campo.`}
+            {step === "preview" && "Simulação: nada foi gravado ainda. Apenas as linhas prontas serão importadas."}
+            {step === "done" && "Importação concluída. Linhas com erro ou duplicadas não foram gravadas."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "upload" && (
+          <div className="py-4">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.xlsx,.xls,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet,application/vnd.ms-excel"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                if (file) handleFile(file)
+              }}
+            />
+            <button
+              type="button"
+              className="flex w-full flex-col items-center justify-center gap-2 rounded-lg border border-dashed py-12 text-muted-foreground hover:bg-muted/40 transition-colors"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={working}
+            >
+              {working ? <Loader2 className="h-8 w-8 animate-spin" /> : <FileSpreadsheet className="h-8 w-8 opacity-60" />}
+              <span className="text-sm">{working ? "Lendo planilha..." : "Clique para escolher o arquivo (CSV, XLSX)"}</span>
+            </button>
+          </div>
+        )}
+
+        {step === "mapping" && sheet && mapping && (
+          <div className="grid gap-3 py-4">
+            {CLIENT_IMPORT_FIELDS.map((field) => {
+              const column = mapping[field.value]
+              return (
+                <div key={field.value} className="grid grid-cols-[180px_1fr_1fr] items-center gap-3">
+                  <Label htmlFor={`import_field_${field.value}`}>
+                    {field.label}
+                    {field.required && <span className="text-destructive"> *</span>}
+                  </Label>
+                  <Select
+                    value={column == null ? "none" : String(column)}
+                    onValueChange={(value) =>
+                      setMapping((prev) => prev && { ...prev, [field.value]: value === "none" ? null : Number(value) })
+                    }
+                  >
+                    <SelectTrigger id={`import_field_${field.value}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Não importar</SelectItem>
+                      {sheet.headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {header}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <span className="truncate text-xs text-muted-foreground">
+                    {column != null && sampleRow[column] ? `Ex.: ${sampleRow[column]}` : ""}
+                  </span>
+                </div>
+              )
+            })}
+          </div>
+        )}
+
+        {(step === "preview" || step === "done") && (
+          <div className="space-y-3 py-2">
+            <div className="flex flex-wrap items-center gap-2">
+              {step === "done" && (
+                <Badge variant="outline" className={STATUS_LABELS.imported.className}>
+                  {counts.imported} importadas
+                </Badge>
+              )}
+              {step === "preview" && (
+                <Badge variant="outline" className={STATUS_LABELS.ready.className}>
+                  {counts.ready} prontas
+                </Badge>
+              )}
+              <Badge variant="outline" className={STATUS_LABELS.duplicate.className}>
+                {counts.duplicate} duplicadas
+              </Badge>
+              <Badge variant="outline" className={STATUS_LABELS.error.className}>
+                {counts.error} com erro
+              </Badge>
+              <div className="ml-auto flex items-center gap-2">
+                <Checkbox
+                  id="import_only_problems"
+                  checked={onlyProblems}
+                  onCheckedChange={(checked) => setOnlyProblems(checked === true)}
+                />
+                <Label htmlFor="import_only_problems" className="font-normal text-sm">
+                  Mostrar só problemas
+                </Label>
+              </div>
+            </div>
+            <div className="max-h-[45vh] overflow-y-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[60px]">Linha</TableHead>
+                    <TableHead>Nome</TableHead>
+                    <TableHead>CNPJ / CPF</TableHead>
+                    <TableHead>Email</TableHead>
+                    <TableHead className="w-[110px]">Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleRows.map((row) => {
+                    const status = STATUS_LABELS[row.imported ? "imported" : row.status]
+                    return (
+                      <TableRow key={row.rowNumber}>
+                        <TableCell className="text-muted-foreground">{row.rowNumber}</TableCell>
+                        <TableCell>
+                          <div className="font-medium">{row.values.name || "—"}</div>
+                          {row.messages.length > 0 && (
+                            <div className="text-xs text-destructive">{row.messages.join(" · ")}</div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {row.values.document ? formatDocument(row.values.document) : "—"}
+                        </TableCell>
+                        <TableCell className="text-sm">{row.values.email || "—"}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className={`text-xs ${status.className}`}>
+                            {status.label}
+                          </Badge>
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })}
+                  {visibleRows.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-sm text-muted-foreground">
+                        Nenhuma linha com problema.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          {step === "mapping" && (
+            <>
+              <Button type="button" variant="outline" onClick={reset} disabled={working}>
+                Trocar arquivo
+              </Button>
+              <Button type="button" onClick={handleDryRun} disabled={working || mapping?.name == null}>
+                {working ? "Validando..." : "Validar (simulação)"}
+              </Button>
+            </>
+          )}
+          {step === "preview" && (
+            <>
+              <Button type="button" variant="outline" onClick={() => setStep("mapping")} disabled={working}>
+                Voltar ao mapeamento
+              </Button>
+              <Button type="button" onClick={handleImport} disabled={working || counts.ready === 0}>
+                {working ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Importando {progress}/{counts.ready}...
+                  </>
+                ) : (
+                  <>
+                    <Upload className="mr-2 h-4 w-4" />
+                    Importar {counts.ready} {counts.ready === 1 ? "cliente" : "clientes"}
+                  </>
+                )}
+              </Button>
+            </>
+          )}
+          {step === "done" && (
+            <Button type="button" onClick={() => handleOpenChange(false)}>
+              Fechar
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,184 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Loader2, X } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import {
+  searchEmailRecipients,
+  type EmailRecipient,
+  type EmailRecipientSuggestion,
+} from "@/lib/data/client-contacts"
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+interface RecipientInputProps {
+  id?: string
+  value: EmailRecipient[]
+  onChange: (recipients: EmailRecipient[]) => void
+  /** Contatos deste cliente aparecem primeiro (e sem digitar nada) */
+  preferredClientId?: string | null
+  placeholder?: string
+  disabled?: boolean
+}
+
+/**
+ * Campo de destinatários com sugestões dos contatos de clientes. Aceita também
+ * emails avulsos (Enter, vírgula ou ao sair do campo).
+ */
+export function RecipientInput({
+  id,
+  value,
+  onChange,
+  preferredClientId,
+  placeholder = "Nome ou email...",
+  disabled = false,
+}: RecipientInputProps) {
+  const [query, setQuery] = useState("")
+  const [focused, setFocused] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const [suggestions, setSuggestions] = useState<EmailRecipientSuggestion[]>([])
+  const blurTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  const selectedEmails = new Set(value.map((r) => r.email.toLowerCase()))
+
+  useEffect(() => {
+    if (!focused || disabled) {
+      setSuggestions([])
+      return
+    }
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      setLoading(true)
+      const result = await searchEmailRecipients(query, { preferredClientId })
+      if (!cancelled) {
+        setSuggestions(result)
+        setLoading(false)
+      }
+    }, 250)
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+      setLoading(false)
+    }
+  }, [query, focused, disabled, preferredClientId])
+
+  useEffect(() => () => {
+    if (blurTimeoutRef.current) clearTimeout(blurTimeoutRef.current)
+  }, [])
+
+  const addRecipient = (recipient: EmailRecipient) => {
+    const email = recipient.email.trim().toLowerCase()
+    if (!email || selectedEmails.has(email)) return
+    onChange([...value, { ...recipient, email }])
+    setQuery("")
+  }
+
+  const addTypedEmail = () => {
+    const email = query.trim().replace(/[,;]$/, "")
+    if (!EMAIL_PATTERN.test(email)) return false
+    addRecipient({ email, name: null, contactId: null })
+    return true
+  }
+
+  const removeRecipient = (email: string) => {
+    onChange(value.filter((r) => r.email !== email))
+  }
+
+  const visibleSuggestions = suggestions.filter((s) => !selectedEmails.has(s.email.toLowerCase()))
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {value.map((recipient) => (
+            <Badge key={recipient.email} variant="outline" className="gap-1" title={recipient.email}>
+              {recipient.name || recipient.email}
+              {!disabled && (
+                <button
+                  type="button"
+                  onClick={() => removeRecipient(recipient.email)}
+                  className="ml-1 rounded-full hover:bg-secondary-foreground/20"
+                  aria-label={`Remover ${recipient.name || recipient.email}`}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              )}
+            </Badge>
+          ))}
+        </div>
+      )}
+      {!disabled && (
+        <>
+          <Input
+            id={id}
+            value={query}
+            placeholder={placeholder}
+            autoComplete="off"
+            onChange={(e) => setQuery(e.target.value)}
+            onFocus={() => {
+              if (blurTimeoutRef.current) clearTimeout(blurTimeoutRef.current)
+              setFocused(true)
+            }}
+            onBlur={() => {
+              // Espera o clique na sugestão antes de fechar a lista
+              blurTimeoutRef.current = setTimeout(() => {
+                addTypedEmail()
+                setFocused(false)
+              }, 150)
+            }}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" || e.key === "," || e.key === ";") {
+                if (query.trim()) {
+                  e.preventDefault()
+                  if (!addTypedEmail() && visibleSuggestions[0]) {
+                    const first = visibleSuggestions[0]
+                    addRecipient({ email: first.email, name: first.name, contactId: first.contactId })
+                  }
+                }
+              } else if (e.key === "Backspace" && !query && value.length > 0) {
+                removeRecipient(value[value.length - 1].email)
+              }
+            }}
+          />
+          {focused && loading && (
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              <Loader2 className="h-3 w-3 animate-spin" />
+              Buscando contatos...
+            </div>
+          )}
+          {focused && visibleSuggestions.length > 0 && (
+            <div className="max-h-48 overflow-y-auto rounded-md border bg-popover text-popover-foreground shadow">
+              {visibleSuggestions.map((suggestion) => (
+                <button
+                  key={suggestion.contactId}
+                  type="button"
+                  className="w-full px-3 py-2 text-left text-sm hover:bg-accent"
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() =>
+                    addRecipient({
+                      email: suggestion.email,
+                      name: suggestion.name,
+                      contactId: suggestion.contactId,
+                    })
+                  }
+                >
+                  <div className="font-medium">
+                    {suggestion.name}
+                    {suggestion.role && (
+                      <span className="font-normal text-muted-foreground"> · {suggestion.role}</span>
+                    )}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {suggestion.email}
+                    {suggestion.clientName && ` — ${suggestion.clientName}`}
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,88 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Copy, RefreshCw } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { useToast } from "@/hooks/use-toast"
+
+interface CalendarFeedDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export function CalendarFeedDialog({ open, onOpenChange }: CalendarFeedDialogProps) {
+  const { toast } = useToast()
+  const [url, setUrl] = useState("")
+  const [loading, setLoading] = useState(false)
+
+  const requestFeedUrl = async (method: "GET" | "POST") => {
+    setLoading(true)
+    try {
+      const response = await fetch("/api/calendar/feed", { method })
+      const body = await response.json()
+      if (!response.ok) throw new Error(body.error || "Falha ao obter o link da agenda")
+      setUrl(body.data.url)
+    } catch (err) {
+      console.error("Erro ao obter link do feed:", err)
+      toast({
+        title: "Erro",
+        description: "Não foi possível obter o link da agenda.",
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    if (open && !url) requestFeedUrl("GET")
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open])
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(url)
+      toast({ title: "Link copiado" })
+    } catch {
+      toast({ title: "Erro", description: "Não foi possível copiar o link.", variant: "destructive" })
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Assinar agenda</DialogTitle>
+          <DialogDescription>
+            Use este link no Google Agenda, Outlook ou Apple Calendar para acompanhar
+            os eventos que você criou ou dos quais participa. Não compartilhe o link.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2">
+          <Input readOnly value={loading && !url ? "Carregando..." : url} onFocus={(e) => e.target.select()} />
+          <Button variant="outline" size="icon" onClick={handleCopy} disabled={!url}>
+            <Copy className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <DialogFooter className="sm:justify-between">
+          <Button variant="ghost" onClick={() => requestFeedUrl("POST")} disabled={loading}>
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Gerar novo link
+          </Button>
+          <Button onClick={() => onOpenChange(false)}>Fechar</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,297 @@
+"use client"
+
+import { useState, type ReactNode } from "react"
+import {
+  DndContext,
+  DragEndEvent,
+  DragOverlay,
+  DragStartEvent,
+  PointerSensor,
+  pointerWithin,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors,
+} from "@dnd-kit/core"
+import { addDays, format, isSameMonth, startOfMonth, startOfWeek } from "date-fns"
+import { ptBR } from "date-fns/locale"
+import { Repeat } from "lucide-react"
+import { cn } from "@/lib/utils"
+import type { CalendarEvent } from "@/lib/data/events"
+
+type GridEvent = Pick<CalendarEvent, "id" | "title" | "time" | "type" | "occurrenceDate" | "recurrence">
+
+interface EventCalendarViewProps<T extends GridEvent> {
+  /** Qualquer dia do período exibido */
+  referenceDate: Date
+  events: T[]
+  canEdit: boolean
+  onEventClick: (event: T) => void
+  onEventMove: (event: T, date: string, time: string) => void
+  onSlotClick?: (date: string, time?: string) => void
+}
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour)
+
+const TYPE_STYLES: Record<GridEvent["type"], string> = {
+  meeting: "bg-primary/10 border-primary/40 text-primary",
+  deadline: "bg-destructive/10 border-destructive/40 text-destructive",
+  visit: "bg-secondary border-secondary-foreground/20 text-secondary-foreground",
+}
+
+function toIsoDate(date: Date): string {
+  return format(date, "yyyy-MM-dd")
+}
+
+function eventKey(event: GridEvent): string {
+  return `${event.id}:${event.occurrenceDate}`
+}
+
+function EventChip({ event, compact }: { event: GridEvent; compact?: boolean }) {
+  return (
+    <div
+      className={cn(
+        "flex items-center gap-1 truncate rounded border px-1.5 py-0.5 text-xs",
+        TYPE_STYLES[event.type]
+      )}
+    >
+      {!compact && <span className="font-medium">{event.time}</span>}
+      <span className="truncate">{event.title}</span>
+      {event.recurrence && <Repeat className="h-3 w-3 shrink-0" />}
+    </div>
+  )
+}
+
+function DraggableEvent({
+  event,
+  disabled,
+  onClick,
+}: {
+  event: GridEvent
+  disabled: boolean
+  onClick: () => void
+}) {
+  const { attributes, listeners, setNodeRef, isDragging } = useDraggable({
+    id: eventKey(event),
+    disabled,
+  })
+
+  return (
+    <div
+      ref={setNodeRef}
+      {...attributes}
+      {...listeners}
+      className={cn("cursor-pointer", !disabled && "active:cursor-grabbing", isDragging && "opacity-40")}
+      onClick={(e) => {
+        e.stopPropagation()
+        onClick()
+      }}
+    >
+      <EventChip event={event} />
+    </div>
+  )
+}
+
+function DropSlot({
+  id,
+  className,
+  onClick,
+  children,
+}: {
+  id: string
+  className?: string
+  onClick?: () => void
+  children?: ReactNode
+}) {
+  const { isOver, setNodeRef } = useDroppable({ id })
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={cn(className, isOver && "bg-primary/10 outline outline-2 outline-primary/40")}
+      onClick={onClick}
+    >
+      {children}
+    </div>
+  )
+}
+
+/**
+ * Contexto de arrastar compartilhado pelas visões: o id do alvo é
+ * "YYYY-MM-DD" (mês, mantém o horário) ou "YYYY-MM-DD|HH" (semana).
+ */
+function useEventDrag<T extends GridEvent>(
+  events: T[],
+  onEventMove: (event: T, date: string, time: string) => void
+) {
+  const [activeEvent, setActiveEvent] = useState<T | null>(null)
+  const sensors = useSensors(
+    useSensor(PointerSensor, {
+      activationConstraint: {
+        distance: 8,
+      },
+    })
+  )
+
+  const handleDragStart = (e: DragStartEvent) => {
+    setActiveEvent(events.find((event) => eventKey(event) === e.active.id) ?? null)
+  }
+
+  const handleDragEnd = (e: DragEndEvent) => {
+    const event = activeEvent
+    setActiveEvent(null)
+    if (!event || !e.over) return
+
+    const [date, hour] = String(e.over.id).split("|")
+    const minutes = event.time.split(":")[1] ?? "00"
+    const time = hour != null ? `${hour}:${minutes}` : event.time
+
+    if (date === event.occurrenceDate && time === event.time) return
+    onEventMove(event, date, time)
+  }
+
+  return { activeEvent, sensors, handleDragStart, handleDragEnd, clearActive: () => setActiveEvent(null) }
+}
+
+export function EventWeekView<T extends GridEvent>({
+  referenceDate,
+  events,
+  canEdit,
+  onEventClick,
+  onEventMove,
+  onSlotClick,
+}: EventCalendarViewProps<T>) {
+  const { activeEvent, sensors, handleDragStart, handleDragEnd, clearActive } = useEventDrag(events, onEventMove)
+  const weekStart = startOfWeek(referenceDate, { weekStartsOn: 0 })
+  const days = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i))
+  const today = toIsoDate(new Date())
+
+  return (
+    <DndContext
+      sensors={sensors}
+      collisionDetection={pointerWithin}
+      onDragStart={handleDragStart}
+      onDragEnd={handleDragEnd}
+      onDragCancel={clearActive}
+    >
+      <div className="max-h-[640px] overflow-auto rounded-md border">
+        <div className="sticky top-0 z-10 grid grid-cols-[56px_repeat(7,minmax(110px,1fr))] border-b bg-background">
+          <div />
+          {days.map((day) => (
+            <div
+              key={day.toISOString()}
+              className={cn(
+                "border-l px-2 py-2 text-center text-xs",
+                toIsoDate(day) === today && "font-semibold text-primary"
+              )}
+            >
+              <div className="capitalize">{format(day, "EEE", { locale: ptBR })}</div>
+              <div className="text-base">{format(day, "dd")}</div>
+            </div>
+          ))}
+        </div>
+
+        {HOURS.map((hour) => {
+          const hh = String(hour).padStart(2, "0")
+          return (
+            <div key={hour} className="grid grid-cols-[56px_repeat(7,minmax(110px,1fr))] border-b last:border-b-0">
+              <div className="px-2 py-1 text-right text-xs text-muted-foreground">{hh}:00</div>
+              {days.map((day) => {
+                const iso = toIsoDate(day)
+                const slotEvents = events.filter(
+                  (event) => event.occurrenceDate === iso && event.time.startsWith(`${hh}:`)
+                )
+                return (
+                  <DropSlot
+                    key={iso}
+                    id={`${iso}|${hh}`}
+                    className="min-h-12 space-y-1 border-l p-1"
+                    onClick={onSlotClick ? () => onSlotClick(iso, `${hh}:00`) : undefined}
+                  >
+                    {slotEvents.map((event) => (
+                      <DraggableEvent
+                        key={eventKey(event)}
+                        event={event}
+                        disabled={!canEdit}
+                        onClick={() => onEventClick(event)}
+                      />
+                    ))}
+                  </DropSlot>
+                )
+              })}
+            </div>
+          )
+        })}
+      </div>
+
+      <DragOverlay>{activeEvent ? <EventChip event={activeEvent} /> : null}</DragOverlay>
+    </DndContext>
+  )
+}
+
+export function EventMonthView<T extends GridEvent>({
+  referenceDate,
+  events,
+  canEdit,
+  onEventClick,
+  onEventMove,
+  onSlotClick,
+}: EventCalendarViewProps<T>) {
+  const { activeEvent, sensors, handleDragStart, handleDragEnd, clearActive } = useEventDrag(events, onEventMove)
+  const monthStart = startOfMonth(referenceDate)
+  const gridStart = startOfWeek(monthStart, { weekStartsOn: 0 })
+  const days = Array.from({ length: 42 }, (_, i) => addDays(gridStart, i))
+  const today = toIsoDate(new Date())
+
+  return (
+    <DndContext
+      sensors={sensors}
+      collisionDetection={pointerWithin}
+      onDragStart={handleDragStart}
+      onDragEnd={handleDragEnd}
+      onDragCancel={clearActive}
+    >
+      <div className="rounded-md border">
+        <div className="grid grid-cols-7 border-b">
+          {days.slice(0, 7).map((day) => (
+            <div key={day.toISOString()} className="px-2 py-2 text-center text-xs capitalize text-muted-foreground">
+              {format(day, "EEE", { locale: ptBR })}
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-7">
+          {days.map((day) => {
+            const iso = toIsoDate(day)
+            const dayEvents = events.filter((event) => event.occurrenceDate === iso)
+            return (
+              <DropSlot
+                key={iso}
+                id={iso}
+                className={cn(
+                  "min-h-28 space-y-1 border-b border-l p-1 [&:nth-child(7n+1)]:border-l-0",
+                  !isSameMonth(day, monthStart) && "bg-muted/40 text-muted-foreground"
+                )}
+                onClick={onSlotClick ? () => onSlotClick(iso) : undefined}
+              >
+                <div className={cn("px-1 text-xs", iso === today && "font-semibold text-primary")}>
+                  {format(day, "d")}
+                </div>
+                {dayEvents.map((event) => (
+                  <DraggableEvent
+                    key={eventKey(event)}
+                    event={event}
+                    disabled={!canEdit}
+                    onClick={() => onEventClick(event)}
+                  />
+                ))}
+              </DropSlot>
+            )
+          })}
+        </div>
+      </div>
+
+      <DragOverlay>{activeEvent ? <EventChip event={activeEvent} compact /> : null}</DragOverlay>
+    </DndContext>
+  )
+}
@@ -21,10 +21,16 @@ import {
   SelectValue,
 } from "@/components/ui/select"
 import { Badge } from "@/components/ui/badge"
-import { X, Trash2 } from "lucide-react"
+import { Checkbox } from "@/components/ui/checkbox"
+import { X, Trash2, AlertTriangle } from "lucide-react"
 import { listClients } from "@/lib/data/clients"
+import type { EmailRecipient } from "@/lib/data/client-contacts"
+import { RecipientInput } from "@/components/email/recipient-input"
 import { listProfiles, type Profile } from "@/lib/data/tasks"
-import type { Client as ClientType } from "@/lib/types"
+import { findEventConflicts, shiftTime, DEFAULT_EVENT_DURATION_MINUTES } from "@/lib/data/events"
+import type { RecurrenceFrequency, RecurrenceRule } from "@/lib/utils/recurrence"
+import { REMINDER_OPTIONS } from "@/lib/utils/reminders"
+import type { Client as ClientType, EventConflict } from "@/lib/types"
 import { usePermissions } from "@/contexts/permission-context"
 
 type EventType = "meeting" | "deadline" | "visit"
@@ -44,19 +50,35 @@ type EventFormData = {
   description: string
   date: string
   time: string
+  endTime: string
   location: string
   type: EventType
   users: User[]
+  externalParticipants: EmailRecipient[]
   client?: Client
+  reminders: number[]
+  recurrence: RecurrenceRule | null
 }
 
+type RecurrenceEnd = "never" | "until" | "count"
+
 interface EventFormDialogProps {
   open: boolean
   onOpenChange: (open: boolean) => void
-  onSave: (data: EventFormData) => void
+  /** `allowConflicts` indica que o usuário confirmou salvar apesar dos conflitos exibidos */
+  onSave: (data: EventFormData, options?: { allowConflicts: boolean }) => void
   onDelete?: () => void
   initialData?: Partial<EventFormData>
   mode?: "create" | "edit"
+  eventId?: string // evento em edição, ignorado na verificação de conflitos
+}
+
+// Séries podem ter um conflito por ocorrência; o aviso lista só os primeiros
+const MAX_LISTED_CONFLICTS = 5
+
+function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number)
+  return (hours || 0) * 60 + (minutes || 0)
 }
 
 export function EventFormDialog({
@@ -66,6 +88,7 @@ export function EventFormDialog({
   onDelete,
   initialData,
   mode = "create",
+  eventId,
 }: EventFormDialogProps) {
   const { hasPermission } = usePermissions()
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false)
@@ -81,12 +104,18 @@ export function EventFormDialog({
       description: initialData?.description ?? "",
       date: initialData?.date ?? new Date().toISOString().split("T")[0],
       time: initialData?.time ?? "10:00",
+      endTime:
+        initialData?.endTime ??
+        shiftTime(initialData?.time ?? "10:00", DEFAULT_EVENT_DURATION_MINUTES),
       location: initialData?.location ?? "",
       type: initialData?.type ?? "meeting",
       users: initialData?.users ? [...initialData.users] : [],
+      externalParticipants: initialData?.externalParticipants ? [...initialData.externalParticipants] : [],
       client: initialData?.client
         ? { id: initialData.client.id, name: initialData.client.name }
         : undefined,
+      reminders: initialData?.reminders ? [...initialData.reminders] : [],
+      recurrence: initialData?.recurrence ? { ...initialData.recurrence } : null,
     }),
     [initialData]
   )
@@ -96,6 +125,7 @@ export function EventFormDialog({
   const [availableUsers, setAvailableUsers] = useState<Profile[]>([])
   const [loadingUsers, setLoadingUsers] = useState(false)
   const [loadingClients, setLoadingClients] = useState(false)
+  const [conflicts, setConflicts] = useState<EventConflict[]>([])
 
   useEffect(() => {
     if (open) {
@@ -135,6 +165,66 @@ export function EventFormDialog({
     if (open) loadUsers()
   }, [open])
 
+  // Verificar conflitos de agenda dos participantes antes de salvar
+  const participantIds = formData.users.map((u) => u.id).join(",")
+  useEffect(() => {
+    if (!open || isReadOnly || formData.type === "deadline" || !participantIds || !formData.date || !formData.time) {
+      setConflicts([])
+      return
+    }
+
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      try {
+        const result = await findEventConflicts({
+          date: formData.date,
+          time: formData.time,
+          endTime: formData.endTime,
+          participants: participantIds.split(","),
+          recurrence: formData.recurrence,
+          excludeEventId: eventId,
+        })
+        if (!cancelled) setConflicts(result)
+      } catch (err) {
+        console.error("Erro ao verificar conflitos de agenda:", err)
+      }
+    }, 300)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [open, isReadOnly, formData.type, formData.date, formData.time, formData.endTime, formData.recurrence, participantIds, eventId])
+
+  const invalidEndTime = !!formData.endTime && timeToMinutes(formData.endTime) <= timeToMinutes(formData.time)
+
+  const getUserName = (userId: string) =>
+    formData.users.find((u) => u.id === userId)?.name ??
+    availableUsers.find((u) => u.id === userId)?.fullName ??
+    "Participante"
+
+  // Alterar o início mantém a duração do evento
+  const handleTimeChange = (time: string) => {
+    setFormData((prev) => {
+      if (!time || !prev.time || !prev.endTime) return { ...prev, time }
+      const duration = timeToMinutes(prev.endTime) - timeToMinutes(prev.time)
+      return {
+        ...prev,
+        time,
+        endTime: shiftTime(time, duration > 0 ? duration : DEFAULT_EVENT_DURATION_MINUTES),
+      }
+    })
+  }
+
+  const handleToggleReminder = (minutes: number, checked: boolean) => {
+    setFormData((prev) => ({
+      ...prev,
+      reminders: checked
+        ? [...prev.reminders, minutes].sort((a, b) => b - a)
+        : prev.reminders.filter((m) => m !== minutes),
+    }))
+  }
+
   const handleAddUser = (userId: string) => {
     const user = availableUsers.find((u) => u.id === userId)
     if (user && !formData.users.find((u) => u.id === userId)) {
@@ -167,10 +257,45 @@ export function EventFormDialog({
     }))
   }
 
+  const recurrenceEnd: RecurrenceEnd = formData.recurrence?.count != null
+    ? "count"
+    : formData.recurrence?.until
+    ? "until"
+    : "never"
+
+  const handleRecurrenceFrequency = (value: RecurrenceFrequency | "none") => {
+    setFormData((prev) => ({
+      ...prev,
+      recurrence:
+        value === "none"
+          ? null
+          : {
+              frequency: value,
+              interval: prev.recurrence?.interval ?? 1,
+              until: prev.recurrence?.until ?? null,
+              count: prev.recurrence?.count ?? null,
+            },
+    }))
+  }
+
+  const updateRecurrence = (changes: Partial<RecurrenceRule>) => {
+    setFormData((prev) =>
+      prev.recurrence
+        ? { ...prev, recurrence: { ...prev.recurrence, ...changes } }
+        : prev
+    )
+  }
+
+  const handleRecurrenceEnd = (value: RecurrenceEnd) => {
+    if (value === "never") updateRecurrence({ until: null, count: null })
+    if (value === "until") updateRecurrence({ until: formData.date, count: null })
+    if (value === "count") updateRecurrence({ until: null, count: 10 })
+  }
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault()
-    if (!isReadOnly) {
-      onSave(formData)
+    if (!isReadOnly && !invalidEndTime) {
+      onSave(formData, { allowConflicts: conflicts.length > 0 })
       onOpenChange(false)
     }
   }
@@ -296,7 +421,7 @@ export function EventFormDialog({
             </div>
 
             {/* Data e Hora */}
-            <div className="grid grid-cols-2 gap-4">
+            <div className="grid grid-cols-3 gap-4">
               <div className="space-y-2">
                 <Label htmlFor="date">
                   Data {!isReadOnly && <span className="text-destructive">*</span>}
@@ -320,14 +445,138 @@ export function EventFormDialog({
                   id="time"
                   type="time"
                   value={formData.time}
+                  onChange={(e) => handleTimeChange(e.target.value)}
+                  required={!isReadOnly}
+                  disabled={isReadOnly}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="end-time">Término</Label>
+                <Input
+                  id="end-time"
+                  type="time"
+                  min={formData.time}
+                  value={formData.endTime}
                   onChange={(e) =>
-                    setFormData((prev) => ({ ...prev, time: e.target.value }))
+                    setFormData((prev) => ({ ...prev, endTime: e.target.value }))
                   }
-                  required={!isReadOnly}
                   disabled={isReadOnly}
                 />
               </div>
             </div>
+            {invalidEndTime && !isReadOnly && (
+              <p className="text-sm text-destructive">
+                O término deve ser depois do horário de início.
+              </p>
+            )}
+
+            {/* Recorrência */}
+            <div className="space-y-2">
+              <Label htmlFor="recurrence">Repetir</Label>
+              <Select
+                value={formData.recurrence?.frequency ?? "none"}
+                onValueChange={handleRecurrenceFrequency}
+                disabled={isReadOnly}
+              >
+                <SelectTrigger id="recurrence">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Não se repete</SelectItem>
+                  <SelectItem value="daily">Diariamente</SelectItem>
+                  <SelectItem value="weekly">Semanalmente</SelectItem>
+                  <SelectItem value="monthly">Mensalmente</SelectItem>
+                </SelectContent>
+              </Select>
+              {formData.recurrence && (
+                <div className="grid grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="recurrence-interval">Intervalo</Label>
+                    <Input
+                      id="recurrence-interval"
+                      type="number"
+                      min={1}
+                      value={formData.recurrence.interval}
+                      onChange={(e) =>
+                        updateRecurrence({ interval: Math.max(1, Number(e.target.value) || 1) })
+                      }
+                      disabled={isReadOnly}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="recurrence-end">Termina</Label>
+                    <Select
+                      value={recurrenceEnd}
+                      onValueChange={handleRecurrenceEnd}
+                      disabled={isReadOnly}
+                    >
+                      <SelectTrigger id="recurrence-end">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="never">Nunca</SelectItem>
+                        <SelectItem value="until">Em uma data</SelectItem>
+                        <SelectItem value="count">Após ocorrências</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {recurrenceEnd === "until" && (
+                    <div className="space-y-2">
+                      <Label htmlFor="recurrence-until">Até</Label>
+                      <Input
+                        id="recurrence-until"
+                        type="date"
+                        min={formData.date}
+                        value={formData.recurrence.until ?? ""}
+                        onChange={(e) => updateRecurrence({ until: e.target.value || null })}
+                        required={!isReadOnly}
+                        disabled={isReadOnly}
+                      />
+                    </div>
+                  )}
+                  {recurrenceEnd === "count" && (
+                    <div className="space-y-2">
+                      <Label htmlFor="recurrence-count">Ocorrências</Label>
+                      <Input
+                        id="recurrence-count"
+                        type="number"
+                        min={1}
+                        value={formData.recurrence.count ?? 1}
+                        onChange={(e) =>
+                          updateRecurrence({ count: Math.max(1, Number(e.target.value) || 1) })
+                        }
+                        disabled={isReadOnly}
+                      />
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+
+            {/* Lembretes */}
+            <div className="space-y-2">
+              <Label>Lembretes por email</Label>
+              <div className="flex flex-wrap gap-4">
+                {REMINDER_OPTIONS.map((option) => (
+                  <label
+                    key={option.minutes}
+                    className="flex items-center gap-2 text-sm"
+                  >
+                    <Checkbox
+                      checked={formData.reminders.includes(option.minutes)}
+                      onCheckedChange={(checked) =>
+                        handleToggleReminder(option.minutes, checked === true)
+                      }
+                      disabled={isReadOnly}
+                    />
+                    {option.label}
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Enviados aos participantes antes do início do evento.
+              </p>
+            </div>
 
             {/* Local */}
             <div className="space-y-2">
@@ -423,8 +672,50 @@ export function EventFormDialog({
                 </div>
               )}
             </div>
+
+            {/* Participantes externos */}
+            {(!isReadOnly || formData.externalParticipants.length > 0) && (
+              <div className="space-y-2">
+                <Label htmlFor="external_participants">Participantes externos</Label>
+                <RecipientInput
+                  id="external_participants"
+                  value={formData.externalParticipants}
+                  onChange={(externalParticipants) =>
+                    setFormData((prev) => ({ ...prev, externalParticipants }))
+                  }
+                  preferredClientId={formData.client?.id}
+                  placeholder={
+                    formData.client
+                      ? `Contatos de ${formData.client.name} ou email...`
+                      : "Contato de cliente ou email..."
+                  }
+                  disabled={isReadOnly}
+                />
+              </div>
+            )}
           </div>
 
+          {conflicts.length > 0 && (
+            <div className="rounded-md border border-yellow-500/50 bg-yellow-500/10 p-3 text-sm">
+              <div className="flex items-center gap-2 font-medium">
+                <AlertTriangle className="h-4 w-4 text-yellow-600" />
+                Conflito de agenda
+              </div>
+              <ul className="mt-2 space-y-1 text-muted-foreground">
+                {conflicts.slice(0, MAX_LISTED_CONFLICTS).map((conflict) => (
+                  <li key={`${conflict.userId}:${conflict.eventId}:${conflict.date}`}>
+                    {getUserName(conflict.userId)} já tem &quot;{conflict.title}&quot;
+                    {conflict.date !== formData.date && ` em ${conflict.date.split("-").reverse().join("/")}`} das{" "}
+                    {conflict.time} às {conflict.endTime}
+                  </li>
+                ))}
+                {conflicts.length > MAX_LISTED_CONFLICTS && (
+                  <li>e mais {conflicts.length - MAX_LISTED_CONFLICTS} conflito(s) nas próximas ocorrências</li>
+                )}
+              </ul>
+            </div>
+          )}
+
           <DialogFooter>
             <Button
               type="button"
@@ -434,8 +725,12 @@ export function EventFormDialog({
               {isReadOnly ? "Fechar" : "Cancelar"}
             </Button>
             {!isReadOnly && (
-              <Button type="submit">
-                {mode === "create" ? "Criar Evento" : "Salvar Alterações"}
+              <Button type="submit" disabled={invalidEndTime}>
+                {conflicts.length > 0
+                  ? "Salvar mesmo assim"
+                  : mode === "create"
+                  ? "Criar Evento"
+                  : "Salvar Alterações"}
               </Button>
             )}
           </DialogFooter>
@@ -0,0 +1,73 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import type { RecurrenceScope } from "@/lib/data/events"
+
+interface RecurrenceScopeDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSelect: (scope: RecurrenceScope) => void
+  action: "edit" | "delete"
+}
+
+const SCOPE_OPTIONS: { scope: RecurrenceScope; label: string }[] = [
+  { scope: "this", label: "Este evento" },
+  { scope: "following", label: "Este e os eventos seguintes" },
+  { scope: "all", label: "Todos os eventos" },
+]
+
+export function RecurrenceScopeDialog({
+  open,
+  onOpenChange,
+  onSelect,
+  action,
+}: RecurrenceScopeDialogProps) {
+  const isDelete = action === "delete"
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>
+            {isDelete ? "Excluir evento recorrente" : "Editar evento recorrente"}
+          </DialogTitle>
+          <DialogDescription>
+            {isDelete
+              ? "Quais ocorrências deste evento você deseja excluir?"
+              : "Quais ocorrências deste evento devem receber as alterações?"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col gap-2">
+          {SCOPE_OPTIONS.map((option) => (
+            <Button
+              key={option.scope}
+              variant={isDelete ? "outline" : "secondary"}
+              className="justify-start"
+              onClick={() => {
+                onSelect(option.scope)
+                onOpenChange(false)
+              }}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,263 @@
+"use client"
+
+import { useState } from "react"
+import { ArrowRightLeft, CalendarDays, Eye, Tag, Trash2, UserCog, X } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import type { BulkTaskOperation, Profile } from "@/lib/data/tasks"
+
+interface BulkTaskActionsProps {
+  count: number
+  columns: { statusKey: string; title: string }[]
+  profiles: Profile[]
+  labels: string[] // etiquetas já usadas nas tarefas do quadro
+  busy: boolean
+  canEdit: boolean
+  canDelete: boolean
+  onAction: (operation: BulkTaskOperation) => void
+  onClear: () => void
+}
+
+/** Barra de ações aplicadas de uma vez às tarefas selecionadas. */
+export function BulkTaskActions({
+  count,
+  columns,
+  profiles,
+  labels,
+  busy,
+  canEdit,
+  canDelete,
+  onAction,
+  onClear,
+}: BulkTaskActionsProps) {
+  const [deadlineOpen, setDeadlineOpen] = useState(false)
+  const [deadline, setDeadline] = useState("")
+  const [labelsOpen, setLabelsOpen] = useState(false)
+  const [label, setLabel] = useState("")
+  const [watchersOpen, setWatchersOpen] = useState(false)
+  const [watcherIds, setWatcherIds] = useState<string[]>([])
+
+  if (count === 0) return null
+
+  const apply = (operation: BulkTaskOperation) => {
+    onAction(operation)
+    setDeadlineOpen(false)
+    setLabelsOpen(false)
+    setWatchersOpen(false)
+  }
+
+  const trimmedLabel = label.trim()
+
+  return (
+    <div className="fixed bottom-6 left-1/2 z-40 flex -translate-x-1/2 items-center gap-2 rounded-lg border bg-card px-3 py-2 shadow-lg">
+      <span className="px-1 text-sm font-medium">
+        {count} {count === 1 ? "tarefa selecionada" : "tarefas selecionadas"}
+      </span>
+
+      {canEdit && (
+        <>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm" className="gap-2" disabled={busy}>
+                <ArrowRightLeft className="h-4 w-4" />
+                Mover
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="center" side="top">
+              {columns.map((column) => (
+                <DropdownMenuItem
+                  key={column.statusKey}
+                  onSelect={() => apply({ type: "move", status: column.statusKey })}
+                >
+                  {column.title}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm" className="gap-2" disabled={busy}>
+                <UserCog className="h-4 w-4" />
+                Responsável
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="center" side="top" className="max-h-72 overflow-y-auto">
+              <DropdownMenuItem onSelect={() => apply({ type: "assign", assigneeId: null })}>
+                Sem responsável
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              {profiles.map((profile) => (
+                <DropdownMenuItem
+                  key={profile.id}
+                  onSelect={() => apply({ type: "assign", assigneeId: profile.id })}
+                >
+                  {profile.fullName || profile.email}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+
+          <Popover open={deadlineOpen} onOpenChange={setDeadlineOpen}>
+            <PopoverTrigger asChild>
+              <Button variant="outline" size="sm" className="gap-2" disabled={busy}>
+                <CalendarDays className="h-4 w-4" />
+                Prazo
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent side="top" className="w-64 space-y-3">
+              <div className="space-y-2">
+                <Label htmlFor="bulk-deadline">Prazo</Label>
+                <Input
+                  id="bulk-deadline"
+                  type="date"
+                  value={deadline}
+                  onChange={(e) => setDeadline(e.target.value)}
+                />
+              </div>
+              <div className="flex justify-between gap-2">
+                <Button size="sm" variant="ghost" onClick={() => apply({ type: "deadline", deadline: null })}>
+                  Remover prazo
+                </Button>
+                <Button
+                  size="sm"
+                  disabled={!deadline}
+                  onClick={() => apply({ type: "deadline", deadline })}
+                >
+                  Aplicar
+                </Button>
+              </div>
+            </PopoverContent>
+          </Popover>
+
+          <Popover
+            open={labelsOpen}
+            onOpenChange={(open) => {
+              setLabelsOpen(open)
+              if (open) setLabel("")
+            }}
+          >
+            <PopoverTrigger asChild>
+              <Button variant="outline" size="sm" className="gap-2" disabled={busy}>
+                <Tag className="h-4 w-4" />
+                Etiqueta
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent side="top" className="w-72 space-y-3">
+              <div className="space-y-2">
+                <Label htmlFor="bulk-label">Etiqueta</Label>
+                <Input
+                  id="bulk-label"
+                  placeholder="Ex.: Vistoria"
+                  value={label}
+                  onChange={(e) => setLabel(e.target.value)}
+                />
+              </div>
+              {labels.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {labels.map((existing) => (
+                    <Badge
+                      key={existing}
+                      variant={existing === trimmedLabel ? "default" : "secondary"}
+                      className="cursor-pointer"
+                      onClick={() => setLabel(existing)}
+                    >
+                      {existing}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+              <div className="flex justify-between gap-2">
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  disabled={!trimmedLabel}
+                  onClick={() => apply({ type: "remove_label", label: trimmedLabel })}
+                >
+                  Remover
+                </Button>
+                <Button
+                  size="sm"
+                  disabled={!trimmedLabel}
+                  onClick={() => apply({ type: "add_label", label: trimmedLabel })}
+                >
+                  Adicionar
+                </Button>
+              </div>
+            </PopoverContent>
+          </Popover>
+
+          <Popover
+            open={watchersOpen}
+            onOpenChange={(open) => {
+              setWatchersOpen(open)
+              if (open) setWatcherIds([])
+            }}
+          >
+            <PopoverTrigger asChild>
+              <Button variant="outline" size="sm" className="gap-2" disabled={busy}>
+                <Eye className="h-4 w-4" />
+                Observadores
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent side="top" className="w-72 space-y-3">
+              <p className="text-sm font-medium">Adicionar observadores</p>
+              <div className="max-h-56 space-y-2 overflow-y-auto">
+                {profiles.map((profile) => (
+                  <label key={profile.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={watcherIds.includes(profile.id)}
+                      onCheckedChange={(checked) =>
+                        setWatcherIds((prev) =>
+                          checked === true ? [...prev, profile.id] : prev.filter((id) => id !== profile.id)
+                        )
+                      }
+                    />
+                    <span className="truncate">{profile.fullName || profile.email}</span>
+                  </label>
+                ))}
+              </div>
+              <div className="flex justify-end">
+                <Button
+                  size="sm"
+                  disabled={watcherIds.length === 0}
+                  onClick={() => apply({ type: "add_watchers", userIds: watcherIds })}
+                >
+                  Adicionar
+                </Button>
+              </div>
+            </PopoverContent>
+          </Popover>
+        </>
+      )}
+
+      {canDelete && (
+        <Button
+          variant="outline"
+          size="sm"
+          className="gap-2 text-destructive hover:text-destructive"
+          disabled={busy}
+          onClick={() => apply({ type: "delete" })}
+        >
+          <Trash2 className="h-4 w-4" />
+          Excluir
+        </Button>
+      )}
+
+      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onClear} aria-label="Limpar seleção">
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,90 @@
+"use client"
+
+import { useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+
+interface ColumnLoadBadgeProps {
+  count: number
+  wipLimit: number | null
+  onLimitChange?: (limit: number | null) => void // ausente = somente leitura
+}
+
+/** Carga da coluna ("3/5") destacada quando atinge ou passa do limite de WIP. */
+export function ColumnLoadBadge({ count, wipLimit, onLimitChange }: ColumnLoadBadgeProps) {
+  const [open, setOpen] = useState(false)
+  const [value, setValue] = useState("")
+
+  const overLimit = wipLimit !== null && count > wipLimit
+  const atLimit = wipLimit !== null && count === wipLimit
+
+  const badge = (
+    <Badge
+      variant={overLimit ? "destructive" : "secondary"}
+      className={atLimit ? "bg-amber-500/15 text-amber-700 dark:text-amber-400" : undefined}
+      title={
+        wipLimit === null
+          ? "Sem limite de WIP"
+          : overLimit
+            ? `Acima do limite de WIP (${wipLimit})`
+            : `Limite de WIP: ${wipLimit}`
+      }
+    >
+      {wipLimit === null ? count : `${count}/${wipLimit}`}
+    </Badge>
+  )
+
+  if (!onLimitChange) return badge
+
+  const parsed = parseInt(value, 10)
+  const valid = Number.isInteger(parsed) && parsed > 0
+
+  const save = (limit: number | null) => {
+    onLimitChange(limit)
+    setOpen(false)
+  }
+
+  return (
+    <Popover
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next)
+        if (next) setValue(wipLimit !== null ? String(wipLimit) : "")
+      }}
+    >
+      <PopoverTrigger asChild>
+        <button type="button" className="rounded-full" aria-label="Definir limite de WIP">
+          {badge}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-56 space-y-3">
+        <div className="space-y-2">
+          <Label htmlFor="wip-limit">Limite de WIP</Label>
+          <Input
+            id="wip-limit"
+            type="number"
+            min={1}
+            placeholder="Sem limite"
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && valid) save(parsed)
+            }}
+          />
+          <p className="text-xs text-muted-foreground">Máximo de tarefas nesta coluna.</p>
+        </div>
+        <div className="flex justify-between gap-2">
+          <Button size="sm" variant="ghost" onClick={() => save(null)} disabled={wipLimit === null}>
+            Remover
+          </Button>
+          <Button size="sm" onClick={() => save(parsed)} disabled={!valid}>
+            Salvar
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
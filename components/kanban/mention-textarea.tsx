@@ -0,0 +1,110 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { Textarea } from "@/components/ui/textarea"
+import type { Profile } from "@/lib/data/tasks"
+import { findMentionQuery } from "@/lib/utils/mentions"
+
+interface MentionTextareaProps {
+  value: string
+  onChange: (value: string) => void
+  profiles: Profile[]
+  placeholder?: string
+  className?: string
+}
+
+const MAX_SUGGESTIONS = 6
+
+function normalize(value: string): string {
+  return value.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase()
+}
+
+/** Textarea que sugere usuários ao digitar "@" e insere "@Nome Completo". */
+export function MentionTextarea({ value, onChange, profiles, placeholder, className }: MentionTextareaProps) {
+  const textareaRef = useRef<HTMLTextAreaElement | null>(null)
+  const [mention, setMention] = useState<{ start: number; query: string } | null>(null)
+  const [highlighted, setHighlighted] = useState(0)
+
+  const suggestions = mention
+    ? profiles
+        .filter((p) => p.fullName && normalize(p.fullName).includes(normalize(mention.query)))
+        .slice(0, MAX_SUGGESTIONS)
+    : []
+
+  const updateMention = (text: string, caret: number) => {
+    const next = findMentionQuery(text, caret)
+    setMention(next)
+    if (next?.query !== mention?.query) setHighlighted(0)
+  }
+
+  const insertMention = (profile: Profile) => {
+    if (!mention) return
+    const caret = mention.start + 1 + mention.query.length
+    const inserted = `@${profile.fullName} `
+    const next = value.slice(0, mention.start) + inserted + value.slice(caret)
+    onChange(next)
+    setMention(null)
+
+    const position = mention.start + inserted.length
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus()
+      textareaRef.current?.setSelectionRange(position, position)
+    })
+  }
+
+  return (
+    <div className="relative">
+      <Textarea
+        ref={textareaRef}
+        value={value}
+        placeholder={placeholder}
+        className={className}
+        onChange={(e) => {
+          onChange(e.target.value)
+          updateMention(e.target.value, e.target.selectionStart ?? e.target.value.length)
+        }}
+        onClick={(e) => updateMention(value, e.currentTarget.selectionStart ?? value.length)}
+        onBlur={() => setMention(null)}
+        onKeyDown={(e) => {
+          if (suggestions.length === 0) return
+          if (e.key === "ArrowDown") {
+            e.preventDefault()
+            setHighlighted((i) => (i + 1) % suggestions.length)
+          } else if (e.key === "ArrowUp") {
+            e.preventDefault()
+            setHighlighted((i) => (i - 1 + suggestions.length) % suggestions.length)
+          } else if (e.key === "Enter" || e.key === "Tab") {
+            e.preventDefault()
+            insertMention(suggestions[Math.min(highlighted, suggestions.length - 1)])
+          } else if (e.key === "Escape") {
+            e.preventDefault()
+            e.stopPropagation()
+            setMention(null)
+          }
+        }}
+      />
+      {suggestions.length > 0 && (
+        <div className="absolute left-0 top-full z-50 mt-1 w-64 rounded-md border bg-popover p-1 shadow-md">
+          {suggestions.map((profile, index) => (
+            <button
+              key={profile.id}
+              type="button"
+              className={`flex w-full flex-col rounded-sm px-2 py-1.5 text-left text-sm ${
+                index === highlighted ? "bg-accent text-accent-foreground" : ""
+              }`}
+              // mousedown para inserir antes do blur do textarea fechar a lista
+              onMouseDown={(e) => {
+                e.preventDefault()
+                insertMention(profile)
+              }}
+              onMouseEnter={() => setHighlighted(index)}
+            >
+              <span className="truncate font-medium">{profile.fullName}</span>
+              {profile.email && <span className="truncate text-xs text-muted-foreground">{profile.email}</span>}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
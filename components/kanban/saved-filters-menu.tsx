@@ -0,0 +1,215 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Bookmark, CalendarClock, Link2, Save, Trash2, Users } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import {
+  deleteSavedTaskFilter,
+  hasActiveTaskFilters,
+  listSavedTaskFilters,
+  myTasksDueThisWeek,
+  saveTaskFilter,
+  type SavedTaskFilter,
+} from "@/lib/data/task-filters"
+import type { TaskFilters } from "@/lib/data/tasks"
+import { useToast } from "@/hooks/use-toast"
+
+interface SavedFiltersMenuProps {
+  filters: TaskFilters
+  currentUserId: string | null
+  onApply: (filters: TaskFilters) => void
+}
+
+export function SavedFiltersMenu({ filters, currentUserId, onApply }: SavedFiltersMenuProps) {
+  const { toast } = useToast()
+  const [savedFilters, setSavedFilters] = useState<SavedTaskFilter[]>([])
+  const [saveDialogOpen, setSaveDialogOpen] = useState(false)
+  const [name, setName] = useState("")
+  const [isShared, setIsShared] = useState(false)
+  const [saving, setSaving] = useState(false)
+
+  const loadSavedFilters = async () => {
+    try {
+      setSavedFilters(await listSavedTaskFilters())
+    } catch (err) {
+      console.error("Erro ao carregar filtros salvos:", err)
+    }
+  }
+
+  useEffect(() => {
+    loadSavedFilters()
+  }, [])
+
+  const handleSave = async () => {
+    try {
+      setSaving(true)
+      await saveTaskFilter({ name, filters, isShared })
+      toast({
+        title: "Filtro salvo",
+        description: isShared ? "O filtro está disponível para o seu grupo." : "O filtro está disponível para você.",
+      })
+      setSaveDialogOpen(false)
+      await loadSavedFilters()
+    } catch (err) {
+      console.error("Erro ao salvar filtro:", err)
+      toast({
+        title: "Erro ao salvar filtro",
+        description: err instanceof Error ? err.message : "Não foi possível salvar o filtro.",
+        variant: "destructive",
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (filter: SavedTaskFilter) => {
+    try {
+      await deleteSavedTaskFilter(filter.id)
+      setSavedFilters((prev) => prev.filter((f) => f.id !== filter.id))
+    } catch (err) {
+      console.error("Erro ao excluir filtro:", err)
+      toast({
+        title: "Erro ao excluir filtro",
+        description: "Não foi possível excluir o filtro.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href)
+      toast({ title: "Link copiado", description: "Quem abrir o link verá o quadro com estes filtros." })
+    } catch {
+      toast({ title: "Erro", description: "Não foi possível copiar o link.", variant: "destructive" })
+    }
+  }
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="gap-2">
+            <Bookmark className="h-4 w-4" />
+            Visualizações
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-72">
+          <DropdownMenuItem
+            disabled={!currentUserId}
+            onSelect={() => currentUserId && onApply(myTasksDueThisWeek(currentUserId))}
+          >
+            <CalendarClock className="mr-2 h-4 w-4" />
+            Minhas tarefas da semana
+          </DropdownMenuItem>
+
+          <DropdownMenuSeparator />
+          <DropdownMenuLabel className="text-xs text-muted-foreground">Filtros salvos</DropdownMenuLabel>
+          {savedFilters.length === 0 ? (
+            <p className="px-2 py-1.5 text-sm text-muted-foreground">Nenhum filtro salvo.</p>
+          ) : (
+            savedFilters.map((filter) => (
+              <DropdownMenuItem key={filter.id} className="group" onSelect={() => onApply(filter.filters)}>
+                {filter.isShared ? (
+                  <Users className="mr-2 h-4 w-4 flex-shrink-0" />
+                ) : (
+                  <Bookmark className="mr-2 h-4 w-4 flex-shrink-0" />
+                )}
+                <span className="flex-1 truncate">{filter.name}</span>
+                {filter.isOwner && (
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-6 w-6 opacity-0 group-hover:opacity-100"
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      handleDelete(filter)
+                    }}
+                    aria-label={`Excluir filtro ${filter.name}`}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                )}
+              </DropdownMenuItem>
+            ))
+          )}
+
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            disabled={!hasActiveTaskFilters(filters)}
+            onSelect={() => {
+              setName("")
+              setIsShared(false)
+              setSaveDialogOpen(true)
+            }}
+          >
+            <Save className="mr-2 h-4 w-4" />
+            Salvar filtro atual...
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={handleCopyLink}>
+            <Link2 className="mr-2 h-4 w-4" />
+            Copiar link desta visualização
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={saveDialogOpen} onOpenChange={setSaveDialogOpen}>
+        <DialogContent className="sm:max-w-[420px]">
+          <DialogHeader>
+            <DialogTitle>Salvar filtro</DialogTitle>
+            <DialogDescription>
+              Salve a combinação atual de filtros para reutilizá-la ao abrir o quadro.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-2">
+            <div className="grid gap-2">
+              <Label htmlFor="filter-name">Nome</Label>
+              <Input
+                id="filter-name"
+                placeholder="Ex.: Vistorias atrasadas"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter" && name.trim()) handleSave()
+                }}
+              />
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="filter-shared" className="font-normal">
+                Compartilhar com meu grupo
+              </Label>
+              <Switch id="filter-shared" checked={isShared} onCheckedChange={setIsShared} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSaveDialogOpen(false)}>
+              Cancelar
+            </Button>
+            <Button onClick={handleSave} disabled={saving || !name.trim()}>
+              Salvar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -0,0 +1,253 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Download, Eye, FileText, Paperclip, Trash2, Upload } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { ConfirmDialog } from "@/components/ui/confirm-dialog"
+import {
+  FilePreviewModal,
+  isFilePreviewable,
+  type PreviewDriveFile,
+} from "@/components/arquivos/file-preview-modal"
+import {
+  deleteTaskAttachment,
+  listTaskAttachments,
+  uploadTaskAttachment,
+  type TaskAttachment,
+} from "@/lib/data/task-attachments"
+import { useToast } from "@/hooks/use-toast"
+
+interface TaskAttachmentsSectionProps {
+  taskId: string
+  projectId: string | null | undefined
+  open: boolean
+  readOnly: boolean
+  canDelete: boolean
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes === 0) return "—"
+  const k = 1024
+  const sizes = ["B", "KB", "MB", "GB"]
+  const i = Math.floor(Math.log(bytes) / Math.log(k))
+  return `${parseFloat((bytes / Math.pow(k, i)).toFixed(1))} ${sizes[i]}`
+}
+
+function downloadFile(file: { id: string }) {
+  window.open(`/api/files/${file.id}/download`, "_blank")
+}
+
+/** Arquivos da tarefa, guardados no Drive na pasta do projeto. */
+export function TaskAttachmentsSection({
+  taskId,
+  projectId,
+  open,
+  readOnly,
+  canDelete,
+}: TaskAttachmentsSectionProps) {
+  const { toast } = useToast()
+  const inputRef = useRef<HTMLInputElement | null>(null)
+  const [attachments, setAttachments] = useState<TaskAttachment[]>([])
+  const [loading, setLoading] = useState(false)
+  const [uploading, setUploading] = useState(false)
+  const [previewFile, setPreviewFile] = useState<PreviewDriveFile | null>(null)
+  const [deleteTarget, setDeleteTarget] = useState<TaskAttachment | null>(null)
+
+  const loadAttachments = async () => {
+    try {
+      setLoading(true)
+      setAttachments(await listTaskAttachments(taskId))
+    } catch (err) {
+      console.error("Erro ao carregar anexos:", err)
+      toast({
+        title: "Erro ao carregar anexos",
+        description: "Não foi possível carregar os anexos da tarefa.",
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    if (!open) return
+    setAttachments([])
+    loadAttachments()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [taskId, open])
+
+  const handleUpload = async (files: FileList | null) => {
+    if (!files || files.length === 0) return
+    setUploading(true)
+    try {
+      for (const file of Array.from(files)) {
+        try {
+          await uploadTaskAttachment(taskId, file)
+        } catch (err) {
+          console.error("Erro ao enviar anexo:", err)
+          toast({
+            title: `Erro ao enviar ${file.name}`,
+            description: err instanceof Error ? err.message : "Tente novamente em instantes.",
+            variant: "destructive",
+          })
+        }
+      }
+      await loadAttachments()
+    } finally {
+      setUploading(false)
+      if (inputRef.current) inputRef.current.value = ""
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return
+    try {
+      await deleteTaskAttachment(deleteTarget.id)
+      setAttachments((prev) => prev.filter((a) => a.id !== deleteTarget.id))
+      toast({ title: "Anexo excluído", description: `${deleteTarget.name} foi removido.` })
+    } catch (err) {
+      console.error("Erro ao excluir anexo:", err)
+      toast({
+        title: "Erro ao excluir anexo",
+        description: err instanceof Error ? err.message : "Tente novamente em instantes.",
+        variant: "destructive",
+      })
+    } finally {
+      setDeleteTarget(null)
+    }
+  }
+
+  if (readOnly && attachments.length === 0) return null
+
+  const previewFiles: PreviewDriveFile[] = attachments.map((a) => ({ id: a.id, name: a.name, mime_type: a.mime_type }))
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Paperclip className="h-5 w-5 text-foreground/80 dark:text-foreground/80" />
+        <h3 className="font-semibold">Anexos</h3>
+        {attachments.length > 0 && (
+          <Badge variant="secondary" className="text-xs">
+            {attachments.length}
+          </Badge>
+        )}
+        {!readOnly && projectId && (
+          <Button
+            size="sm"
+            variant="outline"
+            className="ml-auto h-7 gap-1.5 text-xs"
+            disabled={uploading}
+            onClick={() => inputRef.current?.click()}
+          >
+            <Upload className="h-3.5 w-3.5" />
+            {uploading ? "Enviando..." : "Anexar arquivo"}
+          </Button>
+        )}
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          className="hidden"
+          onChange={(e) => handleUpload(e.target.files)}
+        />
+      </div>
+
+      {!projectId && !readOnly && (
+        <p className="text-sm text-muted-foreground">
+          Vincule a tarefa a um projeto para anexar arquivos (eles ficam na pasta do projeto no Drive).
+        </p>
+      )}
+
+      <div className="space-y-1">
+        {loading && attachments.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-1">Carregando anexos...</p>
+        ) : (
+          attachments.map((attachment) => {
+            const previewable = isFilePreviewable({
+              id: attachment.id,
+              name: attachment.name,
+              mime_type: attachment.mime_type,
+            })
+            return (
+              <div
+                key={attachment.id}
+                className="flex items-center gap-2 group py-1 hover:bg-accent/50 rounded px-1 -mx-1 transition-colors"
+              >
+                <FileText className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+                <button
+                  type="button"
+                  className="min-w-0 flex-1 truncate text-left text-sm hover:underline"
+                  title={attachment.name}
+                  onClick={() =>
+                    previewable
+                      ? setPreviewFile({ id: attachment.id, name: attachment.name, mime_type: attachment.mime_type })
+                      : downloadFile(attachment)
+                  }
+                >
+                  {attachment.name}
+                </button>
+                <span className="text-xs text-muted-foreground flex-shrink-0">
+                  {formatBytes(attachment.size_bytes)} · {new Date(attachment.created_at).toLocaleDateString("pt-BR")}
+                </span>
+                <div className="flex items-center opacity-0 group-hover:opacity-100">
+                  {previewable && (
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-6 w-6"
+                      aria-label="Visualizar"
+                      onClick={() =>
+                        setPreviewFile({ id: attachment.id, name: attachment.name, mime_type: attachment.mime_type })
+                      }
+                    >
+                      <Eye className="h-3 w-3" />
+                    </Button>
+                  )}
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-6 w-6"
+                    aria-label="Baixar"
+                    onClick={() => downloadFile(attachment)}
+                  >
+                    <Download className="h-3 w-3" />
+                  </Button>
+                  {canDelete && (
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-6 w-6"
+                      aria-label="Excluir"
+                      onClick={() => setDeleteTarget(attachment)}
+                    >
+                      <Trash2 className="h-3 w-3 text-destructive" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            )
+          })
+        )}
+      </div>
+
+      <FilePreviewModal
+        open={!!previewFile}
+        onOpenChange={(open) => !open && setPreviewFile(null)}
+        initialFile={previewFile}
+        directoryFiles={previewFiles}
+        onDownload={downloadFile}
+      />
+
+      <ConfirmDialog
+        open={!!deleteTarget}
+        onOpenChange={(open) => !open && setDeleteTarget(null)}
+        onConfirm={handleDelete}
+        title="Excluir anexo"
+        description={`"${deleteTarget?.name ?? ""}" será excluído da tarefa e do Drive.`}
+        confirmText="Excluir"
+        variant="destructive"
+      />
+    </div>
+  )
+}
@@ -0,0 +1,205 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Link2, Lock, Plus, X } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  addTaskDependency,
+  listTaskDependencies,
+  listTasks,
+  removeTaskDependency,
+  type KanbanTask,
+  type TaskDependencies,
+  type TaskDependencyLink,
+} from "@/lib/data/tasks"
+import { TaskDependencyCycleError } from "@/lib/types"
+import { useToast } from "@/hooks/use-toast"
+
+interface TaskDependenciesSectionProps {
+  taskId: string
+  projectId?: string | null
+  open: boolean
+  readOnly: boolean
+}
+
+const EMPTY: TaskDependencies = { blockedBy: [], blocks: [] }
+
+export function TaskDependenciesSection({ taskId, projectId, open, readOnly }: TaskDependenciesSectionProps) {
+  const { toast } = useToast()
+  const [dependencies, setDependencies] = useState<TaskDependencies>(EMPTY)
+  const [loading, setLoading] = useState(false)
+  const [candidates, setCandidates] = useState<KanbanTask[]>([])
+  const [adding, setAdding] = useState(false)
+  const [selectedTaskId, setSelectedTaskId] = useState("")
+
+  const loadDependencies = async () => {
+    try {
+      setLoading(true)
+      setDependencies(await listTaskDependencies(taskId))
+    } catch (err) {
+      console.error("Erro ao carregar dependências:", err)
+      toast({
+        title: "Erro ao carregar dependências",
+        description: "Não foi possível carregar as dependências da tarefa.",
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    if (!open) return
+    setDependencies(EMPTY)
+    setAdding(false)
+    setSelectedTaskId("")
+    loadDependencies()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [taskId, open])
+
+  // Candidatas: tarefas do mesmo projeto (ou todas, se a tarefa não tem projeto)
+  useEffect(() => {
+    if (!adding) return
+    listTasks(projectId ? { projectId } : undefined)
+      .then(setCandidates)
+      .catch((err) => console.error("Erro ao carregar tarefas:", err))
+  }, [adding, projectId])
+
+  const linkedIds = new Set([
+    taskId,
+    ...dependencies.blockedBy.map((d) => d.taskId),
+    ...dependencies.blocks.map((d) => d.taskId),
+  ])
+  const availableTasks = candidates.filter((t) => !linkedIds.has(t.id))
+
+  const handleAdd = async () => {
+    if (!selectedTaskId) return
+    try {
+      await addTaskDependency(taskId, selectedTaskId)
+      setSelectedTaskId("")
+      setAdding(false)
+      await loadDependencies()
+    } catch (err) {
+      console.error("Erro ao adicionar dependência:", err)
+      toast({
+        title: "Erro ao adicionar dependência",
+        description:
+          err instanceof TaskDependencyCycleError
+            ? "Essa tarefa já depende desta (direta ou indiretamente)."
+            : "Não foi possível adicionar a dependência.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleRemove = async (link: TaskDependencyLink) => {
+    try {
+      await removeTaskDependency(link.id)
+      await loadDependencies()
+    } catch (err) {
+      console.error("Erro ao remover dependência:", err)
+      toast({
+        title: "Erro ao remover dependência",
+        description: "Não foi possível remover a dependência.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const pendingBlockers = dependencies.blockedBy.filter((d) => !d.done).length
+  const hasLinks = dependencies.blockedBy.length > 0 || dependencies.blocks.length > 0
+
+  if (readOnly && !hasLinks) return null
+
+  const renderLink = (link: TaskDependencyLink, removable: boolean) => (
+    <div key={link.id} className="flex items-center gap-2 group py-1 hover:bg-accent/50 rounded px-1 -mx-1 transition-colors">
+      <span className={`flex-1 text-sm ${link.done ? "line-through text-muted-foreground" : ""}`}>{link.title}</span>
+      <Badge variant={link.done ? "secondary" : "outline"} className="text-xs">
+        {link.done ? "Concluída" : "Pendente"}
+      </Badge>
+      {removable && !readOnly && (
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-6 w-6 opacity-0 group-hover:opacity-100 flex-shrink-0"
+          onClick={() => handleRemove(link)}
+        >
+          <X className="h-3 w-3" />
+        </Button>
+      )}
+    </div>
+  )
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Link2 className="h-5 w-5 text-foreground/80 dark:text-foreground/80" />
+        <h3 className="font-semibold">Dependências</h3>
+        {pendingBlockers > 0 && (
+          <Badge variant="destructive" className="text-xs">
+            <Lock className="mr-1 h-3 w-3" />
+            {pendingBlockers} {pendingBlockers === 1 ? "bloqueio pendente" : "bloqueios pendentes"}
+          </Badge>
+        )}
+        {!readOnly && !adding && (
+          <Button size="sm" variant="ghost" className="ml-auto h-7" onClick={() => setAdding(true)}>
+            <Plus className="mr-1 h-4 w-4" />
+            Adicionar
+          </Button>
+        )}
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-muted-foreground py-1">Carregando dependências...</p>
+      ) : (
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-1">
+            <p className="text-xs font-medium uppercase text-muted-foreground">Bloqueada por</p>
+            {dependencies.blockedBy.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Nenhuma</p>
+            ) : (
+              dependencies.blockedBy.map((link) => renderLink(link, true))
+            )}
+          </div>
+          <div className="space-y-1">
+            <p className="text-xs font-medium uppercase text-muted-foreground">Bloqueia</p>
+            {dependencies.blocks.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Nenhuma</p>
+            ) : (
+              dependencies.blocks.map((link) => renderLink(link, true))
+            )}
+          </div>
+        </div>
+      )}
+
+      {adding && (
+        <div className="flex gap-2">
+          <Select value={selectedTaskId} onValueChange={setSelectedTaskId}>
+            <SelectTrigger className="h-8 text-sm">
+              <SelectValue placeholder="Tarefa que precisa terminar antes" />
+            </SelectTrigger>
+            <SelectContent>
+              {availableTasks.length === 0 ? (
+                <div className="px-2 py-1.5 text-sm text-muted-foreground">Nenhuma tarefa disponível</div>
+              ) : (
+                availableTasks.map((t) => (
+                  <SelectItem key={t.id} value={t.id}>
+                    {t.title}
+                  </SelectItem>
+                ))
+              )}
+            </SelectContent>
+          </Select>
+          <Button size="sm" className="h-8" onClick={handleAdd} disabled={!selectedTaskId}>
+            Adicionar
+          </Button>
+          <Button size="sm" variant="outline" className="h-8" onClick={() => setAdding(false)}>
+            Cancelar
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
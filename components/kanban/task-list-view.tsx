@@ -0,0 +1,161 @@
+"use client"
+
+import { Calendar, Lock, Repeat } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { ProjectTag } from "@/components/ui/project-tag"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { TASK_PRIORITIES, type TaskPriority } from "@/lib/data/tasks"
+
+export type TaskListItem = {
+  id: string
+  title: string
+  status: string
+  deadline: string | null
+  assignee: string
+  labels?: string[]
+  priority?: TaskPriority
+  recurring?: boolean
+  project?: { name: string; code: string; color: string | null } | null
+}
+
+interface TaskListViewProps<T extends TaskListItem> {
+  tasks: T[]
+  columns: { statusKey: string; title: string; color?: string }[]
+  selectedIds: string[]
+  isBlocked: (task: T) => boolean
+  onToggleSelect: (taskId: string) => void
+  onToggleSelectAll: (selected: boolean) => void
+  onOpen: (task: T) => void
+}
+
+/** Tarefas do quadro em tabela, na ordem das colunas, com seleção para ações em lote. */
+export function TaskListView<T extends TaskListItem>({
+  tasks,
+  columns,
+  selectedIds,
+  isBlocked,
+  onToggleSelect,
+  onToggleSelectAll,
+  onOpen,
+}: TaskListViewProps<T>) {
+  const columnIndex = new Map(columns.map((column, index) => [column.statusKey, index]))
+  const ordered = [...tasks].sort(
+    (a, b) => (columnIndex.get(a.status) ?? columns.length) - (columnIndex.get(b.status) ?? columns.length)
+  )
+  const allSelected = tasks.length > 0 && tasks.every((task) => selectedIds.includes(task.id))
+  const someSelected = !allSelected && tasks.some((task) => selectedIds.includes(task.id))
+
+  if (tasks.length === 0) {
+    return <p className="py-12 text-center text-sm text-muted-foreground">Nenhuma tarefa encontrada.</p>
+  }
+
+  return (
+    <div className="flex-1 overflow-auto rounded-md border pb-20">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-10">
+              <Checkbox
+                checked={allSelected ? true : someSelected ? "indeterminate" : false}
+                onCheckedChange={(checked) => onToggleSelectAll(checked === true)}
+                aria-label="Selecionar todas as tarefas"
+              />
+            </TableHead>
+            <TableHead>Tarefa</TableHead>
+            <TableHead>Projeto</TableHead>
+            <TableHead>Coluna</TableHead>
+            <TableHead>Responsável</TableHead>
+            <TableHead>Prioridade</TableHead>
+            <TableHead>Prazo</TableHead>
+            <TableHead>Etiquetas</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {ordered.map((task) => {
+            const column = columns.find((col) => col.statusKey === task.status)
+            const selected = selectedIds.includes(task.id)
+            return (
+              <TableRow
+                key={task.id}
+                data-state={selected ? "selected" : undefined}
+                className="cursor-pointer hover:bg-muted/50"
+                onClick={() => onOpen(task)}
+              >
+                <TableCell onClick={(e) => e.stopPropagation()}>
+                  <Checkbox
+                    checked={selected}
+                    onCheckedChange={() => onToggleSelect(task.id)}
+                    aria-label={`Selecionar ${task.title}`}
+                  />
+                </TableCell>
+                <TableCell className="font-medium">
+                  <div className="flex items-center gap-2">
+                    <span>{task.title}</span>
+                    {task.recurring && <Repeat className="h-3.5 w-3.5 flex-shrink-0 text-muted-foreground" />}
+                    {isBlocked(task) && <Lock className="h-3.5 w-3.5 flex-shrink-0 text-destructive" />}
+                  </div>
+                </TableCell>
+                <TableCell>
+                  {task.project ? (
+                    <ProjectTag
+                      projectName={task.project.name}
+                      projectCode={task.project.code}
+                      projectColor={task.project.color}
+                      size="sm"
+                    />
+                  ) : (
+                    <span className="text-muted-foreground">—</span>
+                  )}
+                </TableCell>
+                <TableCell>
+                  {column ? (
+                    <div className="flex items-center gap-2">
+                      <div
+                        className="h-2 w-2 flex-shrink-0 rounded-full"
+                        style={{ backgroundColor: column.color || "#6B7280" }}
+                      />
+                      {column.title}
+                    </div>
+                  ) : (
+                    task.status
+                  )}
+                </TableCell>
+                <TableCell>{task.assignee || <span className="text-muted-foreground">—</span>}</TableCell>
+                <TableCell>
+                  {TASK_PRIORITIES.find((p) => p.value === (task.priority ?? "medium"))?.label}
+                </TableCell>
+                <TableCell>
+                  {task.deadline ? (
+                    <div className="flex items-center gap-2">
+                      <Calendar className="h-4 w-4" />
+                      {new Date(task.deadline).toLocaleDateString("pt-BR")}
+                    </div>
+                  ) : (
+                    <span className="text-muted-foreground">—</span>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <div className="flex flex-wrap gap-1">
+                    {(task.labels ?? []).map((label) => (
+                      <Badge key={label} variant="secondary" className="text-xs">
+                        {label}
+                      </Badge>
+                    ))}
+                  </div>
+                </TableCell>
+              </TableRow>
+            )
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
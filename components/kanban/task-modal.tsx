@@ -31,7 +31,10 @@ import {
   Trash2,
   Pencil,
   FolderKanban,
+  ListTree,
+  Eye,
 } from "lucide-react"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import {
   listChecklist,
   addChecklistItem,
@@ -51,7 +54,16 @@ import {
 } from "@/lib/data/task-comments"
 import { listProjects, type ProjectListItem } from "@/lib/data/projects"
 import { ProjectTag } from "@/components/ui/project-tag"
+import { TaskDependenciesSection } from "@/components/kanban/task-dependencies"
+import { TaskSubtasksSection } from "@/components/kanban/task-subtasks"
+import { TaskTimeTrackingSection } from "@/components/kanban/task-time-tracking"
+import { TaskRecurrenceSection } from "@/components/kanban/task-recurrence"
+import { TaskAttachmentsSection } from "@/components/kanban/task-attachments"
+import { MentionTextarea } from "@/components/kanban/mention-textarea"
+import { extractMentionedUserIds, splitMentions } from "@/lib/utils/mentions"
 import { useToast } from "@/hooks/use-toast"
+import { useRealtimeChanges } from "@/hooks/use-realtime-changes"
+import { useTaskPresence } from "@/hooks/use-task-presence"
 import { usePermissions } from "@/contexts/permission-context"
 
 type Task = {
@@ -63,6 +75,7 @@ type Task = {
   assignee: string
   assigneeId?: string | null
   labels?: string[]
+  parentTask?: { id: string; title: string } | null
   project?: {
     id: string
     name: string
@@ -88,9 +101,21 @@ interface TaskModalProps {
   onOpenChange?: (open: boolean) => void
   onUpdate?: (task: Task) => void
   onDelete?: (taskId: string) => void
+  onSubtasksChange?: () => void
+  onRecurrenceChange?: () => void
 }
 
-export function TaskModal({ task, isOpen, open, onClose, onOpenChange, onUpdate, onDelete }: TaskModalProps) {
+export function TaskModal({
+  task,
+  isOpen,
+  open,
+  onClose,
+  onOpenChange,
+  onUpdate,
+  onDelete,
+  onSubtasksChange,
+  onRecurrenceChange,
+}: TaskModalProps) {
   const { toast } = useToast()
   const { hasPermission } = usePermissions()
   const [editedTask, setEditedTask] = useState<Task | null>(task)
@@ -136,10 +161,22 @@ export function TaskModal({ task, isOpen, open, onClose, onOpenChange, onUpdate,
   const [projectPopoverOpen, setProjectPopoverOpen] = useState(false)
   const [membersPopoverOpen, setMembersPopoverOpen] = useState(false)
 
-  // Sincronizar editedTask quando task mudar
+  // Sincronizar editedTask quando task mudar (inclusive por alterações de outras
+  // pessoas), sem descartar o título ou a descrição que estão sendo digitados
+  const isEditingTitleRef = useRef(isEditingTitle)
+  isEditingTitleRef.current = isEditingTitle
+  const descriptionFocusedRef = useRef(false)
   useEffect(() => {
     if (task && open) {
-      setEditedTask(task)
+      setEditedTask((prev) =>
+        prev && prev.id === task.id
+          ? {
+              ...task,
+              title: isEditingTitleRef.current ? prev.title : task.title,
+              description: descriptionFocusedRef.current ? prev.description : task.description,
+            }
+          : task
+      )
       setShowLabelsSection(!!(task.labels && task.labels.length > 0))
       setShowDateSection(!!task.deadline || !!task.assignee)
     }
@@ -208,6 +245,31 @@ export function TaskModal({ task, isOpen, open, onClose, onOpenChange, onUpdate,
     }
   }, [task?.id, open, toast])
 
+  // Comentários e checklist alterados por outras pessoas. Exclusões chegam só
+  // com o id (RLS), então qualquer exclusão recarrega as listas.
+  useRealtimeChanges(
+    `task-detail:${task?.id}`,
+    ["task_comments", "task_checklist"],
+    async (changes) => {
+      if (!task) return
+      const affects = (table: string) =>
+        changes.some((c) => c.table === table && (c.eventType === "DELETE" || c.new.task_id === task.id))
+      try {
+        if (affects("task_comments")) setComments(await listComments(task.id))
+        if (affects("task_checklist")) setChecklistItems(await listChecklist(task.id))
+      } catch (err) {
+        console.error("Erro ao atualizar a tarefa em tempo real:", err)
+      }
+    },
+    !!task?.id && modalOpen
+  )
+
+  // Quem mais está com a tarefa aberta
+  const viewerIds = useTaskPresence(task?.id, modalOpen)
+  const viewers = viewerIds.map(
+    (id) => profiles.find((p) => p.id === id) ?? { id, fullName: "Usuário", email: "", avatarUrl: null }
+  )
+
   if (!task || !editedTask) {
     return (
       <Dialog open={open} onOpenChange={onOpenChange}>
@@ -226,11 +288,14 @@ export function TaskModal({ task, isOpen, open, onClose, onOpenChange, onUpdate,
     }
   }
 
+  const mentionCandidates = profiles.map((p) => ({ id: p.id, name: p.fullName }))
+
   const handleAddComment = async () => {
     if (!newComment.trim() || !task) return
 
     try {
-      await createComment(task.id, newComment.trim())
+      const text = newComment.trim()
+      await createComment(task.id, text, extractMentionedUserIds(text, mentionCandidates))
       const data = await listComments(task.id)
       setComments(data)
       setNewComment("")
@@ -257,7 +322,8 @@ export function TaskModal({ task, isOpen, open, onClose, onOpenChange, onUpdate,
     if (!editingCommentId || !editingCommentText.trim() || !task) return
 
     try {
-      await updateComment(editingCommentId, editingCommentText.trim())
+      const text = editingCommentText.trim()
+      await updateComment(editingCommentId, text, extractMentionedUserIds(text, mentionCandidates))
       const data = await listComments(task.id)
       setComments(data)
       setEditingCommentId(null)
@@ -454,6 +520,26 @@ export function TaskModal({ task, isOpen, open, onClose, onOpenChange, onUpdate,
                 {editedTask.title}
               </DialogTitle>
             )}
+            {viewers.length > 0 && (
+              <div className="mt-2 flex items-center gap-2 text-xs text-muted-foreground">
+                <Eye className="h-3.5 w-3.5" />
+                <div className="flex -space-x-1.5">
+                  {viewers.slice(0, 5).map((viewer) => (
+                    <Avatar key={viewer.id} className="h-6 w-6 border-2 border-background" title={viewer.fullName}>
+                      {viewer.avatarUrl && <AvatarImage src={viewer.avatarUrl} alt={viewer.fullName} />}
+                      <AvatarFallback className="text-[10px]">
+                        {viewer.fullName.charAt(0).toUpperCase() || "?"}
+                      </AvatarFallback>
+                    </Avatar>
+                  ))}
+                </div>
+                <span>
+                  {viewers.length === 1
+                    ? `${viewers[0].fullName} também está vendo esta tarefa`
+                    : `${viewers.length} pessoas também estão vendo esta tarefa`}
+                </span>
+              </div>
+            )}
           </div>
           {canDelete && (
             showDeleteConfirm ? (
@@ -841,7 +927,13 @@ export function TaskModal({ task, isOpen, open, onClose, onOpenChange, onUpdate,
               onChange={(e) =>
                 setEditedTask({ ...editedTask, description: e.target.value })
               }
-              onBlur={handleUpdate}
+              onFocus={() => {
+                descriptionFocusedRef.current = true
+              }}
+              onBlur={() => {
+                descriptionFocusedRef.current = false
+                handleUpdate()
+              }}
               placeholder={isReadOnly ? "" : "Adicione uma descrição mais detalhada..."}
               className="min-h-[100px]"
               disabled={isReadOnly}
@@ -994,6 +1086,55 @@ export function TaskModal({ task, isOpen, open, onClose, onOpenChange, onUpdate,
           </div>
           )}
 
+          {/* Subtarefas (apenas um nível) */}
+          {editedTask.parentTask ? (
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <ListTree className="h-5 w-5 text-foreground/80 dark:text-foreground/80" />
+                <h3 className="font-semibold">Subtarefa de</h3>
+              </div>
+              <p className="text-sm">{editedTask.parentTask.title}</p>
+            </div>
+          ) : (
+            <TaskSubtasksSection
+              taskId={editedTask.id}
+              open={modalOpen}
+              readOnly={isReadOnly}
+              canDelete={canDelete}
+              profiles={profiles}
+              onChange={onSubtasksChange}
+            />
+          )}
+
+          {/* Anexos */}
+          <TaskAttachmentsSection
+            taskId={editedTask.id}
+            projectId={editedTask.project?.id}
+            open={modalOpen}
+            readOnly={isReadOnly}
+            canDelete={canDelete}
+          />
+
+          {/* Horas */}
+          <TaskTimeTrackingSection taskId={editedTask.id} open={modalOpen} readOnly={isReadOnly} />
+
+          {/* Recorrência */}
+          <TaskRecurrenceSection
+            taskId={editedTask.id}
+            deadline={editedTask.deadline}
+            open={modalOpen}
+            readOnly={isReadOnly}
+            onChange={onRecurrenceChange}
+          />
+
+          {/* Dependências */}
+          <TaskDependenciesSection
+            taskId={editedTask.id}
+            projectId={editedTask.project?.id}
+            open={modalOpen}
+            readOnly={isReadOnly}
+          />
+
           <Separator />
 
           {/* Comentários e atividade */}
@@ -1053,9 +1194,10 @@ export function TaskModal({ task, isOpen, open, onClose, onOpenChange, onUpdate,
                       </div>
                       {editingCommentId === comment.id ? (
                         <div className="space-y-2">
-                          <Textarea
+                          <MentionTextarea
                             value={editingCommentText}
-                            onChange={(e) => setEditingCommentText(e.target.value)}
+                            onChange={setEditingCommentText}
+                            profiles={profiles}
                             className="min-h-[60px] text-sm"
                           />
                           <div className="flex gap-2">
@@ -1068,7 +1210,17 @@ export function TaskModal({ task, isOpen, open, onClose, onOpenChange, onUpdate,
                           </div>
                         </div>
                       ) : (
-                        <p className="text-sm">{comment.text}</p>
+                        <p className="text-sm whitespace-pre-wrap">
+                          {splitMentions(comment.text, mentionCandidates.map((c) => c.name)).map((segment, index) =>
+                            segment.mention ? (
+                              <span key={index} className="font-medium text-primary">
+                                {segment.text}
+                              </span>
+                            ) : (
+                              segment.text
+                            )
+                          )}
+                        </p>
                       )}
                     </div>
                   </div>
@@ -1083,10 +1235,11 @@ export function TaskModal({ task, isOpen, open, onClose, onOpenChange, onUpdate,
                   MP
                 </div>
                 <div className="flex-1 space-y-2">
-                  <Textarea
+                  <MentionTextarea
                     value={newComment}
-                    onChange={(e) => setNewComment(e.target.value)}
-                    placeholder="Escrever um comentário..."
+                    onChange={setNewComment}
+                    profiles={profiles}
+                    placeholder="Escrever um comentário... Use @ para mencionar alguém"
                     className="min-h-[80px]"
                   />
                   <Button onClick={handleAddComment}>Comentar</Button>
@@ -0,0 +1,288 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { format } from "date-fns"
+import { Repeat } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  getTaskRecurrence,
+  setTaskRecurrence,
+  type TaskRecurrence,
+  type TaskRecurrenceMode,
+} from "@/lib/data/tasks"
+import {
+  describeRecurrence,
+  nextOccurrence,
+  parseISODate,
+  type RecurrenceFrequency,
+  type RecurrenceRule,
+} from "@/lib/utils/recurrence"
+import { useToast } from "@/hooks/use-toast"
+
+interface TaskRecurrenceSectionProps {
+  taskId: string
+  deadline: string | null
+  open: boolean
+  readOnly: boolean
+  onChange?: () => void
+}
+
+type RecurrenceEnd = "never" | "until" | "count"
+
+type Draft = { rule: RecurrenceRule; mode: TaskRecurrenceMode } | null
+
+function toDraft(recurrence: TaskRecurrence | null): Draft {
+  return recurrence ? { rule: { ...recurrence.rule }, mode: recurrence.mode } : null
+}
+
+function formatISO(iso: string): string {
+  return format(parseISODate(iso), "dd/MM/yyyy")
+}
+
+export function TaskRecurrenceSection({ taskId, deadline, open, readOnly, onChange }: TaskRecurrenceSectionProps) {
+  const { toast } = useToast()
+  const [recurrence, setRecurrence] = useState<TaskRecurrence | null>(null)
+  const [draft, setDraft] = useState<Draft>(null)
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+
+  const loadRecurrence = async () => {
+    try {
+      setLoading(true)
+      const data = await getTaskRecurrence(taskId)
+      setRecurrence(data)
+      setDraft(toDraft(data))
+    } catch (err) {
+      console.error("Erro ao carregar recorrência:", err)
+      toast({
+        title: "Erro ao carregar recorrência",
+        description: "Não foi possível carregar a recorrência da tarefa.",
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    if (!open) return
+    setRecurrence(null)
+    setDraft(null)
+    loadRecurrence()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [taskId, open])
+
+  if (readOnly && !recurrence) return null
+
+  const dirty = JSON.stringify(draft) !== JSON.stringify(toDraft(recurrence))
+  const recurrenceEnd: RecurrenceEnd =
+    draft?.rule.count != null ? "count" : draft?.rule.until ? "until" : "never"
+  // Data-base usada na pré-visualização antes de salvar
+  const baseDate = recurrence?.occurrenceDate ?? deadline ?? format(new Date(), "yyyy-MM-dd")
+
+  const updateRule = (changes: Partial<RecurrenceRule>) => {
+    setDraft((prev) => (prev ? { ...prev, rule: { ...prev.rule, ...changes } } : prev))
+  }
+
+  const handleFrequency = (value: RecurrenceFrequency | "none") => {
+    setDraft((prev) =>
+      value === "none"
+        ? null
+        : {
+            mode: prev?.mode ?? "on_done",
+            rule: {
+              frequency: value,
+              interval: prev?.rule.interval ?? 1,
+              until: prev?.rule.until ?? null,
+              count: prev?.rule.count ?? null,
+            },
+          }
+    )
+  }
+
+  const handleEnd = (value: RecurrenceEnd) => {
+    if (value === "never") updateRule({ until: null, count: null })
+    if (value === "until") updateRule({ until: baseDate, count: null })
+    if (value === "count") updateRule({ until: null, count: 10 })
+  }
+
+  const handleSave = async () => {
+    try {
+      setSaving(true)
+      await setTaskRecurrence(taskId, draft)
+      toast({
+        title: draft ? "Recorrência salva" : "Recorrência removida",
+        description: draft
+          ? describeRecurrence(draft.rule)
+          : "Nenhuma nova instância será criada a partir desta tarefa.",
+      })
+      await loadRecurrence()
+      onChange?.()
+    } catch (err) {
+      console.error("Erro ao salvar recorrência:", err)
+      toast({
+        title: "Erro ao salvar recorrência",
+        description: "Não foi possível salvar a recorrência da tarefa.",
+        variant: "destructive",
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const next =
+    recurrence && !dirty
+      ? nextOccurrence(recurrence.startDate, recurrence.rule, recurrence.occurrenceDate)
+      : draft
+        ? nextOccurrence(baseDate, draft.rule, baseDate)
+        : null
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Repeat className="h-5 w-5 text-foreground/80 dark:text-foreground/80" />
+        <h3 className="font-semibold">Recorrência</h3>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-muted-foreground py-1">Carregando recorrência...</p>
+      ) : readOnly && recurrence ? (
+        <p className="text-sm">
+          {describeRecurrence(recurrence.rule)} ·{" "}
+          {recurrence.mode === "on_done" ? "ao concluir" : "na data da ocorrência"}
+        </p>
+      ) : (
+        <div className="space-y-3">
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div className="space-y-1">
+              <Label htmlFor="task-recurrence" className="text-xs">
+                Repetir
+              </Label>
+              <Select value={draft?.rule.frequency ?? "none"} onValueChange={handleFrequency}>
+                <SelectTrigger id="task-recurrence" className="h-8 text-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Não se repete</SelectItem>
+                  <SelectItem value="daily">Diariamente</SelectItem>
+                  <SelectItem value="weekly">Semanalmente</SelectItem>
+                  <SelectItem value="monthly">Mensalmente</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {draft && (
+              <div className="space-y-1">
+                <Label htmlFor="task-recurrence-mode" className="text-xs">
+                  Criar a próxima
+                </Label>
+                <Select
+                  value={draft.mode}
+                  onValueChange={(value) => setDraft({ ...draft, mode: value as TaskRecurrenceMode })}
+                >
+                  <SelectTrigger id="task-recurrence-mode" className="h-8 text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="on_done">Ao concluir esta tarefa</SelectItem>
+                    <SelectItem value="schedule">Na data desta ocorrência</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          {draft && (
+            <div className="grid gap-3 sm:grid-cols-3">
+              <div className="space-y-1">
+                <Label htmlFor="task-recurrence-interval" className="text-xs">
+                  Intervalo
+                </Label>
+                <Input
+                  id="task-recurrence-interval"
+                  type="number"
+                  min={1}
+                  className="h-8 text-sm"
+                  value={draft.rule.interval}
+                  onChange={(e) => updateRule({ interval: Math.max(1, Number(e.target.value) || 1) })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="task-recurrence-end" className="text-xs">
+                  Termina
+                </Label>
+                <Select value={recurrenceEnd} onValueChange={(value) => handleEnd(value as RecurrenceEnd)}>
+                  <SelectTrigger id="task-recurrence-end" className="h-8 text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="never">Nunca</SelectItem>
+                    <SelectItem value="until">Em uma data</SelectItem>
+                    <SelectItem value="count">Após ocorrências</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {recurrenceEnd === "until" && (
+                <div className="space-y-1">
+                  <Label htmlFor="task-recurrence-until" className="text-xs">
+                    Até
+                  </Label>
+                  <Input
+                    id="task-recurrence-until"
+                    type="date"
+                    className="h-8 text-sm"
+                    min={baseDate}
+                    value={draft.rule.until ?? ""}
+                    onChange={(e) => updateRule({ until: e.target.value || null })}
+                  />
+                </div>
+              )}
+              {recurrenceEnd === "count" && (
+                <div className="space-y-1">
+                  <Label htmlFor="task-recurrence-count" className="text-xs">
+                    Ocorrências
+                  </Label>
+                  <Input
+                    id="task-recurrence-count"
+                    type="number"
+                    min={1}
+                    className="h-8 text-sm"
+                    value={draft.rule.count ?? 1}
+                    onChange={(e) => updateRule({ count: Math.max(1, Number(e.target.value) || 1) })}
+                  />
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="flex items-center gap-2">
+            <p className="flex-1 text-xs text-muted-foreground">
+              {draft
+                ? next
+                  ? `Próxima instância com prazo em ${formatISO(next)}, mesmo projeto, responsável, etiquetas e checklist.`
+                  : "A série termina nesta tarefa."
+                : "Tarefa avulsa."}
+            </p>
+            {dirty && (
+              <>
+                <Button size="sm" variant="outline" className="h-8" onClick={() => setDraft(toDraft(recurrence))}>
+                  Cancelar
+                </Button>
+                <Button
+                  size="sm"
+                  className="h-8"
+                  onClick={handleSave}
+                  disabled={saving || (recurrenceEnd === "until" && !draft?.rule.until)}
+                >
+                  Salvar
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,216 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { ListTree, Plus, X } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Progress } from "@/components/ui/progress"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  createSubtask,
+  deleteTask,
+  listSubtasks,
+  updateTask,
+  DONE_STATUS,
+  type KanbanTask,
+  type Profile,
+} from "@/lib/data/tasks"
+import { listKanbanColumns, type KanbanColumn } from "@/lib/data/kanban-columns"
+import { useToast } from "@/hooks/use-toast"
+
+interface TaskSubtasksSectionProps {
+  taskId: string
+  open: boolean
+  readOnly: boolean
+  canDelete: boolean
+  profiles: Profile[]
+  onChange?: () => void
+}
+
+export function TaskSubtasksSection({
+  taskId,
+  open,
+  readOnly,
+  canDelete,
+  profiles,
+  onChange,
+}: TaskSubtasksSectionProps) {
+  const { toast } = useToast()
+  const [subtasks, setSubtasks] = useState<KanbanTask[]>([])
+  const [columns, setColumns] = useState<KanbanColumn[]>([])
+  const [loading, setLoading] = useState(false)
+  const [newTitle, setNewTitle] = useState("")
+
+  const loadSubtasks = async () => {
+    try {
+      setLoading(true)
+      setSubtasks(await listSubtasks(taskId))
+    } catch (err) {
+      console.error("Erro ao carregar subtarefas:", err)
+      toast({
+        title: "Erro ao carregar subtarefas",
+        description: "Não foi possível carregar as subtarefas.",
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    if (!open) return
+    setSubtasks([])
+    setNewTitle("")
+    loadSubtasks()
+    listKanbanColumns()
+      .then(setColumns)
+      .catch((err) => console.error("Erro ao carregar colunas:", err))
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [taskId, open])
+
+  const runAndReload = async (action: () => Promise<unknown>, errorTitle: string) => {
+    try {
+      await action()
+      await loadSubtasks()
+      onChange?.()
+    } catch (err) {
+      console.error(`${errorTitle}:`, err)
+      toast({
+        title: errorTitle,
+        description: "Tente novamente em instantes.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleAdd = async () => {
+    const title = newTitle.trim()
+    if (!title) return
+    await runAndReload(() => createSubtask(taskId, { title }), "Erro ao criar subtarefa")
+    setNewTitle("")
+  }
+
+  const completed = subtasks.filter((t) => t.status === DONE_STATUS).length
+
+  if (readOnly && subtasks.length === 0) return null
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <ListTree className="h-5 w-5 text-foreground/80 dark:text-foreground/80" />
+        <h3 className="font-semibold">Subtarefas</h3>
+        {subtasks.length > 0 && (
+          <Badge variant="secondary" className="text-xs">
+            {completed}/{subtasks.length}
+          </Badge>
+        )}
+      </div>
+
+      {subtasks.length > 0 && <Progress value={(completed / subtasks.length) * 100} className="h-1.5" />}
+
+      <div className="space-y-1">
+        {loading && subtasks.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-1">Carregando subtarefas...</p>
+        ) : (
+          subtasks.map((subtask) => (
+            <div
+              key={subtask.id}
+              className="grid grid-cols-[1fr_130px_150px_130px_auto] items-center gap-2 group py-1 hover:bg-accent/50 rounded px-1 -mx-1 transition-colors"
+            >
+              <span
+                className={`truncate text-sm ${subtask.status === DONE_STATUS ? "line-through text-muted-foreground" : ""}`}
+                title={subtask.title}
+              >
+                {subtask.title}
+              </span>
+              <Select
+                value={subtask.status}
+                disabled={readOnly}
+                onValueChange={(status) =>
+                  runAndReload(() => updateTask(subtask.id, { status }), "Erro ao atualizar subtarefa")
+                }
+              >
+                <SelectTrigger className="h-7 text-xs">
+                  <SelectValue placeholder="Status" />
+                </SelectTrigger>
+                <SelectContent>
+                  {columns.map((column) => (
+                    <SelectItem key={column.id} value={column.statusKey}>
+                      {column.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={subtask.assigneeId ?? "unassigned"}
+                disabled={readOnly}
+                onValueChange={(value) =>
+                  runAndReload(
+                    () => updateTask(subtask.id, { assigned_to: value === "unassigned" ? null : value }),
+                    "Erro ao atualizar subtarefa"
+                  )
+                }
+              >
+                <SelectTrigger className="h-7 text-xs">
+                  <SelectValue placeholder="Responsável" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="unassigned">
+                    <span className="text-muted-foreground">Sem responsável</span>
+                  </SelectItem>
+                  {profiles.map((profile) => (
+                    <SelectItem key={profile.id} value={profile.id}>
+                      {profile.fullName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="date"
+                className="h-7 text-xs"
+                value={subtask.deadline ?? ""}
+                disabled={readOnly}
+                onChange={(e) =>
+                  runAndReload(
+                    () => updateTask(subtask.id, { deadline: e.target.value || null }),
+                    "Erro ao atualizar subtarefa"
+                  )
+                }
+              />
+              {canDelete ? (
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-6 w-6 opacity-0 group-hover:opacity-100 flex-shrink-0"
+                  onClick={() => runAndReload(() => deleteTask(subtask.id), "Erro ao excluir subtarefa")}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              ) : (
+                <span className="w-6" />
+              )}
+            </div>
+          ))
+        )}
+
+        {!readOnly && (
+          <div className="flex gap-2 pt-1">
+            <Input
+              value={newTitle}
+              onChange={(e) => setNewTitle(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") handleAdd()
+              }}
+              placeholder="Adicionar subtarefa"
+              className="h-8 text-sm"
+            />
+            <Button size="icon" variant="ghost" onClick={handleAdd} className="h-8 w-8">
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
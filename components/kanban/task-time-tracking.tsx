@@ -0,0 +1,232 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { format } from "date-fns"
+import { Clock, Play, Plus, Square, X } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  addManualTimeEntry,
+  deleteTimeEntry,
+  formatMinutes,
+  listTimeEntries,
+  startTimer,
+  stopTimer,
+  type TimeEntry,
+} from "@/lib/data/time-entries"
+import { createClient } from "@/lib/supabase/client"
+import { useToast } from "@/hooks/use-toast"
+
+interface TaskTimeTrackingSectionProps {
+  taskId: string
+  open: boolean
+  readOnly: boolean
+}
+
+export function TaskTimeTrackingSection({ taskId, open, readOnly }: TaskTimeTrackingSectionProps) {
+  const { toast } = useToast()
+  const [entries, setEntries] = useState<TimeEntry[]>([])
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [busy, setBusy] = useState(false)
+  const [showManualForm, setShowManualForm] = useState(false)
+  const [manualDate, setManualDate] = useState(() => format(new Date(), "yyyy-MM-dd"))
+  const [manualHours, setManualHours] = useState("")
+  const [manualMinutes, setManualMinutes] = useState("")
+  const [manualDescription, setManualDescription] = useState("")
+  const [now, setNow] = useState(() => Date.now())
+
+  const loadEntries = async () => {
+    try {
+      setLoading(true)
+      setEntries(await listTimeEntries(taskId))
+    } catch (err) {
+      console.error("Erro ao carregar apontamentos:", err)
+      toast({
+        title: "Erro ao carregar horas",
+        description: "Não foi possível carregar os apontamentos da tarefa.",
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    if (!open) return
+    setEntries([])
+    setShowManualForm(false)
+    loadEntries()
+    createClient()
+      .auth.getUser()
+      .then(({ data }) => setCurrentUserId(data.user?.id ?? null))
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [taskId, open])
+
+  const runningEntry = entries.find((e) => !e.endedAt && e.userId === currentUserId) ?? null
+
+  // Atualiza o tempo decorrido enquanto o cronômetro está ativo
+  useEffect(() => {
+    if (!runningEntry) return
+    const interval = setInterval(() => setNow(Date.now()), 30000)
+    return () => clearInterval(interval)
+  }, [runningEntry])
+
+  const entryMinutes = (entry: TimeEntry) =>
+    entry.endedAt
+      ? entry.durationMinutes
+      : Math.max(0, Math.round((now - new Date(entry.startedAt).getTime()) / 60000))
+
+  const totalMinutes = entries.reduce((sum, entry) => sum + entryMinutes(entry), 0)
+  const myMinutes = entries
+    .filter((entry) => entry.userId === currentUserId)
+    .reduce((sum, entry) => sum + entryMinutes(entry), 0)
+
+  const run = async (action: () => Promise<unknown>, errorTitle: string) => {
+    try {
+      setBusy(true)
+      await action()
+      setNow(Date.now())
+      await loadEntries()
+      return true
+    } catch (err) {
+      console.error(`${errorTitle}:`, err)
+      toast({
+        title: errorTitle,
+        description: err instanceof Error ? err.message : "Tente novamente em instantes.",
+        variant: "destructive",
+      })
+      return false
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleToggleTimer = () => {
+    if (runningEntry) {
+      run(() => stopTimer(runningEntry.id), "Erro ao parar cronômetro")
+    } else {
+      run(() => startTimer(taskId), "Erro ao iniciar cronômetro")
+    }
+  }
+
+  const handleAddManual = async () => {
+    const minutes = (parseInt(manualHours || "0", 10) || 0) * 60 + (parseInt(manualMinutes || "0", 10) || 0)
+    const ok = await run(
+      () => addManualTimeEntry(taskId, { date: manualDate, minutes, description: manualDescription }),
+      "Erro ao lançar horas"
+    )
+    if (ok) {
+      setManualHours("")
+      setManualMinutes("")
+      setManualDescription("")
+      setShowManualForm(false)
+    }
+  }
+
+  if (readOnly && entries.length === 0) return null
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Clock className="h-5 w-5 text-foreground/80 dark:text-foreground/80" />
+        <h3 className="font-semibold">Horas</h3>
+        <Badge variant="secondary" className="text-xs">
+          Total {formatMinutes(totalMinutes)}
+        </Badge>
+        {currentUserId && myMinutes > 0 && (
+          <Badge variant="outline" className="text-xs">
+            Você {formatMinutes(myMinutes)}
+          </Badge>
+        )}
+        {!readOnly && (
+          <div className="ml-auto flex gap-2">
+            <Button
+              size="sm"
+              variant={runningEntry ? "destructive" : "outline"}
+              className="h-7"
+              onClick={handleToggleTimer}
+              disabled={busy}
+            >
+              {runningEntry ? <Square className="mr-1 h-3 w-3" /> : <Play className="mr-1 h-3 w-3" />}
+              {runningEntry ? `Parar (${formatMinutes(entryMinutes(runningEntry))})` : "Iniciar"}
+            </Button>
+            <Button size="sm" variant="ghost" className="h-7" onClick={() => setShowManualForm((v) => !v)}>
+              <Plus className="mr-1 h-4 w-4" />
+              Lançar
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {showManualForm && !readOnly && (
+        <div className="grid grid-cols-[140px_70px_70px_1fr_auto] gap-2">
+          <Input type="date" className="h-8 text-sm" value={manualDate} onChange={(e) => setManualDate(e.target.value)} />
+          <Input
+            type="number"
+            min={0}
+            className="h-8 text-sm"
+            placeholder="h"
+            value={manualHours}
+            onChange={(e) => setManualHours(e.target.value)}
+          />
+          <Input
+            type="number"
+            min={0}
+            max={59}
+            className="h-8 text-sm"
+            placeholder="min"
+            value={manualMinutes}
+            onChange={(e) => setManualMinutes(e.target.value)}
+          />
+          <Input
+            className="h-8 text-sm"
+            placeholder="Descrição (opcional)"
+            value={manualDescription}
+            onChange={(e) => setManualDescription(e.target.value)}
+          />
+          <Button size="sm" className="h-8" onClick={handleAddManual} disabled={busy || !manualDate}>
+            Salvar
+          </Button>
+        </div>
+      )}
+
+      <div className="space-y-1">
+        {loading && entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-1">Carregando apontamentos...</p>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nenhuma hora registrada.</p>
+        ) : (
+          entries.map((entry) => (
+            <div
+              key={entry.id}
+              className="flex items-center gap-2 group py-1 hover:bg-accent/50 rounded px-1 -mx-1 transition-colors text-sm"
+            >
+              <span className="w-24 text-muted-foreground">
+                {new Date(entry.startedAt).toLocaleDateString("pt-BR")}
+              </span>
+              <span className="w-32 truncate">{entry.userName}</span>
+              <span className="flex-1 truncate text-muted-foreground">
+                {entry.description || (entry.isManual ? "Lançamento manual" : "Cronômetro")}
+              </span>
+              <span className="font-medium">
+                {entry.endedAt ? formatMinutes(entry.durationMinutes) : `${formatMinutes(entryMinutes(entry))} …`}
+              </span>
+              {!readOnly && entry.userId === currentUserId && entry.endedAt && (
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-6 w-6 opacity-0 group-hover:opacity-100 flex-shrink-0"
+                  onClick={() => run(() => deleteTimeEntry(entry.id), "Erro ao excluir apontamento")}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,173 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import { usePathname, useRouter } from "next/navigation"
+import { formatDistanceToNow } from "date-fns"
+import { ptBR } from "date-fns/locale"
+import { Bell, CheckCheck, Settings2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import {
+  countUnreadNotifications,
+  listNotifications,
+  markAllNotificationsRead,
+  markNotificationRead,
+  type AppNotification,
+} from "@/lib/data/notifications"
+import { cn } from "@/lib/utils"
+
+// Intervalo de atualização da contagem de não lidas
+const POLL_INTERVAL_MS = 60_000
+
+/** Sino da barra lateral: contagem de não lidas e lista das notificações recentes. */
+export function NotificationBell() {
+  const router = useRouter()
+  const pathname = usePathname()
+  const [open, setOpen] = useState(false)
+  const [unread, setUnread] = useState(0)
+  const [notifications, setNotifications] = useState<AppNotification[]>([])
+  const [loading, setLoading] = useState(false)
+
+  const refreshUnread = useCallback(async () => {
+    try {
+      setUnread(await countUnreadNotifications())
+    } catch (err) {
+      console.error("Erro ao contar notificações:", err)
+    }
+  }, [])
+
+  useEffect(() => {
+    void refreshUnread()
+    const interval = setInterval(refreshUnread, POLL_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [refreshUnread, pathname])
+
+  useEffect(() => {
+    if (!open) return
+    ;(async () => {
+      try {
+        setLoading(true)
+        setNotifications(await listNotifications())
+      } catch (err) {
+        console.error("Erro ao carregar notificações:", err)
+      } finally {
+        setLoading(false)
+      }
+    })()
+  }, [open])
+
+  const handleOpenNotification = async (notification: AppNotification) => {
+    if (!notification.readAt) {
+      const readAt = new Date().toISOString()
+      setNotifications((prev) => prev.map((n) => (n.id === notification.id ? { ...n, readAt } : n)))
+      setUnread((prev) => Math.max(0, prev - 1))
+      markNotificationRead(notification.id).catch((err) =>
+        console.error("Erro ao marcar notificação como lida:", err)
+      )
+    }
+    if (notification.link) {
+      setOpen(false)
+      router.push(notification.link)
+    }
+  }
+
+  const handleMarkAllRead = async () => {
+    try {
+      await markAllNotificationsRead()
+      const readAt = new Date().toISOString()
+      setNotifications((prev) => prev.map((n) => (n.readAt ? n : { ...n, readAt })))
+      setUnread(0)
+    } catch (err) {
+      console.error("Erro ao marcar notificações como lidas:", err)
+    }
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          className="w-full justify-start gap-3 text-sidebar-muted-foreground hover:text-sidebar-foreground hover:bg-[linear-gradient(90deg,hsl(0_0%_100%_/0),hsl(0_0%_100%_/0.06))] [&_svg]:text-inherit"
+        >
+          <Bell className="h-4 w-4" />
+          Notificações
+          {unread > 0 && (
+            <span className="ml-auto rounded-full bg-primary px-1.5 py-0.5 text-[10px] font-semibold leading-none text-primary-foreground">
+              {unread > 99 ? "99+" : unread}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent side="right" align="end" className="w-96 p-0">
+        <div className="flex items-center justify-between border-b px-4 py-3">
+          <p className="text-sm font-semibold">Notificações</p>
+          <div className="flex items-center gap-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 gap-1.5 text-xs"
+              disabled={unread === 0}
+              onClick={handleMarkAllRead}
+            >
+              <CheckCheck className="h-3.5 w-3.5" />
+              Marcar todas como lidas
+            </Button>
+            <Button variant="ghost" size="icon" className="h-7 w-7" asChild>
+              <Link
+                href="/configuracoes?secao=notificacoes"
+                aria-label="Preferências de notificação"
+                onClick={() => setOpen(false)}
+              >
+                <Settings2 className="h-3.5 w-3.5" />
+              </Link>
+            </Button>
+          </div>
+        </div>
+        <div className="max-h-96 overflow-y-auto">
+          {loading && notifications.length === 0 ? (
+            <div className="space-y-2 p-4">
+              {[1, 2, 3].map((i) => (
+                <div key={i} className="h-12 animate-pulse rounded-md bg-muted" />
+              ))}
+            </div>
+          ) : notifications.length === 0 ? (
+            <p className="py-10 text-center text-sm text-muted-foreground">Nenhuma notificação.</p>
+          ) : (
+            <div className="divide-y">
+              {notifications.map((notification) => (
+                <button
+                  key={notification.id}
+                  type="button"
+                  className={cn(
+                    "flex w-full gap-3 px-4 py-3 text-left transition-colors hover:bg-accent/50",
+                    !notification.readAt && "bg-primary/5"
+                  )}
+                  onClick={() => handleOpenNotification(notification)}
+                >
+                  <span
+                    className={cn(
+                      "mt-1.5 h-2 w-2 flex-shrink-0 rounded-full",
+                      notification.readAt ? "bg-transparent" : "bg-primary"
+                    )}
+                  />
+                  <span className="min-w-0 flex-1">
+                    <span className="block text-sm font-medium">{notification.title}</span>
+                    {notification.message && (
+                      <span className="mt-0.5 line-clamp-2 block text-xs text-muted-foreground">
+                        {notification.message}
+                      </span>
+                    )}
+                    <span className="mt-1 block text-[11px] text-muted-foreground">
+                      {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true, locale: ptBR })}
+                    </span>
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,138 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { Briefcase, Plus, TrendingUp } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Protected } from "@/components/protected"
+import { DealFormDialog } from "@/components/pipeline/deal-form-dialog"
+import { usePermissions } from "@/contexts/permission-context"
+import { useToast } from "@/hooks/use-toast"
+import { createDeal, listDeals, updateDeal, type Deal, type DealInput } from "@/lib/data/deals"
+import { DEAL_STAGES, formatDealValue } from "@/lib/utils/deals"
+
+interface ClientDealsSectionProps {
+  clientId: string
+}
+
+/** Negócios do cliente no pipeline comercial. */
+export function ClientDealsSection({ clientId }: ClientDealsSectionProps) {
+  const { toast } = useToast()
+  const { hasPermission } = usePermissions()
+  const canEdit = hasPermission("clientes", "edit")
+
+  const [deals, setDeals] = useState<Deal[]>([])
+  const [loading, setLoading] = useState(true)
+  const [formOpen, setFormOpen] = useState(false)
+  const [editingDeal, setEditingDeal] = useState<Deal | null>(null)
+
+  useEffect(() => {
+    setLoading(true)
+    listDeals({ clientId })
+      .then(setDeals)
+      .catch((err) => {
+        console.error("Erro ao carregar negócios:", err)
+        toast({ title: "Erro ao carregar negócios", variant: "destructive" })
+      })
+      .finally(() => setLoading(false))
+  }, [clientId, toast])
+
+  async function handleSave(input: DealInput) {
+    try {
+      if (editingDeal) {
+        const updated = await updateDeal(editingDeal.id, input)
+        setDeals((prev) => prev.map((d) => (d.id === updated.id ? updated : d)))
+        toast({ title: "Negócio atualizado" })
+      } else {
+        const created = await createDeal(input)
+        setDeals((prev) => [...prev, created])
+        toast({ title: "Negócio criado", description: created.title })
+      }
+    } catch (err) {
+      console.error("Erro ao salvar negócio:", err)
+      toast({ title: "Erro ao salvar negócio", variant: "destructive" })
+      throw err
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-base font-semibold">Negócios</h2>
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="sm" asChild>
+            <Link href="/pipeline">Ver pipeline</Link>
+          </Button>
+          <Protected section="clientes" action="create">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                setEditingDeal(null)
+                setFormOpen(true)
+              }}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Novo negócio
+            </Button>
+          </Protected>
+        </div>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-muted-foreground">Carregando negócios...</p>
+      ) : deals.length === 0 ? (
+        <div className="flex flex-col items-center justify-center gap-2 py-8 text-muted-foreground border border-dashed rounded-lg">
+          <TrendingUp className="h-8 w-8 opacity-40" />
+          <p className="text-sm">Nenhum negócio cadastrado para este cliente.</p>
+        </div>
+      ) : (
+        <div className="divide-y rounded-lg border">
+          {deals.map((deal) => {
+            const stage = DEAL_STAGES.find((s) => s.value === deal.stage)
+            return (
+              <button
+                key={deal.id}
+                type="button"
+                className="flex w-full items-center gap-3 px-4 py-3 text-left hover:bg-muted/40 transition-colors"
+                onClick={() => {
+                  setEditingDeal(deal)
+                  setFormOpen(true)
+                }}
+              >
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm font-medium truncate">{deal.title}</p>
+                  {deal.closeReason && <p className="text-xs text-muted-foreground">{deal.closeReason}</p>}
+                </div>
+                {deal.projectCode && (
+                  <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                    <Briefcase className="h-3 w-3" />
+                    {deal.projectCode}
+                  </span>
+                )}
+                <span className="text-sm tabular-nums">{formatDealValue(deal.estimatedValue)}</span>
+                <Badge
+                  variant="outline"
+                  className="shrink-0 text-xs"
+                  style={{ borderColor: stage?.color, color: stage?.color }}
+                >
+                  {stage?.label ?? deal.stage}
+                </Badge>
+              </button>
+            )
+          })}
+        </div>
+      )}
+
+      <DealFormDialog
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        deal={editingDeal}
+        clientId={clientId}
+        readOnly={editingDeal ? !canEdit : false}
+        onSave={handleSave}
+      />
+    </div>
+  )
+}
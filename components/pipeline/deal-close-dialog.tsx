@@ -0,0 +1,113 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { DEAL_LOSS_REASONS, DEAL_WIN_REASONS } from "@/lib/utils/deals"
+
+interface DealCloseDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  outcome: "won" | "lost"
+  dealTitle: string
+  onConfirm: (reason: string, notes: string) => Promise<void>
+}
+
+/** Pede o motivo ao marcar um negócio como ganho ou perdido. */
+export function DealCloseDialog({ open, onOpenChange, outcome, dealTitle, onConfirm }: DealCloseDialogProps) {
+  const [reason, setReason] = useState("")
+  const [notes, setNotes] = useState("")
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (open) {
+      setReason("")
+      setNotes("")
+    }
+  }, [open])
+
+  const reasons = outcome === "won" ? DEAL_WIN_REASONS : DEAL_LOSS_REASONS
+
+  async function handleConfirm() {
+    if (!reason) return
+    setSaving(true)
+    try {
+      await onConfirm(reason, notes)
+      onOpenChange(false)
+    } catch {
+      // O erro já foi exibido por quem chamou; o diálogo continua aberto
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[460px]">
+        <DialogHeader>
+          <DialogTitle>{outcome === "won" ? "Negócio ganho" : "Negócio perdido"}</DialogTitle>
+          <DialogDescription>
+            {outcome === "won"
+              ? `Por que "${dealTitle}" foi ganho?`
+              : `Por que "${dealTitle}" foi perdido?`}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-2">
+          <div className="grid gap-2">
+            <Label htmlFor="deal_close_reason">Motivo</Label>
+            <Select value={reason} onValueChange={setReason}>
+              <SelectTrigger id="deal_close_reason">
+                <SelectValue placeholder="Selecione o motivo..." />
+              </SelectTrigger>
+              <SelectContent>
+                {reasons.map((r) => (
+                  <SelectItem key={r} value={r}>
+                    {r}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="deal_close_notes">Observações (opcional)</Label>
+            <Textarea
+              id="deal_close_notes"
+              rows={3}
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button
+            type="button"
+            variant={outcome === "lost" ? "destructive" : "default"}
+            disabled={!reason || saving}
+            onClick={handleConfirm}
+          >
+            {saving ? "Salvando..." : outcome === "won" ? "Marcar como ganho" : "Marcar como perdido"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,168 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { useToast } from "@/hooks/use-toast"
+import { convertDealToProject, type Deal } from "@/lib/data/deals"
+import { fetchNextProjectCode } from "@/lib/data/projects"
+import { listProjectTemplates, type ProjectTemplate } from "@/lib/data/project-templates"
+
+interface DealConvertDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  deal: Deal | null
+  onConverted: (projectId: string) => void
+}
+
+/** Cria o projeto de um negócio ganho, com o cliente e o valor do negócio. */
+export function DealConvertDialog({ open, onOpenChange, deal, onConverted }: DealConvertDialogProps) {
+  const { toast } = useToast()
+  const [code, setCode] = useState("")
+  const [name, setName] = useState("")
+  const [endDate, setEndDate] = useState("")
+  const [templateId, setTemplateId] = useState("none")
+  const [templates, setTemplates] = useState<ProjectTemplate[]>([])
+  const [loadingCode, setLoadingCode] = useState(false)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (!open || !deal) return
+    setName(deal.title)
+    setEndDate("")
+    setTemplateId("none")
+
+    let cancelled = false
+    setLoadingCode(true)
+    fetchNextProjectCode()
+      .then((next) => {
+        if (!cancelled) setCode(next)
+      })
+      .catch((err) => {
+        console.error("Erro ao gerar código do projeto:", err)
+        if (!cancelled) setCode("")
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingCode(false)
+      })
+    listProjectTemplates()
+      .then((result) => {
+        if (!cancelled) setTemplates(result)
+      })
+      .catch((err) => console.error("Erro ao carregar modelos de projeto:", err))
+
+    return () => {
+      cancelled = true
+    }
+  }, [open, deal])
+
+  async function handleConvert() {
+    if (!deal || !code.trim() || !name.trim() || !endDate) return
+    setSaving(true)
+    try {
+      const { projectId } = await convertDealToProject(deal, {
+        code: code.trim(),
+        name: name.trim(),
+        endDate,
+        templateId: templateId === "none" ? null : templateId,
+      })
+      toast({ title: "Projeto criado", description: `${code.trim()} — ${name.trim()}` })
+      onOpenChange(false)
+      onConverted(projectId)
+    } catch (err) {
+      console.error("Erro ao converter negócio em projeto:", err)
+      toast({
+        title: "Erro ao criar projeto",
+        description: err instanceof Error ? err.message : "Tente novamente em instantes.",
+        variant: "destructive",
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Converter em projeto</DialogTitle>
+          <DialogDescription>
+            {deal ? `Cria um projeto para ${deal.clientName} a partir do negócio ganho.` : null}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-2">
+          <div className="grid grid-cols-3 gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="convert_code">Código</Label>
+              <Input
+                id="convert_code"
+                value={code}
+                placeholder={loadingCode ? "Gerando..." : ""}
+                onChange={(e) => setCode(e.target.value)}
+              />
+            </div>
+            <div className="col-span-2 grid gap-2">
+              <Label htmlFor="convert_name">Nome do projeto</Label>
+              <Input id="convert_name" value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="convert_end_date">Prazo</Label>
+              <Input
+                id="convert_end_date"
+                type="date"
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="convert_template">Modelo</Label>
+              <Select value={templateId} onValueChange={setTemplateId}>
+                <SelectTrigger id="convert_template">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Sem modelo</SelectItem>
+                  {templates.map((template) => (
+                    <SelectItem key={template.id} value={template.id}>
+                      {template.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Agora não
+          </Button>
+          <Button
+            type="button"
+            onClick={handleConvert}
+            disabled={saving || loadingCode || !code.trim() || !name.trim() || !endDate}
+          >
+            {saving ? "Criando..." : "Criar projeto"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,238 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { listClients } from "@/lib/data/clients"
+import type { Deal, DealInput } from "@/lib/data/deals"
+import { DEAL_STAGES, OPEN_DEAL_STAGES, type DealStage } from "@/lib/utils/deals"
+
+interface DealFormDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** Negócio em edição; sem ele o diálogo cria um novo */
+  deal?: Deal | null
+  /** Cliente fixo (perfil do cliente) */
+  clientId?: string
+  readOnly?: boolean
+  onSave: (input: DealInput) => Promise<void>
+  onConvert?: () => void
+}
+
+type FormState = {
+  clientId: string
+  title: string
+  description: string
+  stage: DealStage
+  estimatedValue: string
+  expectedCloseDate: string
+}
+
+export function DealFormDialog({
+  open,
+  onOpenChange,
+  deal,
+  clientId,
+  readOnly = false,
+  onSave,
+  onConvert,
+}: DealFormDialogProps) {
+  const [form, setForm] = useState<FormState>({
+    clientId: "",
+    title: "",
+    description: "",
+    stage: "lead",
+    estimatedValue: "",
+    expectedCloseDate: "",
+  })
+  const [clients, setClients] = useState<{ id: string; name: string }[]>([])
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+    setForm({
+      clientId: deal?.clientId ?? clientId ?? "",
+      title: deal?.title ?? "",
+      description: deal?.description ?? "",
+      stage: deal?.stage ?? "lead",
+      estimatedValue: deal?.estimatedValue != null ? String(deal.estimatedValue) : "",
+      expectedCloseDate: deal?.expectedCloseDate ?? "",
+    })
+  }, [open, deal, clientId])
+
+  useEffect(() => {
+    if (!open || clientId) return
+    listClients().then(({ data, error }) => {
+      if (error) {
+        console.error("Erro ao carregar clientes:", error)
+        return
+      }
+      setClients(data.map((c) => ({ id: c.id, name: c.name })))
+    })
+  }, [open, clientId])
+
+  const estimatedValue = form.estimatedValue.trim() ? Number(form.estimatedValue.replace(",", ".")) : null
+  const invalidValue = estimatedValue != null && (Number.isNaN(estimatedValue) || estimatedValue < 0)
+  const canSave = !!form.clientId && !!form.title.trim() && !invalidValue
+
+  // Ganho/perdido é definido pelo fechamento no pipeline, com o motivo
+  const stageOptions = deal && !OPEN_DEAL_STAGES.includes(deal.stage)
+    ? DEAL_STAGES.filter((s) => s.value === deal.stage || OPEN_DEAL_STAGES.includes(s.value))
+    : DEAL_STAGES.filter((s) => OPEN_DEAL_STAGES.includes(s.value))
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    if (!canSave || readOnly) return
+    setSaving(true)
+    try {
+      await onSave({
+        clientId: form.clientId,
+        title: form.title,
+        description: form.description,
+        stage: form.stage,
+        estimatedValue,
+        expectedCloseDate: form.expectedCloseDate || null,
+      })
+      onOpenChange(false)
+    } catch {
+      // O erro já foi exibido por quem chamou; o diálogo continua aberto
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px]">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>{deal ? "Editar negócio" : "Novo negócio"}</DialogTitle>
+            <DialogDescription>
+              {deal?.closeReason
+                ? `${deal.stage === "won" ? "Ganho" : "Perdido"}: ${deal.closeReason}${deal.closeNotes ? ` — ${deal.closeNotes}` : ""}`
+                : "Oportunidade de venda acompanhada no pipeline comercial"}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            {!clientId && (
+              <div className="grid gap-2">
+                <Label htmlFor="deal_client">Cliente</Label>
+                <Select
+                  value={form.clientId}
+                  onValueChange={(value) => setForm((prev) => ({ ...prev, clientId: value }))}
+                  disabled={readOnly || !!deal}
+                >
+                  <SelectTrigger id="deal_client">
+                    <SelectValue placeholder={deal?.clientName ?? "Selecione um cliente..."} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {clients.map((client) => (
+                      <SelectItem key={client.id} value={client.id}>
+                        {client.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="grid gap-2">
+              <Label htmlFor="deal_title">Título</Label>
+              <Input
+                id="deal_title"
+                placeholder="Ex.: Avaliação de imóvel comercial"
+                value={form.title}
+                onChange={(e) => setForm((prev) => ({ ...prev, title: e.target.value }))}
+                disabled={readOnly}
+              />
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="deal_stage">Etapa</Label>
+                <Select
+                  value={form.stage}
+                  onValueChange={(value) => setForm((prev) => ({ ...prev, stage: value as DealStage }))}
+                  disabled={readOnly}
+                >
+                  <SelectTrigger id="deal_stage">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {stageOptions.map((stage) => (
+                      <SelectItem key={stage.value} value={stage.value}>
+                        {stage.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="deal_value">Valor estimado (R$)</Label>
+                <Input
+                  id="deal_value"
+                  inputMode="decimal"
+                  placeholder="0,00"
+                  value={form.estimatedValue}
+                  onChange={(e) => setForm((prev) => ({ ...prev, estimatedValue: e.target.value }))}
+                  aria-invalid={invalidValue}
+                  disabled={readOnly}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="deal_close_date">Previsão de fechamento</Label>
+                <Input
+                  id="deal_close_date"
+                  type="date"
+                  value={form.expectedCloseDate}
+                  onChange={(e) => setForm((prev) => ({ ...prev, expectedCloseDate: e.target.value }))}
+                  disabled={readOnly}
+                />
+              </div>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="deal_description">Descrição</Label>
+              <Textarea
+                id="deal_description"
+                rows={3}
+                value={form.description}
+                onChange={(e) => setForm((prev) => ({ ...prev, description: e.target.value }))}
+                disabled={readOnly}
+              />
+            </div>
+          </div>
+          <DialogFooter className="gap-2">
+            {deal?.stage === "won" && !deal.projectId && onConvert && !readOnly && (
+              <Button type="button" variant="outline" className="sm:mr-auto" onClick={onConvert}>
+                Converter em projeto
+              </Button>
+            )}
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              {readOnly ? "Fechar" : "Cancelar"}
+            </Button>
+            {!readOnly && (
+              <Button type="submit" disabled={!canSave || saving}>
+                {saving ? "Salvando..." : deal ? "Salvar alterações" : "Criar negócio"}
+              </Button>
+            )}
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -32,7 +32,7 @@ export function ProjectDetailExecutionSummary({
             <CheckSquare className="h-5 w-5" />
             Subetapas concluídas
           </CardTitle>
-          <CardDescription>Itens de checklist somados de todas as tarefas do projeto</CardDescription>
+          <CardDescription>Itens de checklist e subtarefas somados de todas as tarefas do projeto</CardDescription>
         </CardHeader>
         <CardContent>
           <div className="mb-2 flex items-end justify-between gap-2">
@@ -42,6 +42,11 @@ export function ProjectDetailExecutionSummary({
             </p>
           </div>
           <Progress value={checklist.completionPercentage} className="h-2" />
+          {checklist.totalSubtasks > 0 && (
+            <p className="mt-2 text-xs text-muted-foreground">
+              Inclui {checklist.completedSubtasks}/{checklist.totalSubtasks} subtarefas concluídas
+            </p>
+          )}
         </CardContent>
       </Card>
 
@@ -0,0 +1,203 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import {
+  Area,
+  AreaChart,
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import type { KanbanColumn } from "@/lib/data/kanban-columns"
+import {
+  computeFlowAnalytics,
+  listProjectStatusHistory,
+  type TaskStatusTransition,
+} from "@/lib/data/task-analytics"
+
+interface ProjectDetailFlowAnalyticsProps {
+  projectId: string
+  columns: KanbanColumn[]
+  projectColor?: string | null
+}
+
+const tooltipStyle = {
+  borderRadius: 10,
+  borderColor: "hsl(var(--border))",
+  background: "hsl(var(--card))",
+}
+
+const axisTick = { fill: "hsl(var(--muted-foreground))", fontSize: 12 }
+
+function formatDays(days: number | null): string {
+  if (days === null) return "—"
+  if (days < 1) return `${Math.round(days * 24)} h`
+  return `${days.toFixed(1).replace(".", ",")} dias`
+}
+
+export function ProjectDetailFlowAnalytics({
+  projectId,
+  columns,
+  projectColor,
+}: ProjectDetailFlowAnalyticsProps) {
+  const [transitions, setTransitions] = useState<TaskStatusTransition[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    setLoading(true)
+    listProjectStatusHistory(projectId)
+      .then((data) => {
+        if (cancelled) return
+        setTransitions(data)
+        setError(false)
+      })
+      .catch((err) => {
+        console.error("Erro ao carregar histórico de colunas:", err)
+        if (!cancelled) setError(true)
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [projectId])
+
+  const analytics = useMemo(() => computeFlowAnalytics(transitions, columns), [transitions, columns])
+
+  if (loading && transitions.length === 0) {
+    return <p className="py-8 text-center text-sm text-muted-foreground">Carregando análise do fluxo...</p>
+  }
+
+  if (error) {
+    return (
+      <p className="py-8 text-center text-sm text-muted-foreground">
+        Não foi possível carregar o histórico de colunas do projeto.
+      </p>
+    )
+  }
+
+  if (transitions.length === 0) {
+    return (
+      <p className="py-8 text-center text-sm text-muted-foreground">
+        Ainda não há movimentações de tarefas neste projeto.
+      </p>
+    )
+  }
+
+  const barColor = projectColor || "hsl(var(--primary))"
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-3">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Lead time médio</CardDescription>
+            <CardTitle className="text-2xl">{formatDays(analytics.leadTimeDays)}</CardTitle>
+          </CardHeader>
+          <CardContent className="text-xs text-muted-foreground">Da criação até a conclusão</CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Cycle time médio</CardDescription>
+            <CardTitle className="text-2xl">{formatDays(analytics.cycleTimeDays)}</CardTitle>
+          </CardHeader>
+          <CardContent className="text-xs text-muted-foreground">Do início do trabalho até a conclusão</CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Tarefas concluídas</CardDescription>
+            <CardTitle className="text-2xl">{analytics.completedCount}</CardTitle>
+          </CardHeader>
+          <CardContent className="text-xs text-muted-foreground">Base dos tempos médios</CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Fluxo cumulativo</CardTitle>
+          <CardDescription>Quantidade de tarefas em cada coluna ao longo do tempo</CardDescription>
+        </CardHeader>
+        <CardContent className="h-[320px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <AreaChart data={analytics.cumulativeFlow} margin={{ left: -16, right: 8 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+              <XAxis dataKey="date" tick={axisTick} minTickGap={16} />
+              <YAxis allowDecimals={false} tick={axisTick} />
+              <Tooltip contentStyle={tooltipStyle} />
+              <Legend wrapperStyle={{ fontSize: 12 }} />
+              {/* Coluna final embaixo, como no diagrama de fluxo cumulativo tradicional */}
+              {[...columns].reverse().map((column) => (
+                <Area
+                  key={column.statusKey}
+                  type="monotone"
+                  dataKey={column.statusKey}
+                  name={column.name}
+                  stackId="flow"
+                  stroke={column.color}
+                  fill={column.color}
+                  fillOpacity={0.6}
+                />
+              ))}
+            </AreaChart>
+          </ResponsiveContainer>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-4 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Tempo médio por coluna</CardTitle>
+            <CardDescription>Dias que uma tarefa costuma ficar em cada etapa</CardDescription>
+          </CardHeader>
+          <CardContent className="h-[280px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={analytics.timeInColumn} layout="vertical" margin={{ left: 8, right: 8 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                <XAxis type="number" tick={axisTick} />
+                <YAxis type="category" dataKey="name" width={110} tick={axisTick} />
+                <Tooltip
+                  formatter={(value, _name, item) => [
+                    `${formatDays(Number(value ?? 0))} (${item?.payload?.samples ?? 0} passagem(ns))`,
+                    "Média",
+                  ]}
+                  contentStyle={tooltipStyle}
+                />
+                <Bar dataKey="averageDays" radius={[0, 8, 8, 0]} fill={barColor} />
+              </BarChart>
+            </ResponsiveContainer>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Vazão semanal</CardTitle>
+            <CardDescription>Tarefas concluídas por semana nas últimas 12 semanas</CardDescription>
+          </CardHeader>
+          <CardContent className="h-[280px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={analytics.throughput} margin={{ left: -16, right: 8 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                <XAxis dataKey="week" tick={axisTick} />
+                <YAxis allowDecimals={false} tick={axisTick} />
+                <Tooltip
+                  formatter={(value) => [`${Number(value ?? 0)} tarefa(s)`, "Concluídas"]}
+                  contentStyle={tooltipStyle}
+                />
+                <Bar dataKey="count" radius={[8, 8, 0, 0]} fill={barColor} />
+              </BarChart>
+            </ResponsiveContainer>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -1,6 +1,6 @@
 "use client"
 
-import { ArrowLeft, Check, Palette, Pencil, X } from "lucide-react"
+import { ArrowLeft, Check, LayoutTemplate, Palette, Pencil, X } from "lucide-react"
 import type { CSSProperties, ReactNode } from "react"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
@@ -22,6 +22,7 @@ interface ProjectDetailHeaderProps {
   onBack: () => void
   onStatusChange: (statusId: string) => void
   onOpenColorDialog: () => void
+  onOpenTemplateDialog?: () => void
 }
 
 function getHeroBackground(color?: string | null) {
@@ -43,6 +44,7 @@ export function ProjectDetailHeader({
   onBack,
   onStatusChange,
   onOpenColorDialog,
+  onOpenTemplateDialog,
 }: ProjectDetailHeaderProps) {
   const currentStatusId =
     project.statusId ?? statuses.find((status) => status.name === project.status)?.id ?? ""
@@ -160,16 +162,30 @@ export function ProjectDetailHeader({
           </div>
         </div>
 
-        <Button
-          type="button"
-          variant="outline"
-          size="sm"
-          onClick={onOpenColorDialog}
-          className="shrink-0 gap-2"
-        >
-          <Palette className="h-4 w-4" />
-          Editar cor
-        </Button>
+        <div className="flex shrink-0 gap-2">
+          {onOpenTemplateDialog && (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={onOpenTemplateDialog}
+              className="gap-2"
+            >
+              <LayoutTemplate className="h-4 w-4" />
+              Salvar como modelo
+            </Button>
+          )}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={onOpenColorDialog}
+            className="gap-2"
+          >
+            <Palette className="h-4 w-4" />
+            Editar cor
+          </Button>
+        </div>
       </div>
     </CardLikeHero>
   )
@@ -1,7 +1,7 @@
 "use client"
 
 import { useState } from "react"
-import { Calendar, CheckCircle2, DollarSign, FileText, Pencil, Check, X } from "lucide-react"
+import { Calendar, CheckCircle2, Clock, DollarSign, FileText, Pencil, Check, X } from "lucide-react"
 import { format } from "date-fns"
 import { ptBR } from "date-fns/locale"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
@@ -9,12 +9,14 @@ import { Progress } from "@/components/ui/progress"
 import { Input } from "@/components/ui/input"
 import { Button } from "@/components/ui/button"
 import type { ProjectDetails } from "@/lib/data/projects"
+import { formatMinutes, type ProjectTimeSummary } from "@/lib/data/time-entries"
 
 interface ProjectDetailKpisProps {
   project: ProjectDetails
   completionPercentage: number
   completedTasks: number
   totalTasks: number
+  timeSummary?: ProjectTimeSummary | null
   onBudgetUpdate?: (budget: string | null) => Promise<void>
 }
 
@@ -23,6 +25,7 @@ export function ProjectDetailKpis({
   completionPercentage,
   completedTasks,
   totalTasks,
+  timeSummary,
   onBudgetUpdate,
 }: ProjectDetailKpisProps) {
   const [isEditingBudget, setIsEditingBudget] = useState(false)
@@ -39,6 +42,12 @@ export function ProjectDetailKpis({
 
   const deadlineStatus = getDeadlineStatus(project.endDate)
 
+  const trackedMinutes = timeSummary?.totalMinutes ?? 0
+  const budgetValue = project.budget ? parseFloat(project.budget) : NaN
+  // Valor do orçamento dividido pelas horas já registradas
+  const budgetPerHour =
+    trackedMinutes > 0 && Number.isFinite(budgetValue) ? budgetValue / (trackedMinutes / 60) : null
+
   const handleStartEditBudget = () => {
     setEditedBudget(project.budget || "")
     setIsEditingBudget(true)
@@ -73,7 +82,7 @@ export function ProjectDetailKpis({
   }
 
   return (
-    <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-4">
+    <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-5">
       <Card>
         <CardHeader className="pb-2">
           <CardDescription>Progresso real</CardDescription>
@@ -153,6 +162,32 @@ export function ProjectDetailKpis({
         </CardContent>
       </Card>
 
+      <Card>
+        <CardHeader className="pb-2">
+          <CardDescription>Horas registradas</CardDescription>
+          <CardTitle className="flex items-center gap-2 text-2xl">
+            <Clock className="h-5 w-5" />
+            {formatMinutes(trackedMinutes)}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-1">
+          <p className="text-xs text-muted-foreground">
+            {budgetPerHour !== null
+              ? `R$ ${budgetPerHour.toLocaleString("pt-BR", { minimumFractionDigits: 2, maximumFractionDigits: 2 })} por hora registrada`
+              : "Soma dos apontamentos das tarefas"}
+          </p>
+          {timeSummary && timeSummary.byUser.length > 0 && (
+            <p className="truncate text-xs text-muted-foreground" title={timeSummary.byUser.map((u) => `${u.userName}: ${formatMinutes(u.minutes)}`).join(", ")}>
+              {timeSummary.byUser
+                .slice(0, 2)
+                .map((u) => `${u.userName.split(" ")[0]} ${formatMinutes(u.minutes)}`)
+                .join(" · ")}
+              {timeSummary.byUser.length > 2 && ` · +${timeSummary.byUser.length - 2}`}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
       <Card>
         <CardHeader className="pb-2">
           <CardDescription>Arquivos</CardDescription>
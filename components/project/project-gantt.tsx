@@ -0,0 +1,393 @@
+"use client"
+
+import { useEffect, useMemo, useRef, useState } from "react"
+import { addDays, differenceInCalendarDays, format, parseISO, startOfMonth } from "date-fns"
+import { ptBR } from "date-fns/locale"
+import { AlertCircle, ChevronDown, ChevronRight } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+import type { KanbanTask } from "@/lib/data/tasks"
+
+export type GanttTask = {
+  id: string
+  title: string
+  startDate: string // YYYY-MM-DD (criação da tarefa)
+  deadline: string | null // YYYY-MM-DD
+  done: boolean
+}
+
+export type GanttProject = {
+  id: string
+  code: string
+  name: string
+  color: string | null
+  startDate: string | null // YYYY-MM-DD
+  endDate: string | null // YYYY-MM-DD
+  closed: boolean // concluído/cancelado: não é destacado como atrasado
+  tasks: GanttTask[]
+}
+
+interface ProjectGanttProps {
+  projects: GanttProject[]
+  canEdit: boolean
+  onProjectDatesChange: (projectId: string, startDate: string, endDate: string) => Promise<void> | void
+  onProjectClick?: (projectId: string) => void
+  onTaskClick?: (taskId: string) => void
+  /** Na página de um único projeto as tarefas já começam expandidas */
+  defaultExpanded?: boolean
+}
+
+type Zoom = "day" | "week"
+type DragMode = "move" | "start" | "end"
+
+type DragState = {
+  projectId: string
+  mode: DragMode
+  originX: number
+  delta: number
+}
+
+const DAY_WIDTH: Record<Zoom, number> = { day: 32, week: 12 }
+const LABEL_WIDTH = 260
+const ROW_HEIGHT = 36
+
+function toIso(date: Date): string {
+  return format(date, "yyyy-MM-dd")
+}
+
+function toDate(iso: string): Date {
+  return parseISO(iso.slice(0, 10))
+}
+
+/** Datas da barra do projeto; sem início, a barra começa no prazo (e vice-versa). */
+function getProjectRange(project: GanttProject): { start: string; end: string } | null {
+  const start = project.startDate ?? project.endDate
+  const end = project.endDate ?? project.startDate
+  if (!start || !end) return null
+  return start <= end ? { start, end } : { start: end, end: start }
+}
+
+export function toGanttTask(task: KanbanTask): GanttTask {
+  const createdAt = task.createdAt ? task.createdAt.slice(0, 10) : null
+  const deadline = task.deadline ? task.deadline.slice(0, 10) : null
+  return {
+    id: task.id,
+    title: task.title,
+    startDate: createdAt ?? deadline ?? format(new Date(), "yyyy-MM-dd"),
+    deadline,
+    done: (task.column?.statusKey ?? task.status) === "done",
+  }
+}
+
+function applyDrag(range: { start: string; end: string }, mode: DragMode, delta: number) {
+  const start = toDate(range.start)
+  const end = toDate(range.end)
+  if (mode === "move") {
+    return { start: toIso(addDays(start, delta)), end: toIso(addDays(end, delta)) }
+  }
+  if (mode === "start") {
+    const next = addDays(start, delta)
+    return { start: toIso(next > end ? end : next), end: range.end }
+  }
+  const next = addDays(end, delta)
+  return { start: range.start, end: toIso(next < start ? start : next) }
+}
+
+export function ProjectGantt({
+  projects,
+  canEdit,
+  onProjectDatesChange,
+  onProjectClick,
+  onTaskClick,
+  defaultExpanded = false,
+}: ProjectGanttProps) {
+  const [zoom, setZoom] = useState<Zoom>("day")
+  // Projetos cujo estado difere do padrão (expandido/recolhido)
+  const [toggled, setToggled] = useState<Set<string>>(new Set())
+  const [drag, setDrag] = useState<DragState | null>(null)
+  const dragRef = useRef<DragState | null>(null)
+  const dayWidth = DAY_WIDTH[zoom]
+  const today = toIso(new Date())
+
+  // Janela do eixo: do item mais antigo ao mais distante, com folga nas pontas
+  const { axisStart, totalDays } = useMemo(() => {
+    const dates: string[] = [today]
+    projects.forEach((project) => {
+      const range = getProjectRange(project)
+      if (range) dates.push(range.start, range.end)
+      project.tasks.forEach((task) => {
+        if (task.deadline) dates.push(task.deadline)
+      })
+    })
+    dates.sort()
+    const start = addDays(toDate(dates[0]), -7)
+    const end = addDays(toDate(dates[dates.length - 1]), 21)
+    return { axisStart: start, totalDays: differenceInCalendarDays(end, start) + 1 }
+  }, [projects, today])
+
+  const offsetOf = (iso: string) => differenceInCalendarDays(toDate(iso), axisStart) * dayWidth
+
+  const months = useMemo(() => {
+    const result: { label: string; left: number; width: number }[] = []
+    let cursor = startOfMonth(axisStart)
+    const axisEnd = addDays(axisStart, totalDays)
+    while (cursor < axisEnd) {
+      const next = startOfMonth(addDays(cursor, 32))
+      const from = cursor < axisStart ? axisStart : cursor
+      const to = next > axisEnd ? axisEnd : next
+      result.push({
+        label: format(cursor, "MMM yyyy", { locale: ptBR }),
+        left: differenceInCalendarDays(from, axisStart) * dayWidth,
+        width: differenceInCalendarDays(to, from) * dayWidth,
+      })
+      cursor = next
+    }
+    return result
+  }, [axisStart, totalDays, dayWidth])
+
+  useEffect(() => {
+    if (!dragRef.current) return
+
+    const handleMove = (e: PointerEvent) => {
+      const current = dragRef.current
+      if (!current) return
+      const delta = Math.round((e.clientX - current.originX) / dayWidth)
+      if (delta === current.delta) return
+      dragRef.current = { ...current, delta }
+      setDrag(dragRef.current)
+    }
+    const handleUp = () => {
+      const current = dragRef.current
+      dragRef.current = null
+      setDrag(null)
+      if (!current || current.delta === 0) return
+
+      const project = projects.find((p) => p.id === current.projectId)
+      const range = project ? getProjectRange(project) : null
+      if (!range) return
+      const next = applyDrag(range, current.mode, current.delta)
+      onProjectDatesChange(current.projectId, next.start, next.end)
+    }
+
+    window.addEventListener("pointermove", handleMove)
+    window.addEventListener("pointerup", handleUp)
+    return () => {
+      window.removeEventListener("pointermove", handleMove)
+      window.removeEventListener("pointerup", handleUp)
+    }
+    // Reinstala só ao iniciar/encerrar o arraste
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [drag !== null, dayWidth])
+
+  const startDrag = (e: React.PointerEvent, projectId: string, mode: DragMode) => {
+    if (!canEdit) return
+    e.preventDefault()
+    e.stopPropagation()
+    dragRef.current = { projectId, mode, originX: e.clientX, delta: 0 }
+    setDrag(dragRef.current)
+  }
+
+  const toggleExpanded = (projectId: string) => {
+    setToggled((prev) => {
+      const next = new Set(prev)
+      if (next.has(projectId)) next.delete(projectId)
+      else next.add(projectId)
+      return next
+    })
+  }
+
+  const timelineWidth = totalDays * dayWidth
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-4 text-xs text-muted-foreground">
+          <span className="flex items-center gap-1">
+            <span className="inline-block h-2 w-4 rounded bg-primary/70" /> Projeto
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="inline-block h-2 w-4 rounded bg-muted-foreground/40" /> Tarefa
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="inline-block h-2 w-4 rounded bg-destructive" /> Atrasado
+          </span>
+          {canEdit && <span>Arraste as barras dos projetos para alterar início e prazo</span>}
+        </div>
+        <div className="flex items-center gap-1">
+          <Button size="sm" variant={zoom === "day" ? "default" : "outline"} onClick={() => setZoom("day")}>
+            Dias
+          </Button>
+          <Button size="sm" variant={zoom === "week" ? "default" : "outline"} onClick={() => setZoom("week")}>
+            Semanas
+          </Button>
+        </div>
+      </div>
+
+      <div className={cn("overflow-auto rounded-md border", drag && "select-none")}>
+        <div style={{ width: LABEL_WIDTH + timelineWidth }}>
+          {/* Cabeçalho */}
+          <div className="sticky top-0 z-20 flex border-b bg-background">
+            <div
+              className="sticky left-0 z-30 shrink-0 border-r bg-background px-3 py-2 text-xs font-medium"
+              style={{ width: LABEL_WIDTH }}
+            >
+              Projeto / tarefa
+            </div>
+            <div className="relative" style={{ width: timelineWidth, height: zoom === "day" ? 44 : 28 }}>
+              {months.map((month) => (
+                <div
+                  key={month.left}
+                  className="absolute top-0 border-l px-2 py-1 text-xs capitalize text-muted-foreground"
+                  style={{ left: month.left, width: month.width }}
+                >
+                  {month.label}
+                </div>
+              ))}
+              {zoom === "day" &&
+                Array.from({ length: totalDays }, (_, i) => addDays(axisStart, i)).map((day) => (
+                  <div
+                    key={day.toISOString()}
+                    className={cn(
+                      "absolute bottom-0 text-center text-[10px] text-muted-foreground",
+                      toIso(day) === today && "font-semibold text-primary"
+                    )}
+                    style={{ left: differenceInCalendarDays(day, axisStart) * dayWidth, width: dayWidth }}
+                  >
+                    {format(day, "d")}
+                  </div>
+                ))}
+            </div>
+          </div>
+
+          {/* Linhas */}
+          <div className="relative">
+            <div
+              className="pointer-events-none absolute bottom-0 top-0 z-10 w-px bg-primary/60"
+              style={{ left: LABEL_WIDTH + offsetOf(today) + dayWidth / 2 }}
+            />
+
+            {projects.length === 0 && (
+              <div className="px-3 py-6 text-sm text-muted-foreground">Nenhum projeto para exibir.</div>
+            )}
+
+            {projects.map((project) => {
+              const baseRange = getProjectRange(project)
+              const range =
+                baseRange && drag?.projectId === project.id
+                  ? applyDrag(baseRange, drag.mode, drag.delta)
+                  : baseRange
+              const projectOverdue = !project.closed && !!project.endDate && project.endDate < today
+              const isExpanded = defaultExpanded !== toggled.has(project.id)
+
+              return (
+                <div key={project.id}>
+                  <div className="flex border-b" style={{ height: ROW_HEIGHT }}>
+                    <div
+                      className="sticky left-0 z-10 flex shrink-0 items-center gap-1 border-r bg-background px-2 text-sm"
+                      style={{ width: LABEL_WIDTH }}
+                    >
+                      <button
+                        type="button"
+                        className="rounded p-0.5 hover:bg-accent disabled:opacity-30"
+                        onClick={() => toggleExpanded(project.id)}
+                        disabled={project.tasks.length === 0}
+                        aria-label={isExpanded ? "Recolher tarefas" : "Expandir tarefas"}
+                      >
+                        {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                      </button>
+                      <button
+                        type="button"
+                        className="min-w-0 truncate text-left hover:underline"
+                        onClick={() => onProjectClick?.(project.id)}
+                        title={`${project.code} - ${project.name}`}
+                      >
+                        <span className="font-medium">{project.code}</span> {project.name}
+                      </button>
+                      {projectOverdue && <AlertCircle className="h-4 w-4 shrink-0 text-destructive" />}
+                    </div>
+                    <div className="relative" style={{ width: timelineWidth }}>
+                      {range ? (
+                        <div
+                          className={cn(
+                            "group absolute top-1.5 flex h-6 items-center rounded text-[11px] text-white shadow-sm",
+                            canEdit && "cursor-grab active:cursor-grabbing",
+                            projectOverdue && "ring-2 ring-destructive"
+                          )}
+                          style={{
+                            left: offsetOf(range.start),
+                            width: (differenceInCalendarDays(toDate(range.end), toDate(range.start)) + 1) * dayWidth,
+                            backgroundColor: projectOverdue ? "hsl(var(--destructive))" : project.color || "#3B82F6",
+                          }}
+                          onPointerDown={(e) => startDrag(e, project.id, "move")}
+                          title={`${format(toDate(range.start), "dd/MM/yyyy")} – ${format(toDate(range.end), "dd/MM/yyyy")}`}
+                        >
+                          {canEdit && (
+                            <span
+                              className="absolute left-0 top-0 h-full w-1.5 cursor-ew-resize rounded-l bg-black/20 opacity-0 group-hover:opacity-100"
+                              onPointerDown={(e) => startDrag(e, project.id, "start")}
+                            />
+                          )}
+                          <span className="truncate px-2">{project.name}</span>
+                          {canEdit && (
+                            <span
+                              className="absolute right-0 top-0 h-full w-1.5 cursor-ew-resize rounded-r bg-black/20 opacity-0 group-hover:opacity-100"
+                              onPointerDown={(e) => startDrag(e, project.id, "end")}
+                            />
+                          )}
+                        </div>
+                      ) : (
+                        <span className="absolute left-2 top-2 text-xs text-muted-foreground">Sem datas definidas</span>
+                      )}
+                    </div>
+                  </div>
+
+                  {isExpanded &&
+                    project.tasks.map((task) => {
+                      const taskOverdue = !task.done && !!task.deadline && task.deadline < today
+                      const end = task.deadline ?? task.startDate
+                      const start = task.startDate <= end ? task.startDate : end
+                      return (
+                        <div key={task.id} className="flex border-b bg-muted/20" style={{ height: ROW_HEIGHT - 8 }}>
+                          <div
+                            className="sticky left-0 z-10 flex shrink-0 items-center gap-1 border-r bg-background pl-8 pr-2 text-xs"
+                            style={{ width: LABEL_WIDTH }}
+                          >
+                            <button
+                              type="button"
+                              className={cn("min-w-0 truncate text-left hover:underline", task.done && "line-through text-muted-foreground")}
+                              onClick={() => onTaskClick?.(task.id)}
+                              title={task.title}
+                            >
+                              {task.title}
+                            </button>
+                            {taskOverdue && <AlertCircle className="h-3 w-3 shrink-0 text-destructive" />}
+                          </div>
+                          <div className="relative" style={{ width: timelineWidth }}>
+                            {task.deadline ? (
+                              <div
+                                className={cn(
+                                  "absolute top-2 h-3 rounded",
+                                  taskOverdue ? "bg-destructive" : task.done ? "bg-emerald-500/60" : "bg-muted-foreground/40"
+                                )}
+                                style={{
+                                  left: offsetOf(start),
+                                  width: (differenceInCalendarDays(toDate(end), toDate(start)) + 1) * dayWidth,
+                                }}
+                                title={`Prazo: ${format(toDate(task.deadline), "dd/MM/yyyy")}`}
+                              />
+                            ) : (
+                              <span className="absolute left-2 top-1.5 text-[11px] text-muted-foreground">Sem prazo</span>
+                            )}
+                          </div>
+                        </div>
+                      )
+                    })}
+                </div>
+              )
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -27,7 +27,7 @@ interface TaskFilterDialogProps {
   filters: TaskFilters
   onFiltersChange: (filters: TaskFilters) => void
   profiles: Profile[]
-  columns: KanbanColumn[]
+  columns: Pick<KanbanColumn, "id" | "name" | "statusKey">[]
 }
 
 export function TaskFilterDialog({
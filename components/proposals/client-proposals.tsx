@@ -0,0 +1,312 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import {
+  Copy,
+  Download,
+  Eye,
+  ExternalLink,
+  FileText,
+  HardDriveUpload,
+  MoreHorizontal,
+  Plus,
+  Send,
+  Trash2,
+} from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { ConfirmDialog } from "@/components/ui/confirm-dialog"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { Protected } from "@/components/protected"
+import { ProposalBuilderDialog } from "@/components/proposals/proposal-builder-dialog"
+import { ProposalSendDialog } from "@/components/proposals/proposal-send-dialog"
+import { usePermissions } from "@/contexts/permission-context"
+import { useToast } from "@/hooks/use-toast"
+import {
+  createProposal,
+  deleteProposal,
+  getProposalPdfUrl,
+  listProposals,
+  saveProposalPdfToDrive,
+  sendProposal,
+  updateProposal,
+  type Proposal,
+  type ProposalInput,
+  type SendProposalInput,
+} from "@/lib/data/proposals"
+import { formatCurrencyBRL, formatProposalNumber } from "@/lib/utils/proposals"
+
+interface ClientProposalsSectionProps {
+  clientId: string
+}
+
+const formatDate = (value: string) =>
+  new Date(/^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T00:00:00` : value).toLocaleDateString("pt-BR")
+
+/** Propostas comerciais do cliente: editor, PDF no Drive e envio por email. */
+export function ClientProposalsSection({ clientId }: ClientProposalsSectionProps) {
+  const { toast } = useToast()
+  const { hasPermission } = usePermissions()
+  const canCreate = hasPermission("clientes", "create")
+  const canEdit = hasPermission("clientes", "edit")
+  const canDelete = hasPermission("clientes", "delete")
+
+  const [proposals, setProposals] = useState<Proposal[]>([])
+  const [loading, setLoading] = useState(true)
+  const [builderOpen, setBuilderOpen] = useState(false)
+  const [editingProposal, setEditingProposal] = useState<Proposal | null>(null)
+  const [initialInput, setInitialInput] = useState<Partial<ProposalInput> | null>(null)
+  const [sendingProposal, setSendingProposal] = useState<Proposal | null>(null)
+  const [proposalToDelete, setProposalToDelete] = useState<Proposal | null>(null)
+  const [savingToDriveId, setSavingToDriveId] = useState<string | null>(null)
+
+  useEffect(() => {
+    setLoading(true)
+    listProposals({ clientId })
+      .then(setProposals)
+      .catch((err) => {
+        console.error("Erro ao carregar propostas:", err)
+        toast({ title: "Erro ao carregar propostas", variant: "destructive" })
+      })
+      .finally(() => setLoading(false))
+  }, [clientId, toast])
+
+  function replaceProposal(updated: Proposal) {
+    setProposals((prev) => prev.map((p) => (p.id === updated.id ? updated : p)))
+  }
+
+  function openCreate(initial: Partial<ProposalInput> | null = null) {
+    setEditingProposal(null)
+    setInitialInput(initial)
+    setBuilderOpen(true)
+  }
+
+  function openProposal(proposal: Proposal) {
+    setEditingProposal(proposal)
+    setInitialInput(null)
+    setBuilderOpen(true)
+  }
+
+  function duplicate(proposal: Proposal) {
+    openCreate({
+      dealId: proposal.dealId,
+      title: proposal.title,
+      items: proposal.items,
+      taxes: proposal.taxes,
+      paymentTerms: proposal.paymentTerms,
+      notes: proposal.notes,
+    })
+  }
+
+  async function handleSave(input: ProposalInput) {
+    try {
+      if (editingProposal) {
+        replaceProposal(await updateProposal(editingProposal.id, input))
+        toast({ title: "Proposta atualizada" })
+      } else {
+        const created = await createProposal(input)
+        setProposals((prev) => [created, ...prev])
+        toast({ title: "Proposta criada", description: formatProposalNumber(created.number) })
+      }
+    } catch (err) {
+      console.error("Erro ao salvar proposta:", err)
+      toast({
+        title: "Erro ao salvar proposta",
+        description: err instanceof Error ? err.message : undefined,
+        variant: "destructive",
+      })
+      throw err
+    }
+  }
+
+  async function handleSaveToDrive(proposal: Proposal) {
+    setSavingToDriveId(proposal.id)
+    try {
+      replaceProposal(await saveProposalPdfToDrive(proposal.id))
+      toast({ title: "PDF salvo no Drive", description: "Pasta Propostas do cliente" })
+    } catch (err) {
+      console.error("Erro ao salvar PDF no Drive:", err)
+      toast({
+        title: "Erro ao salvar no Drive",
+        description: err instanceof Error ? err.message : undefined,
+        variant: "destructive",
+      })
+    } finally {
+      setSavingToDriveId(null)
+    }
+  }
+
+  async function handleSend(input: SendProposalInput) {
+    if (!sendingProposal) return
+    try {
+      replaceProposal(
+        await sendProposal(sendingProposal.id, { ...input, resend: sendingProposal.status === "sent" })
+      )
+      toast({ title: "Proposta enviada", description: input.to.map((r) => r.email).join(", ") })
+    } catch (err) {
+      console.error("Erro ao enviar proposta:", err)
+      toast({
+        title: "Erro ao enviar proposta",
+        description: err instanceof Error ? err.message : undefined,
+        variant: "destructive",
+      })
+      throw err
+    }
+  }
+
+  async function handleConfirmDelete() {
+    if (!proposalToDelete) return
+    const proposal = proposalToDelete
+    setProposalToDelete(null)
+    try {
+      await deleteProposal(proposal.id)
+      setProposals((prev) => prev.filter((p) => p.id !== proposal.id))
+      toast({ title: "Proposta excluída" })
+    } catch (err) {
+      console.error("Erro ao excluir proposta:", err)
+      toast({ title: "Erro ao excluir proposta", variant: "destructive" })
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-base font-semibold">Propostas</h2>
+        <Protected section="clientes" action="create">
+          <Button variant="outline" size="sm" onClick={() => openCreate()}>
+            <Plus className="mr-2 h-4 w-4" />
+            Nova proposta
+          </Button>
+        </Protected>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-muted-foreground">Carregando propostas...</p>
+      ) : proposals.length === 0 ? (
+        <div className="flex flex-col items-center justify-center gap-2 py-8 text-muted-foreground border border-dashed rounded-lg">
+          <FileText className="h-8 w-8 opacity-40" />
+          <p className="text-sm">Nenhuma proposta para este cliente.</p>
+        </div>
+      ) : (
+        <div className="divide-y rounded-lg border">
+          {proposals.map((proposal) => (
+            <div key={proposal.id} className="flex items-center gap-3 px-4 py-3">
+              <button
+                type="button"
+                className="min-w-0 flex-1 text-left"
+                onClick={() => openProposal(proposal)}
+              >
+                <p className="text-sm font-medium truncate">
+                  <span className="text-muted-foreground">{formatProposalNumber(proposal.number)}</span>{" "}
+                  {proposal.title}
+                </p>
+                <p className="text-xs text-muted-foreground truncate">
+                  {proposal.status === "sent" && proposal.sentAt
+                    ? `Enviada em ${formatDate(proposal.sentAt)} para ${proposal.sentTo.join(", ")}`
+                    : `Válida até ${formatDate(proposal.validUntil)}`}
+                  {proposal.dealTitle ? ` · ${proposal.dealTitle}` : ""}
+                </p>
+              </button>
+              <span className="text-sm tabular-nums">{formatCurrencyBRL(proposal.total)}</span>
+              <Badge variant={proposal.status === "sent" ? "default" : "secondary"} className="shrink-0 text-xs">
+                {proposal.status === "sent" ? "Enviada" : "Rascunho"}
+              </Badge>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" size="icon" className="h-8 w-8" aria-label="Ações da proposta">
+                    <MoreHorizontal className="h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={() => window.open(getProposalPdfUrl(proposal.id), "_blank")}>
+                    <Eye className="mr-2 h-4 w-4" />
+                    Visualizar PDF
+                  </DropdownMenuItem>
+                  <DropdownMenuItem asChild>
+                    <a href={getProposalPdfUrl(proposal.id, true)}>
+                      <Download className="mr-2 h-4 w-4" />
+                      Baixar PDF
+                    </a>
+                  </DropdownMenuItem>
+                  {proposal.driveWebViewLink && (
+                    <DropdownMenuItem asChild>
+                      <a href={proposal.driveWebViewLink} target="_blank" rel="noopener noreferrer">
+                        <ExternalLink className="mr-2 h-4 w-4" />
+                        Abrir no Drive
+                      </a>
+                    </DropdownMenuItem>
+                  )}
+                  {canCreate && proposal.status === "draft" && (
+                    <DropdownMenuItem
+                      disabled={savingToDriveId === proposal.id}
+                      onClick={() => handleSaveToDrive(proposal)}
+                    >
+                      <HardDriveUpload className="mr-2 h-4 w-4" />
+                      {savingToDriveId === proposal.id ? "Salvando..." : "Salvar PDF no Drive"}
+                    </DropdownMenuItem>
+                  )}
+                  {canCreate && canEdit && (
+                    <DropdownMenuItem onClick={() => setSendingProposal(proposal)}>
+                      <Send className="mr-2 h-4 w-4" />
+                      {proposal.status === "sent" ? "Reenviar por email" : "Enviar por email"}
+                    </DropdownMenuItem>
+                  )}
+                  {canCreate && (
+                    <DropdownMenuItem onClick={() => duplicate(proposal)}>
+                      <Copy className="mr-2 h-4 w-4" />
+                      Duplicar
+                    </DropdownMenuItem>
+                  )}
+                  {canDelete && (
+                    <>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuItem
+                        className="text-destructive focus:text-destructive"
+                        onClick={() => setProposalToDelete(proposal)}
+                      >
+                        <Trash2 className="mr-2 h-4 w-4" />
+                        Excluir
+                      </DropdownMenuItem>
+                    </>
+                  )}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <ProposalBuilderDialog
+        open={builderOpen}
+        onOpenChange={setBuilderOpen}
+        clientId={clientId}
+        proposal={editingProposal}
+        initial={initialInput}
+        onSave={handleSave}
+      />
+
+      <ProposalSendDialog
+        open={!!sendingProposal}
+        onOpenChange={(open) => !open && setSendingProposal(null)}
+        proposal={sendingProposal}
+        onSend={handleSend}
+      />
+
+      <ConfirmDialog
+        open={!!proposalToDelete}
+        onOpenChange={(open) => !open && setProposalToDelete(null)}
+        onConfirm={handleConfirmDelete}
+        title="Excluir proposta"
+        description={`Tem certeza que deseja excluir a proposta ${proposalToDelete ? formatProposalNumber(proposalToDelete.number) : ""}? O PDF salvo no Drive não é removido.`}
+        confirmText="Excluir"
+        variant="destructive"
+      />
+    </div>
+  )
+}
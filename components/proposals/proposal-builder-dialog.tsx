@@ -0,0 +1,422 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { addDays, format } from "date-fns"
+import { Plus, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { listDeals, type Deal } from "@/lib/data/deals"
+import type { Proposal, ProposalInput } from "@/lib/data/proposals"
+import {
+  DEFAULT_PROPOSAL_VALIDITY_DAYS,
+  PROPOSAL_TAX_PRESETS,
+  computeProposalTotals,
+  formatCurrencyBRL,
+  formatProposalNumber,
+  getProposalError,
+  type ProposalItem,
+  type ProposalTax,
+} from "@/lib/utils/proposals"
+
+interface ProposalBuilderDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  clientId: string
+  /** Proposta em edição (rascunho) ou consulta (enviada) */
+  proposal?: Proposal | null
+  /** Valores iniciais de uma nova proposta (ex.: duplicar uma enviada) */
+  initial?: Partial<ProposalInput> | null
+  onSave: (input: ProposalInput) => Promise<void>
+}
+
+type ItemRow = { description: string; quantity: string; unitPrice: string }
+type TaxRow = { name: string; rate: string }
+
+const EMPTY_ITEM: ItemRow = { description: "", quantity: "1", unitPrice: "" }
+
+function parseNumber(value: string): number {
+  const trimmed = value.trim()
+  if (!trimmed) return NaN
+  // Aceita "1.234,56" e "1234.56"
+  return Number(trimmed.includes(",") ? trimmed.replace(/\./g, "").replace(",", ".") : trimmed)
+}
+
+function toItemRows(items: ProposalItem[]): ItemRow[] {
+  return items.map((item) => ({
+    description: item.description,
+    quantity: String(item.quantity).replace(".", ","),
+    unitPrice: String(item.unitPrice).replace(".", ","),
+  }))
+}
+
+function toTaxRows(taxes: ProposalTax[]): TaxRow[] {
+  return taxes.map((tax) => ({ name: tax.name, rate: String(tax.rate).replace(".", ",") }))
+}
+
+/** Editor da proposta comercial: itens, impostos, validade e condições. */
+export function ProposalBuilderDialog({
+  open,
+  onOpenChange,
+  clientId,
+  proposal,
+  initial,
+  onSave,
+}: ProposalBuilderDialogProps) {
+  const readOnly = proposal?.status === "sent"
+  const [title, setTitle] = useState("")
+  const [dealId, setDealId] = useState("none")
+  const [items, setItems] = useState<ItemRow[]>([EMPTY_ITEM])
+  const [taxes, setTaxes] = useState<TaxRow[]>([])
+  const [validUntil, setValidUntil] = useState("")
+  const [paymentTerms, setPaymentTerms] = useState("")
+  const [notes, setNotes] = useState("")
+  const [deals, setDeals] = useState<Deal[]>([])
+  const [saving, setSaving] = useState(false)
+  const [showErrors, setShowErrors] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+    const source = proposal ?? initial ?? null
+    setTitle(source?.title ?? "")
+    setDealId(source?.dealId ?? "none")
+    setItems(source?.items?.length ? toItemRows(source.items) : [EMPTY_ITEM])
+    setTaxes(toTaxRows(source?.taxes ?? []))
+    setValidUntil(
+      proposal?.validUntil ?? format(addDays(new Date(), DEFAULT_PROPOSAL_VALIDITY_DAYS), "yyyy-MM-dd")
+    )
+    setPaymentTerms(source?.paymentTerms ?? "")
+    setNotes(source?.notes ?? "")
+    setShowErrors(false)
+  }, [open, proposal, initial])
+
+  useEffect(() => {
+    if (!open) return
+    listDeals({ clientId })
+      .then(setDeals)
+      .catch((err) => console.error("Erro ao carregar negócios:", err))
+  }, [open, clientId])
+
+  const parsedItems: ProposalItem[] = items.map((item) => ({
+    description: item.description,
+    quantity: parseNumber(item.quantity),
+    unitPrice: parseNumber(item.unitPrice),
+  }))
+  const parsedTaxes: ProposalTax[] = taxes.map((tax) => ({ name: tax.name, rate: parseNumber(tax.rate) }))
+  const error = getProposalError({ title, items: parsedItems, taxes: parsedTaxes, validUntil })
+
+  // Campos ainda inválidos contam como zero na prévia dos totais
+  const totals = computeProposalTotals(
+    parsedItems.map((item) => ({
+      ...item,
+      quantity: Number.isFinite(item.quantity) ? item.quantity : 0,
+      unitPrice: Number.isFinite(item.unitPrice) ? item.unitPrice : 0,
+    })),
+    parsedTaxes.map((tax) => ({ ...tax, rate: Number.isFinite(tax.rate) ? tax.rate : 0 }))
+  )
+
+  function updateItem(index: number, changes: Partial<ItemRow>) {
+    setItems((prev) => prev.map((item, i) => (i === index ? { ...item, ...changes } : item)))
+  }
+
+  function updateTax(index: number, changes: Partial<TaxRow>) {
+    setTaxes((prev) => prev.map((tax, i) => (i === index ? { ...tax, ...changes } : tax)))
+  }
+
+  async function handleSave() {
+    if (readOnly) return
+    if (error) {
+      setShowErrors(true)
+      return
+    }
+    setSaving(true)
+    try {
+      await onSave({
+        clientId,
+        dealId: dealId === "none" ? null : dealId,
+        title,
+        items: parsedItems,
+        taxes: parsedTaxes,
+        validUntil,
+        paymentTerms,
+        notes,
+      })
+      onOpenChange(false)
+    } catch {
+      // O erro já foi exibido por quem chamou; o diálogo continua aberto
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[820px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {proposal ? `${formatProposalNumber(proposal.number)} — ${proposal.title}` : "Nova proposta"}
+          </DialogTitle>
+          <DialogDescription>
+            {readOnly
+              ? "Proposta enviada — para revisar, duplique-a."
+              : "O PDF é gerado com estes dados ao salvar no Drive ou enviar por email."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-5 py-2">
+          <div className="grid grid-cols-3 gap-4">
+            <div className="col-span-2 grid gap-2">
+              <Label htmlFor="proposal_title">Título</Label>
+              <Input
+                id="proposal_title"
+                placeholder="Ex.: Avaliação de imóvel comercial"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                disabled={readOnly}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="proposal_deal">Negócio</Label>
+              <Select value={dealId} onValueChange={setDealId} disabled={readOnly}>
+                <SelectTrigger id="proposal_deal">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Sem negócio</SelectItem>
+                  {deals.map((deal) => (
+                    <SelectItem key={deal.id} value={deal.id}>
+                      {deal.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Itens</Label>
+              {!readOnly && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setItems((prev) => [...prev, EMPTY_ITEM])}
+                >
+                  <Plus className="mr-1 h-3.5 w-3.5" />
+                  Item
+                </Button>
+              )}
+            </div>
+            <div className="grid grid-cols-[1fr_80px_120px_110px_32px] gap-2 text-xs text-muted-foreground">
+              <span>Descrição</span>
+              <span className="text-right">Qtd</span>
+              <span className="text-right">Valor unit. (R$)</span>
+              <span className="text-right">Total</span>
+              <span />
+            </div>
+            {items.map((item, index) => {
+              const parsed = parsedItems[index]
+              const lineTotal = Number.isFinite(parsed.quantity) && Number.isFinite(parsed.unitPrice)
+                ? parsed.quantity * parsed.unitPrice
+                : 0
+              return (
+                <div key={index} className="grid grid-cols-[1fr_80px_120px_110px_32px] items-center gap-2">
+                  <Input
+                    value={item.description}
+                    onChange={(e) => updateItem(index, { description: e.target.value })}
+                    aria-label={`Descrição do item ${index + 1}`}
+                    aria-invalid={showErrors && !item.description.trim()}
+                    disabled={readOnly}
+                  />
+                  <Input
+                    className="text-right"
+                    inputMode="decimal"
+                    value={item.quantity}
+                    onChange={(e) => updateItem(index, { quantity: e.target.value })}
+                    aria-label={`Quantidade do item ${index + 1}`}
+                    aria-invalid={showErrors && !(parsed.quantity > 0)}
+                    disabled={readOnly}
+                  />
+                  <Input
+                    className="text-right"
+                    inputMode="decimal"
+                    placeholder="0,00"
+                    value={item.unitPrice}
+                    onChange={(e) => updateItem(index, { unitPrice: e.target.value })}
+                    aria-label={`Valor unitário do item ${index + 1}`}
+                    aria-invalid={showErrors && !(parsed.unitPrice >= 0)}
+                    disabled={readOnly}
+                  />
+                  <span className="text-right text-sm tabular-nums">{formatCurrencyBRL(lineTotal)}</span>
+                  {!readOnly && items.length > 1 ? (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => setItems((prev) => prev.filter((_, i) => i !== index))}
+                      aria-label="Remover item"
+                    >
+                      <Trash2 className="h-3.5 w-3.5 text-destructive" />
+                    </Button>
+                  ) : (
+                    <span />
+                  )}
+                </div>
+              )
+            })}
+          </div>
+
+          <div className="grid grid-cols-2 gap-6">
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Impostos</Label>
+                {!readOnly && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setTaxes((prev) => [...prev, { name: "", rate: "" }])}
+                  >
+                    <Plus className="mr-1 h-3.5 w-3.5" />
+                    Imposto
+                  </Button>
+                )}
+              </div>
+              {taxes.length === 0 && (
+                <p className="text-xs text-muted-foreground">Nenhum imposto destacado na proposta.</p>
+              )}
+              <datalist id="proposal_tax_presets">
+                {PROPOSAL_TAX_PRESETS.map((name) => (
+                  <option key={name} value={name} />
+                ))}
+              </datalist>
+              {taxes.map((tax, index) => (
+                <div key={index} className="grid grid-cols-[1fr_90px_32px] items-center gap-2">
+                  <Input
+                    list="proposal_tax_presets"
+                    placeholder="ISS"
+                    value={tax.name}
+                    onChange={(e) => updateTax(index, { name: e.target.value })}
+                    aria-label={`Nome do imposto ${index + 1}`}
+                    disabled={readOnly}
+                  />
+                  <div className="relative">
+                    <Input
+                      className="pr-6 text-right"
+                      inputMode="decimal"
+                      placeholder="0"
+                      value={tax.rate}
+                      onChange={(e) => updateTax(index, { rate: e.target.value })}
+                      aria-label={`Alíquota do imposto ${index + 1}`}
+                      disabled={readOnly}
+                    />
+                    <span className="absolute right-2 top-2 text-sm text-muted-foreground">%</span>
+                  </div>
+                  {!readOnly ? (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => setTaxes((prev) => prev.filter((_, i) => i !== index))}
+                      aria-label="Remover imposto"
+                    >
+                      <Trash2 className="h-3.5 w-3.5 text-destructive" />
+                    </Button>
+                  ) : (
+                    <span />
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-1 rounded-lg border bg-muted/30 p-4 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Subtotal</span>
+                <span className="tabular-nums">{formatCurrencyBRL(totals.subtotal)}</span>
+              </div>
+              {totals.taxes.map((tax, index) => (
+                <div key={index} className="flex justify-between">
+                  <span className="text-muted-foreground">
+                    {tax.name || "Imposto"} ({tax.rate.toLocaleString("pt-BR")}%)
+                  </span>
+                  <span className="tabular-nums">{formatCurrencyBRL(tax.amount)}</span>
+                </div>
+              ))}
+              <div className="flex justify-between border-t pt-2 mt-2 font-semibold">
+                <span>Total</span>
+                <span className="tabular-nums">{formatCurrencyBRL(totals.total)}</span>
+              </div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="grid gap-2 content-start">
+              <Label htmlFor="proposal_valid_until">Válida até</Label>
+              <Input
+                id="proposal_valid_until"
+                type="date"
+                value={validUntil}
+                onChange={(e) => setValidUntil(e.target.value)}
+                disabled={readOnly}
+              />
+            </div>
+            <div className="col-span-2 grid gap-2">
+              <Label htmlFor="proposal_payment_terms">Condições de pagamento</Label>
+              <Textarea
+                id="proposal_payment_terms"
+                rows={3}
+                placeholder="Ex.: 50% na aprovação e 50% na entrega do laudo"
+                value={paymentTerms}
+                onChange={(e) => setPaymentTerms(e.target.value)}
+                disabled={readOnly}
+              />
+            </div>
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="proposal_notes">Observações</Label>
+            <Textarea
+              id="proposal_notes"
+              rows={2}
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              disabled={readOnly}
+            />
+          </div>
+
+          {showErrors && error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            {readOnly ? "Fechar" : "Cancelar"}
+          </Button>
+          {!readOnly && (
+            <Button type="button" onClick={handleSave} disabled={saving}>
+              {saving ? "Salvando..." : proposal ? "Salvar alterações" : "Criar proposta"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
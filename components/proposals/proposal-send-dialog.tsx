@@ -0,0 +1,131 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Paperclip } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { RecipientInput } from "@/components/email/recipient-input"
+import { listClientContacts, type EmailRecipient } from "@/lib/data/client-contacts"
+import type { Proposal, SendProposalInput } from "@/lib/data/proposals"
+import { formatProposalNumber, getProposalFileName } from "@/lib/utils/proposals"
+
+interface ProposalSendDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  proposal: Proposal | null
+  onSend: (input: SendProposalInput) => Promise<void>
+}
+
+/** Envio da proposta por email, com o PDF em anexo. */
+export function ProposalSendDialog({ open, onOpenChange, proposal, onSend }: ProposalSendDialogProps) {
+  const [to, setTo] = useState<EmailRecipient[]>([])
+  const [cc, setCc] = useState<EmailRecipient[]>([])
+  const [subject, setSubject] = useState("")
+  const [message, setMessage] = useState("")
+  const [sending, setSending] = useState(false)
+
+  useEffect(() => {
+    if (!open || !proposal) return
+    setTo([])
+    setCc([])
+    setSubject(`Proposta ${formatProposalNumber(proposal.number)} — ${proposal.title}`)
+    setMessage(
+      `Olá,\n\nConforme conversamos, segue em anexo nossa proposta para ${proposal.title}.\n\nFicamos à disposição para qualquer dúvida.`
+    )
+
+    // O contato principal do cliente já entra como destinatário
+    let cancelled = false
+    listClientContacts(proposal.clientId).then(({ data }) => {
+      const primary = data.find((contact) => contact.is_primary && contact.email)
+      if (!cancelled && primary?.email) {
+        setTo([{ email: primary.email, name: primary.name, contactId: primary.id }])
+      }
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [open, proposal])
+
+  async function handleSend() {
+    if (to.length === 0 || !subject.trim()) return
+    setSending(true)
+    try {
+      await onSend({ to, cc, subject, message })
+      onOpenChange(false)
+    } catch {
+      // O erro já foi exibido por quem chamou; o diálogo continua aberto
+    } finally {
+      setSending(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Enviar proposta</DialogTitle>
+          <DialogDescription>
+            O PDF é gerado agora, salvo na pasta do cliente no Drive e enviado em anexo.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-2">
+          <div className="grid gap-2">
+            <Label htmlFor="proposal_send_to">Para</Label>
+            <RecipientInput
+              id="proposal_send_to"
+              value={to}
+              onChange={setTo}
+              preferredClientId={proposal?.clientId}
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="proposal_send_cc">Cc (opcional)</Label>
+            <RecipientInput
+              id="proposal_send_cc"
+              value={cc}
+              onChange={setCc}
+              preferredClientId={proposal?.clientId}
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="proposal_send_subject">Assunto</Label>
+            <Input id="proposal_send_subject" value={subject} onChange={(e) => setSubject(e.target.value)} />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="proposal_send_message">Mensagem</Label>
+            <Textarea
+              id="proposal_send_message"
+              rows={6}
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+            />
+          </div>
+          {proposal && (
+            <p className="flex items-center gap-1.5 text-xs text-muted-foreground">
+              <Paperclip className="h-3.5 w-3.5" />
+              {getProposalFileName(proposal)}
+            </p>
+          )}
+        </div>
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button type="button" onClick={handleSend} disabled={sending || to.length === 0 || !subject.trim()}>
+            {sending ? "Enviando..." : "Enviar proposta"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,64 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+import type { RealtimePostgresChangesPayload } from "@supabase/supabase-js"
+import { createClient } from "@/lib/supabase/client"
+
+export type RealtimeChange = {
+  table: string
+  eventType: "INSERT" | "UPDATE" | "DELETE"
+  new: Record<string, any>
+  old: Record<string, any> // em DELETE com RLS, apenas a chave primária
+}
+
+// Alterações em sequência (ex.: ações em lote) viram uma única chamada
+const DEBOUNCE_MS = 300
+
+/**
+ * Assina as alterações das tabelas no Supabase Realtime (tabelas publicadas na
+ * migração 042) e entrega as alterações acumuladas em lote para `onChange`.
+ */
+export function useRealtimeChanges(
+  channelName: string,
+  tables: string[],
+  onChange: (changes: RealtimeChange[]) => void,
+  enabled = true
+) {
+  const onChangeRef = useRef(onChange)
+  onChangeRef.current = onChange
+  const tablesKey = tables.join(",")
+
+  useEffect(() => {
+    if (!enabled || !tablesKey) return
+
+    const supabase = createClient()
+    let pending: RealtimeChange[] = []
+    let timer: ReturnType<typeof setTimeout> | null = null
+
+    const handle = (payload: RealtimePostgresChangesPayload<Record<string, any>>) => {
+      pending.push({
+        table: payload.table,
+        eventType: payload.eventType,
+        new: payload.new ?? {},
+        old: payload.old ?? {},
+      })
+      if (timer) clearTimeout(timer)
+      timer = setTimeout(() => {
+        const changes = pending
+        pending = []
+        onChangeRef.current(changes)
+      }, DEBOUNCE_MS)
+    }
+
+    let channel = supabase.channel(channelName)
+    for (const table of tablesKey.split(",")) {
+      channel = channel.on("postgres_changes", { event: "*", schema: "public", table }, handle)
+    }
+    channel.subscribe()
+
+    return () => {
+      if (timer) clearTimeout(timer)
+      void supabase.removeChannel(channel)
+    }
+  }, [channelName, tablesKey, enabled])
+}
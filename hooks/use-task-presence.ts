@@ -0,0 +1,52 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { createClient } from "@/lib/supabase/client"
+
+/**
+ * Presença na tarefa aberta: entra no canal da tarefa enquanto `enabled` e
+ * retorna os ids (auth user id) das outras pessoas com a mesma tarefa aberta.
+ */
+export function useTaskPresence(taskId: string | null | undefined, enabled = true): string[] {
+  const [viewerIds, setViewerIds] = useState<string[]>([])
+
+  useEffect(() => {
+    if (!taskId || !enabled) {
+      setViewerIds([])
+      return
+    }
+
+    const supabase = createClient()
+    let cancelled = false
+    let channel: ReturnType<typeof supabase.channel> | null = null
+
+    ;(async () => {
+      const { data } = await supabase.auth.getUser()
+      const userId = data.user?.id
+      if (!userId || cancelled) return
+
+      // Cada usuário é uma chave de presença: várias abas contam uma vez só
+      channel = supabase.channel(`task-presence:${taskId}`, {
+        config: { presence: { key: userId } },
+      })
+      channel
+        .on("presence", { event: "sync" }, () => {
+          const state = channel?.presenceState() ?? {}
+          setViewerIds(Object.keys(state).filter((id) => id !== userId))
+        })
+        .subscribe(async (status) => {
+          if (status === "SUBSCRIBED") {
+            await channel?.track({ userId, openedAt: new Date().toISOString() })
+          }
+        })
+    })()
+
+    return () => {
+      cancelled = true
+      setViewerIds([])
+      if (channel) void supabase.removeChannel(channel)
+    }
+  }, [taskId, enabled])
+
+  return viewerIds
+}
@@ -0,0 +1,13 @@
+/**
+ * Autorização das rotas chamadas por cron (sem sessão de usuário): a requisição
+ * deve enviar o header `X-Cron-Secret` (ou `Authorization: Bearer <secret>`)
+ * igual a CRON_SECRET. Sem CRON_SECRET configurado, nenhuma chamada é aceita.
+ */
+export function isAuthorizedCron(request: Request): boolean {
+  const secret = process.env.CRON_SECRET
+  if (!secret) return false
+
+  const header = request.headers.get('x-cron-secret')
+  const bearer = request.headers.get('authorization')?.replace(/^Bearer\s+/i, '')
+  return header === secret || bearer === secret
+}
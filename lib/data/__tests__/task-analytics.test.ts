@@ -0,0 +1,134 @@
+/**
+ * Tests for task flow analytics
+ */
+
+import { computeFlowAnalytics, type TaskStatusTransition } from '../task-analytics'
+import type { KanbanColumn } from '../kanban-columns'
+
+const column = (statusKey: string, position: number): KanbanColumn => ({
+  id: `col-${statusKey}`,
+  name: statusKey,
+  color: '#000000',
+  position,
+  project_id: 'project-1',
+  statusKey,
+  wipLimit: null,
+  inProgress: statusKey === 'in_progress',
+})
+
+const columns = [column('todo', 0), column('in_progress', 1), column('done', 2)]
+
+// Datas em hora local, para não depender do fuso de quem roda os testes
+const at = (month: number, day: number, hours = 10) => new Date(2024, month - 1, day, hours).toISOString()
+
+const move = (taskId: string, fromStatus: string | null, toStatus: string, changedAt: string): TaskStatusTransition => ({
+  taskId,
+  fromStatus,
+  toStatus,
+  changedAt,
+})
+
+// Segunda-feira, 18/03/2024
+const now = new Date(2024, 2, 18, 12)
+
+const transitions = [
+  move('a', null, 'todo', at(3, 4)),
+  move('a', 'todo', 'in_progress', at(3, 5)),
+  move('a', 'in_progress', 'done', at(3, 7)),
+  move('b', null, 'todo', at(3, 6)),
+  move('b', 'todo', 'in_progress', at(3, 8)),
+  move('c', null, 'todo', at(3, 11)),
+  move('c', 'todo', 'done', at(3, 12)),
+]
+
+describe('Task Flow Analytics', () => {
+  describe('computeFlowAnalytics', () => {
+    it('should return empty metrics without transitions', () => {
+      const result = computeFlowAnalytics([], columns, now)
+
+      expect(result.doneStatus).toBe('done')
+      expect(result.cumulativeFlow).toEqual([])
+      expect(result.leadTimeDays).toBeNull()
+      expect(result.cycleTimeDays).toBeNull()
+      expect(result.completedCount).toBe(0)
+      expect(result.throughput).toHaveLength(12)
+      expect(result.throughput.every((week) => week.count === 0)).toBe(true)
+      expect(result.timeInColumn.map((col) => [col.statusKey, col.averageDays, col.samples])).toEqual([
+        ['todo', 0, 0],
+        ['in_progress', 0, 0],
+      ])
+    })
+
+    it('should compute lead and cycle time of completed tasks', () => {
+      const result = computeFlowAnalytics(transitions, columns, now)
+
+      // a: 3 dias de entrega, 2 de ciclo; c: 1 dia de entrega, concluída sem passar por outra coluna
+      expect(result.completedCount).toBe(2)
+      expect(result.leadTimeDays).toBeCloseTo(2)
+      expect(result.cycleTimeDays).toBeCloseTo(1)
+    })
+
+    it('should average only finished stints in each column', () => {
+      const result = computeFlowAnalytics(transitions, columns, now)
+
+      expect(result.timeInColumn).toEqual([
+        { statusKey: 'todo', name: 'todo', color: '#000000', averageDays: expect.closeTo(4 / 3), samples: 3 },
+        { statusKey: 'in_progress', name: 'in_progress', color: '#000000', averageDays: expect.closeTo(2), samples: 1 },
+      ])
+    })
+
+    it('should count tasks per column at the end of each day', () => {
+      const { cumulativeFlow } = computeFlowAnalytics(transitions, columns, now)
+
+      expect(cumulativeFlow).toHaveLength(15)
+      expect(cumulativeFlow[0]).toEqual({ date: '04/03', todo: 1, in_progress: 0, done: 0 })
+      expect(cumulativeFlow[3]).toEqual({ date: '07/03', todo: 1, in_progress: 0, done: 1 })
+      expect(cumulativeFlow[14]).toEqual({ date: '18/03', todo: 0, in_progress: 1, done: 2 })
+    })
+
+    it('should sample weekly in long projects and always end today', () => {
+      const old = [move('a', null, 'todo', new Date(2023, 8, 1, 10).toISOString())]
+      const { cumulativeFlow } = computeFlowAnalytics(old, columns, now)
+
+      expect(cumulativeFlow[0].date).toBe('01/09')
+      expect(cumulativeFlow[1].date).toBe('08/09')
+      expect(cumulativeFlow[cumulativeFlow.length - 1]).toEqual({ date: '18/03', todo: 1, in_progress: 0, done: 0 })
+    })
+
+    it('should count completions per week, ignoring moves within the done column', () => {
+      const result = computeFlowAnalytics(
+        [...transitions, move('c', 'done', 'done', at(3, 13))],
+        columns,
+        now
+      )
+
+      expect(result.throughput.slice(-3)).toEqual([
+        { week: '03/03', count: 1 },
+        { week: '10/03', count: 1 },
+        { week: '17/03', count: 0 },
+      ])
+    })
+
+    it('should use the last column as done and ignore unknown statuses', () => {
+      const custom = [column('a_fazer_x1', 0), column('entregue_x2', 1)]
+      const result = computeFlowAnalytics(
+        [
+          move('a', null, 'a_fazer_x1', at(3, 11)),
+          move('a', 'a_fazer_x1', 'entregue_x2', at(3, 13)),
+          move('b', null, 'removida', at(3, 11)),
+        ],
+        custom,
+        now
+      )
+
+      expect(result.doneStatus).toBe('entregue_x2')
+      expect(result.completedCount).toBe(1)
+      expect(result.leadTimeDays).toBeCloseTo(2)
+      expect(result.cumulativeFlow[result.cumulativeFlow.length - 1]).toEqual({
+        date: '18/03',
+        a_fazer_x1: 0,
+        entregue_x2: 1,
+      })
+    })
+  })
+})
@@ -0,0 +1,154 @@
+import { createClient as createSupabaseClient } from '@/lib/supabase/client'
+import type { ClientContact } from '@/lib/types'
+
+export type ClientContactInput = {
+  name: string
+  role?: string | null
+  email?: string | null
+  phone?: string | null
+  is_primary?: boolean
+}
+
+/** Destinatário de email: um contato de cliente ou um email avulso. */
+export type EmailRecipient = {
+  email: string
+  name: string | null
+  contactId: string | null
+}
+
+/** Destinatário de email sugerido a partir dos contatos dos clientes. */
+export type EmailRecipientSuggestion = {
+  contactId: string
+  name: string
+  email: string
+  role: string | null
+  clientId: string
+  clientName: string | null
+}
+
+function cleanInput(input: Partial<ClientContactInput>): Partial<ClientContactInput> {
+  const payload: Partial<ClientContactInput> = { ...input }
+  if (payload.name !== undefined) payload.name = payload.name.trim()
+  if (payload.role !== undefined) payload.role = payload.role?.trim() || null
+  if (payload.email !== undefined) payload.email = payload.email?.trim().toLowerCase() || null
+  if (payload.phone !== undefined) payload.phone = payload.phone?.replace(/\D/g, '') || null
+  return payload
+}
+
+/** Lists a client's contacts, primary contact first. */
+export async function listClientContacts(clientId: string): Promise<{ data: ClientContact[]; error: string | null }> {
+  const supabase = createSupabaseClient()
+  const { data, error } = await supabase
+    .from('client_contacts')
+    .select('*')
+    .eq('client_id', clientId)
+    .order('is_primary', { ascending: false })
+    .order('name', { ascending: true })
+  return { data: (data as ClientContact[]) ?? [], error: error?.message ?? null }
+}
+
+/** Creates a contact. Marking it as primary unsets the previous primary (trigger). */
+export async function createClientContact(
+  clientId: string,
+  input: ClientContactInput
+): Promise<{ data: ClientContact | null; error: string | null }> {
+  const supabase = createSupabaseClient()
+  const { data, error } = await supabase
+    .from('client_contacts')
+    .insert({ client_id: clientId, ...cleanInput(input) })
+    .select('*')
+    .single()
+  return { data: (data as ClientContact) ?? null, error: error?.message ?? null }
+}
+
+export async function updateClientContact(
+  id: string,
+  input: Partial<ClientContactInput>
+): Promise<{ data: ClientContact | null; error: string | null }> {
+  const supabase = createSupabaseClient()
+  const { data, error } = await supabase
+    .from('client_contacts')
+    .update(cleanInput(input))
+    .eq('id', id)
+    .select('*')
+    .single()
+  return { data: (data as ClientContact) ?? null, error: error?.message ?? null }
+}
+
+export async function deleteClientContact(id: string): Promise<{ error: string | null }> {
+  const supabase = createSupabaseClient()
+  const { error } = await supabase.from('client_contacts').delete().eq('id', id)
+  return { error: error?.message ?? null }
+}
+
+/**
+ * Sugestões de destinatário: contatos com email cujo nome ou email contém
+ * `search`. Contatos de `preferredClientId` vêm primeiro, depois os principais.
+ */
+export async function searchEmailRecipients(
+  search: string,
+  options: { preferredClientId?: string | null; limit?: number } = {}
+): Promise<EmailRecipientSuggestion[]> {
+  const supabase = createSupabaseClient()
+  const limit = options.limit ?? 8
+  const term = search.trim().replace(/[%,()]/g, ' ')
+
+  let query = supabase
+    .from('client_contacts')
+    .select('id, name, email, role, is_primary, client_id, clients(name)')
+    .not('email', 'is', null)
+    .order('is_primary', { ascending: false })
+    .order('name', { ascending: true })
+    .limit(50)
+
+  if (term) {
+    query = query.or(`name.ilike.%${term}%,email.ilike.%${term}%`)
+  } else if (options.preferredClientId) {
+    query = query.eq('client_id', options.preferredClientId)
+  }
+
+  const { data, error } = await query
+  if (error) {
+    console.error('Erro ao buscar contatos:', error)
+    return []
+  }
+
+  return (data ?? [])
+    .map((c: any) => ({
+      contactId: c.id,
+      name: c.name,
+      email: c.email,
+      role: c.role ?? null,
+      clientId: c.client_id,
+      clientName: c.clients?.name ?? null,
+    }))
+    .sort((a, b) => {
+      const aPreferred = a.clientId === options.preferredClientId ? 0 : 1
+      const bPreferred = b.clientId === options.preferredClientId ? 0 : 1
+      return aPreferred - bPreferred
+    })
+    .slice(0, limit)
+}
+
+/** Looks up contacts by email (case-insensitive), e.g. to match .ics attendees. */
+export async function findContactsByEmail(emails: string[]): Promise<Map<string, { id: string; name: string }>> {
+  const result = new Map<string, { id: string; name: string }>()
+  const normalized = Array.from(new Set(emails.map((e) => e.trim().toLowerCase()).filter(Boolean)))
+  if (normalized.length === 0) return result
+
+  const supabase = createSupabaseClient()
+  const { data, error } = await supabase
+    .from('client_contacts')
+    .select('id, name, email')
+    .in('email', normalized)
+  if (error) {
+    console.error('Erro ao buscar contatos por email:', error)
+    return result
+  }
+  for (const contact of data ?? []) {
+    if (contact.email && !result.has(contact.email)) {
+      result.set(contact.email, { id: contact.id, name: contact.name })
+    }
+  }
+  return result
+}
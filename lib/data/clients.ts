@@ -1,6 +1,11 @@
 import { createClient as createSupabaseClient } from '@/lib/supabase/client'
 import type { Client, ClientListMetrics, ClientCrmDetail } from '@/lib/types'
 import { getFallbackStatusColor, mapDbStatusToUI } from '@/lib/data/projects'
+import { getDocumentError, getDocumentType, normalizeDocument } from '@/lib/utils/document'
+import type { CompanyData } from '@/lib/services/company-lookup'
+
+const DUPLICATE_DOCUMENT_ERROR = 'Já existe um cliente com este CPF/CNPJ'
+const DOCUMENT_CHECK_ERROR = 'Não foi possível verificar o CPF/CNPJ. Tente novamente.'
 
 async function getCurrentUserId(): Promise<string | null> {
   const supabase = createSupabaseClient()
@@ -8,13 +13,46 @@ async function getCurrentUserId(): Promise<string | null> {
   return data.user?.id ?? null
 }
 
+/**
+ * Valida os dígitos do CPF/CNPJ e a unicidade na base inteira (a RPC ignora o
+ * RLS, que esconderia clientes de outros responsáveis). Retorna a mensagem de erro.
+ */
+async function validateDocument(
+  supabase: ReturnType<typeof createSupabaseClient>,
+  document: string,
+  excludeClientId?: string
+): Promise<string | null> {
+  const documentError = getDocumentError(document)
+  if (documentError) return documentError
+  if (!document) return null
+
+  const { data: exists, error } = await supabase.rpc('client_document_exists', {
+    p_document: document,
+    p_exclude_client_id: excludeClientId ?? null,
+  })
+  if (error) {
+    console.error('Erro ao verificar CPF/CNPJ duplicado:', error)
+    return DOCUMENT_CHECK_ERROR
+  }
+  return exists ? DUPLICATE_DOCUMENT_ERROR : null
+}
+
+function mapClientWriteError(error: { code?: string; message: string } | null): string | null {
+  if (!error) return null
+  return error.code === '23505' ? DUPLICATE_DOCUMENT_ERROR : error.message
+}
+
 export async function listClients(search?: string): Promise<{ data: Client[]; error: string | null }> {
   const supabase = createSupabaseClient()
   let query = supabase.from('clients').select('*').order('created_at', { ascending: false })
 
   if (search && search.trim().length > 0) {
     const term = `%${search.trim()}%`
-    query = query.or(`name.ilike.${term},document.ilike.${term},email.ilike.${term}`)
+    const filters = [`name.ilike.${term}`, `email.ilike.${term}`]
+    // Documentos são gravados só com dígitos: "12.345.678/0001-95" busca por "12345678000195"
+    const documentDigits = normalizeDocument(search)
+    if (documentDigits) filters.push(`document.ilike.%${documentDigits}%`)
+    query = query.or(filters.join(','))
   }
 
   const { data, error } = await query
@@ -23,6 +61,10 @@ export async function listClients(search?: string): Promise<{ data: Client[]; er
 
 export async function createClientRecord(payload: { name: string; document: string; email: string; phone: string; address: string; type?: Client['type']; assigned_users?: string[] }): Promise<{ data: Client | null; error: string | null }> {
   const supabase = createSupabaseClient()
+  const document = normalizeDocument(payload.document)
+  const documentError = await validateDocument(supabase, document)
+  if (documentError) return { data: null, error: documentError }
+
   const uid = await getCurrentUserId()
   
   // Include creator in assigned_users by default
@@ -33,22 +75,27 @@ export async function createClientRecord(payload: { name: string; document: stri
   
   const insertData = {
     name: payload.name,
-    document: payload.document,
+    document,
     email: payload.email,
     phone: payload.phone,
     address: payload.address,
-    type: payload.type ?? 'company',
+    type: payload.type ?? (getDocumentType(document) === 'cpf' ? 'individual' : 'company'),
     assigned_users: assignedUsers,
     created_by: uid,
   }
   const { data, error } = await supabase.from('clients').insert(insertData).select('*').single()
-  return { data: (data as Client) ?? null, error: error?.message ?? null }
+  return { data: (data as Client) ?? null, error: mapClientWriteError(error) }
 }
 
 export async function updateClientRecord(id: string, payload: Partial<{ name: string; document: string; email: string; phone: string; address: string; type: Client['type']; notes: string | null; assigned_users: string[] }>): Promise<{ data: Client | null; error: string | null }> {
   const supabase = createSupabaseClient()
+  if (payload.document !== undefined) {
+    payload = { ...payload, document: normalizeDocument(payload.document) }
+    const documentError = await validateDocument(supabase, payload.document!, id)
+    if (documentError) return { data: null, error: documentError }
+  }
   const { data, error } = await supabase.from('clients').update(payload).eq('id', id).select('*').single()
-  return { data: (data as Client) ?? null, error: error?.message ?? null }
+  return { data: (data as Client) ?? null, error: mapClientWriteError(error) }
 }
 
 export async function deleteClientRecord(id: string): Promise<{ error: string | null }> {
@@ -57,6 +104,84 @@ export async function deleteClientRecord(id: string): Promise<{ error: string |
   return { error: error?.message ?? null }
 }
 
+export type ClientImportRecord = {
+  rowNumber: number
+  name: string
+  document: string
+  email: string
+  phone: string
+  address: string
+  notes: string
+}
+
+const IMPORT_BATCH_SIZE = 100
+
+/**
+ * Documentos (normalizados) e emails (minúsculos) que já existem na base
+ * inteira — a RPC ignora o RLS, como `client_document_exists`.
+ */
+export async function findExistingClientKeys(documents: string[], emails: string[]): Promise<{
+  data: { documents: Set<string>; emails: Set<string> }
+  error: string | null
+}> {
+  const supabase = createSupabaseClient()
+  const { data, error } = await supabase.rpc('find_existing_client_keys', {
+    p_documents: documents.map(normalizeDocument).filter(Boolean),
+    p_emails: emails.map((email) => email.trim().toLowerCase()).filter(Boolean),
+  })
+  const result = { documents: new Set<string>(), emails: new Set<string>() }
+  if (error) return { data: result, error: error.message }
+  for (const row of (data ?? []) as { document: string | null; email: string | null }[]) {
+    if (row.document) result.documents.add(row.document)
+    if (row.email) result.emails.add(row.email)
+  }
+  return { data: result, error: null }
+}
+
+/**
+ * Inserts imported clients in batches. A batch that fails (e.g. a duplicate
+ * created meanwhile) is retried row by row, so every row gets its own result.
+ */
+export async function importClientRecords(
+  records: ClientImportRecord[],
+  onProgress?: (done: number) => void
+): Promise<{ data: { rowNumber: number; error: string | null }[]; error: string | null }> {
+  const supabase = createSupabaseClient()
+  const uid = await getCurrentUserId()
+  if (!uid) return { data: [], error: 'Sessão expirada' }
+
+  const toRow = (record: ClientImportRecord) => {
+    const document = normalizeDocument(record.document)
+    return {
+      name: record.name.trim(),
+      document,
+      email: record.email.trim().toLowerCase(),
+      phone: record.phone.trim(),
+      address: record.address.trim(),
+      notes: record.notes.trim() || null,
+      type: getDocumentType(document) === 'cpf' ? 'individual' : 'company',
+      assigned_users: [uid],
+      created_by: uid,
+    }
+  }
+
+  const results: { rowNumber: number; error: string | null }[] = []
+  for (let start = 0; start < records.length; start += IMPORT_BATCH_SIZE) {
+    const batch = records.slice(start, start + IMPORT_BATCH_SIZE)
+    const { error } = await supabase.from('clients').insert(batch.map(toRow))
+    if (!error) {
+      results.push(...batch.map((record) => ({ rowNumber: record.rowNumber, error: null })))
+    } else {
+      for (const record of batch) {
+        const { error: rowError } = await supabase.from('clients').insert(toRow(record))
+        results.push({ rowNumber: record.rowNumber, error: mapClientWriteError(rowError) })
+      }
+    }
+    onProgress?.(Math.min(start + IMPORT_BATCH_SIZE, records.length))
+  }
+  return { data: results, error: null }
+}
+
 export type ClientSummaryProject = {
   id: string
   title: string
@@ -283,3 +408,19 @@ export async function getClientById(clientId: string): Promise<{
     .single()
   return { data: (data as Client) ?? null, error: error?.message ?? null }
 }
+
+/** Looks up company registration data by CNPJ to pre-fill the client form. */
+export async function lookupCompanyByCnpj(cnpj: string): Promise<{
+  data: CompanyData | null
+  error: string | null
+}> {
+  try {
+    const res = await fetch(`/api/clients/lookup?cnpj=${normalizeDocument(cnpj)}`)
+    const body = await res.json().catch(() => ({}))
+    if (!res.ok) return { data: null, error: body.error ?? 'Não foi possível consultar o CNPJ' }
+    return { data: body.data as CompanyData, error: null }
+  } catch (err) {
+    console.error('Erro ao consultar CNPJ:', err)
+    return { data: null, error: 'Não foi possível consultar o CNPJ' }
+  }
+}
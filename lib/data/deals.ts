@@ -0,0 +1,182 @@
+import { createClient } from "../supabase/client"
+import { createProject, deleteProject } from "./projects"
+import { applyProjectTemplate, getProjectTemplate } from "./project-templates"
+import type { DealStage } from "../utils/deals"
+
+export type Deal = {
+  id: string
+  clientId: string
+  clientName: string
+  title: string
+  description: string | null
+  stage: DealStage
+  estimatedValue: number | null
+  expectedCloseDate: string | null // YYYY-MM-DD
+  closeReason: string | null
+  closeNotes: string | null
+  closedAt: string | null
+  projectId: string | null
+  projectCode: string | null
+  ownerId: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export type DealInput = {
+  clientId: string
+  title: string
+  description?: string | null
+  stage?: DealStage
+  estimatedValue?: number | null
+  expectedCloseDate?: string | null
+  ownerId?: string | null
+}
+
+export type DealChanges = Partial<Omit<DealInput, "clientId">> & {
+  clientId?: string
+  closeReason?: string | null
+  closeNotes?: string | null
+}
+
+export type DealFilters = {
+  clientId?: string
+  ownerId?: string
+  search?: string
+}
+
+const DEAL_COLUMNS =
+  "id, client_id, title, description, stage, estimated_value, expected_close_date, close_reason, close_notes, closed_at, project_id, owner_id, created_at, updated_at, clients(id, name), projects(id, code)"
+
+function mapDeal(row: any): Deal {
+  return {
+    id: row.id,
+    clientId: row.client_id,
+    clientName: row.clients?.name ?? "",
+    title: row.title,
+    description: row.description ?? null,
+    stage: row.stage as DealStage,
+    estimatedValue: row.estimated_value != null ? Number(row.estimated_value) : null,
+    expectedCloseDate: row.expected_close_date ?? null,
+    closeReason: row.close_reason ?? null,
+    closeNotes: row.close_notes ?? null,
+    closedAt: row.closed_at ?? null,
+    projectId: row.project_id ?? null,
+    projectCode: row.projects?.code ?? null,
+    ownerId: row.owner_id ?? null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  }
+}
+
+function toDealColumns(changes: DealChanges): Record<string, any> {
+  const payload: Record<string, any> = {}
+  if (changes.clientId !== undefined) payload.client_id = changes.clientId
+  if (changes.title !== undefined) payload.title = changes.title.trim()
+  if (changes.description !== undefined) payload.description = changes.description?.trim() || null
+  if (changes.stage !== undefined) payload.stage = changes.stage
+  if (changes.estimatedValue !== undefined) payload.estimated_value = changes.estimatedValue
+  if (changes.expectedCloseDate !== undefined) payload.expected_close_date = changes.expectedCloseDate || null
+  if (changes.ownerId !== undefined) payload.owner_id = changes.ownerId
+  if (changes.closeReason !== undefined) payload.close_reason = changes.closeReason
+  if (changes.closeNotes !== undefined) payload.close_notes = changes.closeNotes?.trim() || null
+  return payload
+}
+
+/**
+ * Lista os negócios visíveis (RLS do cliente), ordenados pela previsão de
+ * fechamento — sem previsão por último.
+ */
+export async function listDeals(filters: DealFilters = {}): Promise<Deal[]> {
+  const supabase = createClient()
+  let query = supabase
+    .from("deals")
+    .select(DEAL_COLUMNS)
+    .order("expected_close_date", { ascending: true, nullsFirst: false })
+    .order("created_at", { ascending: false })
+
+  if (filters.clientId) query = query.eq("client_id", filters.clientId)
+  if (filters.ownerId) query = query.eq("owner_id", filters.ownerId)
+  if (filters.search?.trim()) query = query.ilike("title", `%${filters.search.trim()}%`)
+
+  const { data, error } = await query
+  if (error) throw error
+  return (data ?? []).map(mapDeal)
+}
+
+export async function createDeal(input: DealInput): Promise<Deal> {
+  const supabase = createClient()
+  const { data, error } = await supabase
+    .from("deals")
+    .insert(toDealColumns(input))
+    .select(DEAL_COLUMNS)
+    .single()
+  if (error) throw error
+  return mapDeal(data)
+}
+
+/**
+ * Atualiza um negócio. Voltar para uma etapa aberta limpa o motivo e a data de
+ * fechamento (trigger no banco).
+ */
+export async function updateDeal(id: string, changes: DealChanges): Promise<Deal> {
+  const supabase = createClient()
+  const { data, error } = await supabase
+    .from("deals")
+    .update(toDealColumns(changes))
+    .eq("id", id)
+    .select(DEAL_COLUMNS)
+    .single()
+  if (error) throw error
+  return mapDeal(data)
+}
+
+export async function deleteDeal(id: string): Promise<void> {
+  const supabase = createClient()
+  const { error } = await supabase.from("deals").delete().eq("id", id)
+  if (error) throw error
+}
+
+/**
+ * Cria o projeto de um negócio ganho (via `createProject`, com o cliente e o
+ * valor do negócio) e vincula o projeto ao negócio. O vínculo é gravado antes
+ * de aplicar o modelo: se falhar, o projeto recém-criado é excluído para que
+ * uma nova tentativa não gere projeto duplicado.
+ */
+export async function convertDealToProject(
+  deal: Deal,
+  project: { code: string; name: string; endDate: string | null; templateId?: string | null }
+): Promise<{ projectId: string }> {
+  if (deal.stage !== "won") throw new Error("Apenas negócios ganhos podem virar projeto")
+  if (deal.projectId) throw new Error("Este negócio já foi convertido em projeto")
+
+  const template = project.templateId ? await getProjectTemplate(project.templateId) : null
+  const created = await createProject({
+    code: project.code,
+    name: project.name,
+    description: deal.description,
+    clientId: deal.clientId,
+    endDate: project.endDate,
+    teamMembers: template?.defaultMembers,
+    estimatedValue: deal.estimatedValue,
+  })
+
+  // Só vincula se o negócio ainda não tiver projeto (conversão simultânea)
+  const supabase = createClient()
+  const { data: linked, error } = await supabase
+    .from("deals")
+    .update({ project_id: created.id })
+    .eq("id", deal.id)
+    .is("project_id", null)
+    .select("id")
+  if (error || !linked || linked.length === 0) {
+    await deleteProject(created.id).catch((deleteError) => {
+      console.error("Erro ao excluir projeto após falha na conversão:", deleteError)
+    })
+    if (error) throw error
+    throw new Error("Não foi possível vincular o projeto ao negócio. Ele pode já ter sido convertido.")
+  }
+
+  if (template) await applyProjectTemplate(created.id, template)
+
+  return { projectId: created.id }
+}
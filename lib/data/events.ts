@@ -1,4 +1,25 @@
 import { createClient } from "../supabase/client"
+import {
+  addDays,
+  countOccurrencesBefore,
+  diffInDays,
+  expandOccurrences,
+  type RecurrenceRule,
+} from "../utils/recurrence"
+import { parseCalendar } from "../utils/ical"
+import { listProfiles } from "./tasks"
+import { notifyUsersAdded } from "./notifications"
+import { findContactsByEmail } from "./client-contacts"
+import { EventConflictError, type EventConflict } from "../types"
+
+export type { RecurrenceRule } from "../utils/recurrence"
+
+/** Participante de fora da equipe, identificado pelo email (contato de cliente ou avulso). */
+export type ExternalParticipant = {
+  email: string
+  name: string | null
+  contactId: string | null
+}
 
 export type CalendarEvent = {
   id: string
@@ -6,12 +27,74 @@ export type CalendarEvent = {
   description: string
   date: Date
   time: string // HH:mm
+  endTime: string // HH:mm
   location: string
   type: "meeting" | "deadline" | "visit"
   client?: { id: string; name: string }
   participants?: string[] // Array of user IDs
+  externalParticipants?: ExternalParticipant[]
+  reminders: number[] // Minutos de antecedência dos lembretes por email
+  occurrenceDate: string // YYYY-MM-DD da ocorrência exibida
+  recurrence?: RecurrenceRule | null // Regra da série quando o evento é recorrente
+  seriesId?: string | null // Série de origem de uma ocorrência editada individualmente
+}
+
+/**
+ * Escopo de edição/exclusão de um evento recorrente:
+ * - this: apenas a ocorrência selecionada
+ * - following: a ocorrência selecionada e as seguintes
+ * - all: a série inteira
+ */
+export type RecurrenceScope = "this" | "following" | "all"
+
+export type RecurrenceEditOptions = {
+  scope: RecurrenceScope
+  occurrenceDate: string // YYYY-MM-DD
+}
+
+/** Por padrão, gravações que deixam um participante com dois compromissos no mesmo horário são recusadas. */
+export type ConflictCheckOptions = {
+  allowConflicts?: boolean
+}
+
+export type UpdateEventOptions = Partial<RecurrenceEditOptions> & ConflictCheckOptions
+
+// Eventos sem horário de término ocupam 1 hora
+export const DEFAULT_EVENT_DURATION_MINUTES = 60
+
+// Séries sem término têm os conflitos verificados no próximo ano
+const CONFLICT_CHECK_HORIZON_DAYS = 365
+
+// Compromissos que o usuário não pode ver aparecem sem o título
+const HIDDEN_EVENT_TITLE = "Outro compromisso"
+
+/** Filtros opcionais da consulta por período. */
+export type EventFilters = {
+  type?: CalendarEvent["type"]
+  clientId?: string
+  projectId?: string
+  participantId?: string // ID do usuário participante
 }
 
+type EventChanges = Partial<{
+  title: string
+  description: string
+  date: string // YYYY-MM-DD
+  time: string // HH:mm
+  endTime: string | null // HH:mm
+  location: string
+  type: "meeting" | "deadline" | "visit"
+  client_id: string | null
+  project_id: string | null
+  participants: string[]
+  externalParticipants: ExternalParticipant[]
+  reminders: number[]
+  recurrence: RecurrenceRule | null
+}>
+
+const EVENT_COLUMNS =
+  "id, title, description, event_date, event_time, event_end_time, location, type, client_id, project_id, reminder_minutes, recurrence_frequency, recurrence_interval, recurrence_until, recurrence_count, recurrence_parent_id, clients(id, name)"
+
 function toISODateString(d: Date): string {
   const year = d.getFullYear()
   const month = String(d.getMonth() + 1).padStart(2, "0")
@@ -27,44 +110,314 @@ function normalizeTime(t?: string | null): string {
   return t
 }
 
-export async function listEventsByDate(date: Date): Promise<CalendarEvent[]> {
+function timeToMinutes(t: string): number {
+  const [hours, minutes] = t.split(":").map(Number)
+  return (hours || 0) * 60 + (minutes || 0)
+}
+
+/** Soma minutos a um horário HH:mm, limitado ao fim do dia (23:59). */
+export function shiftTime(time: string, minutes: number): string {
+  const total = Math.min(Math.max(timeToMinutes(time) + minutes, 0), 23 * 60 + 59)
+  return `${String(Math.floor(total / 60)).padStart(2, "0")}:${String(total % 60).padStart(2, "0")}`
+}
+
+/** Horário de término efetivo (início + duração padrão quando não informado). */
+function resolveEndTime(time: string, endTime?: string | null): string {
+  return endTime ? normalizeTime(endTime) : shiftTime(time, DEFAULT_EVENT_DURATION_MINUTES)
+}
+
+function toRecurrenceRule(row: any): RecurrenceRule | null {
+  if (!row.recurrence_frequency) return null
+  return {
+    frequency: row.recurrence_frequency,
+    interval: row.recurrence_interval ?? 1,
+    until: row.recurrence_until ?? null,
+    count: row.recurrence_count ?? null,
+  }
+}
+
+function recurrenceToColumns(rule: RecurrenceRule | null | undefined) {
+  return {
+    recurrence_frequency: rule?.frequency ?? null,
+    recurrence_interval: rule ? Math.max(1, rule.interval || 1) : 1,
+    recurrence_until: rule?.count != null ? null : rule?.until ?? null,
+    recurrence_count: rule?.count ?? null,
+  }
+}
+
+function isSameRule(a: RecurrenceRule, b: RecurrenceRule): boolean {
+  const left = recurrenceToColumns(a)
+  const right = recurrenceToColumns(b)
+  return (Object.keys(left) as (keyof typeof left)[]).every((key) => left[key] === right[key])
+}
+
+/** Converte as alterações vindas da UI para as colunas de `events`. */
+function toEventColumns(changes: EventChanges): Record<string, any> {
+  const payload: any = { ...changes }
+  delete payload.participants
+  delete payload.externalParticipants
+
+  if ("date" in payload) {
+    payload.event_date = payload.date
+    delete payload.date
+  }
+  if ("time" in payload) {
+    payload.event_time = payload.time
+    delete payload.time
+  }
+  if ("endTime" in payload) {
+    payload.event_end_time = payload.endTime || null
+    delete payload.endTime
+  }
+  if ("reminders" in payload) {
+    payload.reminder_minutes = payload.reminders ?? []
+    delete payload.reminders
+  }
+  if ("recurrence" in payload) {
+    Object.assign(payload, recurrenceToColumns(payload.recurrence))
+    delete payload.recurrence
+  }
+  return payload
+}
+
+/** Colunas copiadas de uma série ao gerar um novo evento a partir dela. */
+function copySeriesColumns(series: any): Record<string, any> {
+  return {
+    title: series.title,
+    description: series.description,
+    event_time: series.event_time,
+    event_end_time: series.event_end_time,
+    location: series.location,
+    type: series.type,
+    client_id: series.client_id,
+    project_id: series.project_id,
+    reminder_minutes: series.reminder_minutes,
+  }
+}
+
+/**
+ * Carrega os eventos entre duas datas (inclusive), expandindo as séries
+ * recorrentes em uma entrada por ocorrência.
+ */
+async function loadEventsBetween(
+  fromIso: string,
+  toIso: string,
+  filters: EventFilters = {}
+): Promise<CalendarEvent[]> {
   const supabase = createClient()
+
+  // Filtro por participante no servidor (junção com event_participants), sem listar ids no cliente
+  const columns = filters.participantId
+    ? `${EVENT_COLUMNS}, event_participants!inner(user_id)`
+    : EVENT_COLUMNS
+
+  const applyFilters = (query: any) => {
+    if (filters.type) query = query.eq("type", filters.type)
+    if (filters.clientId) query = query.eq("client_id", filters.clientId)
+    if (filters.projectId) query = query.eq("project_id", filters.projectId)
+    if (filters.participantId) query = query.eq("event_participants.user_id", filters.participantId)
+    return query
+  }
+
+  const singlePromise = applyFilters(
+    supabase
+      .from("events")
+      .select(columns)
+      .is("recurrence_frequency", null)
+      .gte("event_date", fromIso)
+      .lte("event_date", toIso)
+  )
+
+  const seriesPromise = applyFilters(
+    supabase
+      .from("events")
+      .select(columns)
+      .not("recurrence_frequency", "is", null)
+      .lte("event_date", toIso)
+      .or(`recurrence_until.is.null,recurrence_until.gte.${fromIso}`)
+  )
+
+  const [
+    { data: singleData, error: singleError },
+    { data: seriesData, error: seriesError },
+  ] = await Promise.all([singlePromise, seriesPromise])
+
+  if (singleError) throw singleError
+  if (seriesError) throw seriesError
+
+  const seriesRows = seriesData ?? []
+  const exceptionsBySeries = new Map<string, Set<string>>()
+
+  if (seriesRows.length > 0) {
+    const { data: exceptionsData, error: exceptionsError } = await supabase
+      .from("event_exceptions")
+      .select("event_id, occurrence_date")
+      .in("event_id", seriesRows.map((r: any) => r.id))
+      .gte("occurrence_date", fromIso)
+      .lte("occurrence_date", toIso)
+
+    if (exceptionsError) throw exceptionsError
+    ;(exceptionsData ?? []).forEach((e: any) => {
+      if (!exceptionsBySeries.has(e.event_id)) {
+        exceptionsBySeries.set(e.event_id, new Set())
+      }
+      exceptionsBySeries.get(e.event_id)!.add(e.occurrence_date)
+    })
+  }
+
+  const occurrences: { row: any; date: string }[] = (singleData ?? []).map((r: any) => ({
+    row: r,
+    date: r.event_date,
+  }))
+
+  seriesRows.forEach((r: any) => {
+    const rule = toRecurrenceRule(r)!
+    const skipped = exceptionsBySeries.get(r.id)
+    expandOccurrences(r.event_date, rule, fromIso, toIso)
+      .filter((date) => !skipped?.has(date))
+      .forEach((date) => occurrences.push({ row: r, date }))
+  })
+
+  // Fetch participants for all events
+  const eventIds = Array.from(new Set(occurrences.map((o) => o.row.id)))
+  const participantsMap = new Map<string, string[]>()
+  const externalParticipantsMap = new Map<string, ExternalParticipant[]>()
+
+  if (eventIds.length > 0) {
+    const [{ data: participantsData }, { data: externalData }] = await Promise.all([
+      supabase
+        .from("event_participants")
+        .select("event_id, user_id")
+        .in("event_id", eventIds),
+      supabase
+        .from("event_external_participants")
+        .select("event_id, email, name, contact_id")
+        .in("event_id", eventIds)
+        .order("created_at"),
+    ])
+
+    ;(participantsData ?? []).forEach((p: any) => {
+      if (!participantsMap.has(p.event_id)) {
+        participantsMap.set(p.event_id, [])
+      }
+      participantsMap.get(p.event_id)!.push(p.user_id)
+    })
+
+    ;(externalData ?? []).forEach((p: any) => {
+      if (!externalParticipantsMap.has(p.event_id)) {
+        externalParticipantsMap.set(p.event_id, [])
+      }
+      externalParticipantsMap.get(p.event_id)!.push({
+        email: p.email,
+        name: p.name ?? null,
+        contactId: p.contact_id ?? null,
+      })
+    })
+  }
+
+  return occurrences
+    .map(({ row: r, date }) => ({
+      id: r.id,
+      title: r.title,
+      description: r.description ?? "",
+      date: new Date(date),
+      time: normalizeTime(r.event_time),
+      endTime: resolveEndTime(normalizeTime(r.event_time), r.event_end_time),
+      location: r.location ?? "",
+      type: r.type as CalendarEvent["type"],
+      client: r.clients ? { id: r.clients.id, name: r.clients.name } : undefined,
+      participants: participantsMap.get(r.id) ?? [],
+      externalParticipants: externalParticipantsMap.get(r.id) ?? [],
+      reminders: r.reminder_minutes ?? [],
+      occurrenceDate: date,
+      recurrence: toRecurrenceRule(r),
+      seriesId: r.recurrence_parent_id ?? null,
+    }))
+    .sort((a, b) =>
+      a.occurrenceDate === b.occurrenceDate
+        ? a.time.localeCompare(b.time)
+        : a.occurrenceDate.localeCompare(b.occurrenceDate)
+    )
+}
+
+export async function listEventsByDate(date: Date): Promise<CalendarEvent[]> {
   const iso = toISODateString(date)
+  return loadEventsBetween(iso, iso)
+}
+
+/**
+ * Lista os eventos entre duas datas (inclusive), com ocorrências de séries
+ * recorrentes expandidas, ordenados por data e horário.
+ */
+export async function listEventsInRange(
+  from: Date,
+  to: Date,
+  filters?: EventFilters
+): Promise<CalendarEvent[]> {
+  return loadEventsBetween(toISODateString(from), toISODateString(to), filters)
+}
+
+/**
+ * Insere a linha do evento e seus participantes. Falhas ao inserir participantes
+ * são apenas registradas, como na criação manual de eventos.
+ */
+async function insertEventRow(
+  payload: Record<string, any>,
+  participants: string[],
+  externalParticipants: ExternalParticipant[] = []
+): Promise<string> {
+  const supabase = createClient()
+
   const { data, error } = await supabase
     .from("events")
-    .select(
-      "id, title, description, event_date, event_time, location, type, client_id, clients(id, name)"
-    )
-    .eq("event_date", iso)
-    .order("event_time", { ascending: true })
+    .insert(payload)
+    .select("id")
+    .single()
 
   if (error) throw error
 
-  // Fetch participants for all events
-  const eventIds = (data ?? []).map((e: any) => e.id)
-  const { data: participantsData } = await supabase
-    .from("event_participants")
-    .select("event_id, user_id")
-    .in("event_id", eventIds)
+  const eventId = data?.id as string
 
-  const participantsMap = new Map<string, string[]>()
-  ;(participantsData ?? []).forEach((p: any) => {
-    if (!participantsMap.has(p.event_id)) {
-      participantsMap.set(p.event_id, [])
+  if (participants.length > 0) {
+    const participantRecords = participants.map(uid => ({
+      event_id: eventId,
+      user_id: uid,
+    }))
+
+    const { error: participantsError } = await supabase
+      .from("event_participants")
+      .insert(participantRecords)
+
+    if (participantsError) {
+      console.error("Error adding participants:", participantsError)
     }
-    participantsMap.get(p.event_id)!.push(p.user_id)
-  })
+  }
+
+  if (externalParticipants.length > 0) {
+    const { error: externalError } = await supabase
+      .from("event_external_participants")
+      .insert(toExternalParticipantRows(eventId, externalParticipants))
+
+    if (externalError) {
+      console.error("Error adding external participants:", externalError)
+    }
+  }
+
+  return eventId
+}
 
-  return (data ?? []).map((r: any) => ({
-    id: r.id,
-    title: r.title,
-    description: r.description ?? "",
-    date: new Date(r.event_date),
-    time: normalizeTime(r.event_time),
-    location: r.location ?? "",
-    type: r.type as CalendarEvent["type"],
-    client: r.clients ? { id: r.clients.id, name: r.clients.name } : undefined,
-    participants: participantsMap.get(r.id) ?? [],
+/** Linhas de `event_external_participants`, sem emails repetidos. */
+function toExternalParticipantRows(eventId: string, externalParticipants: ExternalParticipant[]) {
+  const byEmail = new Map<string, ExternalParticipant>()
+  for (const p of externalParticipants) {
+    const email = p.email.trim().toLowerCase()
+    if (email && !byEmail.has(email)) byEmail.set(email, { ...p, email })
+  }
+  return Array.from(byEmail.values()).map((p) => ({
+    event_id: eventId,
+    email: p.email,
+    name: p.name?.trim() || null,
+    contact_id: p.contactId,
   }))
 }
 
@@ -78,94 +431,533 @@ export async function createEvent(input: {
   client_id?: string | null
   project_id?: string | null
   participants?: string[] // Array of user IDs
-}): Promise<string> {
+  externalParticipants?: ExternalParticipant[]
+  endTime?: string | null // HH:mm
+  reminders?: number[] // Minutos de antecedência dos lembretes por email
+  recurrence?: RecurrenceRule | null
+  ical_uid?: string | null
+}, options?: ConflictCheckOptions): Promise<string> {
   const supabase = createClient()
   const { data: userRes } = await supabase.auth.getUser()
   const userId = userRes.user?.id ?? null
 
+  // O criador entra como participante e também não pode ficar com horário duplicado
+  const participants = [...(input.participants ?? [])]
+  if (userId && !participants.includes(userId)) {
+    participants.push(userId)
+  }
+
+  if (!options?.allowConflicts && input.type !== "deadline") {
+    await assertNoConflicts({
+      date: input.date,
+      time: input.time,
+      endTime: input.endTime,
+      participants,
+      recurrence: input.recurrence ?? null,
+    })
+  }
+
   const payload: any = {
     title: input.title,
     description: input.description,
     event_date: input.date,
     event_time: input.time,
+    event_end_time: input.endTime || null,
     location: input.location,
     type: input.type,
     client_id: input.client_id ?? null,
     project_id: input.project_id ?? null,
     created_by: userId,
+    reminder_minutes: input.reminders ?? [],
+    ical_uid: input.ical_uid ?? null,
+    ...recurrenceToColumns(input.recurrence),
   }
 
-  const { data, error } = await supabase
-    .from("events")
-    .insert(payload)
-    .select("id")
-    .single()
+  const eventId = await insertEventRow(payload, participants, input.externalParticipants)
+  await notifyUsersAdded("event_participant", eventId, participants)
+  return eventId
+}
 
+type ConflictCheckParams = {
+  date: string // YYYY-MM-DD (primeira ocorrência, em séries)
+  time: string // HH:mm
+  endTime?: string | null // HH:mm
+  participants: string[]
+  recurrence?: RecurrenceRule | null
+  fromDate?: string // primeira ocorrência da série a verificar (padrão: `date`)
+  skipDates?: string[] // ocorrências removidas da série
+  excludeEventId?: string // evento em edição (e ocorrências da mesma série)
+}
+
+/** Ocorrências a verificar: a data do evento avulso ou as da série a partir de `fromDate` (nunca antes de hoje). */
+function conflictCheckDates(params: ConflictCheckParams): string[] {
+  if (!params.recurrence) return [params.date]
+
+  const today = toISODateString(new Date())
+  let fromIso = params.fromDate ?? params.date
+  if (fromIso < today) fromIso = today
+  const skipped = new Set(params.skipDates ?? [])
+  return expandOccurrences(
+    params.date,
+    params.recurrence,
+    fromIso,
+    addDays(fromIso, CONFLICT_CHECK_HORIZON_DAYS)
+  ).filter((date) => !skipped.has(date))
+}
+
+/**
+ * Procura compromissos dos participantes que se sobrepõem ao horário informado.
+ * Prazos (`deadline`) não ocupam agenda e são ignorados. Em séries recorrentes,
+ * cada ocorrência é verificada, limitado a um ano a partir de `fromDate`.
+ *
+ * Usa `find_participant_busy_events` (051): o RLS de `events` esconde os
+ * compromissos de que o usuário não participa.
+ */
+export async function findEventConflicts(params: ConflictCheckParams): Promise<EventConflict[]> {
+  if (params.participants.length === 0) return []
+
+  const dates = conflictCheckDates(params)
+  if (dates.length === 0) return []
+  const fromIso = dates[0]
+  const toIso = dates[dates.length - 1]
+
+  const supabase = createClient()
+  const { data, error } = await supabase.rpc("find_participant_busy_events", {
+    p_user_ids: params.participants,
+    p_from: fromIso,
+    p_to: toIso,
+    p_exclude_event_id: params.excludeEventId ?? null,
+  })
   if (error) throw error
-  
-  const eventId = data?.id as string
-  
-  // Add participants
-  const participants = input.participants ?? []
-  if (userId && !participants.includes(userId)) {
-    participants.push(userId)
+
+  const checkedDates = new Set(dates)
+  const start = timeToMinutes(params.time)
+  const end = timeToMinutes(resolveEndTime(params.time, params.endTime))
+
+  const conflicts: EventConflict[] = []
+  for (const row of data ?? []) {
+    const time = normalizeTime(row.event_time)
+    const endTime = resolveEndTime(time, row.event_end_time)
+    if (timeToMinutes(time) >= end || timeToMinutes(endTime) <= start) continue
+
+    const rule = toRecurrenceRule(row)
+    const skipped = new Set<string>(row.exception_dates ?? [])
+    const busyDates = rule
+      ? expandOccurrences(row.event_date, rule, fromIso, toIso).filter((date) => !skipped.has(date))
+      : [row.event_date]
+
+    for (const date of busyDates) {
+      if (!checkedDates.has(date)) continue
+      conflicts.push({
+        userId: row.user_id,
+        eventId: row.event_id,
+        title: row.title ?? HIDDEN_EVENT_TITLE,
+        date,
+        time,
+        endTime,
+      })
+    }
   }
-  
-  if (participants.length > 0) {
-    const participantRecords = participants.map(uid => ({
-      event_id: eventId,
-      user_id: uid,
-    }))
-    
-    const { error: participantsError } = await supabase
-      .from("event_participants")
-      .insert(participantRecords)
-    
-    if (participantsError) {
-      console.error("Error adding participants:", participantsError)
+  return conflicts.sort((a, b) => a.date.localeCompare(b.date) || a.time.localeCompare(b.time))
+}
+
+async function assertNoConflicts(params: ConflictCheckParams): Promise<void> {
+  const conflicts = await findEventConflicts(params)
+  if (conflicts.length > 0) {
+    throw new EventConflictError("Participante já possui compromisso neste horário", conflicts)
+  }
+}
+
+export type IcsImportResult = {
+  imported: number
+  skipped: number // já importados anteriormente (mesmo UID)
+  unmatchedAttendees: string[] // emails sem usuário correspondente
+  unsupported: string[] // títulos dos eventos não importados por terem recorrência não suportada
+}
+
+/**
+ * Importa os eventos de um arquivo .ics como eventos da agenda. Participantes
+ * são associados aos usuários cadastrados pelo email; eventos cujo UID já foi
+ * importado são ignorados para permitir reimportar o mesmo arquivo. Eventos com
+ * regra de recorrência que a agenda não representa (ex.: vários dias da semana)
+ * não são importados, para não gravar datas erradas.
+ */
+export async function importIcsEvents(content: string): Promise<IcsImportResult> {
+  const supabase = createClient()
+  const parsed = parseCalendar(content)
+  const result: IcsImportResult = { imported: 0, skipped: 0, unmatchedAttendees: [], unsupported: [] }
+  if (parsed.length === 0) return result
+
+  const uids = parsed.map(e => e.uid).filter((uid): uid is string => !!uid)
+  const existing = new Set<string>()
+  if (uids.length > 0) {
+    const { data, error } = await supabase
+      .from("events")
+      .select("ical_uid")
+      .in("ical_uid", uids)
+    if (error) throw error
+    for (const row of data ?? []) existing.add(row.ical_uid)
+  }
+
+  const profiles = await listProfiles()
+  const userIdByEmail = new Map(
+    profiles.filter(p => p.email).map(p => [p.email.toLowerCase(), p.id])
+  )
+  const contactsByEmail = await findContactsByEmail(
+    parsed.flatMap(e => e.attendees.map(a => a.email)).filter(email => !userIdByEmail.has(email))
+  )
+  const unmatched = new Set<string>()
+
+  for (const event of parsed) {
+    if (event.uid && existing.has(event.uid)) {
+      result.skipped++
+      continue
+    }
+    if (event.unsupportedRecurrence) {
+      result.unsupported.push(event.title)
+      continue
+    }
+
+    const participants: string[] = []
+    const externalParticipants: ExternalParticipant[] = []
+    for (const attendee of event.attendees) {
+      const userId = userIdByEmail.get(attendee.email)
+      if (userId) {
+        if (!participants.includes(userId)) participants.push(userId)
+      } else {
+        // Quem não é usuário entra como participante externo, vinculado ao contato se houver
+        const contact = contactsByEmail.get(attendee.email.toLowerCase())
+        externalParticipants.push({
+          email: attendee.email,
+          name: attendee.name ?? contact?.name ?? null,
+          contactId: contact?.id ?? null,
+        })
+        unmatched.add(attendee.email)
+      }
     }
+
+    const eventId = await createEvent({
+      title: event.title,
+      description: event.description,
+      date: event.date,
+      time: event.time,
+      endTime: event.endTime,
+      location: event.location,
+      type: event.allDay ? "deadline" : "meeting",
+      participants,
+      externalParticipants,
+      recurrence: event.recurrence,
+      ical_uid: event.uid,
+    }, { allowConflicts: true })
+
+    // Ocorrências removidas no calendário de origem (EXDATE)
+    if (event.recurrence) {
+      for (const occurrenceDate of event.exceptions) {
+        await addEventException(eventId, occurrenceDate)
+      }
+    }
+
+    if (event.uid) existing.add(event.uid)
+    result.imported++
   }
-  
-  return eventId
+
+  result.unmatchedAttendees = Array.from(unmatched).sort()
+  return result
 }
 
-export async function updateEvent(id: string, changes: Partial<{
-  title: string
-  description: string
-  date: string // YYYY-MM-DD
-  time: string // HH:mm
-  location: string
-  type: "meeting" | "deadline" | "visit"
-  client_id: string | null
-  project_id: string | null
-  participants: string[]
-}>): Promise<void> {
+async function getEventRow(id: string): Promise<any> {
   const supabase = createClient()
-  const payload: any = { ...changes }
-  
-  // Handle participants separately
-  const participants = payload.participants
-  delete payload.participants
-  
-  if ("date" in payload) {
-    payload.event_date = payload.date
-    delete payload.date
+  const { data, error } = await supabase.from("events").select("*").eq("id", id).single()
+  if (error) throw error
+  return data
+}
+
+/** Ocorrências removidas da série (a partir de `fromIso`, quando informado). */
+async function getExceptionDates(eventId: string, fromIso?: string): Promise<string[]> {
+  const supabase = createClient()
+  let query = supabase.from("event_exceptions").select("occurrence_date").eq("event_id", eventId)
+  if (fromIso) query = query.gte("occurrence_date", fromIso)
+  const { data, error } = await query
+  if (error) throw error
+  return (data ?? []).map((e: any) => e.occurrence_date)
+}
+
+async function addEventException(eventId: string, occurrenceDate: string): Promise<void> {
+  const supabase = createClient()
+  const { data: userRes } = await supabase.auth.getUser()
+  const { error } = await supabase
+    .from("event_exceptions")
+    .insert({
+      event_id: eventId,
+      occurrence_date: occurrenceDate,
+      created_by: userRes.user?.id ?? null,
+    })
+  if (error && error.code !== '23505') { // Ignore unique constraint violations
+    throw error
   }
-  if ("time" in payload) {
-    payload.event_time = payload.time
-    delete payload.time
+}
+
+/**
+ * Encerra a série antes de `occurrenceDate`, preservando o tipo de término
+ * (por data ou por número de ocorrências). Retorna a regra original.
+ */
+async function truncateSeries(series: any, occurrenceDate: string): Promise<RecurrenceRule> {
+  const supabase = createClient()
+  const rule = toRecurrenceRule(series)!
+  const truncated: RecurrenceRule =
+    rule.count != null
+      ? { ...rule, count: countOccurrencesBefore(series.event_date, rule, occurrenceDate) }
+      : { ...rule, until: addDays(occurrenceDate, -1) }
+
+  const { error } = await supabase
+    .from("events")
+    .update(recurrenceToColumns(truncated))
+    .eq("id", series.id)
+  if (error) throw error
+
+  return rule
+}
+
+/** "Editar somente este": remove a ocorrência da série e cria um evento avulso no lugar. */
+async function detachOccurrence(
+  series: any,
+  occurrenceDate: string,
+  changes: EventChanges,
+  options?: ConflictCheckOptions
+): Promise<void> {
+  const supabase = createClient()
+  const { data: userRes } = await supabase.auth.getUser()
+  const participants = changes.participants ?? (await getEventParticipants(series.id))
+  const externalParticipants =
+    changes.externalParticipants ?? (await getEventExternalParticipants(series.id))
+
+  if (changesSchedule(changes) && !options?.allowConflicts) {
+    await assertConflictsForRow(
+      series,
+      { ...changes, participants },
+      { date: changes.date ?? occurrenceDate, recurrence: null },
+      series.id
+    )
+  }
+
+  await addEventException(series.id, occurrenceDate)
+
+  const { recurrence: _recurrence, ...occurrenceChanges } = changes
+  await insertEventRow(
+    {
+      ...copySeriesColumns(series),
+      event_date: occurrenceDate,
+      ...toEventColumns(occurrenceChanges),
+      created_by: userRes.user?.id ?? null,
+      recurrence_parent_id: series.id,
+      recurrence_original_date: occurrenceDate,
+    },
+    participants,
+    externalParticipants
+  )
+}
+
+/** "Editar este e os seguintes": encerra a série atual e abre uma nova a partir da ocorrência. */
+async function splitSeries(
+  series: any,
+  occurrenceDate: string,
+  changes: EventChanges,
+  options?: ConflictCheckOptions
+): Promise<void> {
+  const supabase = createClient()
+  const { data: userRes } = await supabase.auth.getUser()
+  const participants = changes.participants ?? (await getEventParticipants(series.id))
+  const externalParticipants =
+    changes.externalParticipants ?? (await getEventExternalParticipants(series.id))
+
+  const rule = toRecurrenceRule(series)!
+  const remainingRule: RecurrenceRule =
+    rule.count != null
+      ? { ...rule, count: rule.count - countOccurrencesBefore(series.event_date, rule, occurrenceDate) }
+      : rule
+
+  // A regra reenviada sem alterações continua valendo só para as ocorrências restantes
+  const seriesChanges = { ...changes }
+  if (changes.recurrence && isSameRule(changes.recurrence, rule)) {
+    delete seriesChanges.recurrence
+  }
+
+  if (changesSchedule(changes) && !options?.allowConflicts) {
+    await assertConflictsForRow(
+      series,
+      { ...changes, participants },
+      {
+        date: changes.date ?? occurrenceDate,
+        recurrence: seriesChanges.recurrence !== undefined ? seriesChanges.recurrence : remainingRule,
+        skipDates: changes.date ? [] : await getExceptionDates(series.id, occurrenceDate),
+      },
+      series.id
+    )
   }
-  const { error } = await supabase.from("events").update(payload).eq("id", id)
+
+  await truncateSeries(series, occurrenceDate)
+
+  const newSeriesId = await insertEventRow(
+    {
+      ...copySeriesColumns(series),
+      event_date: occurrenceDate,
+      ...recurrenceToColumns(remainingRule),
+      ...toEventColumns(seriesChanges),
+      created_by: userRes.user?.id ?? null,
+    },
+    participants,
+    externalParticipants
+  )
+
+  // Exceções das ocorrências seguintes passam a pertencer à nova série
+  const { error } = await supabase
+    .from("event_exceptions")
+    .update({ event_id: newSeriesId })
+    .eq("event_id", series.id)
+    .gte("occurrence_date", occurrenceDate)
   if (error) throw error
-  
+}
+
+/** Alterações que mudam quem está ocupado e quando (e por isso exigem checar conflitos). */
+function changesSchedule(changes: EventChanges): boolean {
+  return (
+    changes.date !== undefined ||
+    changes.time !== undefined ||
+    "endTime" in changes ||
+    changes.type !== undefined ||
+    changes.participants !== undefined ||
+    changes.recurrence !== undefined
+  )
+}
+
+/**
+ * Verifica conflitos de `row` após aplicar `changes`. `slot` descreve o que será
+ * gravado: data (início da série), regra (null para evento avulso) e ocorrências
+ * a pular. Sem `changes.participants`, usa os participantes gravados no evento.
+ */
+async function assertConflictsForRow(
+  row: any,
+  changes: EventChanges,
+  slot: Pick<ConflictCheckParams, "date" | "recurrence" | "fromDate" | "skipDates">,
+  excludeEventId: string
+): Promise<void> {
+  if ((changes.type ?? row.type) === "deadline") return
+  await assertNoConflicts({
+    ...slot,
+    time: changes.time ?? normalizeTime(row.event_time),
+    endTime: "endTime" in changes ? changes.endTime : row.event_end_time,
+    participants: changes.participants ?? (await getEventParticipants(row.id)),
+    excludeEventId,
+  })
+}
+
+/** Data, regra e exceções do evento gravado após aplicar `changes`. */
+async function rowConflictSlot(
+  row: any,
+  changes: EventChanges,
+  fromDate?: string
+): Promise<Pick<ConflictCheckParams, "date" | "recurrence" | "fromDate" | "skipDates">> {
+  const recurrence = changes.recurrence !== undefined ? changes.recurrence : toRecurrenceRule(row)
+  return {
+    date: changes.date ?? row.event_date,
+    recurrence,
+    fromDate,
+    skipDates: recurrence && row.recurrence_frequency ? await getExceptionDates(row.id) : [],
+  }
+}
+
+/**
+ * @param fromDate - Ocorrência em edição de uma série: as anteriores não são verificadas
+ */
+async function applyEventChanges(
+  id: string,
+  changes: EventChanges,
+  options?: ConflictCheckOptions,
+  fromDate?: string
+): Promise<void> {
+  const supabase = createClient()
+  const payload = toEventColumns(changes)
+
+  // Verifica antes de gravar para não deixar a alteração pela metade
+  if (changesSchedule(changes) && !options?.allowConflicts) {
+    const row = await getEventRow(id)
+    await assertConflictsForRow(row, changes, await rowConflictSlot(row, changes, fromDate), id)
+  }
+
+  if (Object.keys(payload).length > 0) {
+    const { error } = await supabase.from("events").update(payload).eq("id", id)
+    if (error) throw error
+  }
+
   // Update participants if provided
-  if (participants !== undefined) {
-    await updateEventParticipants(id, participants)
+  if (changes.participants !== undefined) {
+    await updateEventParticipants(id, changes.participants, { allowConflicts: true })
   }
+
+  if (changes.externalParticipants !== undefined) {
+    await updateEventExternalParticipants(id, changes.externalParticipants)
+  }
+}
+
+/**
+ * Atualiza um evento. Para ocorrências de eventos recorrentes, `options` define
+ * se a alteração vale apenas para a ocorrência, para ela e as seguintes ou para
+ * a série inteira (padrão).
+ */
+export async function updateEvent(
+  id: string,
+  changes: EventChanges,
+  options?: UpdateEventOptions
+): Promise<void> {
+  if (!options?.scope || !options.occurrenceDate) return applyEventChanges(id, changes, options)
+
+  const series = await getEventRow(id)
+  if (!series.recurrence_frequency) return applyEventChanges(id, changes, options)
+
+  const { scope, occurrenceDate } = options
+  if (scope === "this") return detachOccurrence(series, occurrenceDate, changes, options)
+  if (scope === "following" && occurrenceDate > series.event_date) {
+    return splitSeries(series, occurrenceDate, changes, options)
+  }
+
+  // Série inteira: mover a ocorrência desloca o início da série pela mesma diferença
+  const seriesChanges = { ...changes }
+  if (changes.date && changes.date !== occurrenceDate) {
+    seriesChanges.date = addDays(series.event_date, diffInDays(occurrenceDate, changes.date))
+  } else {
+    delete seriesChanges.date
+  }
+  return applyEventChanges(id, seriesChanges, options, changes.date ?? occurrenceDate)
 }
 
-export async function deleteEvent(id: string): Promise<void> {
+/**
+ * Exclui um evento. Para ocorrências de eventos recorrentes, `options` define o
+ * escopo da exclusão (padrão: a série inteira).
+ */
+export async function deleteEvent(id: string, options?: RecurrenceEditOptions): Promise<void> {
   const supabase = createClient()
+
+  if (options) {
+    const series = await getEventRow(id)
+    if (series.recurrence_frequency) {
+      const { scope, occurrenceDate } = options
+      if (scope === "this") {
+        await addEventException(id, occurrenceDate)
+        return
+      }
+      if (scope === "following" && occurrenceDate > series.event_date) {
+        await truncateSeries(series, occurrenceDate)
+        const { error } = await supabase
+          .from("events")
+          .delete()
+          .eq("recurrence_parent_id", id)
+          .gte("recurrence_original_date", occurrenceDate)
+        if (error) throw error
+        return
+      }
+    }
+  }
+
   const { error } = await supabase.from("events").delete().eq("id", id)
   if (error) throw error
 }
@@ -178,6 +970,7 @@ export async function addEventParticipant(eventId: string, userId: string): Prom
   if (error && error.code !== '23505') { // Ignore unique constraint violations
     throw error
   }
+  if (!error) await notifyUsersAdded("event_participant", eventId, [userId])
 }
 
 export async function removeEventParticipant(eventId: string, userId: string): Promise<void> {
@@ -190,9 +983,25 @@ export async function removeEventParticipant(eventId: string, userId: string): P
   if (error) throw error
 }
 
-export async function updateEventParticipants(eventId: string, participants: string[]): Promise<void> {
+/**
+ * Substitui os participantes do evento. Recusa com `EventConflictError` quando
+ * algum participante já tem compromisso no mesmo horário, salvo `allowConflicts`.
+ */
+export async function updateEventParticipants(
+  eventId: string,
+  participants: string[],
+  options?: ConflictCheckOptions
+): Promise<void> {
   const supabase = createClient()
-  
+
+  if (!options?.allowConflicts && participants.length > 0) {
+    const event = await getEventRow(eventId)
+    await assertConflictsForRow(event, { participants }, await rowConflictSlot(event, {}), eventId)
+  }
+
+  // Quem já participava não é notificado de novo
+  const previousParticipants = await getEventParticipants(eventId)
+
   // Delete all existing participants
   await supabase
     .from("event_participants")
@@ -212,6 +1021,12 @@ export async function updateEventParticipants(eventId: string, participants: str
     
     if (error) throw error
   }
+
+  await notifyUsersAdded(
+    "event_participant",
+    eventId,
+    participants.filter((uid) => !previousParticipants.includes(uid))
+  )
 }
 
 export async function getEventParticipants(eventId: string): Promise<string[]> {
@@ -223,4 +1038,41 @@ export async function getEventParticipants(eventId: string): Promise<string[]> {
   
   if (error) throw error
   return (data ?? []).map((p: any) => p.user_id)
-}
\ No newline at end of file
+}
+
+/** Substitui os participantes externos do evento (contatos de clientes ou emails avulsos). */
+export async function updateEventExternalParticipants(
+  eventId: string,
+  externalParticipants: ExternalParticipant[]
+): Promise<void> {
+  const supabase = createClient()
+
+  const { error: deleteError } = await supabase
+    .from("event_external_participants")
+    .delete()
+    .eq("event_id", eventId)
+  if (deleteError) throw deleteError
+
+  if (externalParticipants.length > 0) {
+    const { error } = await supabase
+      .from("event_external_participants")
+      .insert(toExternalParticipantRows(eventId, externalParticipants))
+    if (error) throw error
+  }
+}
+
+export async function getEventExternalParticipants(eventId: string): Promise<ExternalParticipant[]> {
+  const supabase = createClient()
+  const { data, error } = await supabase
+    .from("event_external_participants")
+    .select("email, name, contact_id")
+    .eq("event_id", eventId)
+    .order("created_at")
+
+  if (error) throw error
+  return (data ?? []).map((p: any) => ({
+    email: p.email,
+    name: p.name ?? null,
+    contactId: p.contact_id ?? null,
+  }))
+}
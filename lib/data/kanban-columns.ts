@@ -7,6 +7,8 @@ export type KanbanColumn = {
   position: number
   project_id: string | null
   statusKey: string
+  wipLimit: number | null // máximo de tarefas na coluna (null = sem limite)
+  inProgress: boolean // coluna de trabalho em andamento (avisa sobre dependências pendentes)
 }
 
 const slugify = (value: string): string => {
@@ -47,7 +49,7 @@ export async function listKanbanColumns(projectId?: string | null): Promise<Kanb
 
   let query = supabase
     .from("kanban_columns")
-    .select("id, name, color, position, project_id, status_key")
+    .select("id, name, color, position, project_id, status_key, wip_limit, is_in_progress")
     .order("position", { ascending: true })
 
   // Colunas globais: use sempre `.is(null)` — nunca `.eq(..., null)` (vira "null" na URL e quebra uuid).
@@ -74,6 +76,8 @@ export async function listKanbanColumns(projectId?: string | null): Promise<Kanb
     position: col.position,
     project_id: col.project_id,
     statusKey: col.status_key,
+    wipLimit: col.wip_limit ?? null,
+    inProgress: !!col.is_in_progress,
   }))
 }
 
@@ -90,17 +94,23 @@ export async function createKanbanColumn(input: {
   name: string
   color?: string
   project_id?: string | null
+  is_in_progress?: boolean
 }): Promise<string> {
   const supabase = createClient()
 
-  // Buscar a próxima posição disponível
-  const { data: existingColumns } = await supabase
+  // Buscar a próxima posição disponível (entre as colunas do mesmo projeto)
+  let positionQuery = supabase
     .from("kanban_columns")
     .select("position")
-    .is("project_id", input.project_id ?? null)
     .order("position", { ascending: false })
     .limit(1)
 
+  positionQuery = input.project_id
+    ? positionQuery.eq("project_id", input.project_id)
+    : positionQuery.is("project_id", null)
+
+  const { data: existingColumns } = await positionQuery
+
   const nextPosition = existingColumns && existingColumns.length > 0
     ? existingColumns[0].position + 1
     : 0
@@ -111,6 +121,7 @@ export async function createKanbanColumn(input: {
     position: nextPosition,
     project_id: input.project_id ?? null,
     status_key: buildStatusKey(input.name),
+    is_in_progress: input.is_in_progress ?? false,
   }
 
   const { data, error } = await supabase
@@ -133,6 +144,8 @@ export async function updateKanbanColumn(
     name: string
     color: string
     position: number
+    wip_limit: number | null
+    is_in_progress: boolean
   }>
 ): Promise<void> {
   const supabase = createClient()
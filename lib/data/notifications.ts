@@ -0,0 +1,138 @@
+import { createClient } from "../supabase/client"
+import { NOTIFICATION_TYPES, type NotificationType } from "../utils/notifications"
+
+export type AppNotification = {
+  id: string
+  type: NotificationType
+  title: string
+  message: string | null
+  link: string | null
+  readAt: string | null
+  createdAt: string
+}
+
+export type NotificationPreference = {
+  type: NotificationType
+  inApp: boolean
+  email: boolean
+}
+
+/**
+ * Notificações mais recentes do usuário logado
+ */
+export async function listNotifications(limit = 30): Promise<AppNotification[]> {
+  const supabase = createClient()
+  const { data, error } = await supabase
+    .from("notifications")
+    .select("id, type, title, message, link, read_at, created_at")
+    .order("created_at", { ascending: false })
+    .limit(limit)
+
+  if (error) throw error
+
+  return (data ?? []).map((n: any) => ({
+    id: n.id,
+    type: n.type,
+    title: n.title,
+    message: n.message ?? null,
+    link: n.link ?? null,
+    readAt: n.read_at ?? null,
+    createdAt: n.created_at,
+  }))
+}
+
+export async function countUnreadNotifications(): Promise<number> {
+  const supabase = createClient()
+  const { count, error } = await supabase
+    .from("notifications")
+    .select("id", { count: "exact", head: true })
+    .is("read_at", null)
+
+  if (error) throw error
+  return count ?? 0
+}
+
+export async function markNotificationRead(id: string): Promise<void> {
+  const supabase = createClient()
+  const { error } = await supabase
+    .from("notifications")
+    .update({ read_at: new Date().toISOString() })
+    .eq("id", id)
+    .is("read_at", null)
+
+  if (error) throw error
+}
+
+export async function markAllNotificationsRead(): Promise<void> {
+  const supabase = createClient()
+  const { error } = await supabase
+    .from("notifications")
+    .update({ read_at: new Date().toISOString() })
+    .is("read_at", null)
+
+  if (error) throw error
+}
+
+/**
+ * Preferências do usuário logado para todos os tipos (sem linha salva, os dois canais ficam ativos)
+ */
+export async function listNotificationPreferences(): Promise<NotificationPreference[]> {
+  const supabase = createClient()
+  const { data, error } = await supabase
+    .from("notification_preferences")
+    .select("type, in_app, email")
+
+  if (error) throw error
+
+  const saved = new Map((data ?? []).map((p: any) => [p.type, p]))
+  return NOTIFICATION_TYPES.map(({ value }) => ({
+    type: value,
+    inApp: saved.get(value)?.in_app ?? true,
+    email: saved.get(value)?.email ?? true,
+  }))
+}
+
+export async function setNotificationPreference(preference: NotificationPreference): Promise<void> {
+  const supabase = createClient()
+  const { data: userRes } = await supabase.auth.getUser()
+  const userId = userRes.user?.id
+
+  if (!userId) throw new Error("Usuário não autenticado")
+
+  const { error } = await supabase.from("notification_preferences").upsert({
+    user_id: userId,
+    type: preference.type,
+    in_app: preference.inApp,
+    email: preference.email,
+    updated_at: new Date().toISOString(),
+  })
+
+  if (error) throw error
+}
+
+/**
+ * Notifica os usuários que acabaram de receber uma tarefa, entrar em um evento,
+ * passar a observar uma tarefa ou entrar na equipe de um projeto.
+ * O servidor confere a relação antes de notificar; falhas não desfazem a alteração.
+ */
+export async function notifyUsersAdded(
+  type: Exclude<NotificationType, "task_mention">,
+  entityId: string,
+  userIds: string[]
+): Promise<void> {
+  if (userIds.length === 0) return
+
+  try {
+    const res = await fetch("/api/notifications", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ type, entityId, userIds }),
+    })
+    if (!res.ok) {
+      const body = await res.json().catch(() => ({}))
+      console.error("Erro ao enviar notificações:", body.error ?? res.statusText)
+    }
+  } catch (err) {
+    console.error("Erro ao enviar notificações:", err)
+  }
+}
@@ -0,0 +1,210 @@
+import { createClient } from "../supabase/client"
+import { createKanbanColumn, listKanbanColumns } from "./kanban-columns"
+import { addChecklistItem, createTask, listChecklist, listTasks } from "./tasks"
+
+export type TemplateColumn = {
+  name: string
+  color: string
+  in_progress?: boolean // coluna de trabalho em andamento
+}
+
+export type TemplateTask = {
+  title: string
+  description: string | null
+  column_index: number | null // índice em kanban_columns
+  status: string | null // status_key global quando o modelo não tem colunas próprias
+  checklist: string[]
+}
+
+export type ProjectTemplate = {
+  id: string
+  name: string
+  description: string | null
+  kanbanColumns: TemplateColumn[]
+  tasks: TemplateTask[]
+  defaultMembers: string[] // Array of user IDs
+  driveFolders: string[] // "Laudos", "Fotos/Vistoria"
+  createdAt: string
+  updatedAt: string
+}
+
+const TEMPLATE_COLUMNS =
+  "id, name, description, kanban_columns, tasks, default_members, drive_folders, created_at, updated_at"
+
+function mapTemplate(t: any): ProjectTemplate {
+  return {
+    id: t.id,
+    name: t.name,
+    description: t.description ?? null,
+    kanbanColumns: Array.isArray(t.kanban_columns) ? t.kanban_columns : [],
+    tasks: Array.isArray(t.tasks) ? t.tasks : [],
+    defaultMembers: t.default_members ?? [],
+    driveFolders: t.drive_folders ?? [],
+    createdAt: t.created_at ?? "",
+    updatedAt: t.updated_at ?? "",
+  }
+}
+
+/**
+ * Lista os modelos de projeto em ordem alfabética
+ */
+export async function listProjectTemplates(): Promise<ProjectTemplate[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from("project_templates")
+    .select(TEMPLATE_COLUMNS)
+    .order("name", { ascending: true })
+
+  if (error) throw error
+
+  return (data ?? []).map(mapTemplate)
+}
+
+export async function getProjectTemplate(id: string): Promise<ProjectTemplate> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from("project_templates")
+    .select(TEMPLATE_COLUMNS)
+    .eq("id", id)
+    .single()
+
+  if (error) throw error
+
+  return mapTemplate(data)
+}
+
+/**
+ * Salva a estrutura de um projeto como modelo: colunas próprias, tarefas com
+ * checklist e equipe. Um modelo com o mesmo nome é sobrescrito.
+ */
+export async function saveProjectAsTemplate(
+  projectId: string,
+  input: { name: string; description?: string | null; driveFolders?: string[] }
+): Promise<string> {
+  const supabase = createClient()
+  const { data: userRes } = await supabase.auth.getUser()
+  const userId = userRes.user?.id
+
+  const name = input.name.trim()
+  if (!name) throw new Error("Informe o nome do modelo")
+
+  const { data: project, error: projectError } = await supabase
+    .from("projects")
+    .select("team_members")
+    .eq("id", projectId)
+    .single()
+
+  if (projectError) throw projectError
+
+  // Apenas colunas do próprio projeto; sem elas as tarefas guardam o status global
+  const columns = await listKanbanColumns(projectId)
+  const columnIndex = new Map(columns.map((col, index) => [col.statusKey, index]))
+
+  // Subtarefas não entram no modelo
+  const projectTasks = (await listTasks({ projectId })).filter((task) => !task.parentTask)
+  const tasks: TemplateTask[] = []
+  for (const task of projectTasks) {
+    const checklist = await listChecklist(task.id)
+    const index = columnIndex.get(task.status)
+    tasks.push({
+      title: task.title,
+      description: task.description,
+      column_index: index ?? null,
+      status: index === undefined ? task.status || null : null,
+      checklist: checklist.map((item) => item.text),
+    })
+  }
+
+  const payload = {
+    name,
+    description: input.description?.trim() || null,
+    kanban_columns: columns.map((col) => ({ name: col.name, color: col.color, in_progress: col.inProgress })),
+    tasks,
+    default_members: project.team_members ?? [],
+    drive_folders: (input.driveFolders ?? []).map((f) => f.trim()).filter(Boolean),
+    updated_at: new Date().toISOString(),
+  }
+
+  // Mesmo nome sem diferenciar maiúsculas (índice único em lower(name)); % e _ são literais
+  const { data: matches, error: existingError } = await supabase
+    .from("project_templates")
+    .select("id")
+    .ilike("name", name.replace(/[\\%_]/g, "\\$&"))
+    .limit(1)
+
+  if (existingError) throw existingError
+
+  const existing = matches?.[0]
+  if (existing) {
+    const { error } = await supabase.from("project_templates").update(payload).eq("id", existing.id)
+    if (error) throw error
+    return existing.id as string
+  }
+
+  const { data, error } = await supabase
+    .from("project_templates")
+    .insert({ ...payload, created_by: userId ?? null })
+    .select("id")
+    .single()
+
+  if (error) throw error
+
+  return data?.id as string
+}
+
+/**
+ * Cria no projeto as colunas, tarefas com checklist e pastas do Drive do modelo.
+ * A equipe padrão é aplicada por createProject antes da inserção.
+ */
+export async function applyProjectTemplate(projectId: string, template: ProjectTemplate): Promise<void> {
+  const columnIds: string[] = []
+  for (const column of template.kanbanColumns) {
+    columnIds.push(
+      await createKanbanColumn({
+        name: column.name,
+        color: column.color,
+        project_id: projectId,
+        is_in_progress: column.in_progress ?? false,
+      })
+    )
+  }
+  const createdColumns = columnIds.length > 0 ? await listKanbanColumns(projectId) : []
+  const statusKeys = columnIds.map((id) => createdColumns.find((col) => col.id === id)?.statusKey)
+
+  for (const task of template.tasks) {
+    const columnStatus = task.column_index !== null ? statusKeys[task.column_index] : undefined
+    const status = columnStatus ?? task.status ?? "todo"
+    // Tarefas iniciais do modelo não respeitam limite de WIP
+    const taskId = await createTask(
+      {
+        title: task.title,
+        description: task.description,
+        project_id: projectId,
+        status,
+      },
+      { allowOverLimit: true }
+    )
+    for (const text of task.checklist) {
+      await addChecklistItem(taskId, text)
+    }
+  }
+
+  if (template.driveFolders.length === 0) return
+
+  // Drive é opcional: o projeto continua válido se a criação das pastas falhar
+  try {
+    const res = await fetch(`/api/projects/${projectId}/folders`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ folders: template.driveFolders }),
+    })
+    if (!res.ok) {
+      const body = await res.json().catch(() => ({}))
+      console.error("Erro ao criar pastas do modelo no Drive:", body.error ?? res.statusText)
+    }
+  } catch (err) {
+    console.error("Erro ao criar pastas do modelo no Drive:", err)
+  }
+}
@@ -1,6 +1,8 @@
 import { createClient } from "../supabase/client";
 import type { Project } from "../types";
 import type { KanbanColumn } from "./kanban-columns";
+import { notifyUsersAdded } from "./notifications";
+import { applyProjectTemplate, getProjectTemplate } from "./project-templates";
 import type { ProjectStatus } from "./project-statuses";
 import type { KanbanTask, Profile, ProjectChecklistSummary } from "./tasks";
 
@@ -69,6 +71,7 @@ export type ProjectListItem = {
   name: string;
   clientName: string;
   status: ProjectStatusUI;
+  startDate: string | null;
   endDate: string | null;
   statusId: string | null;
   statusColor: string | null;
@@ -96,6 +99,7 @@ export async function listProjects(params?: { search?: string; status?: string;
       name,
       status,
       status_id,
+      start_date,
       end_date,
       color,
       client_id,
@@ -126,6 +130,7 @@ export async function listProjects(params?: { search?: string; status?: string;
     name: p.name ?? "",
     clientName: p.clients?.name ?? "",
     status: p.status_ref?.name ?? mapDbStatusToUI(p.status ?? undefined),
+    startDate: p.start_date ?? null,
     endDate: p.end_date ?? null,
     statusId: p.status_id ?? p.status_ref?.id ?? null,
     statusColor: p.status_ref?.color ?? getFallbackStatusColor(p.status ?? undefined),
@@ -141,16 +146,22 @@ export async function createProject(input: {
   status?: string;
   endDate: string | null; // ISO date string
   teamMembers?: string[]; // Array of user IDs
+  templateId?: string | null; // Modelo com colunas, tarefas, equipe e pastas do Drive
+  estimatedValue?: number | null; // Valor previsto, ex.: do negócio ganho no pipeline
 }): Promise<Project> {
   const supabase = createClient();
   const { data: userRes } = await supabase.auth.getUser();
   const userId = userRes.user?.id;
   if (!userId) throw new Error("Usuário não autenticado");
 
-  // Include creator in team_members by default
-  const teamMembers = input.teamMembers ?? [];
-  if (!teamMembers.includes(userId)) {
-    teamMembers.push(userId);
+  const template = input.templateId ? await getProjectTemplate(input.templateId) : null;
+
+  // Include creator and template members in team_members by default
+  const teamMembers = [...(input.teamMembers ?? [])];
+  for (const memberId of [...(template?.defaultMembers ?? []), userId]) {
+    if (!teamMembers.includes(memberId)) {
+      teamMembers.push(memberId);
+    }
   }
 
   const { data: defaultStatusRow } = await supabase
@@ -169,6 +180,7 @@ export async function createProject(input: {
     status: mapUIStatusToDb(input.status) ?? "backlog",
     status_id: defaultStatusRow?.id ?? null,
     end_date: input.endDate ?? null,
+    estimated_value: input.estimatedValue ?? null,
     created_by: userId,
     team_members: teamMembers,
   };
@@ -180,6 +192,13 @@ export async function createProject(input: {
     .single();
 
   if (error) throw error;
+
+  await notifyUsersAdded("project_team", (data as Project).id, teamMembers);
+
+  if (template) {
+    await applyProjectTemplate((data as Project).id, template);
+  }
+
   return data as Project;
 }
 
@@ -458,7 +477,7 @@ export async function getProjectSinglePageBundle(projectId: string): Promise<Pro
     statusId,
     statusColor,
     priority: null,
-    startDate: null,
+    startDate: (projectRaw.start_date as string | null) ?? null,
     endDate: (projectRaw.end_date as string | null) ?? null,
     budget: null,
     progress: null,
@@ -502,6 +521,8 @@ export async function getProjectSinglePageBundle(projectId: string): Promise<Pro
     position: column.position ?? 0,
     project_id: column.project_id ?? null,
     statusKey: column.status_key ?? "",
+    wipLimit: column.wip_limit ?? null,
+    inProgress: !!column.is_in_progress,
   })) as KanbanColumn[];
 
   const columnsByStatus = new Map(columns.map((column) => [column.statusKey, column]));
@@ -518,6 +539,13 @@ export async function getProjectSinglePageBundle(projectId: string): Promise<Pro
       assigneeId: task.assigned_to ?? null,
       watchers: Array.isArray(task.watchers) ? task.watchers : [],
       labels: Array.isArray(task.labels) ? task.labels : [],
+      parentTask: task.parent_task_id
+        ? { id: task.parent_task_id, title: task.parent_title ?? "" }
+        : null,
+      subtasks: {
+        total: task.subtasks_total ?? 0,
+        completed: task.subtasks_completed ?? 0,
+      },
       createdAt: task.created_at ?? "",
       updatedAt: task.updated_at ?? "",
       project: {
@@ -583,6 +611,8 @@ export async function getProjectSinglePageBundle(projectId: string): Promise<Pro
     totalItems: checklistRaw.total_items ?? 0,
     completedItems: checklistRaw.completed_items ?? 0,
     completionPercentage: checklistRaw.completion_percentage ?? 0,
+    totalSubtasks: checklistRaw.total_subtasks ?? 0,
+    completedSubtasks: checklistRaw.completed_subtasks ?? 0,
   };
 
   return {
@@ -662,11 +692,21 @@ export async function updateProjectMemberRole(
 
 export async function updateProjectTeamMembers(projectId: string, teamMembers: string[]): Promise<void> {
   const supabase = createClient();
+  const { data: project, error: fetchError } = await supabase
+    .from("projects")
+    .select("team_members")
+    .eq("id", projectId)
+    .single();
+  if (fetchError) throw fetchError;
+
   const { error } = await supabase
     .from("projects")
     .update({ team_members: teamMembers })
     .eq("id", projectId);
   if (error) throw error;
+
+  const currentMembers: string[] = project.team_members || [];
+  await notifyUsersAdded("project_team", projectId, teamMembers.filter((id) => !currentMembers.includes(id)));
 }
 
 export async function addTeamMember(projectId: string, userId: string): Promise<void> {
@@ -690,6 +730,7 @@ export async function addTeamMember(projectId: string, userId: string): Promise<
       .eq("id", projectId);
     
     if (error) throw error;
+    await notifyUsersAdded("project_team", projectId, [userId]);
   }
 }
 
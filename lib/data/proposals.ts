@@ -0,0 +1,193 @@
+import { createClient } from "../supabase/client"
+import type { EmailRecipient } from "./client-contacts"
+import {
+  computeProposalTotals,
+  type ProposalItem,
+  type ProposalTax,
+} from "../utils/proposals"
+
+export type ProposalStatus = "draft" | "sent"
+
+export type Proposal = {
+  id: string
+  number: number
+  clientId: string
+  clientName: string
+  dealId: string | null
+  dealTitle: string | null
+  title: string
+  items: ProposalItem[]
+  taxes: ProposalTax[]
+  subtotal: number
+  taxTotal: number
+  total: number
+  validUntil: string // YYYY-MM-DD
+  paymentTerms: string | null
+  notes: string | null
+  status: ProposalStatus
+  driveFileId: string | null
+  driveWebViewLink: string | null
+  sentAt: string | null
+  sentTo: string[]
+  createdAt: string
+  updatedAt: string
+}
+
+export type ProposalInput = {
+  clientId: string
+  dealId?: string | null
+  title: string
+  items: ProposalItem[]
+  taxes: ProposalTax[]
+  validUntil: string
+  paymentTerms?: string | null
+  notes?: string | null
+}
+
+export type SendProposalInput = {
+  to: EmailRecipient[]
+  cc?: EmailRecipient[]
+  subject: string
+  message: string
+  resend?: boolean // reenvio de proposta já enviada (mantém o PDF guardado no Drive)
+}
+
+const PROPOSAL_COLUMNS =
+  "id, number, client_id, deal_id, title, items, taxes, subtotal, tax_total, total, valid_until, payment_terms, notes, status, drive_file_id, drive_web_view_link, sent_at, sent_to, created_at, updated_at, clients(id, name), deals(id, title)"
+
+function mapProposal(row: any): Proposal {
+  return {
+    id: row.id,
+    number: Number(row.number),
+    clientId: row.client_id,
+    clientName: row.clients?.name ?? "",
+    dealId: row.deal_id ?? null,
+    dealTitle: row.deals?.title ?? null,
+    title: row.title,
+    items: Array.isArray(row.items) ? row.items : [],
+    taxes: Array.isArray(row.taxes) ? row.taxes : [],
+    subtotal: Number(row.subtotal ?? 0),
+    taxTotal: Number(row.tax_total ?? 0),
+    total: Number(row.total ?? 0),
+    validUntil: row.valid_until,
+    paymentTerms: row.payment_terms ?? null,
+    notes: row.notes ?? null,
+    status: row.status as ProposalStatus,
+    driveFileId: row.drive_file_id ?? null,
+    driveWebViewLink: row.drive_web_view_link ?? null,
+    sentAt: row.sent_at ?? null,
+    sentTo: row.sent_to ?? [],
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  }
+}
+
+function toProposalColumns(input: ProposalInput): Record<string, any> {
+  const items = input.items.map((item) => ({
+    description: item.description.trim(),
+    quantity: item.quantity,
+    unitPrice: item.unitPrice,
+  }))
+  const taxes = input.taxes.map((tax) => ({ name: tax.name.trim(), rate: tax.rate }))
+  const totals = computeProposalTotals(items, taxes)
+  return {
+    client_id: input.clientId,
+    deal_id: input.dealId || null,
+    title: input.title.trim(),
+    items,
+    taxes,
+    subtotal: totals.subtotal,
+    tax_total: totals.taxTotal,
+    total: totals.total,
+    valid_until: input.validUntil,
+    payment_terms: input.paymentTerms?.trim() || null,
+    notes: input.notes?.trim() || null,
+  }
+}
+
+async function readResponse<T>(res: Response, fallback: string): Promise<T> {
+  const body = await res.json().catch(() => ({}))
+  if (!res.ok) throw new Error(body.error ?? fallback)
+  return body.data as T
+}
+
+/**
+ * Lista as propostas de um cliente (ou de um negócio), mais recentes primeiro
+ */
+export async function listProposals(filters: { clientId?: string; dealId?: string } = {}): Promise<Proposal[]> {
+  const supabase = createClient()
+  let query = supabase.from("proposals").select(PROPOSAL_COLUMNS).order("created_at", { ascending: false })
+  if (filters.clientId) query = query.eq("client_id", filters.clientId)
+  if (filters.dealId) query = query.eq("deal_id", filters.dealId)
+
+  const { data, error } = await query
+  if (error) throw error
+  return (data ?? []).map(mapProposal)
+}
+
+export async function createProposal(input: ProposalInput): Promise<Proposal> {
+  const supabase = createClient()
+  const { data, error } = await supabase
+    .from("proposals")
+    .insert(toProposalColumns(input))
+    .select(PROPOSAL_COLUMNS)
+    .single()
+  if (error) throw error
+  return mapProposal(data)
+}
+
+/**
+ * Atualiza um rascunho. Propostas enviadas não mudam — para revisar, duplique.
+ */
+export async function updateProposal(id: string, input: ProposalInput): Promise<Proposal> {
+  const supabase = createClient()
+  const { data, error } = await supabase
+    .from("proposals")
+    .update(toProposalColumns(input))
+    .eq("id", id)
+    .eq("status", "draft")
+    .select(PROPOSAL_COLUMNS)
+    .maybeSingle()
+  if (error) throw error
+  if (!data) throw new Error("Propostas enviadas não podem ser alteradas")
+  return mapProposal(data)
+}
+
+export async function deleteProposal(id: string): Promise<void> {
+  const supabase = createClient()
+  const { error } = await supabase.from("proposals").delete().eq("id", id)
+  if (error) throw error
+}
+
+/** URL do PDF gerado na hora (visualização e download) */
+export function getProposalPdfUrl(id: string, download = false): string {
+  return `/api/proposals/${id}/pdf${download ? "?download=1" : ""}`
+}
+
+/**
+ * Gera o PDF e guarda na pasta "Propostas" do cliente no Drive
+ */
+export async function saveProposalPdfToDrive(id: string): Promise<Proposal> {
+  const res = await fetch(`/api/proposals/${id}/pdf`, { method: "POST" })
+  return mapProposal(await readResponse<any>(res, "Erro ao salvar o PDF no Drive"))
+}
+
+/**
+ * Gera o PDF, guarda no Drive e envia por email como anexo. O negócio
+ * vinculado ainda em "Lead" passa para "Proposta enviada". Proposta já
+ * enviada só é reenviada com `resend`, sem substituir o PDF do Drive.
+ */
+export async function sendProposal(id: string, input: SendProposalInput): Promise<Proposal> {
+  const res = await fetch(`/api/proposals/${id}/send`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      to: input.to.map((r) => r.email),
+      cc: (input.cc ?? []).map((r) => r.email),
+      subject: input.subject,
+      message: input.message,
+      resend: input.resend ?? false,
+    }),
+  })
+  return mapProposal(await readResponse<any>(res, "Erro ao enviar a proposta"))
+}
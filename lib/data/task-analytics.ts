@@ -0,0 +1,174 @@
+import { addDays, differenceInCalendarDays, endOfDay, format, startOfDay, startOfWeek, subWeeks } from "date-fns"
+import { ptBR } from "date-fns/locale"
+import { createClient } from "../supabase/client"
+import type { KanbanColumn } from "./kanban-columns"
+import { DONE_STATUS } from "./tasks"
+
+export type TaskStatusTransition = {
+  taskId: string
+  fromStatus: string | null
+  toStatus: string
+  changedAt: string // ISO
+}
+
+export type FlowAnalytics = {
+  doneStatus: string | null
+  // Uma linha por dia (ou semana, em projetos longos) com a quantidade de tarefas em cada coluna
+  cumulativeFlow: ({ date: string } & Record<string, number | string>)[]
+  // Tempo médio por passagem em cada coluna (apenas passagens já encerradas)
+  timeInColumn: { statusKey: string; name: string; color: string; averageDays: number; samples: number }[]
+  leadTimeDays: number | null // criação → conclusão
+  cycleTimeDays: number | null // saída da primeira coluna → conclusão
+  completedCount: number
+  throughput: { week: string; count: number }[] // week = início da semana (dd/MM)
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+const MAX_DAILY_POINTS = 120
+const THROUGHPUT_WEEKS = 12
+
+/**
+ * Transições de coluna de todas as tarefas do projeto, em ordem cronológica
+ */
+export async function listProjectStatusHistory(projectId: string): Promise<TaskStatusTransition[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from("task_status_history")
+    .select("task_id, from_status, to_status, changed_at, tasks!inner(project_id)")
+    .eq("tasks.project_id", projectId)
+    .order("changed_at", { ascending: true })
+
+  if (error) throw error
+
+  return (data ?? []).map((h: any) => ({
+    taskId: h.task_id,
+    fromStatus: h.from_status ?? null,
+    toStatus: h.to_status,
+    changedAt: h.changed_at,
+  }))
+}
+
+/**
+ * Coluna de conclusão: "done" quando existe; senão a última coluna do fluxo
+ * (projetos com colunas próprias usam chaves geradas)
+ */
+function resolveDoneStatus(columns: KanbanColumn[]): string | null {
+  if (columns.some((col) => col.statusKey === DONE_STATUS)) return DONE_STATUS
+  const ordered = [...columns].sort((a, b) => a.position - b.position)
+  return ordered[ordered.length - 1]?.statusKey ?? null
+}
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null
+  return values.reduce((sum, value) => sum + value, 0) / values.length
+}
+
+export function computeFlowAnalytics(
+  transitions: TaskStatusTransition[],
+  columns: KanbanColumn[],
+  now: Date = new Date()
+): FlowAnalytics {
+  const doneStatus = resolveDoneStatus(columns)
+  const columnKeys = new Set(columns.map((col) => col.statusKey))
+
+  const byTask = new Map<string, { status: string; at: number }[]>()
+  transitions.forEach((t) => {
+    const list = byTask.get(t.taskId) ?? []
+    list.push({ status: t.toStatus, at: new Date(t.changedAt).getTime() })
+    byTask.set(t.taskId, list)
+  })
+  byTask.forEach((list) => list.sort((a, b) => a.at - b.at))
+
+  // Fluxo cumulativo: status de cada tarefa ao fim de cada dia (ou semana)
+  const cumulativeFlow: FlowAnalytics["cumulativeFlow"] = []
+  if (transitions.length > 0) {
+    const firstAt = transitions.reduce((min, t) => Math.min(min, new Date(t.changedAt).getTime()), Infinity)
+    const first = startOfDay(new Date(firstAt))
+    const totalDays = differenceInCalendarDays(now, first) + 1
+    const step = totalDays > MAX_DAILY_POINTS ? 7 : 1
+    const samples: Date[] = []
+    for (let day = 0; day < totalDays; day += step) {
+      samples.push(endOfDay(addDays(first, day)))
+    }
+    if (samples[samples.length - 1].getTime() < endOfDay(now).getTime()) samples.push(endOfDay(now))
+
+    const counts = samples.map(() => new Map<string, number>())
+    byTask.forEach((list) => {
+      let index = -1
+      samples.forEach((sample, sampleIndex) => {
+        while (index + 1 < list.length && list[index + 1].at <= sample.getTime()) index++
+        if (index < 0) return
+        const status = list[index].status
+        if (!columnKeys.has(status)) return
+        counts[sampleIndex].set(status, (counts[sampleIndex].get(status) ?? 0) + 1)
+      })
+    })
+
+    samples.forEach((sample, sampleIndex) => {
+      const row: { date: string } & Record<string, number | string> = { date: format(sample, "dd/MM") }
+      columns.forEach((col) => {
+        row[col.statusKey] = counts[sampleIndex].get(col.statusKey) ?? 0
+      })
+      cumulativeFlow.push(row)
+    })
+  }
+
+  // Tempo em cada coluna e tempos de ciclo / entrega das tarefas concluídas
+  const stints = new Map<string, number[]>()
+  const leadTimes: number[] = []
+  const cycleTimes: number[] = []
+  byTask.forEach((list) => {
+    for (let i = 0; i < list.length - 1; i++) {
+      const days = (list[i + 1].at - list[i].at) / MS_PER_DAY
+      const current = stints.get(list[i].status) ?? []
+      current.push(days)
+      stints.set(list[i].status, current)
+    }
+
+    const last = list[list.length - 1]
+    if (!doneStatus || last.status !== doneStatus) return
+    const created = list[0]
+    const started = list.find((entry) => entry.status !== created.status) ?? last
+    leadTimes.push((last.at - created.at) / MS_PER_DAY)
+    cycleTimes.push((last.at - started.at) / MS_PER_DAY)
+  })
+
+  const timeInColumn = columns
+    .filter((col) => col.statusKey !== doneStatus)
+    .map((col) => {
+      const values = stints.get(col.statusKey) ?? []
+      return {
+        statusKey: col.statusKey,
+        name: col.name,
+        color: col.color,
+        averageDays: average(values) ?? 0,
+        samples: values.length,
+      }
+    })
+
+  // Vazão: tarefas que chegaram à conclusão por semana
+  const weekStart = (date: Date) => startOfWeek(date, { locale: ptBR })
+  const firstWeek = weekStart(subWeeks(now, THROUGHPUT_WEEKS - 1))
+  const throughputCounts = new Map<number, number>()
+  transitions.forEach((t) => {
+    if (!doneStatus || t.toStatus !== doneStatus || t.fromStatus === doneStatus) return
+    const week = weekStart(new Date(t.changedAt))
+    if (week < firstWeek) return
+    throughputCounts.set(week.getTime(), (throughputCounts.get(week.getTime()) ?? 0) + 1)
+  })
+  const throughput = Array.from({ length: THROUGHPUT_WEEKS }, (_, i) => {
+    const week = addDays(firstWeek, i * 7)
+    return { week: format(week, "dd/MM"), count: throughputCounts.get(week.getTime()) ?? 0 }
+  })
+
+  return {
+    doneStatus,
+    cumulativeFlow,
+    timeInColumn,
+    leadTimeDays: average(leadTimes),
+    cycleTimeDays: average(cycleTimes),
+    completedCount: leadTimes.length,
+    throughput,
+  }
+}
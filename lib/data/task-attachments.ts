@@ -0,0 +1,50 @@
+export type TaskAttachment = {
+  id: string
+  name: string
+  mime_type: string
+  size_bytes: number
+  web_view_link: string | null
+  uploaded_by: string | null
+  created_at: string
+}
+
+async function readResponse<T>(res: Response, fallback: string): Promise<T> {
+  const body = await res.json().catch(() => ({}))
+  if (!res.ok) throw new Error(body.error ?? fallback)
+  return body.data as T
+}
+
+/**
+ * Lista os arquivos anexados a uma tarefa (mais recentes primeiro)
+ */
+export async function listTaskAttachments(taskId: string): Promise<TaskAttachment[]> {
+  const res = await fetch(`/api/tasks/${taskId}/attachments`)
+  const data = await readResponse<any[]>(res, "Erro ao carregar anexos")
+  return data.map((f) => ({
+    id: f.id,
+    name: f.original_name || f.name,
+    mime_type: f.mime_type,
+    size_bytes: Number(f.size_bytes ?? 0),
+    web_view_link: f.web_view_link ?? null,
+    uploaded_by: f.uploaded_by ?? null,
+    created_at: f.created_at,
+  }))
+}
+
+/**
+ * Envia um arquivo para a pasta da tarefa no Drive (a tarefa precisa ter projeto)
+ */
+export async function uploadTaskAttachment(taskId: string, file: File): Promise<void> {
+  const formData = new FormData()
+  formData.append("file", file)
+  const res = await fetch(`/api/tasks/${taskId}/attachments`, { method: "POST", body: formData })
+  await readResponse(res, "Erro ao enviar anexo")
+}
+
+/**
+ * Remove o anexo do Drive e da tabela `files`
+ */
+export async function deleteTaskAttachment(id: string): Promise<void> {
+  const res = await fetch(`/api/files/${id}`, { method: "DELETE" })
+  await readResponse(res, "Erro ao excluir anexo")
+}
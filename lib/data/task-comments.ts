@@ -5,6 +5,7 @@ export type TaskComment = {
   task_id: string
   user_id: string | null
   text: string
+  mentioned_user_ids: string[]
   created_at: string
   updated_at: string
   author_name: string
@@ -19,7 +20,7 @@ export async function listComments(taskId: string): Promise<TaskComment[]> {
 
   const { data, error } = await supabase
     .from("task_comments")
-    .select("id, task_id, user_id, text, created_at, updated_at, profiles:profiles!task_comments_user_id_fkey(full_name, avatar_url)")
+    .select("id, task_id, user_id, text, mentioned_user_ids, created_at, updated_at, profiles:profiles!task_comments_user_id_fkey(full_name, avatar_url)")
     .eq("task_id", taskId)
     .order("created_at", { ascending: true })
 
@@ -30,6 +31,7 @@ export async function listComments(taskId: string): Promise<TaskComment[]> {
     task_id: c.task_id,
     user_id: c.user_id,
     text: c.text ?? "",
+    mentioned_user_ids: c.mentioned_user_ids ?? [],
     created_at: c.created_at,
     updated_at: c.updated_at,
     author_name: c.profiles?.full_name ?? "Usuário Desconhecido",
@@ -37,10 +39,35 @@ export async function listComments(taskId: string): Promise<TaskComment[]> {
   }))
 }
 
+/**
+ * Avisa o servidor sobre as menções de um comentário: os mencionados viram
+ * observadores da tarefa e recebem notificação no app e por email.
+ * Falhas não desfazem o comentário.
+ */
+async function notifyMentions(taskId: string, commentId: string, userIds?: string[]): Promise<void> {
+  try {
+    const res = await fetch(`/api/tasks/${taskId}/mentions`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ commentId, userIds }),
+    })
+    if (!res.ok) {
+      const body = await res.json().catch(() => ({}))
+      console.error("Erro ao notificar menções do comentário:", body.error ?? res.statusText)
+    }
+  } catch (err) {
+    console.error("Erro ao notificar menções do comentário:", err)
+  }
+}
+
 /**
  * Cria um novo comentário
  */
-export async function createComment(taskId: string, text: string): Promise<string> {
+export async function createComment(
+  taskId: string,
+  text: string,
+  mentionedUserIds: string[] = []
+): Promise<string> {
   const supabase = createClient()
 
   const { data: userRes } = await supabase.auth.getUser()
@@ -54,29 +81,62 @@ export async function createComment(taskId: string, text: string): Promise<strin
       task_id: taskId,
       user_id: userId,
       text: text.trim(),
+      mentioned_user_ids: mentionedUserIds,
     })
     .select("id")
     .single()
 
   if (error) throw error
 
+  if (mentionedUserIds.length > 0) {
+    await notifyMentions(taskId, data.id)
+  }
+
   return data?.id as string
 }
 
 /**
- * Atualiza um comentário existente
+ * Atualiza um comentário existente. Só quem foi mencionado pela primeira vez
+ * na edição é notificado.
  */
-export async function updateComment(id: string, text: string): Promise<void> {
+export async function updateComment(id: string, text: string, mentionedUserIds?: string[]): Promise<void> {
   const supabase = createClient()
 
+  if (!mentionedUserIds) {
+    const { error } = await supabase
+      .from("task_comments")
+      .update({
+        text: text.trim(),
+      })
+      .eq("id", id)
+
+    if (error) throw error
+    return
+  }
+
+  const { data: current, error: fetchError } = await supabase
+    .from("task_comments")
+    .select("task_id, mentioned_user_ids")
+    .eq("id", id)
+    .single()
+
+  if (fetchError) throw fetchError
+
   const { error } = await supabase
     .from("task_comments")
     .update({
       text: text.trim(),
+      mentioned_user_ids: mentionedUserIds,
     })
     .eq("id", id)
 
   if (error) throw error
+
+  const previous: string[] = current.mentioned_user_ids ?? []
+  const added = mentionedUserIds.filter((userId) => !previous.includes(userId))
+  if (added.length > 0) {
+    await notifyMentions(current.task_id, id, added)
+  }
 }
 
 /**
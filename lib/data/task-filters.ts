@@ -0,0 +1,124 @@
+import { endOfWeek, format, startOfWeek } from "date-fns"
+import { ptBR } from "date-fns/locale"
+import { createClient } from "../supabase/client"
+import type { TaskFilters } from "./tasks"
+
+export type SavedTaskFilter = {
+  id: string
+  name: string
+  filters: TaskFilters
+  isShared: boolean // compartilhado com o grupo do dono
+  isOwner: boolean
+}
+
+// Parâmetros da URL do /kanban ↔ campos de TaskFilters
+const URL_PARAMS: Record<string, keyof TaskFilters> = {
+  project: "projectId",
+  status: "status",
+  assignee: "assigneeId",
+  from: "dateStart",
+  to: "dateEnd",
+  q: "searchText",
+}
+
+// Campos que podem ser salvos em um filtro (parentTaskId é interno)
+const SAVED_FIELDS = Object.values(URL_PARAMS)
+
+function cleanFilters(filters: TaskFilters): TaskFilters {
+  const result: TaskFilters = {}
+  for (const field of SAVED_FIELDS) {
+    const value = filters[field]
+    if (typeof value === "string" && value.trim() !== "") result[field] = value
+  }
+  return result
+}
+
+export function hasActiveTaskFilters(filters: TaskFilters): boolean {
+  return Object.keys(cleanFilters(filters)).length > 0
+}
+
+/**
+ * Serializa os filtros para a query string do /kanban (ex.: "assignee=...&to=2026-10-25")
+ */
+export function taskFiltersToSearchParams(filters: TaskFilters): URLSearchParams {
+  const params = new URLSearchParams()
+  const cleaned = cleanFilters(filters)
+  for (const [param, field] of Object.entries(URL_PARAMS)) {
+    const value = cleaned[field]
+    if (value) params.set(param, value)
+  }
+  return params
+}
+
+export function taskFiltersFromSearchParams(params: URLSearchParams | { get(name: string): string | null }): TaskFilters {
+  const filters: TaskFilters = {}
+  for (const [param, field] of Object.entries(URL_PARAMS)) {
+    const value = params.get(param)
+    if (value) filters[field] = value
+  }
+  return cleanFilters(filters)
+}
+
+/**
+ * Visão padrão "Minhas tarefas da semana": tarefas do usuário com prazo na semana atual
+ */
+export function myTasksDueThisWeek(userId: string, today: Date = new Date()): TaskFilters {
+  return {
+    assigneeId: userId,
+    dateStart: format(startOfWeek(today, { locale: ptBR }), "yyyy-MM-dd"),
+    dateEnd: format(endOfWeek(today, { locale: ptBR }), "yyyy-MM-dd"),
+  }
+}
+
+/**
+ * Lista os filtros do usuário e os compartilhados pelo seu grupo (RLS)
+ */
+export async function listSavedTaskFilters(): Promise<SavedTaskFilter[]> {
+  const supabase = createClient()
+  const { data: userRes } = await supabase.auth.getUser()
+  const userId = userRes.user?.id
+
+  const { data, error } = await supabase
+    .from("saved_task_filters")
+    .select("id, name, filters, owner_id, is_shared")
+    .order("name", { ascending: true })
+
+  if (error) throw error
+
+  return (data ?? []).map((f: any) => ({
+    id: f.id,
+    name: f.name,
+    filters: cleanFilters(f.filters ?? {}),
+    isShared: !!f.is_shared,
+    isOwner: f.owner_id === userId,
+  }))
+}
+
+export async function saveTaskFilter(input: {
+  name: string
+  filters: TaskFilters
+  isShared: boolean
+}): Promise<string> {
+  const supabase = createClient()
+
+  const name = input.name.trim()
+  if (!name) throw new Error("Informe o nome do filtro")
+
+  const { data, error } = await supabase
+    .from("saved_task_filters")
+    .insert({ name, filters: cleanFilters(input.filters), is_shared: input.isShared })
+    .select("id")
+    .single()
+
+  if (error) throw error
+
+  return data?.id as string
+}
+
+export async function deleteSavedTaskFilter(id: string): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase.from("saved_task_filters").delete().eq("id", id)
+
+  if (error) throw error
+}
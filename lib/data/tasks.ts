@@ -1,4 +1,28 @@
+import { format } from "date-fns"
 import { createClient } from "../supabase/client"
+import { ColumnWipLimitError, TaskBlockedError, TaskDependencyCycleError } from "../types"
+import { notifyUsersAdded } from "./notifications"
+import {
+  createNextTaskInstance,
+  taskRecurrenceToColumns,
+  toTaskRecurrence,
+  TASK_RECURRENCE_COLUMNS,
+  type TaskRecurrence,
+  type TaskRecurrenceMode,
+} from "../utils/task-recurrence"
+import type { RecurrenceRule } from "../utils/recurrence"
+
+export type { TaskRecurrence, TaskRecurrenceMode } from "../utils/task-recurrence"
+
+export type TaskPriority = "low" | "medium" | "high" | "urgent"
+
+// Da mais para a menos urgente (coluna tasks.priority)
+export const TASK_PRIORITIES: { value: TaskPriority; label: string }[] = [
+  { value: "urgent", label: "Urgente" },
+  { value: "high", label: "Alta" },
+  { value: "medium", label: "Média" },
+  { value: "low", label: "Baixa" },
+]
 
 export type KanbanTask = {
   id: string
@@ -10,6 +34,11 @@ export type KanbanTask = {
   assigneeId: string | null // profile id
   watchers: string[] // Array of user IDs
   labels?: string[]
+  priority?: TaskPriority
+  blockedBy?: string[] // ids das tarefas das quais esta depende
+  parentTask?: { id: string; title: string } | null // preenchido em subtarefas
+  subtasks?: { total: number; completed: number }
+  recurrence?: TaskRecurrence | null // regra da série quando a tarefa é recorrente
   createdAt: string // ISO date
   updatedAt: string // ISO date
   project?: {
@@ -33,12 +62,16 @@ export type TaskFilters = {
   dateStart?: string // YYYY-MM-DD
   dateEnd?: string // YYYY-MM-DD
   searchText?: string
+  parentTaskId?: string
 }
 
+// Itens de checklist + subtarefas de todas as tarefas do projeto
 export type ProjectChecklistSummary = {
   totalItems: number
   completedItems: number
   completionPercentage: number
+  totalSubtasks: number
+  completedSubtasks: number
 }
 
 export async function listTasks(params?: TaskFilters): Promise<KanbanTask[]> {
@@ -46,9 +79,13 @@ export async function listTasks(params?: TaskFilters): Promise<KanbanTask[]> {
   let query = supabase
     .from("tasks")
     .select(
-      `id, title, description, status, deadline, labels, assigned_to, watchers, project_id, created_at, updated_at,
+      `id, title, description, status, priority, deadline, labels, assigned_to, watchers, project_id, created_at, updated_at,
        profiles:profiles!tasks_assigned_to_fkey(full_name),
-       projects:project_id(id, name, code, color)`
+       projects:project_id(id, name, code, color),
+       dependencies:task_dependencies!task_dependencies_task_id_fkey(depends_on_task_id),
+       parent:parent_task_id(id, title),
+       children:tasks!parent_task_id(status),
+       ${TASK_RECURRENCE_COLUMNS}`
     )
 
   if (params?.projectId) {
@@ -57,6 +94,9 @@ export async function listTasks(params?: TaskFilters): Promise<KanbanTask[]> {
   if (params?.status) {
     query = query.eq("status", params.status)
   }
+  if (params?.parentTaskId) {
+    query = query.eq("parent_task_id", params.parentTaskId)
+  }
   if (params?.assigneeId) {
     query = query.eq("assigned_to", params.assigneeId)
   }
@@ -73,6 +113,7 @@ export async function listTasks(params?: TaskFilters): Promise<KanbanTask[]> {
   const { data, error } = await query
     .order("position", { ascending: true })
     .order("updated_at", { ascending: false })
+    .order("id", { ascending: true }) // desempate estável entre clientes
 
   if (error) throw error
 
@@ -98,6 +139,14 @@ export async function listTasks(params?: TaskFilters): Promise<KanbanTask[]> {
       assigneeId: t.assigned_to ?? null,
       watchers: t.watchers ?? [],
       labels: t.labels ?? [],
+      priority: t.priority ?? "medium",
+      blockedBy: (t.dependencies ?? []).map((d: any) => d.depends_on_task_id),
+      parentTask: t.parent ? { id: t.parent.id, title: t.parent.title ?? "" } : null,
+      subtasks: {
+        total: (t.children ?? []).length,
+        completed: (t.children ?? []).filter((c: any) => c.status === DONE_STATUS).length,
+      },
+      recurrence: toTaskRecurrence(t),
       createdAt: t.created_at ?? "",
       updatedAt: t.updated_at ?? "",
       project: t.projects
@@ -130,9 +179,21 @@ export async function getProjectChecklistSummary(projectId: string): Promise<Pro
 
   if (error) throw error
 
+  // Subtarefas contam como itens, concluídas quando estão na coluna "done"
+  const { data: subtasksData, error: subtasksError } = await supabase
+    .from("tasks")
+    .select("id, status")
+    .eq("project_id", projectId)
+    .not("parent_task_id", "is", null)
+
+  if (subtasksError) throw subtasksError
+
   const rows = data ?? []
-  const totalItems = rows.length
-  const completedItems = rows.filter((item: any) => Boolean(item.completed)).length
+  const subtasks = subtasksData ?? []
+  const totalSubtasks = subtasks.length
+  const completedSubtasks = subtasks.filter((t: any) => t.status === DONE_STATUS).length
+  const totalItems = rows.length + totalSubtasks
+  const completedItems = rows.filter((item: any) => Boolean(item.completed)).length + completedSubtasks
   const completionPercentage =
     totalItems > 0 ? Math.round((completedItems / totalItems) * 100) : 0
 
@@ -140,9 +201,44 @@ export async function getProjectChecklistSummary(projectId: string): Promise<Pro
     totalItems,
     completedItems,
     completionPercentage,
+    totalSubtasks,
+    completedSubtasks,
   }
 }
 
+/**
+ * Lança ColumnWipLimitError se a coluna de `statusKey` não comporta as tarefas que
+ * estão entrando nela. `movingTaskIds` são ignoradas na contagem (podem já estar
+ * na coluna); sem elas, conta a entrada de uma tarefa nova.
+ */
+async function assertColumnWipLimit(statusKey: string, movingTaskIds: string[] = []): Promise<void> {
+  const supabase = createClient()
+  const { data: column, error } = await supabase
+    .from("kanban_columns")
+    .select("id, name, wip_limit")
+    .eq("status_key", statusKey)
+    .maybeSingle()
+  if (error) throw error
+  if (!column || column.wip_limit === null || column.wip_limit === undefined) return
+
+  let query = supabase.from("tasks").select("id", { count: "exact", head: true }).eq("status", statusKey)
+  if (movingTaskIds.length > 0) query = query.not("id", "in", `(${movingTaskIds.join(",")})`)
+  const { count, error: countError } = await query
+  if (countError) throw countError
+
+  if ((count ?? 0) + Math.max(movingTaskIds.length, 1) > column.wip_limit) {
+    throw new ColumnWipLimitError(
+      `A coluna "${column.name}" atingiu o limite de ${column.wip_limit} tarefas`,
+      { id: column.id, name: column.name, wipLimit: column.wip_limit },
+      count ?? 0
+    )
+  }
+}
+
+export type CreateTaskOptions = {
+  allowOverLimit?: boolean // cria mesmo com a coluna no limite de WIP
+}
+
 export async function createTask(input: {
   title: string
   description?: string | null
@@ -152,10 +248,15 @@ export async function createTask(input: {
   assigned_to?: string | null // profile id
   labels?: string[]
   watchers?: string[] // Array of user IDs
-}): Promise<string> {
+  parent_task_id?: string | null
+}, options?: CreateTaskOptions): Promise<string> {
   const supabase = createClient()
   const { data: userRes } = await supabase.auth.getUser()
   const userId = userRes.user?.id
+
+  if (!options?.allowOverLimit) {
+    await assertColumnWipLimit(input.status ?? "todo")
+  }
   
   // Include creator and assigned user in watchers by default
   const watchers = input.watchers ?? []
@@ -175,11 +276,20 @@ export async function createTask(input: {
     assigned_to: input.assigned_to ?? null,
     labels: input.labels ?? [],
     watchers: watchers,
+    parent_task_id: input.parent_task_id ?? null,
     created_by: userId ?? null,
   }
   const { data, error } = await supabase.from("tasks").insert(payload).select("id").single()
   if (error) throw error
-  return data?.id as string
+
+  const taskId = data?.id as string
+  if (input.assigned_to) await notifyUsersAdded("task_assigned", taskId, [input.assigned_to])
+  await notifyUsersAdded(
+    "task_watcher",
+    taskId,
+    (input.watchers ?? []).filter((id) => id !== userId && id !== input.assigned_to)
+  )
+  return taskId
 }
 
 export async function updateTask(
@@ -193,21 +303,76 @@ export async function updateTask(
     labels: string[]
     project_id: string | null
     watchers: string[]
+    priority: TaskPriority
   }>
 ): Promise<void> {
   const supabase = createClient()
   const payload: any = { ...changes }
   if (typeof changes.status === "string") payload.status = changes.status
+
+  // Estado anterior para notificar só quem acabou de receber a tarefa ou passou a observá-la
+  let previous: { assigned_to: string | null; watchers: string[] | null } | null = null
+  if (changes.assigned_to !== undefined || changes.watchers !== undefined) {
+    const { data, error: fetchError } = await supabase
+      .from("tasks")
+      .select("assigned_to, watchers")
+      .eq("id", id)
+      .single()
+    if (fetchError) throw fetchError
+    previous = data
+  }
+
   const { error } = await supabase.from("tasks").update(payload).eq("id", id)
   if (error) throw error
+  if (changes.status === DONE_STATUS) await createNextRecurringTask(id)
+
+  if (changes.assigned_to && changes.assigned_to !== previous?.assigned_to) {
+    await notifyUsersAdded("task_assigned", id, [changes.assigned_to])
+  }
+  if (changes.watchers) {
+    const previousWatchers = previous?.watchers ?? []
+    await notifyUsersAdded(
+      "task_watcher",
+      id,
+      changes.watchers.filter((userId) => !previousWatchers.includes(userId) && userId !== changes.assigned_to)
+    )
+  }
+}
+
+export type MoveTaskOptions = {
+  allowBlocked?: boolean // move mesmo com bloqueios pendentes
+  allowOverLimit?: boolean // move mesmo com a coluna no limite de WIP
 }
 
-export async function moveTask(id: string, toStatus: string, toPosition?: number): Promise<void> {
+/**
+ * Move a tarefa para outra coluna.
+ * Ao entrar em uma coluna "em andamento" com bloqueios não concluídos lança TaskBlockedError,
+ * a menos que `allowBlocked` seja informado. Com a coluna de destino no limite
+ * de WIP lança ColumnWipLimitError, a menos que `allowOverLimit` seja informado.
+ * Sem `toPosition`, a tarefa vai para o fim da coluna; movimentações simultâneas
+ * para a mesma coluna são serializadas no banco (reorder_task_positions).
+ */
+export async function moveTask(
+  id: string,
+  toStatus: string,
+  toPosition?: number,
+  options?: MoveTaskOptions
+): Promise<void> {
   const supabase = createClient()
+  if (!options?.allowBlocked && (await isInProgressColumn(toStatus))) {
+    const blockers = await listUnfinishedBlockers(id)
+    if (blockers.length > 0) {
+      throw new TaskBlockedError("Tarefa possui dependências não concluídas", blockers)
+    }
+  }
+  if (!options?.allowOverLimit) {
+    await assertColumnWipLimit(toStatus, [id])
+  }
   const payload: any = { status: toStatus }
   if (typeof toPosition === "number") payload.position = toPosition
   const { error } = await supabase.from("tasks").update(payload).eq("id", id)
   if (error) throw error
+  if (toStatus === DONE_STATUS) await createNextRecurringTask(id)
 }
 
 export async function deleteTask(id: string): Promise<void> {
@@ -216,6 +381,307 @@ export async function deleteTask(id: string): Promise<void> {
   if (error) throw error
 }
 
+// Operações em lote
+export type BulkTaskOperation =
+  | { type: "move"; status: string }
+  | { type: "assign"; assigneeId: string | null }
+  | { type: "deadline"; deadline: string | null } // YYYY-MM-DD
+  | { type: "add_label"; label: string }
+  | { type: "remove_label"; label: string }
+  | { type: "add_watchers"; userIds: string[] }
+  | { type: "delete" }
+
+function bulkOperationPayload(operation: BulkTaskOperation): Record<string, unknown> {
+  switch (operation.type) {
+    case "move":
+      return { status: operation.status }
+    case "assign":
+      return { assigned_to: operation.assigneeId }
+    case "deadline":
+      return { deadline: operation.deadline }
+    case "add_label":
+    case "remove_label":
+      return { label: operation.label }
+    case "add_watchers":
+      return { watchers: operation.userIds }
+    default:
+      return {}
+  }
+}
+
+/**
+ * Aplica a mesma alteração a várias tarefas em uma única operação no servidor
+ * (uma entrada no log de atividade por tarefa alterada). Mover valida bloqueios
+ * e limite de WIP como `moveTask`, com as mesmas opções para ignorá-los.
+ * Retorna quantas tarefas foram alteradas.
+ */
+export async function bulkUpdateTasks(
+  taskIds: string[],
+  operation: BulkTaskOperation,
+  options?: MoveTaskOptions
+): Promise<number> {
+  if (taskIds.length === 0) return 0
+  const supabase = createClient()
+
+  if (operation.type === "move") {
+    if (!options?.allowBlocked && (await isInProgressColumn(operation.status))) {
+      const { data: dependencies, error: depError } = await supabase
+        .from("task_dependencies")
+        .select("blocker:tasks!task_dependencies_depends_on_task_id_fkey(id, title, status)")
+        .in("task_id", taskIds)
+      if (depError) throw depError
+      const blockers = new Map<string, { id: string; title: string; status: string }>()
+      ;(dependencies ?? []).forEach((d: any) => {
+        if (d.blocker && d.blocker.status !== DONE_STATUS) {
+          blockers.set(d.blocker.id, { id: d.blocker.id, title: d.blocker.title ?? "", status: d.blocker.status })
+        }
+      })
+      if (blockers.size > 0) {
+        throw new TaskBlockedError("Tarefas possuem dependências não concluídas", Array.from(blockers.values()))
+      }
+    }
+    if (!options?.allowOverLimit) {
+      await assertColumnWipLimit(operation.status, taskIds)
+    }
+  }
+
+  // Estado anterior para notificar só quem acabou de receber a tarefa ou passou a observá-la
+  const previous = new Map<string, { assigned_to: string | null; watchers: string[] | null }>()
+  if (operation.type === "assign" || operation.type === "add_watchers") {
+    const { data: rows, error: fetchError } = await supabase
+      .from("tasks")
+      .select("id, assigned_to, watchers")
+      .in("id", taskIds)
+    if (fetchError) throw fetchError
+    ;(rows ?? []).forEach((row: any) => previous.set(row.id, row))
+  }
+
+  const { data, error } = await supabase.rpc("bulk_update_tasks", {
+    p_task_ids: taskIds,
+    p_operation: operation.type,
+    p_payload: bulkOperationPayload(operation),
+  })
+  if (error) throw error
+
+  if (operation.type === "move" && operation.status === DONE_STATUS) {
+    for (const id of taskIds) await createNextRecurringTask(id)
+  }
+  if (operation.type === "assign" && operation.assigneeId) {
+    const assigneeId = operation.assigneeId
+    await Promise.all(
+      taskIds
+        .filter((id) => previous.has(id) && previous.get(id)!.assigned_to !== assigneeId)
+        .map((id) => notifyUsersAdded("task_assigned", id, [assigneeId]))
+    )
+  }
+  if (operation.type === "add_watchers") {
+    await Promise.all(
+      taskIds.map((id) => {
+        const previousWatchers = previous.get(id)?.watchers ?? []
+        return notifyUsersAdded(
+          "task_watcher",
+          id,
+          previous.has(id) ? operation.userIds.filter((userId) => !previousWatchers.includes(userId)) : []
+        )
+      })
+    )
+  }
+
+  return (data as number) ?? 0
+}
+
+// Subtarefas
+export async function listSubtasks(parentTaskId: string): Promise<KanbanTask[]> {
+  return listTasks({ parentTaskId })
+}
+
+/** Cria uma subtarefa no mesmo projeto da tarefa principal. */
+export async function createSubtask(
+  parentTaskId: string,
+  input: { title: string; assigned_to?: string | null; deadline?: string | null }
+): Promise<string> {
+  const supabase = createClient()
+  const { data: parent, error } = await supabase
+    .from("tasks")
+    .select("project_id, parent_task_id")
+    .eq("id", parentTaskId)
+    .single()
+  if (error) throw error
+  if (parent.parent_task_id) throw new Error("Subtarefas não podem ter subtarefas")
+
+  // Subtarefas fazem parte do trabalho da principal: não são barradas pelo limite de WIP
+  return createTask(
+    {
+      title: input.title,
+      project_id: parent.project_id ?? null,
+      assigned_to: input.assigned_to ?? null,
+      deadline: input.deadline ?? null,
+      parent_task_id: parentTaskId,
+    },
+    { allowOverLimit: true }
+  )
+}
+
+// Recorrência
+export async function getTaskRecurrence(taskId: string): Promise<TaskRecurrence | null> {
+  const supabase = createClient()
+  const { data, error } = await supabase
+    .from("tasks")
+    .select(TASK_RECURRENCE_COLUMNS)
+    .eq("id", taskId)
+    .single()
+  if (error) throw error
+  return toTaskRecurrence(data)
+}
+
+/**
+ * Define (ou remove, com `null`) a regra de recorrência da tarefa.
+ * A série passa a contar a partir da ocorrência desta instância (prazo ou hoje);
+ * removida a regra, nenhuma nova instância é gerada a partir desta.
+ */
+export async function setTaskRecurrence(
+  taskId: string,
+  recurrence: { rule: RecurrenceRule; mode: TaskRecurrenceMode } | null
+): Promise<void> {
+  const supabase = createClient()
+  const { data: task, error: fetchError } = await supabase
+    .from("tasks")
+    .select(`deadline, ${TASK_RECURRENCE_COLUMNS}`)
+    .eq("id", taskId)
+    .single()
+  if (fetchError) throw fetchError
+
+  let payload: any = taskRecurrenceToColumns(null)
+  if (recurrence) {
+    const current = toTaskRecurrence(task)
+    const occurrenceDate =
+      task.recurrence_occurrence_date ?? task.deadline ?? format(new Date(), "yyyy-MM-dd")
+    // Mesma frequência/intervalo: mantém a data-base (e a contagem) da série
+    const sameCadence =
+      current?.rule.frequency === recurrence.rule.frequency &&
+      current?.rule.interval === recurrence.rule.interval
+    payload = {
+      ...taskRecurrenceToColumns({
+        ...recurrence,
+        startDate: sameCadence && current ? current.startDate : occurrenceDate,
+        occurrenceDate,
+      }),
+      recurrence_occurrence_date: occurrenceDate,
+    }
+  }
+
+  const { error } = await supabase.from("tasks").update(payload).eq("id", taskId)
+  if (error) throw error
+}
+
+/**
+ * Tarefas recorrentes no modo "ao concluir" geram a próxima instância ao chegar
+ * em "done". Falhas não desfazem a movimentação.
+ */
+async function createNextRecurringTask(taskId: string): Promise<void> {
+  try {
+    await createNextTaskInstance(createClient(), taskId, "on_done", format(new Date(), "yyyy-MM-dd"))
+  } catch (err) {
+    console.error("Erro ao gerar próxima instância da tarefa recorrente:", err)
+  }
+}
+
+// Dependências entre tarefas
+export const DONE_STATUS = "done"
+
+/** Se a coluna de `statusKey` é de trabalho em andamento (kanban_columns.is_in_progress). */
+async function isInProgressColumn(statusKey: string): Promise<boolean> {
+  const supabase = createClient()
+  const { data, error } = await supabase
+    .from("kanban_columns")
+    .select("is_in_progress")
+    .eq("status_key", statusKey)
+    .maybeSingle()
+  if (error) throw error
+  return !!data?.is_in_progress
+}
+
+export type TaskDependencyLink = {
+  id: string // id da dependência (task_dependencies.id)
+  taskId: string
+  title: string
+  status: string
+  done: boolean
+}
+
+export type TaskDependencies = {
+  blockedBy: TaskDependencyLink[] // tarefas que precisam terminar antes desta
+  blocks: TaskDependencyLink[] // tarefas que aguardam esta
+}
+
+export async function listTaskDependencies(taskId: string): Promise<TaskDependencies> {
+  const supabase = createClient()
+  const { data, error } = await supabase
+    .from("task_dependencies")
+    .select(
+      `id, task_id, depends_on_task_id,
+       blocker:tasks!task_dependencies_depends_on_task_id_fkey(id, title, status),
+       blocked:tasks!task_dependencies_task_id_fkey(id, title, status)`
+    )
+    .or(`task_id.eq.${taskId},depends_on_task_id.eq.${taskId}`)
+  if (error) throw error
+
+  const toLink = (id: string, t: any): TaskDependencyLink => ({
+    id,
+    taskId: t?.id ?? "",
+    title: t?.title ?? "",
+    status: t?.status ?? "",
+    done: t?.status === DONE_STATUS,
+  })
+
+  const rows = data ?? []
+  return {
+    blockedBy: rows.filter((d: any) => d.task_id === taskId).map((d: any) => toLink(d.id, d.blocker)),
+    blocks: rows.filter((d: any) => d.depends_on_task_id === taskId).map((d: any) => toLink(d.id, d.blocked)),
+  }
+}
+
+export async function listUnfinishedBlockers(
+  taskId: string
+): Promise<{ id: string; title: string; status: string }[]> {
+  const { blockedBy } = await listTaskDependencies(taskId)
+  return blockedBy
+    .filter((link) => !link.done)
+    .map((link) => ({ id: link.taskId, title: link.title, status: link.status }))
+}
+
+/**
+ * Adiciona a dependência. Ciclos (inclusive a tarefa depender de si mesma) são
+ * barrados no banco (trigger de 031) e viram TaskDependencyCycleError.
+ */
+export async function addTaskDependency(taskId: string, dependsOnTaskId: string): Promise<string> {
+  const supabase = createClient()
+  const { data: userRes } = await supabase.auth.getUser()
+  const { data, error } = await supabase
+    .from("task_dependencies")
+    .insert({
+      task_id: taskId,
+      depends_on_task_id: dependsOnTaskId,
+      created_by: userRes.user?.id ?? null,
+    })
+    .select("id")
+    .single()
+  if (error) {
+    // 23514 (check_violation): ciclo detectado pelo trigger ou dependência de si mesma
+    if (error.code === "23514") {
+      throw new TaskDependencyCycleError("A dependência criaria um ciclo entre as tarefas")
+    }
+    throw error
+  }
+  return data?.id as string
+}
+
+export async function removeTaskDependency(id: string): Promise<void> {
+  const supabase = createClient()
+  const { error } = await supabase.from("task_dependencies").delete().eq("id", id)
+  if (error) throw error
+}
+
 // Checklist helpers
 export type ChecklistItem = { id: string; text: string; completed: boolean; position: number }
 
@@ -303,6 +769,7 @@ export async function addWatcher(taskId: string, userId: string): Promise<void>
       .eq("id", taskId)
     
     if (error) throw error
+    await notifyUsersAdded("task_watcher", taskId, [userId])
   }
 }
 
@@ -331,9 +798,19 @@ export async function removeWatcher(taskId: string, userId: string): Promise<voi
 
 export async function updateTaskWatchers(taskId: string, watchers: string[]): Promise<void> {
   const supabase = createClient()
+  const { data: task, error: fetchError } = await supabase
+    .from("tasks")
+    .select("watchers")
+    .eq("id", taskId)
+    .single()
+  if (fetchError) throw fetchError
+
   const { error } = await supabase
     .from("tasks")
     .update({ watchers })
     .eq("id", taskId)
   if (error) throw error
+
+  const currentWatchers: string[] = task.watchers || []
+  await notifyUsersAdded("task_watcher", taskId, watchers.filter((id) => !currentWatchers.includes(id)))
 }
@@ -0,0 +1,234 @@
+import { createClient } from "../supabase/client"
+
+export type TimeEntry = {
+  id: string
+  taskId: string
+  userId: string
+  userName: string
+  startedAt: string // ISO
+  endedAt: string | null // null = cronômetro em andamento
+  durationMinutes: number
+  description: string | null
+  isManual: boolean
+}
+
+export type RunningTimer = {
+  id: string
+  taskId: string
+  taskTitle: string
+  startedAt: string // ISO
+}
+
+export type ProjectTimeSummary = {
+  totalMinutes: number
+  byUser: { userId: string; userName: string; minutes: number }[]
+}
+
+const ENTRY_COLUMNS =
+  "id, task_id, user_id, started_at, ended_at, duration_minutes, description, is_manual, profiles:profiles!task_time_entries_user_id_fkey(full_name)"
+
+function minutesBetween(startIso: string, end: Date): number {
+  return Math.max(0, Math.round((end.getTime() - new Date(startIso).getTime()) / 60000))
+}
+
+function mapEntry(e: any): TimeEntry {
+  return {
+    id: e.id,
+    taskId: e.task_id,
+    userId: e.user_id,
+    userName: e.profiles?.full_name ?? "Usuário Desconhecido",
+    startedAt: e.started_at,
+    endedAt: e.ended_at ?? null,
+    // Cronômetro em andamento conta o tempo decorrido até agora
+    durationMinutes: e.ended_at ? e.duration_minutes ?? 0 : minutesBetween(e.started_at, new Date()),
+    description: e.description ?? null,
+    isManual: !!e.is_manual,
+  }
+}
+
+async function requireUserId(): Promise<string> {
+  const supabase = createClient()
+  const { data: userRes } = await supabase.auth.getUser()
+  const userId = userRes.user?.id
+  if (!userId) throw new Error("Usuário não autenticado")
+  return userId
+}
+
+/**
+ * Formata minutos como "2h 30min"
+ */
+export function formatMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60)
+  const rest = minutes % 60
+  if (hours === 0) return `${rest}min`
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}min`
+}
+
+/**
+ * Lista os apontamentos de uma tarefa (mais recentes primeiro)
+ */
+export async function listTimeEntries(taskId: string): Promise<TimeEntry[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from("task_time_entries")
+    .select(ENTRY_COLUMNS)
+    .eq("task_id", taskId)
+    .order("started_at", { ascending: false })
+
+  if (error) throw error
+
+  return (data ?? []).map(mapEntry)
+}
+
+/**
+ * Cronômetro em andamento do usuário atual (em qualquer tarefa)
+ */
+export async function getRunningTimer(): Promise<RunningTimer | null> {
+  const supabase = createClient()
+  const userId = await requireUserId()
+
+  const { data, error } = await supabase
+    .from("task_time_entries")
+    .select("id, task_id, started_at, tasks:task_id(title)")
+    .eq("user_id", userId)
+    .is("ended_at", null)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data) return null
+
+  const row = data as any
+  return {
+    id: row.id,
+    taskId: row.task_id,
+    taskTitle: row.tasks?.title ?? "",
+    startedAt: row.started_at,
+  }
+}
+
+/**
+ * Inicia um cronômetro na tarefa; um cronômetro ativo em outra tarefa é encerrado antes
+ */
+export async function startTimer(taskId: string): Promise<string> {
+  const supabase = createClient()
+  const userId = await requireUserId()
+
+  const running = await getRunningTimer()
+  if (running) {
+    if (running.taskId === taskId) return running.id
+    await stopTimer(running.id)
+  }
+
+  const { data, error } = await supabase
+    .from("task_time_entries")
+    .insert({ task_id: taskId, user_id: userId, started_at: new Date().toISOString() })
+    .select("id")
+    .single()
+
+  if (error) throw error
+
+  return data?.id as string
+}
+
+/**
+ * Encerra um cronômetro gravando a duração
+ */
+export async function stopTimer(entryId: string): Promise<void> {
+  const supabase = createClient()
+
+  const { data: entry, error: fetchError } = await supabase
+    .from("task_time_entries")
+    .select("started_at")
+    .eq("id", entryId)
+    .single()
+
+  if (fetchError) throw fetchError
+
+  const now = new Date()
+  const { error } = await supabase
+    .from("task_time_entries")
+    .update({
+      ended_at: now.toISOString(),
+      duration_minutes: minutesBetween(entry.started_at, now),
+    })
+    .eq("id", entryId)
+    .is("ended_at", null)
+
+  if (error) throw error
+}
+
+/**
+ * Lança horas manualmente (ex.: trabalho feito fora do sistema)
+ */
+export async function addManualTimeEntry(
+  taskId: string,
+  input: { date: string; minutes: number; description?: string | null } // date: YYYY-MM-DD
+): Promise<string> {
+  const supabase = createClient()
+  const userId = await requireUserId()
+
+  if (!Number.isInteger(input.minutes) || input.minutes <= 0) {
+    throw new Error("Informe uma duração maior que zero")
+  }
+
+  const startedAt = new Date(`${input.date}T09:00:00`)
+  const endedAt = new Date(startedAt.getTime() + input.minutes * 60000)
+
+  const { data, error } = await supabase
+    .from("task_time_entries")
+    .insert({
+      task_id: taskId,
+      user_id: userId,
+      started_at: startedAt.toISOString(),
+      ended_at: endedAt.toISOString(),
+      duration_minutes: input.minutes,
+      description: input.description?.trim() || null,
+      is_manual: true,
+    })
+    .select("id")
+    .single()
+
+  if (error) throw error
+
+  return data?.id as string
+}
+
+/**
+ * Remove um apontamento
+ */
+export async function deleteTimeEntry(id: string): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase.from("task_time_entries").delete().eq("id", id)
+
+  if (error) throw error
+}
+
+/**
+ * Horas registradas em todas as tarefas do projeto, com total por usuário
+ */
+export async function getProjectTimeSummary(projectId: string): Promise<ProjectTimeSummary> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from("task_time_entries")
+    .select(`${ENTRY_COLUMNS}, tasks!inner(project_id)`)
+    .eq("tasks.project_id", projectId)
+
+  if (error) throw error
+
+  const byUser = new Map<string, { userId: string; userName: string; minutes: number }>()
+  let totalMinutes = 0
+  ;(data ?? []).map(mapEntry).forEach((entry) => {
+    totalMinutes += entry.durationMinutes
+    const current = byUser.get(entry.userId) ?? { userId: entry.userId, userName: entry.userName, minutes: 0 }
+    current.minutes += entry.durationMinutes
+    byUser.set(entry.userId, current)
+  })
+
+  return {
+    totalMinutes,
+    byUser: Array.from(byUser.values()).sort((a, b) => b.minutes - a.minutes),
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Tests for email templates
+ */
+
+import { sendEmail } from '../mailer'
+import { sendNotificationEmail } from '../templates'
+
+jest.mock('../mailer', () => ({
+  sendEmail: jest.fn().mockResolvedValue({ success: true }),
+}))
+
+const sendEmailMock = sendEmail as jest.MockedFunction<typeof sendEmail>
+
+describe('Email Templates', () => {
+  describe('sendNotificationEmail', () => {
+    beforeEach(() => {
+      sendEmailMock.mockClear()
+    })
+
+    it('should escape event titles and locations in reminder emails', async () => {
+      await sendNotificationEmail({
+        to: 'ana@example.com',
+        userName: 'Ana <Admin>',
+        title: 'Lembrete: <img src=x onerror=alert(1)>',
+        message: 'O evento "Vistoria <b>urgente</b>" começa em 1 hora: 10/03/2024 às 09:00 — Rua A & B.',
+        actionUrl: 'https://app.example.com/agenda?x="y"',
+        actionText: 'Abrir agenda',
+      })
+
+      const { html, text, subject } = sendEmailMock.mock.calls[0][0]
+      expect(html).not.toContain('<img')
+      expect(html).not.toContain('<b>urgente</b>')
+      expect(html).toContain('🔔 Lembrete: &lt;img src=x onerror=alert(1)&gt;')
+      expect(html).toContain('Olá <strong>Ana &lt;Admin&gt;</strong>')
+      expect(html).toContain('&quot;Vistoria &lt;b&gt;urgente&lt;/b&gt;&quot;')
+      expect(html).toContain('Rua A &amp; B.')
+      expect(html).toContain('href="https://app.example.com/agenda?x=&quot;y&quot;"')
+      // O texto puro e o assunto não são HTML
+      expect(text).toContain('O evento "Vistoria <b>urgente</b>"')
+      expect(subject).toBe('Lembrete: <img src=x onerror=alert(1)> - AvaliaTec')
+    })
+
+    it('should keep line breaks of multi-line messages', async () => {
+      await sendNotificationEmail({
+        to: 'ana@example.com',
+        userName: 'Ana',
+        title: 'Comentário',
+        message: 'linha 1\nlinha 2',
+      })
+
+      expect(sendEmailMock.mock.calls[0][0].html).toContain('<p>linha 1<br>linha 2</p>')
+    })
+  })
+})
@@ -0,0 +1,12 @@
+/**
+ * Escapa texto para uso no HTML dos emails (conteúdo e atributos).
+ * Títulos, nomes e mensagens vêm de dados digitados pelos usuários.
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
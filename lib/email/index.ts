@@ -42,5 +42,8 @@ export {
   generateInviteReminderEmail
 } from './templates/user-invite'
 
+// Proposal template
+export { generateProposalEmail } from './templates/proposal'
+
 // Tipos
 export type { EmailOptions, EmailAttachment, EmailConfig, SendEmailResult } from './types'
@@ -1,3 +1,4 @@
+import { escapeHtml } from './html'
 import { sendEmail } from './mailer'
 import type { SendEmailResult } from './types'
 
@@ -257,6 +258,9 @@ Equipe AvaliaTec
 
 /**
  * Envia notificação genérica ao usuário
+ *
+ * Título, nome e mensagem são texto puro (podem conter dados digitados por
+ * usuários, como títulos de tarefas e comentários) e são escapados no HTML.
  */
 export async function sendNotificationEmail(params: NotificationParams): Promise<SendEmailResult> {
   const { to, userName, title, message, actionUrl, actionText } = params
@@ -264,7 +268,7 @@ export async function sendNotificationEmail(params: NotificationParams): Promise
   const actionButton = actionUrl && actionText
     ? `
       <div style="text-align: center;">
-        <a href="${actionUrl}" class="button">${actionText}</a>
+        <a href="${escapeHtml(actionUrl)}" class="button">${escapeHtml(actionText)}</a>
       </div>
     `
     : ''
@@ -288,12 +292,12 @@ export async function sendNotificationEmail(params: NotificationParams): Promise
         <body>
           <div class="container">
             <div class="header">
-              <h1>🔔 ${title}</h1>
+              <h1>🔔 ${escapeHtml(title)}</h1>
             </div>
             <div class="content">
-              <p>Olá <strong>${userName}</strong>,</p>
+              <p>Olá <strong>${escapeHtml(userName)}</strong>,</p>
 
-              <p>${message}</p>
+              <p>${escapeHtml(message).replace(/\r?\n/g, '<br>')}</p>
 
               ${actionButton}
 
@@ -0,0 +1,93 @@
+import { escapeHtml } from '../html'
+import type { EmailOptions } from '../types'
+
+/**
+ * Proposal Email Template
+ *
+ * Email de envio da proposta comercial; o PDF vai como anexo (adicionado por
+ * /api/proposals/[id]/send).
+ */
+
+interface ProposalEmailParams {
+  to: string[]
+  cc?: string[]
+  subject: string
+  message: string
+  proposalNumber: string
+  proposalTitle: string
+  total: string
+  validUntil: string
+  senderName?: string
+}
+
+/**
+ * Generates the proposal email (message written by the user + summary)
+ *
+ * @param params - Email template parameters
+ * @returns EmailOptions - Ready-to-send email configuration, without attachments
+ */
+export function generateProposalEmail(params: ProposalEmailParams): EmailOptions {
+  const {
+    to,
+    cc,
+    subject,
+    message,
+    proposalNumber,
+    proposalTitle,
+    total,
+    validUntil,
+    senderName = 'Equipe AvaliaTec'
+  } = params
+
+  const messageHtml = escapeHtml(message.trim()).replace(/\r?\n/g, '<br>')
+
+  return {
+    to,
+    cc: cc && cc.length > 0 ? cc : undefined,
+    subject,
+    html: `
+      <!DOCTYPE html>
+      <html lang="pt-BR">
+        <head>
+          <meta charset="UTF-8">
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .summary { background: #f9f9f9; border-left: 4px solid #2563eb; padding: 16px 20px; margin: 24px 0; border-radius: 4px; }
+            .summary p { margin: 4px 0; }
+            .footer { margin-top: 24px; color: #666; font-size: 12px; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <p>${messageHtml}</p>
+
+            <div class="summary">
+              <p><strong>${escapeHtml(proposalNumber)} — ${escapeHtml(proposalTitle)}</strong></p>
+              <p>Valor total: <strong>${escapeHtml(total)}</strong></p>
+              <p>Válida até ${escapeHtml(validUntil)}</p>
+            </div>
+
+            <p>Atenciosamente,<br><strong>${escapeHtml(senderName)}</strong></p>
+
+            <div class="footer">
+              <p>A proposta completa segue em anexo (PDF).</p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `,
+    text: `
+${message.trim()}
+
+${proposalNumber} — ${proposalTitle}
+Valor total: ${total}
+Válida até ${validUntil}
+
+Atenciosamente,
+${senderName}
+
+A proposta completa segue em anexo (PDF).
+    `.trim()
+  }
+}
@@ -0,0 +1,61 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getDocumentError, normalizeDocument } from '@/lib/utils/document'
+
+/**
+ * Validate the CPF/CNPJ sent to POST /api/clients or PUT /api/clients/[id]:
+ * check digits and uniqueness across all clients (digits-only comparison).
+ * Returns the normalized document to be saved.
+ */
+export async function validateClientDocument(
+  supabase: SupabaseClient,
+  document: unknown,
+  excludeClientId?: string
+): Promise<
+  | { ok: true; document: string }
+  | { ok: false; status: 409 | 422 | 500; json: Record<string, unknown> }
+> {
+  if (document != null && typeof document !== 'string') {
+    return {
+      ok: false,
+      status: 422,
+      json: { error: 'document must be a string', code: 'INVALID_DOCUMENT' },
+    }
+  }
+
+  const digits = normalizeDocument(document)
+  const documentError = getDocumentError(digits)
+  if (documentError) {
+    return {
+      ok: false,
+      status: 422,
+      json: { error: documentError, code: 'INVALID_DOCUMENT' },
+    }
+  }
+
+  if (!digits) return { ok: true, document: digits }
+
+  // RPC SECURITY DEFINER: enxerga também clientes de outros responsáveis
+  const { data: exists, error } = await supabase.rpc('client_document_exists', {
+    p_document: digits,
+    p_exclude_client_id: excludeClientId ?? null,
+  })
+
+  if (error) {
+    console.error('Error checking client document uniqueness:', error)
+    return {
+      ok: false,
+      status: 500,
+      json: { error: 'Failed to validate document', code: 'INTERNAL_ERROR' },
+    }
+  }
+
+  if (exists) {
+    return {
+      ok: false,
+      status: 409,
+      json: { error: 'Já existe um cliente com este CPF/CNPJ', code: 'DUPLICATE_DOCUMENT' },
+    }
+  }
+
+  return { ok: true, document: digits }
+}
@@ -0,0 +1,64 @@
+/**
+ * Validate a file uploaded to Drive through POST /api/files or
+ * POST /api/tasks/[id]/attachments: MIME type, extension and size.
+ */
+
+const ALLOWED_MIME_TYPES = new Set([
+  'application/pdf',
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'image/gif',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.ms-powerpoint',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  'text/plain',
+  'text/csv',
+  'application/zip',
+  'application/x-zip-compressed',
+])
+
+const MAX_FILE_SIZE = 100 * 1024 * 1024 // 100 MB
+const BLOCKED_EXTENSIONS = new Set(['exe', 'bat', 'cmd', 'sh', 'ps1', 'vbs', 'js', 'msi'])
+
+export function validateUploadFile(
+  file: File
+):
+  | { ok: true; ext: string }
+  | { ok: false; status: 422; json: Record<string, unknown> } {
+  // Validate MIME type
+  if (!ALLOWED_MIME_TYPES.has(file.type)) {
+    return {
+      ok: false,
+      status: 422,
+      json: { error: `File type "${file.type}" is not allowed`, code: 'INVALID_FILE_TYPE' },
+    }
+  }
+
+  // Validate extension
+  const ext = file.name.split('.').pop()?.toLowerCase() ?? ''
+  if (BLOCKED_EXTENSIONS.has(ext)) {
+    return {
+      ok: false,
+      status: 422,
+      json: { error: `File extension .${ext} is not allowed`, code: 'INVALID_FILE_TYPE' },
+    }
+  }
+
+  // Validate size
+  if (file.size > MAX_FILE_SIZE) {
+    return {
+      ok: false,
+      status: 422,
+      json: {
+        error: `File exceeds maximum size of ${MAX_FILE_SIZE / 1024 / 1024} MB`,
+        code: 'FILE_TOO_LARGE',
+      },
+    }
+  }
+
+  return { ok: true, ext }
+}
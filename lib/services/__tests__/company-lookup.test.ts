@@ -0,0 +1,47 @@
+/**
+ * Tests for the company lookup service (fixture provider)
+ */
+
+import { getCompanyLookupProvider, lookupCompany } from '../company-lookup'
+
+describe('Company Lookup', () => {
+  const originalProvider = process.env.COMPANY_LOOKUP_PROVIDER
+
+  beforeEach(() => {
+    process.env.COMPANY_LOOKUP_PROVIDER = 'fixture'
+  })
+
+  afterAll(() => {
+    if (originalProvider === undefined) delete process.env.COMPANY_LOOKUP_PROVIDER
+    else process.env.COMPANY_LOOKUP_PROVIDER = originalProvider
+  })
+
+  it('should select the provider from COMPANY_LOOKUP_PROVIDER', () => {
+    expect(getCompanyLookupProvider().name).toBe('fixture')
+  })
+
+  it('should fail for an unknown provider', () => {
+    process.env.COMPANY_LOOKUP_PROVIDER = 'unknown'
+    expect(() => getCompanyLookupProvider()).toThrow('Provedor de consulta de CNPJ desconhecido: unknown')
+  })
+
+  it('should find a company by formatted CNPJ', async () => {
+    const company = await lookupCompany('11.222.333/0001-81')
+    expect(company).toMatchObject({
+      cnpj: '11222333000181',
+      name: 'Avaliações Exemplo Ltda',
+      tradeName: 'Exemplo Avaliações',
+      email: 'contato@exemplo.com.br',
+    })
+  })
+
+  it('should return null for a valid CNPJ that is not registered', async () => {
+    await expect(lookupCompany('06.990.590/0001-23')).resolves.toBeNull()
+  })
+
+  it('should reject an invalid CNPJ before querying the provider', async () => {
+    const provider = { name: 'spy', lookup: jest.fn() }
+    await expect(lookupCompany('11.222.333/0001-82', provider)).rejects.toThrow('CNPJ inválido')
+    expect(provider.lookup).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,120 @@
+import { createClient } from '@/lib/supabase/server'
+import { buildCalendar, type IcsEvent } from '@/lib/utils/ical'
+import crypto from 'crypto'
+
+/**
+ * Calendar Feed Service
+ *
+ * Feed iCalendar por usuário, protegido por token:
+ * - Gerenciamento do token do usuário autenticado (criar / rotacionar)
+ * - Montagem do .ics a partir da RPC `get_calendar_feed` (valida token e permissão `agenda`)
+ */
+
+// Fuso em que `events.event_date`/`event_time` são gravados
+export const CALENDAR_TIME_ZONE = process.env.CALENDAR_TIME_ZONE || 'America/Sao_Paulo'
+
+// Eventos sem horário de término são exportados com 1 hora de duração
+const DEFAULT_DURATION_MINUTES = 60
+
+const EVENT_TYPE_LABELS: Record<string, string> = {
+  meeting: 'Reunião',
+  deadline: 'Prazo',
+  visit: 'Visita',
+}
+
+function durationInMinutes(start: string, end: string | null): number {
+  if (!end) return DEFAULT_DURATION_MINUTES
+  const toMinutes = (t: string) => {
+    const [hours, minutes] = t.split(':').map(Number)
+    return hours * 60 + minutes
+  }
+  const duration = toMinutes(end) - toMinutes(start)
+  return duration > 0 ? duration : DEFAULT_DURATION_MINUTES
+}
+
+function generateToken(): string {
+  return crypto.randomBytes(32).toString('hex')
+}
+
+/**
+ * Returns the feed token of the authenticated user, creating one on first use.
+ *
+ * @param authUserId - auth.users id of the current user
+ * @param rotate - when true, replaces the existing token (old feed URLs stop working)
+ */
+export async function getOrCreateFeedToken(authUserId: string, rotate = false): Promise<string> {
+  const supabase = await createClient()
+
+  if (!rotate) {
+    const { data: existing, error } = await supabase
+      .from('calendar_feed_tokens')
+      .select('token')
+      .eq('user_id', authUserId)
+      .maybeSingle()
+
+    if (error) throw error
+    if (existing?.token) return existing.token as string
+  }
+
+  const token = generateToken()
+  const { error } = await supabase
+    .from('calendar_feed_tokens')
+    .upsert({ user_id: authUserId, token, created_at: new Date().toISOString() })
+
+  if (error) throw error
+  return token
+}
+
+/**
+ * Builds the .ics document for a feed token.
+ *
+ * @returns The iCalendar content, or null when the token is unknown or the
+ * user no longer has permission to view the agenda
+ */
+export async function buildCalendarFeed(token: string): Promise<string | null> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.rpc('get_calendar_feed', { p_token: token })
+  if (error) throw error
+  if (data == null || typeof data !== 'object') return null
+
+  const feed = data as { user_name: string | null; events: any[] }
+
+  const events: IcsEvent[] = (feed.events ?? []).map((e) => {
+    const details = [e.description, e.client_name ? `Cliente: ${e.client_name}` : null]
+      .filter(Boolean)
+      .join('\n\n')
+
+    const time = String(e.event_time ?? '00:00').slice(0, 5)
+
+    return {
+      uid: e.ical_uid || `${e.id}@avaliatec`,
+      title: e.title,
+      description: details || null,
+      location: e.location ?? null,
+      date: e.event_date,
+      time,
+      durationMinutes: durationInMinutes(time, e.event_end_time ? String(e.event_end_time).slice(0, 5) : null),
+      recurrence: e.recurrence_frequency
+        ? {
+            frequency: e.recurrence_frequency,
+            interval: e.recurrence_interval ?? 1,
+            until: e.recurrence_until ?? null,
+            count: e.recurrence_count ?? null,
+          }
+        : null,
+      exceptions: Array.isArray(e.exceptions) ? e.exceptions : [],
+      attendees: (Array.isArray(e.participants) ? e.participants : [])
+        .filter((p: any) => p.email)
+        .map((p: any) => ({ name: p.name ?? null, email: p.email })),
+      categories: EVENT_TYPE_LABELS[e.type] ? [EVENT_TYPE_LABELS[e.type]] : [],
+      updatedAt: e.updated_at ?? null,
+    }
+  })
+
+  return buildCalendar({
+    name: feed.user_name ? `AvaliaTec - ${feed.user_name}` : 'AvaliaTec',
+    timeZone: CALENDAR_TIME_ZONE,
+    events,
+  })
+}
@@ -0,0 +1,125 @@
+import { isValidCnpj, normalizeDocument } from '@/lib/utils/document'
+
+/**
+ * Company Lookup Service
+ *
+ * Consulta os dados cadastrais de uma empresa pelo CNPJ para pré-preencher o
+ * formulário de clientes. O provedor é escolhido por COMPANY_LOOKUP_PROVIDER:
+ * - `brasilapi` (padrão): API pública da BrasilAPI, sem chave
+ * - `fixture`: dados locais fixos, para desenvolvimento e testes sem rede
+ *
+ * Novos provedores implementam `CompanyLookupProvider` e entram em `PROVIDERS`.
+ */
+
+export interface CompanyData {
+  cnpj: string // apenas dígitos
+  name: string // razão social
+  tradeName: string | null // nome fantasia
+  email: string | null
+  phone: string | null // apenas dígitos
+  address: string | null // endereço em uma linha
+}
+
+export interface CompanyLookupProvider {
+  name: string
+  /** Retorna null quando o CNPJ não existe no provedor */
+  lookup(cnpj: string): Promise<CompanyData | null>
+}
+
+function joinAddress(parts: Array<string | null | undefined>): string | null {
+  const address = parts.map((part) => part?.trim()).filter(Boolean).join(', ')
+  return address || null
+}
+
+// ---------------------------------------------------------------------------
+// Providers
+// ---------------------------------------------------------------------------
+
+const brasilApiProvider: CompanyLookupProvider = {
+  name: 'brasilapi',
+  async lookup(cnpj) {
+    const response = await fetch(`https://brasilapi.com.br/api/cnpj/v1/${cnpj}`, {
+      headers: { accept: 'application/json' },
+      cache: 'no-store',
+      signal: AbortSignal.timeout(8000),
+    })
+    if (response.status === 404) return null
+    if (!response.ok) {
+      throw new Error(`BrasilAPI respondeu ${response.status}`)
+    }
+
+    const data = await response.json()
+    const street = joinAddress([data.descricao_tipo_de_logradouro, data.logradouro])
+    const cep = normalizeDocument(data.cep)
+    return {
+      cnpj,
+      name: data.razao_social ?? '',
+      tradeName: data.nome_fantasia || null,
+      email: data.email ? String(data.email).toLowerCase() : null,
+      phone: normalizeDocument(data.ddd_telefone_1) || null,
+      address: joinAddress([
+        street,
+        data.numero,
+        data.complemento,
+        data.bairro,
+        data.municipio && data.uf ? `${data.municipio} - ${data.uf}` : data.municipio,
+        cep ? `CEP ${cep.replace(/^(\d{5})(\d{3})$/, '$1-$2')}` : null,
+      ]),
+    }
+  },
+}
+
+const FIXTURE_COMPANIES: CompanyData[] = [
+  {
+    cnpj: '11222333000181',
+    name: 'Avaliações Exemplo Ltda',
+    tradeName: 'Exemplo Avaliações',
+    email: 'contato@exemplo.com.br',
+    phone: '1133334444',
+    address: 'Avenida Paulista, 1000, Sala 101, Bela Vista, São Paulo - SP, CEP 01310-100',
+  },
+  {
+    cnpj: '11444777000161',
+    name: 'Construtora Modelo S.A.',
+    tradeName: null,
+    email: null,
+    phone: '3132221100',
+    address: 'Rua da Bahia, 500, Centro, Belo Horizonte - MG, CEP 30160-010',
+  },
+]
+
+const fixtureProvider: CompanyLookupProvider = {
+  name: 'fixture',
+  async lookup(cnpj) {
+    return FIXTURE_COMPANIES.find((company) => company.cnpj === cnpj) ?? null
+  },
+}
+
+const PROVIDERS: Record<string, CompanyLookupProvider> = {
+  [brasilApiProvider.name]: brasilApiProvider,
+  [fixtureProvider.name]: fixtureProvider,
+}
+
+export function getCompanyLookupProvider(): CompanyLookupProvider {
+  const name = process.env.COMPANY_LOOKUP_PROVIDER || brasilApiProvider.name
+  const provider = PROVIDERS[name]
+  if (!provider) {
+    throw new Error(`Provedor de consulta de CNPJ desconhecido: ${name}`)
+  }
+  return provider
+}
+
+/**
+ * Consulta uma empresa pelo CNPJ (formatado ou não). Lança erro para CNPJ
+ * inválido ou falha do provedor; retorna null quando não encontrado.
+ */
+export async function lookupCompany(
+  cnpj: string,
+  provider: CompanyLookupProvider = getCompanyLookupProvider()
+): Promise<CompanyData | null> {
+  const digits = normalizeDocument(cnpj)
+  if (!isValidCnpj(digits)) {
+    throw new Error('CNPJ inválido')
+  }
+  return provider.lookup(digits)
+}
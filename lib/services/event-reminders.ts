@@ -0,0 +1,252 @@
+import { createAdminClient } from '@/lib/supabase/admin'
+import { sendNotificationEmail } from '@/lib/email'
+import { CALENDAR_TIME_ZONE } from '@/lib/services/calendar-feed'
+import { addDays, expandOccurrences, type RecurrenceRule } from '@/lib/utils/recurrence'
+import { describeTimeLeft, MAX_REMINDER_MINUTES } from '@/lib/utils/reminders'
+
+/**
+ * Event Reminders Service
+ *
+ * Envio dos lembretes por email configurados nos eventos da agenda:
+ * - Executado periodicamente pelo cron (POST /api/events/reminders)
+ * - Cada lembrete é registrado em `event_reminder_log` antes do envio, o que
+ *   impede duplicidade entre execuções; falhas de envio liberam o registro
+ *   para nova tentativa na próxima execução
+ * - Se várias antecedências vencem na mesma execução (primeira execução ou
+ *   execução perdida), só a mais próxima do início é enviada; as demais ficam
+ *   registradas como enviadas
+ */
+
+export interface ReminderDispatchResult {
+  sent: number
+  failed: number
+}
+
+interface DueReminder {
+  eventId: string
+  title: string
+  location: string | null
+  date: string // YYYY-MM-DD
+  time: string // HH:mm
+  minutes: number // antecedência enviada (a mais próxima do início)
+  superseded: number[] // antecedências também vencidas, registradas sem envio
+  minutesLeft: number // minutos até o início no momento da execução
+}
+
+const EVENT_COLUMNS =
+  'id, title, location, event_date, event_time, type, reminder_minutes, recurrence_frequency, recurrence_interval, recurrence_until, recurrence_count'
+
+/** Converte data/hora locais de `timeZone` no instante UTC correspondente. */
+function zonedDateTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map(Number)
+  const [hours, minutes] = time.split(':').map(Number)
+  const asUtc = Date.UTC(year, month - 1, day, hours, minutes)
+
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).formatToParts(new Date(asUtc))
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value)
+  const zonedAsUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'))
+
+  return new Date(asUtc - (zonedAsUtc - asUtc))
+}
+
+function todayIn(timeZone: string, now: Date): string {
+  return new Intl.DateTimeFormat('en-CA', { timeZone }).format(now)
+}
+
+function toRule(row: any): RecurrenceRule | null {
+  if (!row.recurrence_frequency) return null
+  return {
+    frequency: row.recurrence_frequency,
+    interval: row.recurrence_interval ?? 1,
+    until: row.recurrence_until ?? null,
+    count: row.recurrence_count ?? null,
+  }
+}
+
+/** Ocorrências com lembrete vencido (horário do lembrete já passou e o evento ainda não começou). */
+async function findDueReminders(now: Date): Promise<DueReminder[]> {
+  const supabase = createAdminClient()
+  const today = todayIn(CALENDAR_TIME_ZONE, now)
+  const fromIso = addDays(today, -1)
+  const toIso = addDays(today, Math.ceil(MAX_REMINDER_MINUTES / 1440) + 1)
+
+  const [
+    { data: singleData, error: singleError },
+    { data: seriesData, error: seriesError },
+  ] = await Promise.all([
+    supabase
+      .from('events')
+      .select(EVENT_COLUMNS)
+      .neq('reminder_minutes', '{}')
+      .is('recurrence_frequency', null)
+      .gte('event_date', fromIso)
+      .lte('event_date', toIso),
+    supabase
+      .from('events')
+      .select(EVENT_COLUMNS)
+      .neq('reminder_minutes', '{}')
+      .not('recurrence_frequency', 'is', null)
+      .lte('event_date', toIso)
+      .or(`recurrence_until.is.null,recurrence_until.gte.${fromIso}`),
+  ])
+
+  if (singleError) throw singleError
+  if (seriesError) throw seriesError
+
+  const seriesRows = seriesData ?? []
+  const skipped = new Set<string>()
+  if (seriesRows.length > 0) {
+    const { data: exceptions, error } = await supabase
+      .from('event_exceptions')
+      .select('event_id, occurrence_date')
+      .in('event_id', seriesRows.map((r: any) => r.id))
+      .gte('occurrence_date', fromIso)
+      .lte('occurrence_date', toIso)
+    if (error) throw error
+    ;(exceptions ?? []).forEach((e: any) => skipped.add(`${e.event_id}:${e.occurrence_date}`))
+  }
+
+  const occurrences: { row: any; date: string }[] = (singleData ?? []).map((row: any) => ({
+    row,
+    date: row.event_date,
+  }))
+  seriesRows.forEach((row: any) => {
+    expandOccurrences(row.event_date, toRule(row)!, fromIso, toIso)
+      .filter((date) => !skipped.has(`${row.id}:${date}`))
+      .forEach((date) => occurrences.push({ row, date }))
+  })
+
+  const due: DueReminder[] = []
+  for (const { row, date } of occurrences) {
+    const time = String(row.event_time ?? '00:00').slice(0, 5)
+    const start = zonedDateTimeToUtc(date, time, CALENDAR_TIME_ZONE)
+    if (start <= now) continue
+
+    const dueMinutes = ((row.reminder_minutes ?? []) as number[])
+      .filter((minutes) => start.getTime() - minutes * 60_000 <= now.getTime())
+      .sort((a, b) => a - b)
+    if (dueMinutes.length === 0) continue
+
+    const [minutes, ...superseded] = dueMinutes
+    due.push({
+      eventId: row.id,
+      title: row.title,
+      location: row.location,
+      date,
+      time,
+      minutes,
+      superseded,
+      minutesLeft: Math.round((start.getTime() - now.getTime()) / 60_000),
+    })
+  }
+  return due
+}
+
+/**
+ * Envia os lembretes vencidos aos participantes ativos de cada evento.
+ *
+ * @param appUrl - Origem pública do app, usada no link "Abrir agenda"
+ */
+export async function dispatchEventReminders(
+  appUrl: string,
+  now: Date = new Date()
+): Promise<ReminderDispatchResult> {
+  const supabase = createAdminClient()
+  const result: ReminderDispatchResult = { sent: 0, failed: 0 }
+
+  const due = await findDueReminders(now)
+  if (due.length === 0) return result
+
+  const eventIds = Array.from(new Set(due.map((r) => r.eventId)))
+  const { data: participants, error: participantsError } = await supabase
+    .from('event_participants')
+    .select('event_id, user_id')
+    .in('event_id', eventIds)
+  if (participantsError) throw participantsError
+
+  const userIds = Array.from(new Set((participants ?? []).map((p: any) => p.user_id)))
+  if (userIds.length === 0) return result
+
+  const { data: users, error: usersError } = await supabase
+    .from('users')
+    .select('auth_user_id, email, full_name')
+    .in('auth_user_id', userIds)
+    .eq('status', 'active')
+  if (usersError) throw usersError
+
+  const usersById = new Map((users ?? []).map((u: any) => [u.auth_user_id, u]))
+
+  for (const reminder of due) {
+    const recipients = (participants ?? [])
+      .filter((p: any) => p.event_id === reminder.eventId)
+      .map((p: any) => usersById.get(p.user_id))
+      .filter((u: any) => u?.email)
+
+    for (const user of recipients) {
+      // Reserva o envio; a chave única garante um único lembrete por ocorrência/usuário
+      const { data: logEntry, error: logError } = await supabase
+        .from('event_reminder_log')
+        .insert({
+          event_id: reminder.eventId,
+          occurrence_date: reminder.date,
+          reminder_minutes: reminder.minutes,
+          user_id: user.auth_user_id,
+        })
+        .select('id')
+        .single()
+
+      if (logError) {
+        if (logError.code !== '23505') {
+          console.error('Error logging event reminder:', logError)
+          result.failed++
+        }
+        continue
+      }
+
+      if (reminder.superseded.length > 0) {
+        const { error: supersededError } = await supabase
+          .from('event_reminder_log')
+          .upsert(
+            reminder.superseded.map((minutes) => ({
+              event_id: reminder.eventId,
+              occurrence_date: reminder.date,
+              reminder_minutes: minutes,
+              user_id: user.auth_user_id,
+            })),
+            { onConflict: 'event_id,occurrence_date,reminder_minutes,user_id', ignoreDuplicates: true }
+          )
+        if (supersededError) console.error('Error logging superseded event reminders:', supersededError)
+      }
+
+      const when = `${reminder.date.split('-').reverse().join('/')} às ${reminder.time}`
+      const emailResult = await sendNotificationEmail({
+        to: user.email,
+        userName: user.full_name || user.email,
+        title: `Lembrete: ${reminder.title}`,
+        message: `O evento "${reminder.title}" começa em ${describeTimeLeft(reminder.minutesLeft)}: ${when}${
+          reminder.location ? ` — ${reminder.location}` : ''
+        }.`,
+        actionUrl: `${appUrl}/agenda`,
+        actionText: 'Abrir agenda',
+      })
+
+      if (emailResult.success) {
+        result.sent++
+      } else {
+        console.error('Error sending event reminder:', emailResult.error)
+        await supabase.from('event_reminder_log').delete().eq('id', logEntry.id)
+        result.failed++
+      }
+    }
+  }
+
+  return result
+}
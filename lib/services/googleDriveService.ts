@@ -7,6 +7,9 @@
  *   GOOGLE_DRIVE_ROOT_FOLDER_ID/
  *     {projectId}/          ← created on first upload for each project
  *       {file or folder}
+ *       {sub-folder}/       ← e.g. folders from the project template
+ *     Clientes/
+ *       {clientId}/         ← client documents, e.g. "Propostas"
  *
  * All operations that mutate state in Drive are also expected to be reflected in
  * the `files` Supabase table by the calling API route.
@@ -157,6 +160,50 @@ export async function resolveProjectFolder(projectId: string): Promise<string> {
   return getOrCreateFolder(drive, projectId, rootId)
 }
 
+/**
+ * Returns the Drive folder ID for a sub-folder of a project, creating every
+ * missing level. `path` uses "/" as separator, e.g. "Laudos" or "Fotos/Vistoria".
+ */
+export async function resolveProjectSubfolder(projectId: string, path: string): Promise<string> {
+  const drive = getDriveClient()
+  return resolveSubfolderPath(drive, await resolveProjectFolder(projectId), path)
+}
+
+/**
+ * Returns the Drive folder ID for a given clientId, creating it if needed.
+ * Folder path: root → Clientes → clientId
+ */
+export async function resolveClientFolder(clientId: string): Promise<string> {
+  const drive = getDriveClient()
+  const clientsFolderId = await getOrCreateFolder(drive, 'Clientes', getRootFolderId())
+  return getOrCreateFolder(drive, clientId, clientsFolderId)
+}
+
+/**
+ * Same as `resolveProjectSubfolder`, inside the client folder (e.g. "Propostas").
+ */
+export async function resolveClientSubfolder(clientId: string, path: string): Promise<string> {
+  const drive = getDriveClient()
+  return resolveSubfolderPath(drive, await resolveClientFolder(clientId), path)
+}
+
+async function resolveSubfolderPath(
+  drive: drive_v3.Drive,
+  parentId: string,
+  path: string
+): Promise<string> {
+  const segments = path
+    .split('/')
+    .map((segment) => segment.trim())
+    .filter(Boolean)
+
+  let folderId = parentId
+  for (const segment of segments) {
+    folderId = await getOrCreateFolder(drive, segment, folderId)
+  }
+  return folderId
+}
+
 // ---------------------------------------------------------------------------
 // Public API
 // ---------------------------------------------------------------------------
@@ -0,0 +1,129 @@
+import { createAdminClient } from '@/lib/supabase/admin'
+import { sendNotificationEmail } from '@/lib/email'
+import type { NotificationType } from '@/lib/utils/notifications'
+
+/**
+ * Notifications Service
+ *
+ * Entrega de notificações aos usuários do sistema:
+ * - Uma linha em `notifications` por destinatário (sino no app)
+ * - Um email por destinatário ativo, com link para o item notificado
+ * - Quem gerou a notificação (`actorId`) nunca é notificado
+ * - Cada canal respeita as preferências do destinatário para o tipo
+ *   (`notification_preferences`; sem preferência, os dois canais ficam ativos)
+ * - Com `dedupWindowMinutes`, quem já recebeu o mesmo tipo sobre o mesmo item
+ *   na janela não é notificado de novo (`notification_dispatches`)
+ *
+ * Usa o cliente admin: as notificações são de outros usuários e a tabela não
+ * aceita inserts pelo frontend. Chame apenas depois de validar quem dispara.
+ */
+
+export interface NotifyUsersInput {
+  userIds: string[] // auth user ids
+  type: NotificationType
+  title: string
+  message: string
+  link?: string | null // caminho no app, ex.: /kanban?task=<id>
+  actorId?: string | null
+  entityType?: string | null
+  entityId?: string | null
+  dedupWindowMinutes?: number // exige entityId
+}
+
+export interface NotifyUsersResult {
+  notified: number
+  emailed: number
+}
+
+/**
+ * @param appUrl - Origem pública do app, usada no botão do email
+ */
+export async function notifyUsers(input: NotifyUsersInput, appUrl: string): Promise<NotifyUsersResult> {
+  const result: NotifyUsersResult = { notified: 0, emailed: 0 }
+  const userIds = Array.from(new Set(input.userIds)).filter((id) => id && id !== input.actorId)
+  if (userIds.length === 0) return result
+
+  const supabase = createAdminClient()
+
+  const { data: users, error: usersError } = await supabase
+    .from('users')
+    .select('auth_user_id, email, full_name')
+    .in('auth_user_id', userIds)
+    .eq('status', 'active')
+  if (usersError) throw usersError
+
+  let recipients = users ?? []
+  if (recipients.length === 0) return result
+
+  if (input.dedupWindowMinutes && input.entityId) {
+    const windowMs = input.dedupWindowMinutes * 60 * 1000
+    const windowStart = new Date(Math.floor(Date.now() / windowMs) * windowMs).toISOString()
+
+    // Só as linhas inseridas voltam: quem já estava registrado na janela fica de fora
+    const { data: dispatched, error: dispatchError } = await supabase
+      .from('notification_dispatches')
+      .upsert(
+        recipients.map((user: any) => ({
+          type: input.type,
+          entity_id: input.entityId,
+          user_id: user.auth_user_id,
+          window_start: windowStart,
+        })),
+        { onConflict: 'type,entity_id,user_id,window_start', ignoreDuplicates: true }
+      )
+      .select('user_id')
+    if (dispatchError) throw dispatchError
+
+    const dispatchedIds = new Set((dispatched ?? []).map((row: any) => row.user_id))
+    recipients = recipients.filter((user: any) => dispatchedIds.has(user.auth_user_id))
+    if (recipients.length === 0) return result
+  }
+
+  const { data: preferences, error: preferencesError } = await supabase
+    .from('notification_preferences')
+    .select('user_id, in_app, email')
+    .eq('type', input.type)
+    .in('user_id', recipients.map((user: any) => user.auth_user_id))
+  if (preferencesError) throw preferencesError
+
+  const preferenceByUser = new Map((preferences ?? []).map((p: any) => [p.user_id, p]))
+  const inAppRecipients = recipients.filter((user: any) => preferenceByUser.get(user.auth_user_id)?.in_app !== false)
+  const emailRecipients = recipients.filter((user: any) => preferenceByUser.get(user.auth_user_id)?.email !== false)
+
+  if (inAppRecipients.length > 0) {
+    const { error: insertError } = await supabase.from('notifications').insert(
+      inAppRecipients.map((user: any) => ({
+        user_id: user.auth_user_id,
+        type: input.type,
+        title: input.title,
+        message: input.message,
+        link: input.link ?? null,
+        actor_id: input.actorId ?? null,
+        entity_type: input.entityType ?? null,
+        entity_id: input.entityId ?? null,
+      }))
+    )
+    if (insertError) throw insertError
+    result.notified = inAppRecipients.length
+  }
+
+  for (const user of emailRecipients) {
+    if (!user.email) continue
+    const emailResult = await sendNotificationEmail({
+      to: user.email,
+      userName: user.full_name || user.email,
+      title: input.title,
+      message: input.message,
+      actionUrl: input.link ? `${appUrl}${input.link}` : undefined,
+      actionText: input.link ? 'Abrir no AvaliaTec' : undefined,
+    })
+
+    if (emailResult.success) {
+      result.emailed++
+    } else {
+      console.error('Error sending notification email:', emailResult.error)
+    }
+  }
+
+  return result
+}
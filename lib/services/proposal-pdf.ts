@@ -0,0 +1,303 @@
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from 'pdf-lib'
+import { formatDocument } from '@/lib/utils/document'
+import {
+  computeProposalTotals,
+  formatCurrencyBRL,
+  formatProposalNumber,
+  getItemTotal,
+  type ProposalItem,
+  type ProposalTax,
+} from '@/lib/utils/proposals'
+
+/**
+ * Proposal PDF
+ *
+ * Renderiza a proposta comercial em PDF (A4) no servidor, a partir do modelo
+ * em `PROPOSAL_TEMPLATE`: cabeçalho da empresa, dados do cliente, tabela de
+ * itens, totais com impostos, validade, condições de pagamento e observações.
+ * Usa as fontes padrão do PDF (WinAnsi), que cobrem a acentuação do português.
+ */
+
+export interface ProposalPdfData {
+  number: number
+  title: string
+  issuedAt: string // ISO
+  validUntil: string // YYYY-MM-DD
+  paymentTerms: string | null
+  notes: string | null
+  items: ProposalItem[]
+  taxes: ProposalTax[]
+  client: {
+    name: string
+    document: string | null
+    email: string | null
+    phone: string | null
+    address: string | null
+  }
+}
+
+const PROPOSAL_TEMPLATE = {
+  companyName: 'AvaliaTec',
+  heading: 'Proposta comercial',
+  accent: rgb(0.145, 0.388, 0.922),
+  text: rgb(0.13, 0.13, 0.13),
+  muted: rgb(0.42, 0.42, 0.42),
+  border: rgb(0.85, 0.85, 0.85),
+  footer: 'Proposta gerada pelo AvaliaTec.',
+}
+
+const PAGE_WIDTH = 595.28
+const PAGE_HEIGHT = 841.89
+const MARGIN = 50
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2
+
+// Colunas da tabela de itens: descrição | qtd | valor unitário | total
+const COLUMNS = [
+  { label: 'Descrição', width: CONTENT_WIDTH - 250, align: 'left' as const },
+  { label: 'Qtd', width: 50, align: 'right' as const },
+  { label: 'Valor unit.', width: 100, align: 'right' as const },
+  { label: 'Total', width: 100, align: 'right' as const },
+]
+
+// Caracteres fora do WinAnsi fariam o pdf-lib lançar erro
+const WIN_ANSI_EXTRA = '€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ'
+
+function sanitize(text: string): string {
+  return Array.from(text.normalize('NFC').replace(/\t/g, '    '))
+    .map((char) => (char.charCodeAt(0) <= 0xff || WIN_ANSI_EXTRA.includes(char) ? char : '?'))
+    .join('')
+}
+
+function formatDate(value: string): string {
+  const date = /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(`${value}T00:00:00`) : new Date(value)
+  return date.toLocaleDateString('pt-BR')
+}
+
+function formatQuantity(value: number): string {
+  return value.toLocaleString('pt-BR', { maximumFractionDigits: 2 })
+}
+
+/** Quebra o texto em linhas que cabem em `maxWidth`, respeitando quebras de linha. */
+function wrapText(text: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  const lines: string[] = []
+  for (const paragraph of sanitize(text).split(/\r?\n/)) {
+    let line = ''
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word
+      if (font.widthOfTextAtSize(candidate, size) <= maxWidth) {
+        line = candidate
+        continue
+      }
+      if (line) lines.push(line)
+      // Palavra maior que a linha inteira é cortada
+      let rest = word
+      while (font.widthOfTextAtSize(rest, size) > maxWidth && rest.length > 1) {
+        let cut = rest.length - 1
+        while (cut > 1 && font.widthOfTextAtSize(rest.slice(0, cut), size) > maxWidth) cut--
+        lines.push(rest.slice(0, cut))
+        rest = rest.slice(cut)
+      }
+      line = rest
+    }
+    lines.push(line)
+  }
+  return lines
+}
+
+class PdfWriter {
+  page: PDFPage
+  y: number
+
+  constructor(
+    private doc: PDFDocument,
+    readonly regular: PDFFont,
+    readonly bold: PDFFont
+  ) {
+    this.page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+    this.y = PAGE_HEIGHT - MARGIN
+  }
+
+  /** Garante `height` pontos livres na página, abrindo outra se preciso. */
+  ensureSpace(height: number) {
+    if (this.y - height >= MARGIN + 20) return
+    this.page = this.doc.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+    this.y = PAGE_HEIGHT - MARGIN
+  }
+
+  text(
+    value: string,
+    x: number,
+    options: { size?: number; font?: PDFFont; color?: ReturnType<typeof rgb>; width?: number; align?: 'left' | 'right' } = {}
+  ) {
+    const size = options.size ?? 10
+    const font = options.font ?? this.regular
+    const safe = sanitize(value)
+    const drawX = options.align === 'right' && options.width
+      ? x + options.width - font.widthOfTextAtSize(safe, size)
+      : x
+    this.page.drawText(safe, { x: drawX, y: this.y, size, font, color: options.color ?? PROPOSAL_TEMPLATE.text })
+  }
+
+  paragraph(value: string, options: { size?: number; font?: PDFFont; color?: ReturnType<typeof rgb> } = {}) {
+    const size = options.size ?? 10
+    const lineHeight = size * 1.4
+    for (const line of wrapText(value, options.font ?? this.regular, size, CONTENT_WIDTH)) {
+      this.ensureSpace(lineHeight)
+      this.text(line, MARGIN, options)
+      this.y -= lineHeight
+    }
+  }
+
+  rule(color = PROPOSAL_TEMPLATE.border) {
+    this.page.drawLine({
+      start: { x: MARGIN, y: this.y },
+      end: { x: PAGE_WIDTH - MARGIN, y: this.y },
+      thickness: 0.75,
+      color,
+    })
+  }
+
+  sectionTitle(title: string) {
+    this.ensureSpace(40)
+    this.y -= 10
+    this.text(title, MARGIN, { size: 11, font: this.bold, color: PROPOSAL_TEMPLATE.accent })
+    this.y -= 16
+  }
+}
+
+function drawTableHeader(writer: PdfWriter) {
+  writer.ensureSpace(24)
+  let x = MARGIN
+  for (const column of COLUMNS) {
+    writer.text(column.label, x + 4, {
+      size: 9,
+      font: writer.bold,
+      color: PROPOSAL_TEMPLATE.muted,
+      width: column.width - 8,
+      align: column.align,
+    })
+    x += column.width
+  }
+  writer.y -= 6
+  writer.rule()
+  writer.y -= 14
+}
+
+export async function renderProposalPdf(data: ProposalPdfData): Promise<Buffer> {
+  const doc = await PDFDocument.create()
+  doc.setTitle(`${formatProposalNumber(data.number)} - ${sanitize(data.title)}`)
+  doc.setAuthor(PROPOSAL_TEMPLATE.companyName)
+  doc.setCreator(PROPOSAL_TEMPLATE.companyName)
+
+  const writer = new PdfWriter(
+    doc,
+    await doc.embedFont(StandardFonts.Helvetica),
+    await doc.embedFont(StandardFonts.HelveticaBold)
+  )
+  const totals = computeProposalTotals(data.items, data.taxes)
+
+  // Cabeçalho
+  writer.text(PROPOSAL_TEMPLATE.companyName, MARGIN, { size: 20, font: writer.bold, color: PROPOSAL_TEMPLATE.accent })
+  writer.text(formatProposalNumber(data.number), MARGIN, { size: 12, font: writer.bold, width: CONTENT_WIDTH, align: 'right' })
+  writer.y -= 18
+  writer.text(PROPOSAL_TEMPLATE.heading, MARGIN, { size: 11, color: PROPOSAL_TEMPLATE.muted })
+  writer.text(`Emitida em ${formatDate(data.issuedAt)}`, MARGIN, {
+    size: 9,
+    color: PROPOSAL_TEMPLATE.muted,
+    width: CONTENT_WIDTH,
+    align: 'right',
+  })
+  writer.y -= 14
+  writer.rule(PROPOSAL_TEMPLATE.accent)
+  writer.y -= 24
+
+  writer.paragraph(data.title, { size: 14, font: writer.bold })
+
+  // Cliente
+  writer.sectionTitle('Cliente')
+  writer.paragraph(data.client.name, { font: writer.bold })
+  const clientDetails = [
+    data.client.document ? formatDocument(data.client.document) : null,
+    data.client.email,
+    data.client.phone,
+  ].filter(Boolean)
+  if (clientDetails.length > 0) writer.paragraph(clientDetails.join('  ·  '), { color: PROPOSAL_TEMPLATE.muted })
+  if (data.client.address) writer.paragraph(data.client.address, { color: PROPOSAL_TEMPLATE.muted })
+
+  // Itens
+  writer.sectionTitle('Itens')
+  drawTableHeader(writer)
+  for (const item of data.items) {
+    const descriptionLines = wrapText(item.description, writer.regular, 10, COLUMNS[0].width - 8)
+    const rowHeight = descriptionLines.length * 14 + 6
+    if (writer.y - rowHeight < MARGIN + 20) {
+      writer.ensureSpace(rowHeight + 24)
+      drawTableHeader(writer)
+    }
+
+    const rowTop = writer.y
+    descriptionLines.forEach((line, index) => {
+      writer.y = rowTop - index * 14
+      writer.text(line, MARGIN + 4)
+    })
+    writer.y = rowTop
+    let x = MARGIN + COLUMNS[0].width
+    const values = [formatQuantity(item.quantity), formatCurrencyBRL(item.unitPrice), formatCurrencyBRL(getItemTotal(item))]
+    values.forEach((value, index) => {
+      const column = COLUMNS[index + 1]
+      writer.text(value, x + 4, { width: column.width - 8, align: 'right' })
+      x += column.width
+    })
+    writer.y = rowTop - rowHeight + 8
+    writer.rule()
+    writer.y -= 14
+  }
+
+  // Totais, alinhados à direita da tabela
+  const labelX = MARGIN + COLUMNS[0].width
+  const labelWidth = COLUMNS[1].width + COLUMNS[2].width - 8
+  const valueX = labelX + COLUMNS[1].width + COLUMNS[2].width
+  const valueWidth = COLUMNS[3].width - 8
+  const totalLines: { label: string; value: number; strong?: boolean }[] = [
+    { label: 'Subtotal', value: totals.subtotal },
+    ...totals.taxes.map((tax) => ({ label: `${tax.name} (${formatQuantity(tax.rate)}%)`, value: tax.amount })),
+    { label: 'Total', value: totals.total, strong: true },
+  ]
+  writer.ensureSpace(totalLines.length * 16 + 10)
+  for (const line of totalLines) {
+    const font = line.strong ? writer.bold : writer.regular
+    const size = line.strong ? 12 : 10
+    writer.text(line.label, labelX, { font, size, width: labelWidth, align: 'right' })
+    writer.text(formatCurrencyBRL(line.value), valueX + 4, { font, size, width: valueWidth, align: 'right' })
+    writer.y -= line.strong ? 20 : 16
+  }
+
+  // Condições
+  writer.sectionTitle('Condições')
+  writer.paragraph(`Validade da proposta: até ${formatDate(data.validUntil)}`)
+  if (data.paymentTerms) {
+    writer.y -= 4
+    writer.paragraph('Condições de pagamento', { font: writer.bold })
+    writer.paragraph(data.paymentTerms)
+  }
+
+  if (data.notes) {
+    writer.sectionTitle('Observações')
+    writer.paragraph(data.notes)
+  }
+
+  // Rodapé com numeração em todas as páginas
+  const pages = doc.getPages()
+  pages.forEach((page, index) => {
+    const footer = sanitize(`${PROPOSAL_TEMPLATE.footer}  ·  Página ${index + 1} de ${pages.length}`)
+    page.drawText(footer, {
+      x: MARGIN,
+      y: MARGIN - 20,
+      size: 8,
+      font: writer.regular,
+      color: PROPOSAL_TEMPLATE.muted,
+    })
+  })
+
+  return Buffer.from(await doc.save())
+}
@@ -0,0 +1,81 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { driveDeleteFile, driveUploadFile, resolveClientSubfolder } from '@/lib/services/googleDriveService'
+import { renderProposalPdf } from '@/lib/services/proposal-pdf'
+import { getProposalFileName } from '@/lib/utils/proposals'
+
+/**
+ * Proposals Service
+ *
+ * Passos do servidor para as propostas comerciais: carregar a proposta com o
+ * cliente, gerar o PDF e guardá-lo na pasta "Propostas" do cliente no Drive.
+ * Usado por /api/proposals/[id]/pdf e /api/proposals/[id]/send.
+ */
+
+export const PROPOSAL_COLUMNS =
+  'id, number, client_id, deal_id, title, items, taxes, subtotal, tax_total, total, valid_until, payment_terms, notes, status, drive_file_id, drive_web_view_link, sent_at, sent_to, created_at, updated_at, clients(id, name, document, email, phone, address), deals(id, title, stage)'
+
+export const PROPOSALS_DRIVE_FOLDER = 'Propostas'
+
+/** Carrega a proposta (respeitando o RLS) ou null quando não existe/não é visível. */
+export async function getProposal(supabase: SupabaseClient, id: string): Promise<any | null> {
+  const { data, error } = await supabase
+    .from('proposals')
+    .select(PROPOSAL_COLUMNS)
+    .eq('id', id)
+    .maybeSingle()
+  if (error) throw error
+  return data
+}
+
+export async function renderProposal(proposal: any): Promise<Buffer> {
+  return renderProposalPdf({
+    number: Number(proposal.number),
+    title: proposal.title,
+    issuedAt: proposal.sent_at ?? new Date().toISOString(),
+    validUntil: proposal.valid_until,
+    paymentTerms: proposal.payment_terms,
+    notes: proposal.notes,
+    items: proposal.items ?? [],
+    taxes: proposal.taxes ?? [],
+    client: {
+      name: proposal.clients?.name ?? '',
+      document: proposal.clients?.document || null,
+      email: proposal.clients?.email || null,
+      phone: proposal.clients?.phone || null,
+      address: proposal.clients?.address || null,
+    },
+  })
+}
+
+/**
+ * Envia o PDF para a pasta do cliente no Drive e grava a referência na
+ * proposta. Uma versão anterior do mesmo rascunho é removida do Drive, por
+ * isso só deve ser chamado para rascunhos.
+ */
+export async function storeProposalPdf(
+  supabase: SupabaseClient,
+  proposal: any,
+  pdf: Buffer
+): Promise<{ driveFileId: string; webViewLink: string | null }> {
+  const folderId = await resolveClientSubfolder(proposal.client_id, PROPOSALS_DRIVE_FOLDER)
+  const driveFile = await driveUploadFile({
+    name: getProposalFileName(proposal),
+    mimeType: 'application/pdf',
+    buffer: pdf,
+    folderId,
+  })
+
+  const { error } = await supabase
+    .from('proposals')
+    .update({ drive_file_id: driveFile.id, drive_web_view_link: driveFile.webViewLink })
+    .eq('id', proposal.id)
+  if (error) throw error
+
+  if (proposal.drive_file_id && proposal.drive_file_id !== driveFile.id) {
+    await driveDeleteFile(proposal.drive_file_id).catch((err) => {
+      console.error('Error deleting previous proposal PDF from Drive:', err)
+    })
+  }
+
+  return { driveFileId: driveFile.id, webViewLink: driveFile.webViewLink }
+}
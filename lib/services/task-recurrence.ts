@@ -0,0 +1,54 @@
+import { createAdminClient } from '@/lib/supabase/admin'
+import { CALENDAR_TIME_ZONE } from '@/lib/services/calendar-feed'
+import { createNextTaskInstance } from '@/lib/utils/task-recurrence'
+
+/**
+ * Task Recurrence Service
+ *
+ * Geração das tarefas recorrentes no modo "schedule":
+ * - Executado periodicamente pelo cron (POST /api/tasks/recurrence)
+ * - Quando chega a data da instância mais recente de uma série, a próxima
+ *   instância é criada, esteja a atual concluída ou não
+ * - O índice único por ocorrência impede duplicidade entre execuções
+ */
+
+export interface TaskRecurrenceResult {
+  created: number
+  failed: number
+}
+
+export async function generateScheduledTasks(now: Date = new Date()): Promise<TaskRecurrenceResult> {
+  const supabase = createAdminClient()
+  const result: TaskRecurrenceResult = { created: 0, failed: 0 }
+  const today = new Intl.DateTimeFormat('en-CA', { timeZone: CALENDAR_TIME_ZONE }).format(now)
+
+  const { data, error } = await supabase
+    .from('tasks')
+    .select('id, recurrence_series_id, recurrence_occurrence_date')
+    .eq('recurrence_mode', 'schedule')
+    .not('recurrence_frequency', 'is', null)
+    .lte('recurrence_occurrence_date', today)
+  if (error) throw error
+
+  // Instância mais recente de cada série
+  const latest = new Map<string, { id: string; date: string }>()
+  ;(data ?? []).forEach((row: any) => {
+    const seriesId = row.recurrence_series_id ?? row.id
+    const current = latest.get(seriesId)
+    if (!current || row.recurrence_occurrence_date > current.date) {
+      latest.set(seriesId, { id: row.id, date: row.recurrence_occurrence_date })
+    }
+  })
+
+  for (const { id } of Array.from(latest.values())) {
+    try {
+      const createdId = await createNextTaskInstance(supabase, id, 'schedule', today)
+      if (createdId) result.created++
+    } catch (err) {
+      console.error('Error creating recurring task instance:', err)
+      result.failed++
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,18 @@
+import { createClient as createSupabaseClient } from '@supabase/supabase-js'
+
+/**
+ * Cliente com a service role key: ignora RLS. Use apenas em rotas de servidor
+ * sem sessão de usuário (ex.: jobs disparados por cron), nunca no frontend.
+ */
+export function createAdminClient() {
+  return createSupabaseClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    {
+      auth: {
+        persistSession: false,
+        autoRefreshToken: false,
+      },
+    }
+  )
+}
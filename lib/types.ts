@@ -23,6 +23,18 @@ export type Client = {
   updated_at: string
 }
 
+export type ClientContact = {
+  id: string
+  client_id: string
+  name: string
+  role: string | null
+  email: string | null
+  phone: string | null
+  is_primary: boolean
+  created_at: string
+  updated_at: string
+}
+
 export type Project = {
   id: string
   code: string
@@ -67,6 +79,35 @@ export type TaskChecklist = {
   created_at: string
 }
 
+export type TaskDependency = {
+  id: string
+  task_id: string
+  depends_on_task_id: string
+  created_by: string | null
+  created_at: string
+}
+
+export type TaskTimeEntry = {
+  id: string
+  task_id: string
+  user_id: string
+  started_at: string
+  ended_at: string | null
+  duration_minutes: number | null
+  description: string | null
+  is_manual: boolean
+  created_at: string
+}
+
+export type TaskStatusHistory = {
+  id: string
+  task_id: string
+  from_status: string | null
+  to_status: string
+  changed_by: string | null
+  changed_at: string
+}
+
 export type TaskMember = {
   task_id: string
   user_id: string
@@ -88,15 +129,51 @@ export type Event = {
   description: string | null
   event_date: string
   event_time: string
+  event_end_time: string | null
   location: string | null
   type: 'meeting' | 'deadline' | 'visit'
   client_id: string | null
   project_id: string | null
   created_by: string | null
+  recurrence_frequency: 'daily' | 'weekly' | 'monthly' | null
+  recurrence_interval: number
+  recurrence_until: string | null
+  recurrence_count: number | null
+  recurrence_parent_id: string | null
+  recurrence_original_date: string | null
+  ical_uid: string | null
+  reminder_minutes: number[]
   created_at: string
   updated_at: string
 }
 
+export type EventException = {
+  id: string
+  event_id: string
+  occurrence_date: string
+  created_by: string | null
+  created_at: string
+}
+
+/** Participant already booked in another event during the requested time slot. */
+export type EventConflict = {
+  userId: string
+  eventId: string
+  title: string
+  date: string // YYYY-MM-DD
+  time: string // HH:mm
+  endTime: string // HH:mm
+}
+
+export type EventReminderLog = {
+  id: string
+  event_id: string
+  occurrence_date: string
+  reminder_minutes: number
+  user_id: string
+  sent_at: string
+}
+
 export type EventParticipant = {
   event_id: string
   user_id: string
@@ -400,6 +477,45 @@ export class InviteError extends Error {
   }
 }
 
+export class EventConflictError extends Error {
+  conflicts: EventConflict[]
+
+  constructor(message: string, conflicts: EventConflict[]) {
+    super(message)
+    this.name = 'EventConflictError'
+    this.conflicts = conflicts
+  }
+}
+
+export class TaskDependencyCycleError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'TaskDependencyCycleError'
+  }
+}
+
+export class TaskBlockedError extends Error {
+  blockers: { id: string; title: string; status: string }[]
+
+  constructor(message: string, blockers: { id: string; title: string; status: string }[]) {
+    super(message)
+    this.name = 'TaskBlockedError'
+    this.blockers = blockers
+  }
+}
+
+export class ColumnWipLimitError extends Error {
+  column: { id: string; name: string; wipLimit: number }
+  count: number // tarefas já na coluna
+
+  constructor(message: string, column: { id: string; name: string; wipLimit: number }, count: number) {
+    super(message)
+    this.name = 'ColumnWipLimitError'
+    this.column = column
+    this.count = count
+  }
+}
+
 export class UserSyncError extends Error {
   constructor(message: string) {
     super(message)
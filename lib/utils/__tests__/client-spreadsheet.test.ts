@@ -0,0 +1,226 @@
+/**
+ * Tests for client spreadsheet utilities
+ */
+
+import type { Client, ClientListMetrics } from '@/lib/types'
+import {
+  buildClientExportRows,
+  buildClientImportRows,
+  escapeSpreadsheetText,
+  guessColumnMapping,
+  markExistingClients,
+  parseClientSpreadsheet,
+  type ClientColumnMapping,
+} from '../client-spreadsheet'
+
+const mapping: ClientColumnMapping = {
+  name: 0,
+  document: 1,
+  email: 2,
+  phone: 3,
+  address: null,
+  notes: null,
+}
+
+const client = (overrides: Partial<Client>): Client => ({
+  id: 'client-1',
+  name: 'Acme Ltda',
+  document: '11222333000181',
+  email: 'contato@acme.com.br',
+  phone: '11999998888',
+  address: 'Rua A, 100',
+  type: 'company',
+  notes: null,
+  created_by: null,
+  created_at: '2023-05-10T12:00:00Z',
+  updated_at: '2023-05-10T12:00:00Z',
+  ...overrides,
+})
+
+describe('Client Spreadsheet Utilities', () => {
+  describe('parseClientSpreadsheet', () => {
+    it('should read CSV cells as text, keeping leading zeros', async () => {
+      const file = new File(
+        ['Nome;CPF/CNPJ;Email\nJoão Silva;01234567890;joao@email.com\n\nMaria;;\n'],
+        'clientes.csv',
+        { type: 'text/csv' }
+      )
+      const sheet = await parseClientSpreadsheet(file)
+
+      expect(sheet.headers).toEqual(['Nome', 'CPF/CNPJ', 'Email'])
+      expect(sheet.rows).toEqual([
+        ['João Silva', '01234567890', 'joao@email.com'],
+        ['Maria', '', ''],
+      ])
+    })
+
+    it('should reject an empty file', async () => {
+      await expect(parseClientSpreadsheet(new File([''], 'vazio.csv'))).rejects.toThrow('A planilha está vazia')
+    })
+  })
+
+  describe('guessColumnMapping', () => {
+    it('should match headers ignoring accents, case and separators', () => {
+      expect(guessColumnMapping(['Razão Social', 'CNPJ', 'E-mail', 'Celular', 'Endereço', 'Obs'])).toEqual({
+        name: 0,
+        document: 1,
+        email: 2,
+        phone: 3,
+        address: 4,
+        notes: 5,
+      })
+    })
+
+    it('should fall back to partial matches and leave unknown fields unmapped', () => {
+      expect(guessColumnMapping(['Código', 'Nome do cliente', 'Telefone comercial'])).toEqual({
+        name: 1,
+        document: null,
+        email: null,
+        phone: 2,
+        address: null,
+        notes: null,
+      })
+    })
+  })
+
+  describe('buildClientImportRows', () => {
+    it('should normalize values and restore leading zeros lost by the spreadsheet', () => {
+      const [row] = buildClientImportRows(
+        { headers: [], rows: [[' João Silva ', '1234567890', 'JOAO@Email.com', '(11) 99999-8888']] },
+        mapping
+      )
+
+      expect(row).toEqual({
+        rowNumber: 2,
+        values: {
+          name: 'João Silva',
+          document: '01234567890',
+          email: 'joao@email.com',
+          phone: '(11) 99999-8888',
+          address: '',
+          notes: '',
+        },
+        status: 'ready',
+        messages: [],
+      })
+    })
+
+    it('should pad 13-digit documents back to CNPJ', () => {
+      const [row] = buildClientImportRows({ headers: [], rows: [['Empresa', '4252011000110', '', '']] }, mapping)
+      expect(row.values.document).toBe('04252011000110')
+      expect(row.status).toBe('ready')
+    })
+
+    it('should report every validation error of a row', () => {
+      const [row] = buildClientImportRows({ headers: [], rows: [['', '529.982.247-24', 'email-invalido', '']] }, mapping)
+
+      expect(row.status).toBe('error')
+      expect(row.messages).toContain('Nome obrigatório')
+      expect(row.messages).toContain('Email inválido')
+      expect(row.messages).toHaveLength(3)
+    })
+
+    it('should mark rows repeating a document or email of an earlier row', () => {
+      const rows = buildClientImportRows(
+        {
+          headers: [],
+          rows: [
+            ['Acme', '11.222.333/0001-81', 'contato@acme.com.br', ''],
+            ['Acme Filial', '11222333000181', '', ''],
+            ['Outro', '', 'CONTATO@acme.com.br', ''],
+            ['Novo', '', 'novo@email.com', ''],
+          ],
+        },
+        mapping
+      )
+
+      expect(rows.map((row) => row.status)).toEqual(['ready', 'duplicate', 'duplicate', 'ready'])
+      expect(rows[1].messages).toEqual(['Repete a linha 2 do arquivo'])
+      expect(rows[2].messages).toEqual(['Repete a linha 2 do arquivo'])
+    })
+  })
+
+  describe('markExistingClients', () => {
+    it('should flag ready rows that already exist in the database', () => {
+      const rows = buildClientImportRows(
+        {
+          headers: [],
+          rows: [
+            ['Acme', '11222333000181', 'contato@acme.com.br', ''],
+            ['Novo', '', 'novo@email.com', ''],
+            ['', '', '', ''],
+          ],
+        },
+        mapping
+      )
+      const marked = markExistingClients(rows, {
+        documents: new Set(['11222333000181']),
+        emails: new Set(['contato@acme.com.br']),
+      })
+
+      expect(marked[0]).toMatchObject({
+        status: 'duplicate',
+        messages: ['Já existe um cliente com este CPF/CNPJ', 'Já existe um cliente com este email'],
+      })
+      expect(marked[1]).toBe(rows[1])
+      expect(marked[2]).toBe(rows[2])
+    })
+  })
+
+  describe('escapeSpreadsheetText', () => {
+    it('should prefix values that spreadsheets would evaluate as formulas', () => {
+      expect(escapeSpreadsheetText('=HYPERLINK("http://x")')).toBe(`'=HYPERLINK("http://x")`)
+      expect(escapeSpreadsheetText('+5511999998888')).toBe(`'+5511999998888`)
+      expect(escapeSpreadsheetText('-1')).toBe(`'-1`)
+      expect(escapeSpreadsheetText('@SUM(A1)')).toBe(`'@SUM(A1)`)
+    })
+
+    it('should keep ordinary values untouched', () => {
+      expect(escapeSpreadsheetText('Acme Ltda')).toBe('Acme Ltda')
+      expect(escapeSpreadsheetText('a=b')).toBe('a=b')
+      expect(escapeSpreadsheetText(null)).toBe('')
+    })
+  })
+
+  describe('buildClientExportRows', () => {
+    it('should export client data with list metrics', () => {
+      const metrics: Record<string, ClientListMetrics> = {
+        'client-1': {
+          client_since: '2022-01-15T12:00:00Z',
+          total_completed_revenue: 1500.5,
+          last_sale_date: '2024-03-20T12:00:00Z',
+          total_projects: 3,
+          completed_projects: 2,
+          active_projects: 1,
+        },
+      }
+      const [header, row] = buildClientExportRows([client({})], metrics)
+
+      expect(header).toHaveLength(row.length)
+      expect(row).toEqual([
+        'Acme Ltda',
+        '11.222.333/0001-81',
+        'Pessoa jurídica',
+        'contato@acme.com.br',
+        '11999998888',
+        'Rua A, 100',
+        '15/01/2022',
+        1500.5,
+        '20/03/2024',
+        3,
+        2,
+        1,
+      ])
+    })
+
+    it('should fall back to the creation date and escape formula-like text', () => {
+      const [, row] = buildClientExportRows(
+        [client({ name: '=cmd|calc', document: '', type: 'individual', phone: '+5511999998888' })],
+        {}
+      )
+
+      expect(row.slice(0, 5)).toEqual(['\'=cmd|calc', '', 'Pessoa física', 'contato@acme.com.br', '\'+5511999998888'])
+      expect(row.slice(6)).toEqual(['10/05/2023', 0, '', 0, 0, 0])
+    })
+  })
+})
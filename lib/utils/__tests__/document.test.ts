@@ -0,0 +1,84 @@
+/**
+ * Tests for CPF / CNPJ utilities
+ */
+
+import {
+  formatDocument,
+  getDocumentError,
+  getDocumentType,
+  isValidCnpj,
+  isValidCpf,
+  normalizeDocument,
+} from '../document'
+
+describe('Document Utilities', () => {
+  describe('normalizeDocument', () => {
+    it('should keep only digits', () => {
+      expect(normalizeDocument('11.222.333/0001-81')).toBe('11222333000181')
+      expect(normalizeDocument(' 529.982.247-25 ')).toBe('52998224725')
+    })
+
+    it('should return an empty string for missing values', () => {
+      expect(normalizeDocument(null)).toBe('')
+      expect(normalizeDocument(undefined)).toBe('')
+    })
+  })
+
+  describe('getDocumentType', () => {
+    it('should detect the type by length', () => {
+      expect(getDocumentType('529.982.247-25')).toBe('cpf')
+      expect(getDocumentType('11.222.333/0001-81')).toBe('cnpj')
+      expect(getDocumentType('123')).toBeNull()
+    })
+  })
+
+  describe('isValidCpf', () => {
+    it('should accept CPFs with valid check digits', () => {
+      expect(isValidCpf('529.982.247-25')).toBe(true)
+      expect(isValidCpf('52998224725')).toBe(true)
+    })
+
+    it('should reject wrong check digits and repeated sequences', () => {
+      expect(isValidCpf('529.982.247-24')).toBe(false)
+      expect(isValidCpf('111.111.111-11')).toBe(false)
+      expect(isValidCpf('5299822472')).toBe(false)
+    })
+  })
+
+  describe('isValidCnpj', () => {
+    it('should accept CNPJs with valid check digits', () => {
+      expect(isValidCnpj('11.222.333/0001-81')).toBe(true)
+      expect(isValidCnpj('11444777000161')).toBe(true)
+    })
+
+    it('should reject wrong check digits and repeated sequences', () => {
+      expect(isValidCnpj('11.222.333/0001-82')).toBe(false)
+      expect(isValidCnpj('00000000000000')).toBe(false)
+      expect(isValidCnpj('1122233300018')).toBe(false)
+    })
+  })
+
+  describe('getDocumentError', () => {
+    it('should accept an empty document', () => {
+      expect(getDocumentError('')).toBeNull()
+    })
+
+    it('should report invalid CPF, CNPJ and length', () => {
+      expect(getDocumentError('529.982.247-24')).toBe('CPF inválido')
+      expect(getDocumentError('11.222.333/0001-82')).toBe('CNPJ inválido')
+      expect(getDocumentError('12345')).toBe('Informe um CPF (11 dígitos) ou CNPJ (14 dígitos)')
+    })
+  })
+
+  describe('formatDocument', () => {
+    it('should format stored digits for display', () => {
+      expect(formatDocument('52998224725')).toBe('529.982.247-25')
+      expect(formatDocument('11222333000181')).toBe('11.222.333/0001-81')
+    })
+
+    it('should pass other values through', () => {
+      expect(formatDocument('123')).toBe('123')
+      expect(formatDocument(null)).toBe('')
+    })
+  })
+})
@@ -0,0 +1,185 @@
+/**
+ * Tests for iCalendar utilities
+ */
+
+import { buildCalendar, parseCalendar, type IcsEvent } from '../ical'
+
+const baseEvent: IcsEvent = {
+  uid: 'event-1@avaliatec',
+  title: 'Vistoria, bloco A; sala 2',
+  description: 'Levar laudo\nConferir C:\\docs\\novo',
+  location: 'Rua X, 10',
+  date: '2024-03-10',
+  time: '09:30',
+  durationMinutes: 90,
+  recurrence: { frequency: 'weekly', interval: 2, until: null, count: 4 },
+  exceptions: ['2024-03-24'],
+  attendees: [{ name: 'Ana "Souza"', email: 'ana@example.com' }],
+  categories: ['Visita'],
+  updatedAt: '2024-03-01T12:00:00.000Z',
+}
+
+function buildOne(event: IcsEvent): string {
+  return buildCalendar({ name: 'Agenda', timeZone: 'America/Sao_Paulo', events: [event] })
+}
+
+describe('iCalendar Utilities', () => {
+  describe('buildCalendar', () => {
+    it('should emit CRLF lines with local times, RRULE and EXDATE', () => {
+      const ics = buildOne(baseEvent)
+      const lines = ics.split('\r\n')
+
+      expect(lines[0]).toBe('BEGIN:VCALENDAR')
+      expect(lines).toContain('DTSTART;TZID=America/Sao_Paulo:20240310T093000')
+      expect(lines).toContain('DTEND;TZID=America/Sao_Paulo:20240310T110000')
+      expect(lines).toContain('RRULE:FREQ=WEEKLY;INTERVAL=2;COUNT=4')
+      expect(lines).toContain('EXDATE;TZID=America/Sao_Paulo:20240324T093000')
+      expect(lines).toContain('DTSTAMP:20240301T120000Z')
+      expect(lines).toContain('ATTENDEE;CN="Ana \'Souza\'":mailto:ana@example.com')
+      expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true)
+    })
+
+    it('should escape text values', () => {
+      const ics = buildOne(baseEvent)
+      expect(ics).toContain('SUMMARY:Vistoria\\, bloco A\\; sala 2')
+      expect(ics).toContain('DESCRIPTION:Levar laudo\\nConferir C:\\\\docs\\\\novo')
+    })
+
+    it('should define the referenced time zone', () => {
+      const ics = buildOne(baseEvent)
+      const start = ics.indexOf('BEGIN:VTIMEZONE')
+
+      expect(start).toBeGreaterThan(-1)
+      expect(start).toBeLessThan(ics.indexOf('BEGIN:VEVENT'))
+      expect(ics).toContain('TZID:America/Sao_Paulo\r\nBEGIN:STANDARD\r\nDTSTART:19700101T000000')
+      expect(ics).toContain('TZOFFSETFROM:-0300\r\nTZOFFSETTO:-0300')
+    })
+
+    it('should include daylight saving transitions in the time zone', () => {
+      const ics = buildCalendar({ name: 'Agenda', timeZone: 'Europe/Lisbon', events: [baseEvent] })
+
+      expect(ics).toContain(
+        'BEGIN:DAYLIGHT\r\nDTSTART:20240331T010000\r\nTZOFFSETFROM:+0000\r\nTZOFFSETTO:+0100\r\nEND:DAYLIGHT'
+      )
+      expect(ics).toContain(
+        'BEGIN:STANDARD\r\nDTSTART:20241027T020000\r\nTZOFFSETFROM:+0100\r\nTZOFFSETTO:+0000\r\nEND:STANDARD'
+      )
+    })
+
+    it('should write UNTIL in UTC', () => {
+      const ics = buildOne({ ...baseEvent, recurrence: { frequency: 'daily', interval: 1, until: '2024-03-31', count: null } })
+      expect(ics.split('\r\n')).toContain('RRULE:FREQ=DAILY;UNTIL=20240401T025959Z')
+    })
+
+    it('should fold lines longer than 75 octets', () => {
+      const ics = buildOne({ ...baseEvent, description: 'á'.repeat(100) })
+      for (const line of ics.split('\r\n')) {
+        expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75)
+      }
+    })
+  })
+
+  describe('parseCalendar', () => {
+    it('should read back what buildCalendar writes', () => {
+      const [parsed] = parseCalendar(buildOne(baseEvent))
+
+      expect(parsed).toEqual({
+        uid: 'event-1@avaliatec',
+        title: 'Vistoria, bloco A; sala 2',
+        description: 'Levar laudo\nConferir C:\\docs\\novo',
+        location: 'Rua X, 10',
+        date: '2024-03-10',
+        time: '09:30',
+        endTime: '11:00',
+        allDay: false,
+        recurrence: { frequency: 'weekly', interval: 2, until: null, count: 4 },
+        unsupportedRecurrence: null,
+        exceptions: ['2024-03-24'],
+        attendees: [{ name: "Ana 'Souza'", email: 'ana@example.com' }],
+      })
+    })
+
+    it('should keep an escaped backslash before "n"', () => {
+      const ics = buildOne({ ...baseEvent, description: 'C:\\novo' })
+      expect(parseCalendar(ics)[0].description).toBe('C:\\novo')
+    })
+
+    it('should read EXDATE lists and repeated EXDATE lines', () => {
+      const ics = [
+        'BEGIN:VCALENDAR',
+        'BEGIN:VEVENT',
+        'UID:abc',
+        'DTSTART:20240101T100000',
+        'RRULE:FREQ=DAILY;UNTIL=20240110T235959Z',
+        'EXDATE:20240103T100000,20240105T100000',
+        'EXDATE;VALUE=DATE:20240102',
+        'END:VEVENT',
+        'END:VCALENDAR',
+      ].join('\r\n')
+
+      const [parsed] = parseCalendar(ics)
+      expect(parsed.recurrence).toEqual({ frequency: 'daily', interval: 1, until: '2024-01-10', count: null })
+      expect(parsed.exceptions).toEqual(['2024-01-02', '2024-01-03', '2024-01-05'])
+    })
+
+    it('should handle all-day events, folded lines and unsupported rules', () => {
+      const ics = [
+        'BEGIN:VCALENDAR',
+        'BEGIN:VEVENT',
+        'DTSTART;VALUE=DATE:20240215',
+        'SUMMARY:Entrega do ',
+        ' laudo',
+        'RRULE:FREQ=YEARLY',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'SUMMARY:Sem data',
+        'END:VEVENT',
+        'END:VCALENDAR',
+      ].join('\n')
+
+      const events = parseCalendar(ics)
+      expect(events).toHaveLength(1)
+      expect(events[0]).toMatchObject({
+        uid: null,
+        title: 'Entrega do laudo',
+        date: '2024-02-15',
+        allDay: true,
+        endTime: null,
+        recurrence: null,
+        unsupportedRecurrence: 'FREQ=YEARLY',
+      })
+    })
+
+    const withRule = (dtstart: string, rrule: string) =>
+      parseCalendar(
+        ['BEGIN:VCALENDAR', 'BEGIN:VEVENT', `DTSTART:${dtstart}`, `RRULE:${rrule}`, 'END:VEVENT', 'END:VCALENDAR'].join(
+          '\r\n'
+        )
+      )[0]
+
+    it('should report rules with several weekdays or set positions instead of importing another rule', () => {
+      // 2024-03-11 é uma segunda-feira
+      for (const rrule of [
+        'FREQ=WEEKLY;BYDAY=MO,WE,FR',
+        'FREQ=WEEKLY;BYDAY=TU',
+        'FREQ=MONTHLY;BYDAY=2MO',
+        'FREQ=MONTHLY;BYDAY=MO;BYSETPOS=1',
+        'FREQ=MONTHLY;BYMONTHDAY=15',
+        'FREQ=DAILY;BYHOUR=9,15',
+      ]) {
+        expect(withRule('20240311T090000', rrule)).toMatchObject({ recurrence: null, unsupportedRecurrence: rrule })
+      }
+    })
+
+    it('should accept BYDAY and BYMONTHDAY that repeat the start date', () => {
+      expect(withRule('20240311T090000', 'FREQ=WEEKLY;WKST=SU;BYDAY=MO;COUNT=3')).toMatchObject({
+        recurrence: { frequency: 'weekly', interval: 1, until: null, count: 3 },
+        unsupportedRecurrence: null,
+      })
+      expect(withRule('20240311T090000', 'FREQ=MONTHLY;BYMONTHDAY=11;INTERVAL=2;')).toMatchObject({
+        recurrence: { frequency: 'monthly', interval: 2, until: null, count: null },
+        unsupportedRecurrence: null,
+      })
+    })
+  })
+})
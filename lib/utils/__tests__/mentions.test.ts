@@ -0,0 +1,81 @@
+/**
+ * Tests for mention utilities
+ */
+
+import { extractMentionedUserIds, findMentionQuery, splitMentions } from '../mentions'
+
+const candidates = [
+  { id: 'ana', name: 'Ana' },
+  { id: 'ana-paula', name: 'Ana Paula' },
+  { id: 'joao', name: 'João Silva' },
+  { id: 'blank', name: '  ' },
+]
+
+describe('Mention Utilities', () => {
+  describe('extractMentionedUserIds', () => {
+    it('should find mentions at the start and after whitespace', () => {
+      expect(extractMentionedUserIds('@João Silva pode revisar?\n@Ana obrigado', candidates)).toEqual(['joao', 'ana'])
+    })
+
+    it('should prefer the longest matching name', () => {
+      expect(extractMentionedUserIds('Fala com @Ana Paula', candidates)).toEqual(['ana-paula'])
+      expect(extractMentionedUserIds('@Ana Paula e @Ana', candidates)).toEqual(['ana-paula', 'ana'])
+    })
+
+    it('should not match names inside words or emails', () => {
+      expect(extractMentionedUserIds('email ana@Ana.com', candidates)).toEqual([])
+      expect(extractMentionedUserIds('@Anabela chegou', candidates)).toEqual([])
+      expect(extractMentionedUserIds('@João Silvano', candidates)).toEqual([])
+    })
+
+    it('should report each user once and ignore blank names', () => {
+      expect(extractMentionedUserIds('@Ana, @Ana! @  ', candidates)).toEqual(['ana'])
+    })
+
+    it('should treat regex characters in names literally', () => {
+      const special = [{ id: 'x', name: 'C. (Ltda)' }]
+      expect(extractMentionedUserIds('ok @C. (Ltda)', special)).toEqual(['x'])
+      expect(extractMentionedUserIds('ok @CX (Ltda)', special)).toEqual([])
+    })
+  })
+
+  describe('splitMentions', () => {
+    it('should return the whole text when there are no names', () => {
+      expect(splitMentions('sem menções', [])).toEqual([{ text: 'sem menções', mention: false }])
+    })
+
+    it('should split plain text and mentions in order', () => {
+      expect(splitMentions('Oi @Ana Paula, veja com @João Silva.', ['Ana', 'Ana Paula', 'João Silva'])).toEqual([
+        { text: 'Oi ', mention: false },
+        { text: '@Ana Paula', mention: true },
+        { text: ', veja com ', mention: false },
+        { text: '@João Silva', mention: true },
+        { text: '.', mention: false },
+      ])
+    })
+
+    it('should not highlight partial names', () => {
+      expect(splitMentions('@Anabela', ['Ana'])).toEqual([{ text: '@Anabela', mention: false }])
+    })
+  })
+
+  describe('findMentionQuery', () => {
+    it('should return the text typed after "@"', () => {
+      expect(findMentionQuery('Oi @An', 6)).toEqual({ start: 3, query: 'An' })
+      expect(findMentionQuery('@', 1)).toEqual({ start: 0, query: '' })
+      expect(findMentionQuery('@Ana Pa', 7)).toEqual({ start: 0, query: 'Ana Pa' })
+    })
+
+    it('should use only the text before the caret', () => {
+      expect(findMentionQuery('@Ana depois', 4)).toEqual({ start: 0, query: 'Ana' })
+    })
+
+    it('should ignore "@" inside words, after a space or line break, or too far back', () => {
+      expect(findMentionQuery('ana@empresa', 11)).toBeNull()
+      expect(findMentionQuery('@ Ana', 5)).toBeNull()
+      expect(findMentionQuery('@Ana\nPaula', 10)).toBeNull()
+      expect(findMentionQuery(`@${'a'.repeat(41)}`, 42)).toBeNull()
+      expect(findMentionQuery('sem arroba', 10)).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,128 @@
+/**
+ * Tests for proposal utilities
+ */
+
+import {
+  computeProposalTotals,
+  formatProposalNumber,
+  getItemTotal,
+  getProposalError,
+  getProposalFileName,
+  roundCents,
+  type ProposalItem,
+} from '../proposals'
+
+const item = (quantity: number, unitPrice: number): ProposalItem => ({ description: 'Laudo', quantity, unitPrice })
+
+describe('Proposal Utilities', () => {
+  describe('roundCents', () => {
+    it('should round half cents away from zero despite binary floating point', () => {
+      expect(roundCents(1.005)).toBe(1.01)
+      expect(roundCents(2.675)).toBe(2.68)
+      expect(roundCents(1000.005)).toBe(1000.01)
+      expect(roundCents(-1.005)).toBe(-1.01)
+      expect(roundCents(1.004999)).toBe(1)
+      expect(roundCents(0.1 + 0.2)).toBe(0.3)
+    })
+
+    it('should never return negative zero', () => {
+      expect(roundCents(-0.001)).toBe(0)
+      expect(roundCents(0)).toBe(0)
+    })
+  })
+
+  describe('getItemTotal', () => {
+    it('should multiply quantity by unit price in cents', () => {
+      expect(getItemTotal(item(3, 0.1))).toBe(0.3)
+      expect(getItemTotal(item(1.5, 33.33))).toBe(50)
+      expect(getItemTotal(item(0, 100))).toBe(0)
+    })
+  })
+
+  describe('computeProposalTotals', () => {
+    it('should return zeros for an empty proposal', () => {
+      expect(computeProposalTotals([], [])).toEqual({ subtotal: 0, taxes: [], taxTotal: 0, total: 0 })
+    })
+
+    it('should sum items and apply each tax to the subtotal', () => {
+      const totals = computeProposalTotals(
+        [item(2, 1500), item(1, 350.5)],
+        [
+          { name: 'ISS', rate: 5 },
+          { name: 'PIS', rate: 0.65 },
+        ]
+      )
+
+      expect(totals).toEqual({
+        subtotal: 3350.5,
+        taxes: [
+          { name: 'ISS', rate: 5, amount: 167.53 },
+          { name: 'PIS', rate: 0.65, amount: 21.78 },
+        ],
+        taxTotal: 189.31,
+        total: 3539.81,
+      })
+    })
+
+    it('should round each tax line before adding them up', () => {
+      // 5% de 20,10 = 1,005 e 0,65% de 20,10 = 0,13065
+      const totals = computeProposalTotals([item(1, 20.1)], [
+        { name: 'ISS', rate: 5 },
+        { name: 'PIS', rate: 0.65 },
+      ])
+
+      expect(totals.taxes.map((tax) => tax.amount)).toEqual([1.01, 0.13])
+      expect(totals.taxTotal).toBe(1.14)
+      expect(totals.total).toBe(21.24)
+    })
+
+    it('should keep zero-rate taxes and negative values consistent', () => {
+      const totals = computeProposalTotals([item(1, 100), item(1, -30.255)], [{ name: 'IRPJ', rate: 0 }])
+
+      expect(totals.subtotal).toBe(69.74)
+      expect(totals.taxes[0].amount).toBe(0)
+      expect(totals.total).toBe(69.74)
+    })
+  })
+
+  describe('getProposalError', () => {
+    const valid = {
+      title: 'Avaliação de imóvel',
+      items: [item(1, 1000)],
+      taxes: [{ name: 'ISS', rate: 5 }],
+      validUntil: '2024-12-31',
+    }
+
+    it('should accept a complete proposal, including free items', () => {
+      expect(getProposalError(valid)).toBeNull()
+      expect(getProposalError({ ...valid, items: [item(1, 0)], taxes: [] })).toBeNull()
+    })
+
+    it('should reject zero or negative quantities and negative prices', () => {
+      expect(getProposalError({ ...valid, items: [item(0, 10)] })).toBe('Quantidade deve ser maior que zero')
+      expect(getProposalError({ ...valid, items: [item(-1, 10)] })).toBe('Quantidade deve ser maior que zero')
+      expect(getProposalError({ ...valid, items: [item(1, -0.01)] })).toBe('Valor unitário inválido')
+      expect(getProposalError({ ...valid, items: [item(1, NaN)] })).toBe('Valor unitário inválido')
+    })
+
+    it('should reject tax rates outside 0-100%', () => {
+      expect(getProposalError({ ...valid, taxes: [{ name: 'ISS', rate: -1 }] })).toBe('Alíquota deve estar entre 0 e 100%')
+      expect(getProposalError({ ...valid, taxes: [{ name: 'ISS', rate: 101 }] })).toBe('Alíquota deve estar entre 0 e 100%')
+      expect(getProposalError({ ...valid, taxes: [{ name: ' ', rate: 5 }] })).toBe('Todos os impostos precisam de nome')
+    })
+
+    it('should require title, items and validity date', () => {
+      expect(getProposalError({ ...valid, title: '  ' })).toBe('Informe o título da proposta')
+      expect(getProposalError({ ...valid, items: [] })).toBe('Adicione ao menos um item')
+      expect(getProposalError({ ...valid, validUntil: '' })).toBe('Informe a data de validade')
+    })
+  })
+
+  describe('formatting', () => {
+    it('should format the proposal number and PDF file name', () => {
+      expect(formatProposalNumber(42)).toBe('PROP-0042')
+      expect(formatProposalNumber(12345)).toBe('PROP-12345')
+      expect(getProposalFileName({ number: 7, title: 'Laudo: lote 3/4  "A"' })).toBe('PROP-0007 - Laudo lote 3 4 A.pdf')
+    })
+  })
+})
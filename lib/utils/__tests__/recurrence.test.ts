@@ -0,0 +1,136 @@
+/**
+ * Tests for recurrence utilities
+ */
+
+import {
+  addDays,
+  countOccurrencesBefore,
+  describeRecurrence,
+  diffInDays,
+  expandOccurrences,
+  nextOccurrence,
+  type RecurrenceRule,
+} from '../recurrence'
+
+const rule = (overrides: Partial<RecurrenceRule>): RecurrenceRule => ({
+  frequency: 'daily',
+  interval: 1,
+  until: null,
+  count: null,
+  ...overrides,
+})
+
+describe('Recurrence Utilities', () => {
+  describe('date helpers', () => {
+    it('should add days across month and year boundaries', () => {
+      expect(addDays('2024-02-28', 1)).toBe('2024-02-29')
+      expect(addDays('2024-12-31', 1)).toBe('2025-01-01')
+      expect(addDays('2024-03-01', -1)).toBe('2024-02-29')
+    })
+
+    it('should count days between dates', () => {
+      expect(diffInDays('2024-01-01', '2024-03-01')).toBe(60)
+      expect(diffInDays('2024-03-01', '2024-01-01')).toBe(-60)
+    })
+  })
+
+  describe('expandOccurrences', () => {
+    it('should expand daily rules with interval inside the range', () => {
+      const daily = rule({ interval: 2 })
+      expect(expandOccurrences('2024-01-01', daily, '2024-01-04', '2024-01-10')).toEqual([
+        '2024-01-05',
+        '2024-01-07',
+        '2024-01-09',
+      ])
+    })
+
+    it('should keep the weekday for weekly rules', () => {
+      const weekly = rule({ frequency: 'weekly' })
+      expect(expandOccurrences('2024-01-03', weekly, '2024-01-01', '2024-01-31')).toEqual([
+        '2024-01-03',
+        '2024-01-10',
+        '2024-01-17',
+        '2024-01-24',
+        '2024-01-31',
+      ])
+    })
+
+    it('should skip months without the start day', () => {
+      const monthly = rule({ frequency: 'monthly' })
+      expect(expandOccurrences('2024-01-31', monthly, '2024-01-01', '2024-06-30')).toEqual([
+        '2024-01-31',
+        '2024-03-31',
+        '2024-05-31',
+      ])
+    })
+
+    it('should stop at the until date (inclusive)', () => {
+      const daily = rule({ until: '2024-01-03' })
+      expect(expandOccurrences('2024-01-01', daily, '2024-01-01', '2024-01-31')).toEqual([
+        '2024-01-01',
+        '2024-01-02',
+        '2024-01-03',
+      ])
+    })
+
+    it('should count occurrences before the range when limited by count', () => {
+      const weekly = rule({ frequency: 'weekly', count: 3 })
+      expect(expandOccurrences('2024-01-01', weekly, '2024-01-10', '2024-03-01')).toEqual([
+        '2024-01-15',
+      ])
+    })
+
+    it('should not count skipped monthly candidates', () => {
+      const monthly = rule({ frequency: 'monthly', count: 3 })
+      expect(expandOccurrences('2024-01-31', monthly, '2024-01-01', '2024-12-31')).toEqual([
+        '2024-01-31',
+        '2024-03-31',
+        '2024-05-31',
+      ])
+    })
+
+    it('should return nothing for ranges before the start', () => {
+      expect(expandOccurrences('2024-05-01', rule({}), '2024-01-01', '2024-04-30')).toEqual([])
+    })
+  })
+
+  describe('nextOccurrence', () => {
+    it('should return the first occurrence after the given date', () => {
+      const weekly = rule({ frequency: 'weekly' })
+      expect(nextOccurrence('2024-01-01', weekly, '2024-01-01')).toBe('2024-01-08')
+      expect(nextOccurrence('2024-01-01', weekly, '2024-01-03')).toBe('2024-01-08')
+    })
+
+    it('should respect notBeforeIso', () => {
+      expect(nextOccurrence('2024-01-01', rule({}), '2024-01-01', '2024-02-10')).toBe('2024-02-10')
+    })
+
+    it('should find leap days years ahead', () => {
+      const monthly = rule({ frequency: 'monthly', interval: 12 })
+      expect(nextOccurrence('2024-02-29', monthly, '2024-02-29')).toBe('2028-02-29')
+    })
+
+    it('should return null when the series has ended', () => {
+      expect(nextOccurrence('2024-01-01', rule({ count: 2 }), '2024-01-02')).toBeNull()
+    })
+  })
+
+  describe('countOccurrencesBefore', () => {
+    it('should count occurrences strictly before the date', () => {
+      expect(countOccurrencesBefore('2024-01-01', rule({}), '2024-01-05')).toBe(4)
+      expect(countOccurrencesBefore('2024-01-01', rule({}), '2024-01-01')).toBe(0)
+    })
+  })
+
+  describe('describeRecurrence', () => {
+    it('should describe frequency, interval and end', () => {
+      expect(describeRecurrence(rule({}))).toBe('Diariamente')
+      expect(describeRecurrence(rule({ frequency: 'weekly', interval: 2, count: 5 }))).toBe(
+        'A cada 2 semanas, 5 vezes'
+      )
+      expect(describeRecurrence(rule({ frequency: 'monthly', until: '2024-12-31' }))).toBe(
+        'Mensalmente, até 31/12/2024'
+      )
+    })
+  })
+})
@@ -0,0 +1,193 @@
+/**
+ * Tests for task recurrence utilities
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  createNextTaskInstance,
+  taskRecurrenceToColumns,
+  toTaskRecurrence,
+  type TaskRecurrence,
+} from '../task-recurrence'
+
+const recurringRow = {
+  id: 'task-1',
+  title: 'Relatório semanal',
+  description: null,
+  project_id: 'project-1',
+  assigned_to: 'user-1',
+  labels: ['financeiro'],
+  watchers: [],
+  priority: 'high',
+  parent_task_id: null,
+  created_by: 'user-1',
+  recurrence_frequency: 'weekly',
+  recurrence_interval: 1,
+  recurrence_until: null,
+  recurrence_count: null,
+  recurrence_mode: 'on_done',
+  recurrence_start_date: '2024-01-01',
+  recurrence_series_id: null,
+  recurrence_occurrence_date: '2024-01-01',
+}
+
+type Result = { data?: any; error?: any }
+
+/**
+ * Cliente Supabase mínimo: cada consulta a uma tabela consome a próxima
+ * resposta da fila dessa tabela; inserções são registradas em `inserts`.
+ */
+function fakeSupabase(responses: Record<string, Result[]>) {
+  const inserts: Record<string, any[]> = {}
+  const from = (table: string) => {
+    const next = () => {
+      const result = responses[table]?.shift()
+      if (!result) throw new Error(`Consulta inesperada em ${table}`)
+      return Promise.resolve({ data: result.data ?? null, error: result.error ?? null })
+    }
+    const builder: any = {
+      insert(values: any) {
+        ;(inserts[table] ??= []).push(values)
+        return builder
+      },
+      single: next,
+      maybeSingle: next,
+      then: (resolve: any, reject: any) => next().then(resolve, reject),
+    }
+    for (const method of ['select', 'eq', 'or', 'gt', 'order', 'limit']) {
+      builder[method] = () => builder
+    }
+    return builder
+  }
+  return { client: { from } as unknown as SupabaseClient, inserts }
+}
+
+describe('Task Recurrence Utilities', () => {
+  describe('toTaskRecurrence', () => {
+    it('should return null for non-recurring tasks', () => {
+      expect(toTaskRecurrence(null)).toBeNull()
+      expect(toTaskRecurrence({ recurrence_frequency: null })).toBeNull()
+      expect(toTaskRecurrence({ recurrence_frequency: 'daily', recurrence_start_date: null })).toBeNull()
+    })
+
+    it('should apply defaults for missing columns', () => {
+      expect(
+        toTaskRecurrence({ recurrence_frequency: 'daily', recurrence_start_date: '2024-03-10' })
+      ).toEqual({
+        rule: { frequency: 'daily', interval: 1, until: null, count: null },
+        mode: 'on_done',
+        startDate: '2024-03-10',
+        occurrenceDate: '2024-03-10',
+      })
+    })
+
+    it('should keep the occurrence date of later instances', () => {
+      const recurrence = toTaskRecurrence({ ...recurringRow, recurrence_occurrence_date: '2024-01-15' })
+      expect(recurrence?.startDate).toBe('2024-01-01')
+      expect(recurrence?.occurrenceDate).toBe('2024-01-15')
+    })
+  })
+
+  describe('taskRecurrenceToColumns', () => {
+    it('should clear every column when recurrence is removed', () => {
+      expect(taskRecurrenceToColumns(null)).toEqual({
+        recurrence_frequency: null,
+        recurrence_interval: 1,
+        recurrence_until: null,
+        recurrence_count: null,
+        recurrence_mode: 'on_done',
+        recurrence_start_date: null,
+      })
+    })
+
+    it('should clamp the interval and prefer count over until', () => {
+      const recurrence: TaskRecurrence = {
+        rule: { frequency: 'monthly', interval: 0, until: '2024-12-31', count: 5 },
+        mode: 'schedule',
+        startDate: '2024-01-31',
+        occurrenceDate: '2024-01-31',
+      }
+      expect(taskRecurrenceToColumns(recurrence)).toEqual({
+        recurrence_frequency: 'monthly',
+        recurrence_interval: 1,
+        recurrence_until: null,
+        recurrence_count: 5,
+        recurrence_mode: 'schedule',
+        recurrence_start_date: '2024-01-31',
+      })
+    })
+
+    it('should round-trip through toTaskRecurrence', () => {
+      const recurrence = toTaskRecurrence(recurringRow)!
+      const columns = taskRecurrenceToColumns(recurrence)
+      expect(toTaskRecurrence({ ...columns, recurrence_occurrence_date: '2024-01-01' })).toEqual(recurrence)
+    })
+  })
+
+  describe('createNextTaskInstance', () => {
+    it('should create the next instance in the first project column', async () => {
+      const { client, inserts } = fakeSupabase({
+        tasks: [{ data: recurringRow }, { data: [] }, { data: { id: 'task-2' } }],
+        kanban_columns: [{ data: { status_key: 'a_fazer_ab12' } }],
+        task_checklist: [{ data: [{ text: 'Revisar', position: 0 }] }, {}],
+      })
+
+      await expect(createNextTaskInstance(client, 'task-1', 'on_done', '2024-01-03')).resolves.toBe('task-2')
+      expect(inserts.tasks[0]).toMatchObject({
+        title: 'Relatório semanal',
+        status: 'a_fazer_ab12',
+        deadline: '2024-01-08',
+        labels: ['financeiro'],
+        recurrence_series_id: 'task-1',
+        recurrence_occurrence_date: '2024-01-08',
+      })
+      expect(inserts.task_checklist[0]).toEqual([
+        { task_id: 'task-2', text: 'Revisar', position: 0, completed: false },
+      ])
+    })
+
+    it('should skip occurrences already past when completed late', async () => {
+      const { client, inserts } = fakeSupabase({
+        tasks: [{ data: recurringRow }, { data: [] }, { data: { id: 'task-2' } }],
+        kanban_columns: [{ data: null }],
+        task_checklist: [{ data: [] }],
+      })
+
+      await createNextTaskInstance(client, 'task-1', 'on_done', '2024-01-20')
+      expect(inserts.tasks[0]).toMatchObject({ status: 'todo', deadline: '2024-01-22' })
+    })
+
+    it('should ignore tasks of another mode', async () => {
+      const { client, inserts } = fakeSupabase({ tasks: [{ data: recurringRow }] })
+
+      await expect(createNextTaskInstance(client, 'task-1', 'schedule', '2024-01-03')).resolves.toBeNull()
+      expect(inserts.tasks).toBeUndefined()
+    })
+
+    it('should not duplicate an instance that already exists', async () => {
+      const { client, inserts } = fakeSupabase({
+        tasks: [{ data: recurringRow }, { data: [{ id: 'task-2' }] }],
+      })
+
+      await expect(createNextTaskInstance(client, 'task-1', 'on_done', '2024-01-03')).resolves.toBeNull()
+      expect(inserts.tasks).toBeUndefined()
+    })
+
+    it('should stop when the series has ended', async () => {
+      const { client } = fakeSupabase({
+        tasks: [{ data: { ...recurringRow, recurrence_count: 1 } }, { data: [] }],
+      })
+
+      await expect(createNextTaskInstance(client, 'task-1', 'on_done', '2024-01-03')).resolves.toBeNull()
+    })
+
+    it('should treat a concurrent insert as already created', async () => {
+      const { client } = fakeSupabase({
+        tasks: [{ data: recurringRow }, { data: [] }, { error: { code: '23505' } }],
+        kanban_columns: [{ data: null }],
+      })
+
+      await expect(createNextTaskInstance(client, 'task-1', 'on_done', '2024-01-03')).resolves.toBeNull()
+    })
+  })
+})
@@ -0,0 +1,266 @@
+import * as XLSX from 'xlsx'
+import type { Client, ClientListMetrics } from '@/lib/types'
+import { formatDocument, getDocumentError, normalizeDocument } from '@/lib/utils/document'
+
+/**
+ * Client spreadsheet utilities
+ *
+ * Importação (CSV/XLSX → linhas validadas para a prévia) e exportação da lista
+ * de clientes com as métricas de `ClientListMetrics`. Roda no navegador; a
+ * gravação fica em `importClientRecords` (lib/data/clients.ts).
+ */
+
+export type ClientImportField = 'name' | 'document' | 'email' | 'phone' | 'address' | 'notes'
+
+export const CLIENT_IMPORT_FIELDS: { value: ClientImportField; label: string; required?: boolean; aliases: string[] }[] = [
+  { value: 'name', label: 'Nome / Razão Social', required: true, aliases: ['nome', 'razao social', 'cliente', 'name', 'empresa'] },
+  { value: 'document', label: 'CNPJ / CPF', aliases: ['cnpj', 'cpf', 'documento', 'cpf/cnpj', 'cnpj/cpf', 'document'] },
+  { value: 'email', label: 'Email', aliases: ['email', 'e-mail', 'e mail'] },
+  { value: 'phone', label: 'Telefone', aliases: ['telefone', 'fone', 'celular', 'whatsapp', 'phone'] },
+  { value: 'address', label: 'Endereço', aliases: ['endereco', 'logradouro', 'address'] },
+  { value: 'notes', label: 'Observações', aliases: ['observacoes', 'observacao', 'obs', 'notas', 'notes'] },
+]
+
+/** Índice da coluna da planilha para cada campo (null = não importar) */
+export type ClientColumnMapping = Record<ClientImportField, number | null>
+
+export interface ClientSpreadsheet {
+  headers: string[]
+  rows: string[][]
+}
+
+export type ClientImportValues = Record<ClientImportField, string>
+
+export type ClientImportStatus = 'ready' | 'duplicate' | 'error'
+
+export interface ClientImportRow {
+  rowNumber: number // linha na planilha (cabeçalho = 1)
+  values: ClientImportValues
+  status: ClientImportStatus
+  messages: string[]
+}
+
+export const CLIENT_IMPORT_MAX_ROWS = 5000
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+function normalizeHeader(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[_.]+/g, ' ')
+    .trim()
+}
+
+function cellToString(value: unknown): string {
+  if (value == null) return ''
+  if (value instanceof Date) return value.toISOString().slice(0, 10)
+  return String(value).trim()
+}
+
+/**
+ * Lê a primeira aba do arquivo. CSV é lido como texto (UTF-8, separador
+ * detectado) e todas as células viram texto para preservar zeros à esquerda.
+ */
+export async function parseClientSpreadsheet(file: File): Promise<ClientSpreadsheet> {
+  const isCsv = /\.csv$/i.test(file.name) || file.type === 'text/csv'
+  const workbook = isCsv
+    ? XLSX.read(await file.text(), { type: 'string', raw: true })
+    : XLSX.read(await file.arrayBuffer(), { type: 'array' })
+
+  const sheet = workbook.Sheets[workbook.SheetNames[0]]
+  if (!sheet) throw new Error('A planilha está vazia')
+
+  const matrix = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: true, defval: '', blankrows: false })
+  const [headerRow, ...dataRows] = matrix
+  if (!headerRow || headerRow.length === 0) throw new Error('A planilha está vazia')
+  if (dataRows.length > CLIENT_IMPORT_MAX_ROWS) {
+    throw new Error(`A planilha tem mais de ${CLIENT_IMPORT_MAX_ROWS} linhas; divida o arquivo`)
+  }
+
+  return {
+    headers: headerRow.map((cell, index) => cellToString(cell) || `Coluna ${index + 1}`),
+    rows: dataRows.map((row) => row.map(cellToString)),
+  }
+}
+
+/** Sugere o mapeamento pelos nomes das colunas (sem acento, minúsculas). */
+export function guessColumnMapping(headers: string[]): ClientColumnMapping {
+  const normalized = headers.map(normalizeHeader)
+  const used = new Set<number>()
+  const mapping = {} as ClientColumnMapping
+
+  for (const field of CLIENT_IMPORT_FIELDS) {
+    const index = normalized.findIndex((header, i) => !used.has(i) && field.aliases.includes(header))
+    const fallback = index >= 0
+      ? index
+      : normalized.findIndex((header, i) => !used.has(i) && field.aliases.some((alias) => header.includes(alias)))
+    mapping[field.value] = fallback >= 0 ? fallback : null
+    if (fallback >= 0) used.add(fallback)
+  }
+  return mapping
+}
+
+/**
+ * Planilhas costumam guardar o documento como número e perder o zero à
+ * esquerda: 10 dígitos voltam a ser CPF e 13 dígitos, CNPJ.
+ */
+function normalizeImportedDocument(value: string): string {
+  const digits = normalizeDocument(value)
+  if (digits.length === 10) return digits.padStart(11, '0')
+  if (digits.length === 13) return digits.padStart(14, '0')
+  return digits
+}
+
+/**
+ * Monta as linhas da prévia: normaliza os valores, valida cada linha e marca
+ * duplicados dentro do próprio arquivo (mesmo documento ou email). Duplicados
+ * na base entram depois, com `markExistingClients`.
+ */
+export function buildClientImportRows(sheet: ClientSpreadsheet, mapping: ClientColumnMapping): ClientImportRow[] {
+  const seenDocuments = new Map<string, number>()
+  const seenEmails = new Map<string, number>()
+
+  return sheet.rows.map((row, index) => {
+    const read = (field: ClientImportField) => {
+      const column = mapping[field]
+      return column == null ? '' : (row[column] ?? '').trim()
+    }
+
+    const values: ClientImportValues = {
+      name: read('name'),
+      document: normalizeImportedDocument(read('document')),
+      email: read('email').toLowerCase(),
+      phone: read('phone'),
+      address: read('address'),
+      notes: read('notes'),
+    }
+    const rowNumber = index + 2
+    const messages: string[] = []
+
+    if (!values.name) messages.push('Nome obrigatório')
+    const documentError = getDocumentError(values.document)
+    if (documentError) messages.push(documentError)
+    if (values.email && !EMAIL_PATTERN.test(values.email)) messages.push('Email inválido')
+    if (messages.length > 0) return { rowNumber, values, status: 'error', messages }
+
+    const duplicateOf =
+      (values.document ? seenDocuments.get(values.document) : undefined) ??
+      (values.email ? seenEmails.get(values.email) : undefined)
+    if (values.document && !seenDocuments.has(values.document)) seenDocuments.set(values.document, rowNumber)
+    if (values.email && !seenEmails.has(values.email)) seenEmails.set(values.email, rowNumber)
+    if (duplicateOf) {
+      return { rowNumber, values, status: 'duplicate', messages: [`Repete a linha ${duplicateOf} do arquivo`] }
+    }
+
+    return { rowNumber, values, status: 'ready', messages: [] }
+  })
+}
+
+/** Marca como duplicadas as linhas cujo documento ou email já existe na base. */
+export function markExistingClients(
+  rows: ClientImportRow[],
+  existing: { documents: Set<string>; emails: Set<string> }
+): ClientImportRow[] {
+  return rows.map((row) => {
+    if (row.status !== 'ready') return row
+    const messages: string[] = []
+    if (row.values.document && existing.documents.has(row.values.document)) {
+      messages.push('Já existe um cliente com este CPF/CNPJ')
+    }
+    if (row.values.email && existing.emails.has(row.values.email)) {
+      messages.push('Já existe um cliente com este email')
+    }
+    return messages.length > 0 ? { ...row, status: 'duplicate', messages } : row
+  })
+}
+
+// ---------------------------------------------------------------------------
+// Exportação
+// ---------------------------------------------------------------------------
+
+export type ClientExportFormat = 'csv' | 'xlsx'
+
+// Texto iniciado por = + - @ (ou tab/CR) vira fórmula no Excel; o apóstrofo mantém como texto
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+export function escapeSpreadsheetText(value: string | null | undefined): string {
+  const text = value ?? ''
+  return FORMULA_PREFIX.test(text) ? `'${text}` : text
+}
+
+function formatExportDate(value: string | null | undefined): string {
+  return value ? new Date(value).toLocaleDateString('pt-BR') : ''
+}
+
+/** Linhas da exportação: dados cadastrais + métricas da lista. */
+export function buildClientExportRows(
+  clients: Client[],
+  metrics: Record<string, ClientListMetrics>
+): (string | number)[][] {
+  const header = [
+    'Nome / Razão Social',
+    'CNPJ / CPF',
+    'Tipo',
+    'Email',
+    'Telefone',
+    'Endereço',
+    'Cliente desde',
+    'Total vendido (R$)',
+    'Última venda',
+    'Projetos',
+    'Projetos concluídos',
+    'Projetos ativos',
+  ]
+  const rows = clients.map((client) => {
+    const m = metrics[client.id]
+    return [
+      escapeSpreadsheetText(client.name),
+      client.document ? formatDocument(client.document) : '',
+      client.type === 'individual' ? 'Pessoa física' : 'Pessoa jurídica',
+      escapeSpreadsheetText(client.email),
+      escapeSpreadsheetText(client.phone),
+      escapeSpreadsheetText(client.address),
+      formatExportDate(m?.client_since ?? client.created_at),
+      m?.total_completed_revenue ?? 0,
+      formatExportDate(m?.last_sale_date),
+      m?.total_projects ?? 0,
+      m?.completed_projects ?? 0,
+      m?.active_projects ?? 0,
+    ]
+  })
+  return [header, ...rows]
+}
+
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * Baixa a lista de clientes. O CSV usa ";" e BOM UTF-8 para abrir direto no
+ * Excel em português.
+ */
+export function exportClientsSpreadsheet(
+  clients: Client[],
+  metrics: Record<string, ClientListMetrics>,
+  format: ClientExportFormat
+) {
+  const sheet = XLSX.utils.aoa_to_sheet(buildClientExportRows(clients, metrics))
+  const fileName = `clientes-${new Date().toISOString().slice(0, 10)}.${format}`
+
+  if (format === 'csv') {
+    const csv = XLSX.utils.sheet_to_csv(sheet, { FS: ';' })
+    downloadBlob(new Blob(['\ufeff', csv], { type: 'text/csv;charset=utf-8' }), fileName)
+    return
+  }
+
+  const workbook = XLSX.utils.book_new()
+  XLSX.utils.book_append_sheet(workbook, sheet, 'Clientes')
+  XLSX.writeFile(workbook, fileName)
+}
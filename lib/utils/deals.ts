@@ -0,0 +1,54 @@
+/**
+ * Deal Utilities
+ *
+ * Etapas do pipeline comercial e motivos de ganho/perda oferecidos ao fechar
+ * um negócio. Compartilhado entre a página do pipeline e o perfil do cliente.
+ */
+
+export type DealStage = 'lead' | 'proposal_sent' | 'negotiation' | 'won' | 'lost'
+
+export const DEAL_STAGES: { value: DealStage; label: string; color: string }[] = [
+  { value: 'lead', label: 'Lead', color: '#64748b' },
+  { value: 'proposal_sent', label: 'Proposta enviada', color: '#3b82f6' },
+  { value: 'negotiation', label: 'Negociação', color: '#f59e0b' },
+  { value: 'won', label: 'Ganho', color: '#22c55e' },
+  { value: 'lost', label: 'Perdido', color: '#ef4444' },
+]
+
+export const OPEN_DEAL_STAGES: DealStage[] = ['lead', 'proposal_sent', 'negotiation']
+
+export const DEAL_WIN_REASONS = [
+  'Preço competitivo',
+  'Qualidade técnica',
+  'Prazo de entrega',
+  'Relacionamento',
+  'Indicação',
+  'Outro',
+]
+
+export const DEAL_LOSS_REASONS = [
+  'Preço',
+  'Prazo',
+  'Escolheu concorrente',
+  'Sem orçamento',
+  'Projeto cancelado',
+  'Sem resposta',
+  'Outro',
+]
+
+export function isDealStage(value: unknown): value is DealStage {
+  return DEAL_STAGES.some((s) => s.value === value)
+}
+
+export function isClosedDealStage(stage: DealStage): stage is 'won' | 'lost' {
+  return stage === 'won' || stage === 'lost'
+}
+
+export function getDealStageLabel(stage: DealStage): string {
+  return DEAL_STAGES.find((s) => s.value === stage)?.label ?? stage
+}
+
+export function formatDealValue(value: number | null): string {
+  if (value == null) return '—'
+  return new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL', maximumFractionDigits: 0 }).format(value)
+}
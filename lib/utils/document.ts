@@ -0,0 +1,66 @@
+/**
+ * CPF / CNPJ utilities
+ *
+ * Documents are stored digits-only (see migration 044); these helpers validate
+ * the check digits so both the client forms and /api/clients apply the same rules.
+ */
+
+export type DocumentType = 'cpf' | 'cnpj'
+
+export function normalizeDocument(value: string | null | undefined): string {
+  return (value ?? '').replace(/\D/g, '')
+}
+
+export function getDocumentType(value: string | null | undefined): DocumentType | null {
+  const digits = normalizeDocument(value)
+  if (digits.length === 11) return 'cpf'
+  if (digits.length === 14) return 'cnpj'
+  return null
+}
+
+function checkDigit(digits: string, weights: number[]): number {
+  const sum = weights.reduce((acc, weight, i) => acc + Number(digits[i]) * weight, 0)
+  const rest = sum % 11
+  return rest < 2 ? 0 : 11 - rest
+}
+
+export function isValidCpf(value: string | null | undefined): boolean {
+  const digits = normalizeDocument(value)
+  // Sequências repetidas (000.000.000-00, 111...) passam no cálculo mas não são válidas
+  if (digits.length !== 11 || /^(\d)\1+$/.test(digits)) return false
+
+  const first = checkDigit(digits, [10, 9, 8, 7, 6, 5, 4, 3, 2])
+  const second = checkDigit(digits, [11, 10, 9, 8, 7, 6, 5, 4, 3, 2])
+  return first === Number(digits[9]) && second === Number(digits[10])
+}
+
+export function isValidCnpj(value: string | null | undefined): boolean {
+  const digits = normalizeDocument(value)
+  if (digits.length !== 14 || /^(\d)\1+$/.test(digits)) return false
+
+  const first = checkDigit(digits, [5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2])
+  const second = checkDigit(digits, [6, 5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2])
+  return first === Number(digits[12]) && second === Number(digits[13])
+}
+
+/**
+ * Returns a user-facing error for an invalid document, or null when it is valid.
+ * An empty document is accepted (the field is optional).
+ */
+export function getDocumentError(value: string | null | undefined): string | null {
+  const digits = normalizeDocument(value)
+  if (digits.length === 0) return null
+
+  const type = getDocumentType(digits)
+  if (type === 'cpf') return isValidCpf(digits) ? null : 'CPF inválido'
+  if (type === 'cnpj') return isValidCnpj(digits) ? null : 'CNPJ inválido'
+  return 'Informe um CPF (11 dígitos) ou CNPJ (14 dígitos)'
+}
+
+/** Formats a stored (digits-only) CPF/CNPJ for display; other values pass through. */
+export function formatDocument(value: string | null | undefined): string {
+  const digits = normalizeDocument(value)
+  if (digits.length === 11) return digits.replace(/^(\d{3})(\d{3})(\d{3})(\d{2})$/, '$1.$2.$3-$4')
+  if (digits.length === 14) return digits.replace(/^(\d{2})(\d{3})(\d{3})(\d{4})(\d{2})$/, '$1.$2.$3/$4-$5')
+  return value ?? ''
+}
@@ -0,0 +1,464 @@
+/**
+ * iCalendar (RFC 5545) Utilities
+ *
+ * Geração do feed .ics da agenda e leitura de arquivos .ics importados.
+ * Cobre apenas o subconjunto usado pelo AvaliaTec: VEVENT com DTSTART/DTEND,
+ * RRULE diária/semanal/mensal (INTERVAL, UNTIL, COUNT), EXDATE e ATTENDEE.
+ * Regras com partes que a agenda não representa (BYDAY com vários dias,
+ * BYSETPOS, FREQ=YEARLY...) não são importadas como outra regra: o evento
+ * volta com `unsupportedRecurrence` para quem importa decidir.
+ */
+
+import { parseISODate, type RecurrenceFrequency, type RecurrenceRule } from './recurrence'
+
+export interface IcsAttendee {
+  name: string | null
+  email: string
+}
+
+export interface IcsEvent {
+  uid: string
+  title: string
+  description: string | null
+  location: string | null
+  date: string // YYYY-MM-DD
+  time: string // HH:mm
+  durationMinutes: number
+  recurrence: RecurrenceRule | null
+  exceptions: string[] // YYYY-MM-DD
+  attendees: IcsAttendee[]
+  categories: string[]
+  updatedAt: string | null // ISO timestamp
+}
+
+export interface ParsedIcsEvent {
+  uid: string | null
+  title: string
+  description: string
+  location: string
+  date: string // YYYY-MM-DD
+  time: string // HH:mm
+  endTime: string | null // HH:mm, apenas quando termina no mesmo dia
+  allDay: boolean
+  recurrence: RecurrenceRule | null
+  unsupportedRecurrence: string | null // RRULE original quando a regra não é suportada
+  exceptions: string[] // YYYY-MM-DD, ocorrências removidas (EXDATE)
+  attendees: IcsAttendee[]
+}
+
+const PRODID = '-//AvaliaTec//Agenda//PT-BR'
+
+const FREQUENCY_TO_ICS: Record<RecurrenceFrequency, string> = {
+  daily: 'DAILY',
+  weekly: 'WEEKLY',
+  monthly: 'MONTHLY',
+}
+
+// Partes de RRULE que não mudam as datas da regra representada pela agenda
+const SUPPORTED_RRULE_PARTS = new Set(['FREQ', 'INTERVAL', 'UNTIL', 'COUNT', 'WKST', 'BYDAY', 'BYMONTHDAY'])
+
+const ICS_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// ---------------------------------------------------------------------------
+// Formatting helpers
+// ---------------------------------------------------------------------------
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+// Uma passada só: em "\\n" a barra escapada não pode virar quebra de linha
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === 'n' || char === 'N' ? '\n' : char
+  )
+}
+
+/** Quebra linhas com mais de 75 octetos, como exige a RFC 5545. */
+function foldLine(line: string): string {
+  const chunks: string[] = []
+  let current = ''
+  let currentBytes = 0
+  for (const char of line) {
+    const bytes = new TextEncoder().encode(char).length
+    if (currentBytes + bytes > (chunks.length === 0 ? 75 : 74)) {
+      chunks.push(current)
+      current = ''
+      currentBytes = 0
+    }
+    current += char
+    currentBytes += bytes
+  }
+  chunks.push(current)
+  return chunks.join('\r\n ')
+}
+
+function toIcsDateTime(date: string, time: string): string {
+  return `${date.replace(/-/g, '')}T${time.replace(':', '').slice(0, 4)}00`
+}
+
+function toIcsUtcStamp(iso: string): string {
+  return new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+/** Data/hora (campos UTC de `value`) no formato local do iCalendar, sem "Z". */
+function toIcsLocalStamp(value: Date): string {
+  return value.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}Z$/, '')
+}
+
+const offsetFormatters = new Map<string, Intl.DateTimeFormat>()
+
+/** Diferença, em minutos, entre a hora local em `timeZone` e UTC no instante `utcMs`. */
+function timeZoneOffset(timeZone: string, utcMs: number): number {
+  let formatter = offsetFormatters.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    })
+    offsetFormatters.set(timeZone, formatter)
+  }
+  const parts = formatter.formatToParts(new Date(utcMs))
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((part) => part.type === type)?.value)
+  const local = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'))
+  return Math.round((local - utcMs) / 60000)
+}
+
+/** Converte data/hora locais em `timeZone` para o instante UTC correspondente. */
+function zonedToUtc(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map(Number)
+  const [hours, minutes, seconds = 0] = time.split(':').map(Number)
+  const local = Date.UTC(year, month - 1, day, hours, minutes, seconds)
+  // Segunda passada corrige quando o palpite cai do outro lado de uma mudança de horário
+  const guess = local - timeZoneOffset(timeZone, local) * 60000
+  return new Date(local - timeZoneOffset(timeZone, guess) * 60000)
+}
+
+function formatUtcOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+'
+  const abs = Math.abs(minutes)
+  return `${sign}${String(Math.floor(abs / 60)).padStart(2, '0')}${String(abs % 60).padStart(2, '0')}`
+}
+
+/**
+ * VTIMEZONE do fuso referenciado pelos TZID, com as mudanças de horário entre
+ * `fromYear` e `toYear` obtidas do próprio runtime (Intl).
+ */
+function buildTimeZone(timeZone: string, fromYear: number, toYear: number): string[] {
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${timeZone}`]
+  const observance = (kind: 'STANDARD' | 'DAYLIGHT', onsetMs: number, from: number, to: number) => {
+    // DTSTART da observância é a hora local antes da mudança
+    lines.push(
+      `BEGIN:${kind}`,
+      `DTSTART:${toIcsLocalStamp(new Date(onsetMs + from * 60000))}`,
+      `TZOFFSETFROM:${formatUtcOffset(from)}`,
+      `TZOFFSETTO:${formatUtcOffset(to)}`,
+      `END:${kind}`
+    )
+  }
+
+  const end = Date.UTC(toYear + 1, 0, 1)
+  let day = Date.UTC(fromYear, 0, 1)
+  let offset = timeZoneOffset(timeZone, day)
+  // Observância inicial vale desde sempre; as mudanças do período vêm em seguida
+  lines.push(
+    'BEGIN:STANDARD',
+    'DTSTART:19700101T000000',
+    `TZOFFSETFROM:${formatUtcOffset(offset)}`,
+    `TZOFFSETTO:${formatUtcOffset(offset)}`,
+    'END:STANDARD'
+  )
+
+  for (; day < end; day += DAY_MS) {
+    const next = timeZoneOffset(timeZone, day + DAY_MS)
+    if (next === offset) continue
+
+    // Busca binária do minuto da mudança dentro do dia
+    let before = day
+    let after = day + DAY_MS
+    while (after - before > 60000) {
+      const middle = before + Math.floor((after - before) / 120000) * 60000
+      if (timeZoneOffset(timeZone, middle) === offset) before = middle
+      else after = middle
+    }
+    observance(next > offset ? 'DAYLIGHT' : 'STANDARD', after, offset, next)
+    offset = next
+  }
+
+  lines.push('END:VTIMEZONE')
+  return lines
+}
+
+function addMinutes(date: string, time: string, minutes: number): { date: string; time: string } {
+  const [year, month, day] = date.split('-').map(Number)
+  const [hours, mins] = time.split(':').map(Number)
+  const value = new Date(Date.UTC(year, month - 1, day, hours, mins + minutes))
+  return {
+    date: value.toISOString().slice(0, 10),
+    time: value.toISOString().slice(11, 16),
+  }
+}
+
+/** Com DTSTART em TZID, a RFC 5545 exige UNTIL em UTC: o fim do dia `until` no fuso. */
+function buildRrule(rule: RecurrenceRule, timeZone: string): string {
+  const parts = [`FREQ=${FREQUENCY_TO_ICS[rule.frequency]}`]
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`)
+  if (rule.count != null) {
+    parts.push(`COUNT=${rule.count}`)
+  } else if (rule.until) {
+    parts.push(`UNTIL=${toIcsUtcStamp(zonedToUtc(rule.until, '23:59:59', timeZone).toISOString())}`)
+  }
+  return parts.join(';')
+}
+
+// ---------------------------------------------------------------------------
+// Feed generation
+// ---------------------------------------------------------------------------
+
+/**
+ * Monta um VCALENDAR com os eventos informados. Horários são emitidos como
+ * hora local no fuso `timeZone` (TZID), que é como a agenda os armazena; o
+ * VTIMEZONE cobre dos anos dos eventos até o ano seguinte ao atual.
+ */
+export function buildCalendar(params: {
+  name: string
+  timeZone: string
+  events: IcsEvent[]
+}): string {
+  const { name, timeZone, events } = params
+  const now = toIcsUtcStamp(new Date().toISOString())
+
+  const lines: string[] = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `X-WR-TIMEZONE:${timeZone}`,
+  ]
+
+  const years = events.map((event) => Number(event.date.slice(0, 4)))
+  const currentYear = new Date().getUTCFullYear()
+  lines.push(...buildTimeZone(timeZone, Math.min(currentYear, ...years), Math.max(currentYear, ...years) + 1))
+
+  for (const event of events) {
+    const end = addMinutes(event.date, event.time, event.durationMinutes)
+
+    lines.push('BEGIN:VEVENT')
+    lines.push(`UID:${event.uid}`)
+    lines.push(`DTSTAMP:${event.updatedAt ? toIcsUtcStamp(event.updatedAt) : now}`)
+    lines.push(`DTSTART;TZID=${timeZone}:${toIcsDateTime(event.date, event.time)}`)
+    lines.push(`DTEND;TZID=${timeZone}:${toIcsDateTime(end.date, end.time)}`)
+    lines.push(`SUMMARY:${escapeText(event.title)}`)
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`)
+    if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`)
+    if (event.categories.length > 0) {
+      lines.push(`CATEGORIES:${event.categories.map(escapeText).join(',')}`)
+    }
+    if (event.recurrence) {
+      lines.push(`RRULE:${buildRrule(event.recurrence, timeZone)}`)
+      for (const exception of event.exceptions) {
+        lines.push(`EXDATE;TZID=${timeZone}:${toIcsDateTime(exception, event.time)}`)
+      }
+    }
+    for (const attendee of event.attendees) {
+      const cn = attendee.name ? `;CN="${attendee.name.replace(/"/g, "'")}"` : ''
+      lines.push(`ATTENDEE${cn}:mailto:${attendee.email}`)
+    }
+    lines.push('END:VEVENT')
+  }
+
+  lines.push('END:VCALENDAR')
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+interface ContentLine {
+  name: string
+  params: Record<string, string>
+  value: string
+}
+
+function unfoldLines(content: string): string[] {
+  return content
+    .replace(/\r\n/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter((line) => line.trim().length > 0)
+}
+
+function parseContentLine(line: string): ContentLine | null {
+  // O valor começa no primeiro ":" fora de aspas
+  let inQuotes = false
+  let separator = -1
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes
+    if (line[i] === ':' && !inQuotes) {
+      separator = i
+      break
+    }
+  }
+  if (separator === -1) return null
+
+  const [name, ...rawParams] = line.slice(0, separator).split(';')
+  const params: Record<string, string> = {}
+  for (const param of rawParams) {
+    const [key, ...rest] = param.split('=')
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '')
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(separator + 1) }
+}
+
+/** Converte DTSTART em data/hora locais (UTC "Z" é convertido para o fuso do navegador). */
+function parseDateValue(line: ContentLine): { date: string; time: string; allDay: boolean } | null {
+  const match = line.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/)
+  if (!match) return null
+  const [, year, month, day, hours, minutes, , utc] = match
+
+  if (!hours) {
+    return { date: `${year}-${month}-${day}`, time: '00:00', allDay: true }
+  }
+
+  if (utc) {
+    const value = new Date(Date.UTC(+year, +month - 1, +day, +hours, +minutes))
+    const pad = (n: number) => String(n).padStart(2, '0')
+    return {
+      date: `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`,
+      time: `${pad(value.getHours())}:${pad(value.getMinutes())}`,
+      allDay: false,
+    }
+  }
+
+  return { date: `${year}-${month}-${day}`, time: `${hours}:${minutes}`, allDay: false }
+}
+
+/**
+ * Converte a RRULE na regra da agenda, ou null quando a regra gera datas que a
+ * agenda não representa. BYDAY/BYMONTHDAY só são aceitos quando repetem o dia
+ * da data inicial (ex.: FREQ=WEEKLY;BYDAY=MO começando em uma segunda).
+ */
+function parseRrule(value: string, startDate: string): RecurrenceRule | null {
+  const parts: Record<string, string> = Object.fromEntries(
+    value
+      .split(';')
+      .filter((part) => part.trim())
+      .map((part) => {
+        const [key, ...rest] = part.split('=')
+        return [key.trim().toUpperCase(), rest.join('=').trim().toUpperCase()]
+      })
+  )
+  if (Object.keys(parts).some((key) => !SUPPORTED_RRULE_PARTS.has(key))) return null
+
+  const frequency = (Object.keys(FREQUENCY_TO_ICS) as RecurrenceFrequency[]).find(
+    (key) => FREQUENCY_TO_ICS[key] === parts.FREQ
+  )
+  if (!frequency) return null
+
+  const start = parseISODate(startDate)
+  if (parts.BYDAY && !(frequency === 'weekly' && parts.BYDAY === ICS_WEEKDAYS[start.getUTCDay()])) return null
+  if (parts.BYMONTHDAY && !(frequency === 'monthly' && Number(parts.BYMONTHDAY) === start.getUTCDate())) {
+    return null
+  }
+
+  // UNTIL em UTC ("Z") vira data local, como DTSTART
+  const until = parts.UNTIL ? parseDateValue({ name: 'UNTIL', params: {}, value: parts.UNTIL }) : null
+  if (parts.UNTIL && !until) return null
+
+  return {
+    frequency,
+    interval: Math.max(1, parseInt(parts.INTERVAL ?? '1', 10) || 1),
+    until: until?.date ?? null,
+    count: parts.COUNT ? parseInt(parts.COUNT, 10) || null : null,
+  }
+}
+
+/**
+ * Lê os VEVENTs de um arquivo .ics. Eventos sem DTSTART válido são ignorados;
+ * com regra de recorrência não suportada (ex.: FREQ=YEARLY, BYDAY=MO,WE,FR),
+ * `recurrence` fica null e `unsupportedRecurrence` traz a RRULE original.
+ */
+export function parseCalendar(content: string): ParsedIcsEvent[] {
+  const events: ParsedIcsEvent[] = []
+  let current: ContentLine[] | null = null
+
+  for (const raw of unfoldLines(content)) {
+    const line = parseContentLine(raw)
+    if (!line) continue
+
+    if (line.name === 'BEGIN' && line.value.toUpperCase() === 'VEVENT') {
+      current = []
+      continue
+    }
+
+    if (line.name === 'END' && line.value.toUpperCase() === 'VEVENT') {
+      const parsed = current ? toParsedEvent(current) : null
+      if (parsed) events.push(parsed)
+      current = null
+      continue
+    }
+
+    current?.push(line)
+  }
+
+  return events
+}
+
+function toParsedEvent(lines: ContentLine[]): ParsedIcsEvent | null {
+  const find = (name: string) => lines.find((line) => line.name === name)
+
+  const dtstart = find('DTSTART')
+  const start = dtstart ? parseDateValue(dtstart) : null
+  if (!start) return null
+
+  const dtend = find('DTEND')
+  const end = dtend ? parseDateValue(dtend) : null
+  const endTime =
+    end && !start.allDay && end.date === start.date && end.time > start.time ? end.time : null
+
+  const rrule = find('RRULE')
+  const recurrence = rrule ? parseRrule(rrule.value, start.date) : null
+  // EXDATE pode se repetir e trazer várias datas separadas por vírgula
+  const exceptions = lines
+    .filter((line) => line.name === 'EXDATE')
+    .flatMap((line) => line.value.split(',').map((value) => parseDateValue({ ...line, value: value.trim() })))
+    .filter((value): value is NonNullable<typeof value> => value !== null)
+    .map((value) => value.date)
+  const attendees = lines
+    .filter((line) => line.name === 'ATTENDEE' && /^mailto:/i.test(line.value))
+    .map((line) => ({
+      name: line.params.CN ?? null,
+      email: line.value.replace(/^mailto:/i, '').trim().toLowerCase(),
+    }))
+
+  return {
+    uid: find('UID')?.value ?? null,
+    title: unescapeText(find('SUMMARY')?.value ?? '') || 'Evento importado',
+    description: unescapeText(find('DESCRIPTION')?.value ?? ''),
+    location: unescapeText(find('LOCATION')?.value ?? ''),
+    date: start.date,
+    time: start.time,
+    endTime,
+    allDay: start.allDay,
+    recurrence,
+    unsupportedRecurrence: rrule && !recurrence ? rrule.value : null,
+    exceptions: Array.from(new Set(exceptions)).sort(),
+    attendees,
+  }
+}
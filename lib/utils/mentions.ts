@@ -0,0 +1,75 @@
+/**
+ * Mention Utilities
+ *
+ * Menções "@Nome Completo" no texto dos comentários. O texto guardado continua
+ * legível; os ids dos mencionados são extraídos comparando o texto com os nomes
+ * dos usuários (nomes mais longos primeiro, para "@Ana Paula" não contar como "@Ana").
+ */
+
+export interface MentionCandidate {
+  id: string
+  name: string
+}
+
+export type MentionSegment = { text: string; mention: boolean }
+
+// Limite do trecho digitado depois de "@" para ainda sugerir usuários
+const MAX_QUERY_LENGTH = 40
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function mentionPattern(name: string): RegExp {
+  return new RegExp(`(^|\\s)@${escapeRegExp(name)}(?![\\p{L}\\p{N}])`, 'gu')
+}
+
+function byLongestName(candidates: MentionCandidate[]): MentionCandidate[] {
+  return candidates.filter((c) => c.name.trim()).sort((a, b) => b.name.length - a.name.length)
+}
+
+/** Ids dos usuários mencionados em `text`, sem repetição. */
+export function extractMentionedUserIds(text: string, candidates: MentionCandidate[]): string[] {
+  const ids: string[] = []
+  let remaining = text
+  for (const candidate of byLongestName(candidates)) {
+    const pattern = mentionPattern(candidate.name)
+    if (!pattern.test(remaining)) continue
+    if (!ids.includes(candidate.id)) ids.push(candidate.id)
+    remaining = remaining.replace(mentionPattern(candidate.name), '$1')
+  }
+  return ids
+}
+
+/** Divide o texto em trechos comuns e menções, para destacar as menções na interface. */
+export function splitMentions(text: string, names: string[]): MentionSegment[] {
+  const sorted = names.filter((n) => n.trim()).sort((a, b) => b.length - a.length)
+  if (sorted.length === 0) return [{ text, mention: false }]
+
+  const pattern = new RegExp(`(^|\\s)(@(?:${sorted.map(escapeRegExp).join('|')}))(?![\\p{L}\\p{N}])`, 'gu')
+  const segments: MentionSegment[] = []
+  let lastIndex = 0
+  for (const match of Array.from(text.matchAll(pattern))) {
+    const start = (match.index ?? 0) + match[1].length
+    if (start > lastIndex) segments.push({ text: text.slice(lastIndex, start), mention: false })
+    segments.push({ text: match[2], mention: true })
+    lastIndex = start + match[2].length
+  }
+  if (lastIndex < text.length) segments.push({ text: text.slice(lastIndex), mention: false })
+  return segments
+}
+
+/**
+ * Menção sendo digitada antes do cursor: posição do "@" e o trecho já digitado,
+ * ou null quando o cursor não está em uma menção.
+ */
+export function findMentionQuery(text: string, caret: number): { start: number; query: string } | null {
+  const before = text.slice(0, caret)
+  const at = before.lastIndexOf('@')
+  if (at < 0) return null
+  if (at > 0 && !/\s/.test(before[at - 1])) return null
+
+  const query = before.slice(at + 1)
+  if (query.length > MAX_QUERY_LENGTH || /[\n@]/.test(query) || query.startsWith(' ')) return null
+  return { start: at, query }
+}
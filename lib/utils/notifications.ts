@@ -0,0 +1,45 @@
+/**
+ * Notification Utilities
+ *
+ * Tipos de notificação do app, com os textos usados nas preferências do usuário.
+ * Compartilhado entre o servidor (envio) e a interface (sino e configurações).
+ */
+
+export type NotificationType =
+  | 'task_mention'
+  | 'task_assigned'
+  | 'task_watcher'
+  | 'event_participant'
+  | 'project_team'
+
+export const NOTIFICATION_TYPES: { value: NotificationType; label: string; description: string }[] = [
+  {
+    value: 'task_mention',
+    label: 'Menções',
+    description: 'Alguém mencionou você em um comentário de tarefa',
+  },
+  {
+    value: 'task_assigned',
+    label: 'Tarefas atribuídas',
+    description: 'Você passou a ser o responsável por uma tarefa',
+  },
+  {
+    value: 'task_watcher',
+    label: 'Observador de tarefa',
+    description: 'Você foi adicionado como observador de uma tarefa',
+  },
+  {
+    value: 'event_participant',
+    label: 'Eventos da agenda',
+    description: 'Você foi adicionado como participante de um evento',
+  },
+  {
+    value: 'project_team',
+    label: 'Equipes de projeto',
+    description: 'Você foi adicionado à equipe de um projeto',
+  },
+]
+
+export function isNotificationType(value: unknown): value is NotificationType {
+  return NOTIFICATION_TYPES.some((t) => t.value === value)
+}
@@ -0,0 +1,91 @@
+/**
+ * Proposal Utilities
+ *
+ * Cálculo dos totais e validação das propostas comerciais. Usado pelo editor
+ * (prévia dos valores), pela camada de dados (totais gravados) e pelo PDF
+ * gerado no servidor, para que os três mostrem sempre os mesmos números.
+ */
+
+export interface ProposalItem {
+  description: string
+  quantity: number
+  unitPrice: number
+}
+
+export interface ProposalTax {
+  name: string
+  rate: number // percentual sobre o subtotal (ex.: 5 = 5%)
+}
+
+export interface ProposalTotals {
+  subtotal: number
+  taxes: (ProposalTax & { amount: number })[]
+  taxTotal: number
+  total: number
+}
+
+/** Impostos sugeridos no editor */
+export const PROPOSAL_TAX_PRESETS = ['ISS', 'PIS', 'COFINS', 'IRPJ', 'CSLL']
+
+export const DEFAULT_PROPOSAL_VALIDITY_DAYS = 15
+
+/**
+ * Arredonda para centavos, com meio centavo para longe do zero. A folga relativa
+ * compensa a representação binária (5% de 20,10 = 1,005 vira 1,01, não 1,00).
+ */
+export function roundCents(value: number): number {
+  const cents = Math.round(Math.abs(value) * 100 * (1 + Number.EPSILON))
+  return value < 0 && cents > 0 ? -cents / 100 : cents / 100
+}
+
+export function getItemTotal(item: ProposalItem): number {
+  return roundCents(item.quantity * item.unitPrice)
+}
+
+export function computeProposalTotals(items: ProposalItem[], taxes: ProposalTax[]): ProposalTotals {
+  const subtotal = roundCents(items.reduce((sum, item) => sum + getItemTotal(item), 0))
+  const taxLines = taxes.map((tax) => ({ ...tax, amount: roundCents((subtotal * tax.rate) / 100) }))
+  const taxTotal = roundCents(taxLines.reduce((sum, tax) => sum + tax.amount, 0))
+  return { subtotal, taxes: taxLines, taxTotal, total: roundCents(subtotal + taxTotal) }
+}
+
+/** Número exibido da proposta, ex.: PROP-0042 */
+export function formatProposalNumber(number: number): string {
+  return `PROP-${String(number).padStart(4, '0')}`
+}
+
+/** Nome do PDF da proposta, ex.: "PROP-0042 - Avaliação de imóvel.pdf" */
+export function getProposalFileName(proposal: { number: number; title: string }): string {
+  const title = proposal.title.replace(/[\\/:*?"<>|]+/g, ' ').replace(/\s+/g, ' ').trim()
+  return `${formatProposalNumber(Number(proposal.number))} - ${title}.pdf`
+}
+
+export function formatCurrencyBRL(value: number): string {
+  return new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value)
+}
+
+/**
+ * Retorna a primeira inconsistência da proposta, ou null quando ela pode ser
+ * salva: ao menos um item, quantidades positivas, valores e alíquotas não
+ * negativos e data de validade preenchida.
+ */
+export function getProposalError(input: {
+  title: string
+  items: ProposalItem[]
+  taxes: ProposalTax[]
+  validUntil: string
+}): string | null {
+  if (!input.title.trim()) return 'Informe o título da proposta'
+  if (input.items.length === 0) return 'Adicione ao menos um item'
+  for (const item of input.items) {
+    if (!item.description.trim()) return 'Todos os itens precisam de descrição'
+    if (!Number.isFinite(item.quantity) || item.quantity <= 0) return 'Quantidade deve ser maior que zero'
+    if (!Number.isFinite(item.unitPrice) || item.unitPrice < 0) return 'Valor unitário inválido'
+  }
+  for (const tax of input.taxes) {
+    if (!tax.name.trim()) return 'Todos os impostos precisam de nome'
+    if (!Number.isFinite(tax.rate) || tax.rate < 0 || tax.rate > 100) return 'Alíquota deve estar entre 0 e 100%'
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(input.validUntil)) return 'Informe a data de validade'
+  return null
+}
@@ -0,0 +1,164 @@
+/**
+ * Recurrence Utilities
+ *
+ * Regras de recorrência simples (diária, semanal, mensal) com término por data
+ * ou por número de ocorrências. Todas as datas trafegam como strings
+ * YYYY-MM-DD e a aritmética é feita em UTC para não sofrer com fuso/horário
+ * de verão.
+ *
+ * - daily:   a cada `interval` dias a partir da data inicial
+ * - weekly:  a cada `interval` semanas, no mesmo dia da semana da data inicial
+ * - monthly: a cada `interval` meses, no mesmo dia do mês da data inicial
+ *            (meses sem esse dia, ex.: 31/02, são pulados)
+ */
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly'
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency
+  interval: number
+  until: string | null // YYYY-MM-DD (inclusive)
+  count: number | null // total de ocorrências da série
+}
+
+// Limite de segurança para regras sem término consultadas em intervalos longos
+const MAX_ITERATIONS = 10000
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export function parseISODate(iso: string): Date {
+  const [year, month, day] = iso.slice(0, 10).split('-').map(Number)
+  return new Date(Date.UTC(year, month - 1, day))
+}
+
+export function formatISODate(date: Date): string {
+  const year = date.getUTCFullYear()
+  const month = String(date.getUTCMonth() + 1).padStart(2, '0')
+  const day = String(date.getUTCDate()).padStart(2, '0')
+  return `${year}-${month}-${day}`
+}
+
+export function addDays(iso: string, days: number): string {
+  return formatISODate(new Date(parseISODate(iso).getTime() + days * DAY_MS))
+}
+
+export function diffInDays(fromIso: string, toIso: string): number {
+  return Math.round((parseISODate(toIso).getTime() - parseISODate(fromIso).getTime()) / DAY_MS)
+}
+
+function daysInMonth(year: number, monthIndex: number): number {
+  return new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate()
+}
+
+/**
+ * Retorna a n-ésima ocorrência candidata (índice 0 = data inicial) ou null
+ * quando a candidata não existe (ex.: dia 31 em um mês de 30 dias).
+ */
+function candidateAt(startIso: string, rule: RecurrenceRule, n: number): string | null {
+  const interval = Math.max(1, rule.interval || 1)
+  switch (rule.frequency) {
+    case 'daily':
+      return addDays(startIso, n * interval)
+    case 'weekly':
+      return addDays(startIso, n * interval * 7)
+    case 'monthly': {
+      const start = parseISODate(startIso)
+      const totalMonths = start.getUTCMonth() + n * interval
+      const year = start.getUTCFullYear() + Math.floor(totalMonths / 12)
+      const monthIndex = totalMonths % 12
+      const day = start.getUTCDate()
+      if (day > daysInMonth(year, monthIndex)) return null
+      return formatISODate(new Date(Date.UTC(year, monthIndex, day)))
+    }
+    default:
+      return null
+  }
+}
+
+/**
+ * Lista as ocorrências da série entre `fromIso` e `toIso` (inclusive).
+ */
+export function expandOccurrences(
+  startIso: string,
+  rule: RecurrenceRule,
+  fromIso: string,
+  toIso: string
+): string[] {
+  const result: string[] = []
+  const interval = Math.max(1, rule.interval || 1)
+  const lastAllowed = rule.until && rule.until < toIso ? rule.until : toIso
+
+  if (lastAllowed < startIso || lastAllowed < fromIso) return result
+
+  // Diária e semanal não pulam candidatas: dá para avançar direto até `fromIso`
+  let n = 0
+  if ((rule.frequency === 'daily' || rule.frequency === 'weekly') && fromIso > startIso) {
+    const step = rule.frequency === 'daily' ? interval : interval * 7
+    n = Math.ceil(diffInDays(startIso, fromIso) / step)
+  }
+  let produced = rule.frequency === 'monthly' ? 0 : n
+
+  for (let i = 0; i < MAX_ITERATIONS; i++, n++) {
+    if (rule.count != null && produced >= rule.count) break
+    const candidate = candidateAt(startIso, rule, n)
+    if (candidate === null) continue
+    if (candidate > lastAllowed) break
+    produced++
+    if (candidate >= fromIso) result.push(candidate)
+  }
+
+  return result
+}
+
+/**
+ * Primeira ocorrência depois de `afterIso` (exclusivo) e a partir de
+ * `notBeforeIso`, ou null quando a série já terminou.
+ */
+export function nextOccurrence(
+  startIso: string,
+  rule: RecurrenceRule,
+  afterIso: string,
+  notBeforeIso?: string
+): string | null {
+  let fromIso = addDays(afterIso, 1)
+  if (notBeforeIso && notBeforeIso > fromIso) fromIso = notBeforeIso
+
+  // Janela que sempre contém a próxima candidata válida (a mensal pode pular
+  // meses sem o dia, ex.: 29/02 só existe a cada 4 anos)
+  const interval = Math.max(1, rule.interval || 1)
+  const span =
+    rule.frequency === 'daily' ? interval : rule.frequency === 'weekly' ? interval * 7 : interval * 31 * 48
+
+  return expandOccurrences(startIso, rule, fromIso, addDays(fromIso, span))[0] ?? null
+}
+
+/**
+ * Quantas ocorrências a série tem antes de `beforeIso` (exclusivo).
+ */
+export function countOccurrencesBefore(startIso: string, rule: RecurrenceRule, beforeIso: string): number {
+  if (beforeIso <= startIso) return 0
+  return expandOccurrences(startIso, rule, startIso, addDays(beforeIso, -1)).length
+}
+
+/**
+ * Rótulo curto em português para exibir a regra na interface.
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const interval = Math.max(1, rule.interval || 1)
+  const units: Record<RecurrenceFrequency, [string, string]> = {
+    daily: ['Diariamente', 'dias'],
+    weekly: ['Semanalmente', 'semanas'],
+    monthly: ['Mensalmente', 'meses'],
+  }
+  const [single, plural] = units[rule.frequency]
+  let label = interval === 1 ? single : `A cada ${interval} ${plural}`
+
+  if (rule.count != null) {
+    label += `, ${rule.count} ${rule.count === 1 ? 'vez' : 'vezes'}`
+  } else if (rule.until) {
+    const [year, month, day] = rule.until.split('-')
+    label += `, até ${day}/${month}/${year}`
+  }
+
+  return label
+}
@@ -0,0 +1,39 @@
+/**
+ * Event Reminder Utilities
+ *
+ * Antecedências disponíveis para os lembretes por email dos eventos da agenda
+ * (em minutos antes do início).
+ */
+
+export const REMINDER_OPTIONS: { minutes: number; label: string }[] = [
+  { minutes: 15, label: '15 minutos antes' },
+  { minutes: 60, label: '1 hora antes' },
+  { minutes: 1440, label: '1 dia antes' },
+  { minutes: 2880, label: '2 dias antes' },
+]
+
+/** Maior antecedência aceita: define quantos dias à frente o scheduler consulta. */
+export const MAX_REMINDER_MINUTES = Math.max(...REMINDER_OPTIONS.map((o) => o.minutes))
+
+/** Texto curto da antecedência, ex.: "1 hora", "2 dias", "15 minutos". */
+export function describeReminder(minutes: number): string {
+  if (minutes % 1440 === 0) {
+    const days = minutes / 1440
+    return days === 1 ? '1 dia' : `${days} dias`
+  }
+  if (minutes % 60 === 0) {
+    const hours = minutes / 60
+    return hours === 1 ? '1 hora' : `${hours} horas`
+  }
+  return minutes === 1 ? '1 minuto' : `${minutes} minutos`
+}
+
+/**
+ * Tempo restante até o evento, arredondado para a maior unidade:
+ * 47 → "47 minutos", 110 → "2 horas", 1430 → "1 dia".
+ */
+export function describeTimeLeft(minutes: number): string {
+  if (minutes < 60) return describeReminder(Math.max(1, Math.round(minutes)))
+  if (minutes < 1440) return describeReminder(Math.round(minutes / 60) * 60)
+  return describeReminder(Math.round(minutes / 1440) * 1440)
+}
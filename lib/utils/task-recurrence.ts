@@ -0,0 +1,155 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { nextOccurrence, type RecurrenceRule } from './recurrence'
+
+/**
+ * Task Recurrence Utilities
+ *
+ * Geração da próxima instância de tarefas recorrentes, compartilhada entre o
+ * frontend (modo "on_done", ao mover a tarefa para "done") e o cron (modo
+ * "schedule", POST /api/tasks/recurrence). A nova instância mantém projeto,
+ * responsável, etiquetas, observadores, prioridade e checklist (desmarcado) e
+ * tem como prazo a próxima ocorrência da série.
+ */
+
+export type TaskRecurrenceMode = 'on_done' | 'schedule'
+
+export interface TaskRecurrence {
+  rule: RecurrenceRule
+  mode: TaskRecurrenceMode
+  startDate: string // YYYY-MM-DD, data-base da regra
+  occurrenceDate: string // YYYY-MM-DD, ocorrência representada por esta instância
+}
+
+export const TASK_RECURRENCE_COLUMNS =
+  'recurrence_frequency, recurrence_interval, recurrence_until, recurrence_count, recurrence_mode, recurrence_start_date, recurrence_series_id, recurrence_occurrence_date'
+
+export function toTaskRecurrence(row: any): TaskRecurrence | null {
+  if (!row?.recurrence_frequency || !row.recurrence_start_date) return null
+  return {
+    rule: {
+      frequency: row.recurrence_frequency,
+      interval: row.recurrence_interval ?? 1,
+      until: row.recurrence_until ?? null,
+      count: row.recurrence_count ?? null,
+    },
+    mode: row.recurrence_mode ?? 'on_done',
+    startDate: row.recurrence_start_date,
+    occurrenceDate: row.recurrence_occurrence_date ?? row.recurrence_start_date,
+  }
+}
+
+export function taskRecurrenceToColumns(recurrence: TaskRecurrence | null) {
+  const rule = recurrence?.rule
+  return {
+    recurrence_frequency: rule?.frequency ?? null,
+    recurrence_interval: rule ? Math.max(1, rule.interval || 1) : 1,
+    recurrence_until: rule?.count != null ? null : rule?.until ?? null,
+    recurrence_count: rule?.count ?? null,
+    recurrence_mode: recurrence?.mode ?? 'on_done',
+    recurrence_start_date: recurrence?.startDate ?? null,
+  }
+}
+
+/**
+ * Cria a próxima instância da série de `taskId`.
+ *
+ * @param trigger - Modo que disparou a geração; tarefas de outro modo são ignoradas
+ * @param today - Data atual (YYYY-MM-DD): instâncias concluídas com atraso não
+ *   geram ocorrências já vencidas
+ * @returns Id da nova tarefa, ou null quando a tarefa não é recorrente, a série
+ *   terminou ou a próxima instância já existe
+ */
+export async function createNextTaskInstance(
+  supabase: SupabaseClient,
+  taskId: string,
+  trigger: TaskRecurrenceMode,
+  today: string
+): Promise<string | null> {
+  const { data: task, error } = await supabase
+    .from('tasks')
+    .select(
+      `id, title, description, project_id, assigned_to, labels, watchers, priority, parent_task_id, created_by, ${TASK_RECURRENCE_COLUMNS}`
+    )
+    .eq('id', taskId)
+    .single()
+  if (error) throw error
+
+  const recurrence = toTaskRecurrence(task)
+  if (!recurrence || recurrence.mode !== trigger) return null
+
+  // Só a instância mais recente da série gera a seguinte
+  const seriesId: string = task.recurrence_series_id ?? task.id
+  const { data: later, error: laterError } = await supabase
+    .from('tasks')
+    .select('id')
+    .or(`id.eq.${seriesId},recurrence_series_id.eq.${seriesId}`)
+    .gt('recurrence_occurrence_date', recurrence.occurrenceDate)
+    .limit(1)
+  if (laterError) throw laterError
+  if ((later ?? []).length > 0) return null
+
+  const occurrenceDate = nextOccurrence(recurrence.startDate, recurrence.rule, recurrence.occurrenceDate, today)
+  if (!occurrenceDate) return null
+
+  // Nova instância entra na primeira coluna do projeto (ou na coluna global "todo")
+  let status = 'todo'
+  if (task.project_id) {
+    const { data: firstColumn, error: columnError } = await supabase
+      .from('kanban_columns')
+      .select('status_key')
+      .eq('project_id', task.project_id)
+      .order('position', { ascending: true })
+      .limit(1)
+      .maybeSingle()
+    if (columnError) throw columnError
+    if (firstColumn) status = firstColumn.status_key
+  }
+
+  const { data: created, error: insertError } = await supabase
+    .from('tasks')
+    .insert({
+      title: task.title,
+      description: task.description ?? null,
+      project_id: task.project_id ?? null,
+      status,
+      deadline: occurrenceDate,
+      assigned_to: task.assigned_to ?? null,
+      labels: task.labels ?? [],
+      watchers: task.watchers ?? [],
+      priority: task.priority ?? 'medium',
+      parent_task_id: task.parent_task_id ?? null,
+      created_by: task.created_by ?? null,
+      ...taskRecurrenceToColumns(recurrence),
+      recurrence_series_id: seriesId,
+      recurrence_occurrence_date: occurrenceDate,
+    })
+    .select('id')
+    .single()
+
+  if (insertError) {
+    // Instância criada por outra execução ao mesmo tempo
+    if (insertError.code === '23505') return null
+    throw insertError
+  }
+
+  const { data: checklist, error: checklistError } = await supabase
+    .from('task_checklist')
+    .select('text, position')
+    .eq('task_id', task.id)
+    .order('position', { ascending: true })
+  if (checklistError) throw checklistError
+
+  if ((checklist ?? []).length > 0) {
+    const { error: copyError } = await supabase.from('task_checklist').insert(
+      (checklist ?? []).map((item: any) => ({
+        task_id: created.id,
+        text: item.text,
+        position: item.position,
+        completed: false,
+      }))
+    )
+    if (copyError) throw copyError
+  }
+
+  return created.id as string
+}
@@ -0,0 +1,82 @@
+-- Eventos recorrentes na agenda (diário / semanal / mensal).
+--
+-- Uma série é uma única linha em `events`: `event_date` é a primeira ocorrência e as
+-- colunas recurrence_* descrevem a regra (término por `recurrence_until` ou
+-- `recurrence_count`). As ocorrências são expandidas pelo frontend (lib/data/events.ts).
+--
+-- Exceções:
+--   - ocorrência excluída  → linha em `event_exceptions` (event_id, occurrence_date)
+--   - ocorrência editada   → exceção + evento avulso com recurrence_parent_id apontando
+--                            para a série e recurrence_original_date = data original
+
+-- ---------------------------------------------------------------------------
+-- 1) Regra de recorrência em events
+-- ---------------------------------------------------------------------------
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS recurrence_frequency text
+    CHECK (recurrence_frequency IN ('daily', 'weekly', 'monthly')),
+  ADD COLUMN IF NOT EXISTS recurrence_interval integer NOT NULL DEFAULT 1
+    CHECK (recurrence_interval >= 1),
+  ADD COLUMN IF NOT EXISTS recurrence_until date,
+  ADD COLUMN IF NOT EXISTS recurrence_count integer
+    CHECK (recurrence_count IS NULL OR recurrence_count >= 1),
+  ADD COLUMN IF NOT EXISTS recurrence_parent_id uuid REFERENCES public.events(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS recurrence_original_date date;
+
+CREATE INDEX IF NOT EXISTS idx_events_recurring
+  ON public.events(event_date)
+  WHERE recurrence_frequency IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_events_recurrence_parent_id
+  ON public.events(recurrence_parent_id)
+  WHERE recurrence_parent_id IS NOT NULL;
+
+-- ---------------------------------------------------------------------------
+-- 2) Ocorrências removidas da série
+-- ---------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.event_exceptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid REFERENCES public.events(id) ON DELETE CASCADE NOT NULL,
+  occurrence_date date NOT NULL,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT NOW(),
+  UNIQUE (event_id, occurrence_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_exceptions_event_id ON public.event_exceptions(event_id);
+
+ALTER TABLE public.event_exceptions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view event exceptions" ON public.event_exceptions;
+CREATE POLICY "Users can view event exceptions"
+  ON public.event_exceptions FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Users can add event exceptions" ON public.event_exceptions;
+CREATE POLICY "Users can add event exceptions"
+  ON public.event_exceptions FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    is_admin(auth.uid())
+    OR has_permission(auth.uid(), 'agenda', 'edit')
+    OR has_permission(auth.uid(), 'agenda', 'delete')
+  );
+
+DROP POLICY IF EXISTS "Users can update event exceptions" ON public.event_exceptions;
+CREATE POLICY "Users can update event exceptions"
+  ON public.event_exceptions FOR UPDATE
+  TO authenticated
+  USING (
+    is_admin(auth.uid())
+    OR has_permission(auth.uid(), 'agenda', 'edit')
+  );
+
+DROP POLICY IF EXISTS "Users can remove event exceptions" ON public.event_exceptions;
+CREATE POLICY "Users can remove event exceptions"
+  ON public.event_exceptions FOR DELETE
+  TO authenticated
+  USING (
+    is_admin(auth.uid())
+    OR has_permission(auth.uid(), 'agenda', 'edit')
+  );
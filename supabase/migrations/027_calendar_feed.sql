@@ -0,0 +1,137 @@
+-- Feed iCalendar (.ics) da agenda e importação de arquivos .ics.
+--
+-- Cada usuário tem um token secreto (calendar_feed_tokens) usado na URL do feed
+-- assinada no Outlook/Google Calendar. Como esses clientes não enviam a sessão do
+-- Supabase, a leitura é feita pela RPC SECURITY DEFINER get_calendar_feed(token),
+-- que valida o token e a permissão `agenda.view` antes de devolver os eventos.
+
+-- ---------------------------------------------------------------------------
+-- 1) UID de origem para eventos importados (evita duplicar em reimportações)
+-- ---------------------------------------------------------------------------
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS ical_uid text;
+
+CREATE INDEX IF NOT EXISTS idx_events_ical_uid
+  ON public.events(ical_uid)
+  WHERE ical_uid IS NOT NULL;
+
+-- ---------------------------------------------------------------------------
+-- 2) Tokens do feed (um por usuário)
+-- ---------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.calendar_feed_tokens (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  token text NOT NULL UNIQUE,
+  created_at timestamptz NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their calendar feed token" ON public.calendar_feed_tokens;
+CREATE POLICY "Users can view their calendar feed token"
+  ON public.calendar_feed_tokens FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can create their calendar feed token" ON public.calendar_feed_tokens;
+CREATE POLICY "Users can create their calendar feed token"
+  ON public.calendar_feed_tokens FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can rotate their calendar feed token" ON public.calendar_feed_tokens;
+CREATE POLICY "Users can rotate their calendar feed token"
+  ON public.calendar_feed_tokens FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can revoke their calendar feed token" ON public.calendar_feed_tokens;
+CREATE POLICY "Users can revoke their calendar feed token"
+  ON public.calendar_feed_tokens FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- ---------------------------------------------------------------------------
+-- 3) RPC do feed: eventos criados pelo usuário ou dos quais ele participa
+--    (últimos 180 dias em diante; séries recorrentes ainda ativas entram inteiras)
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.get_calendar_feed(p_token text)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid;
+  v_user_name text;
+BEGIN
+  SELECT t.user_id, u.full_name
+    INTO v_user_id, v_user_name
+  FROM public.calendar_feed_tokens t
+  LEFT JOIN public.users u ON u.auth_user_id = t.user_id
+  WHERE t.token = p_token;
+
+  IF v_user_id IS NULL OR NOT has_permission(v_user_id, 'agenda', 'view') THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'user_name', v_user_name,
+    'events', COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', e.id,
+          'title', e.title,
+          'description', e.description,
+          'event_date', e.event_date,
+          'event_time', e.event_time,
+          'location', e.location,
+          'type', e.type,
+          'ical_uid', e.ical_uid,
+          'updated_at', e.updated_at,
+          'recurrence_frequency', e.recurrence_frequency,
+          'recurrence_interval', e.recurrence_interval,
+          'recurrence_until', e.recurrence_until,
+          'recurrence_count', e.recurrence_count,
+          'client_name', c.name,
+          'exceptions', COALESCE((
+            SELECT jsonb_agg(x.occurrence_date ORDER BY x.occurrence_date)
+            FROM public.event_exceptions x
+            WHERE x.event_id = e.id
+          ), '[]'::jsonb),
+          'participants', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object('name', pu.full_name, 'email', pu.email))
+            FROM public.event_participants ep
+            JOIN public.users pu ON pu.auth_user_id = ep.user_id
+            WHERE ep.event_id = e.id
+          ), '[]'::jsonb)
+        )
+        ORDER BY e.event_date, e.event_time
+      )
+      FROM public.events e
+      LEFT JOIN public.clients c ON c.id = e.client_id
+      WHERE (
+          e.created_by = v_user_id
+          OR EXISTS (
+            SELECT 1 FROM public.event_participants ep
+            WHERE ep.event_id = e.id
+            AND ep.user_id = v_user_id
+          )
+        )
+        AND (
+          e.event_date >= CURRENT_DATE - 180
+          OR (
+            e.recurrence_frequency IS NOT NULL
+            AND (e.recurrence_until IS NULL OR e.recurrence_until >= CURRENT_DATE - 180)
+          )
+        )
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_calendar_feed(text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_calendar_feed(text) TO anon;
+GRANT EXECUTE ON FUNCTION public.get_calendar_feed(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_calendar_feed(text) TO service_role;
@@ -0,0 +1,97 @@
+-- Horário de término dos eventos.
+--
+-- event_end_time é opcional: eventos antigos (e prazos) continuam sem término e
+-- são tratados como compromissos de 1 hora na verificação de conflitos e no feed .ics.
+
+-- ---------------------------------------------------------------------------
+-- 1) Coluna de término
+-- ---------------------------------------------------------------------------
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS event_end_time time;
+
+ALTER TABLE public.events
+  DROP CONSTRAINT IF EXISTS events_end_time_after_start;
+
+ALTER TABLE public.events
+  ADD CONSTRAINT events_end_time_after_start
+  CHECK (event_end_time IS NULL OR event_end_time > event_time);
+
+-- ---------------------------------------------------------------------------
+-- 2) Feed iCalendar passa a expor o término (ver 027_calendar_feed.sql)
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.get_calendar_feed(p_token text)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid;
+  v_user_name text;
+BEGIN
+  SELECT t.user_id, u.full_name
+    INTO v_user_id, v_user_name
+  FROM public.calendar_feed_tokens t
+  LEFT JOIN public.users u ON u.auth_user_id = t.user_id
+  WHERE t.token = p_token;
+
+  IF v_user_id IS NULL OR NOT has_permission(v_user_id, 'agenda', 'view') THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'user_name', v_user_name,
+    'events', COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', e.id,
+          'title', e.title,
+          'description', e.description,
+          'event_date', e.event_date,
+          'event_time', e.event_time,
+          'event_end_time', e.event_end_time,
+          'location', e.location,
+          'type', e.type,
+          'ical_uid', e.ical_uid,
+          'updated_at', e.updated_at,
+          'recurrence_frequency', e.recurrence_frequency,
+          'recurrence_interval', e.recurrence_interval,
+          'recurrence_until', e.recurrence_until,
+          'recurrence_count', e.recurrence_count,
+          'client_name', c.name,
+          'exceptions', COALESCE((
+            SELECT jsonb_agg(x.occurrence_date ORDER BY x.occurrence_date)
+            FROM public.event_exceptions x
+            WHERE x.event_id = e.id
+          ), '[]'::jsonb),
+          'participants', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object('name', pu.full_name, 'email', pu.email))
+            FROM public.event_participants ep
+            JOIN public.users pu ON pu.auth_user_id = ep.user_id
+            WHERE ep.event_id = e.id
+          ), '[]'::jsonb)
+        )
+        ORDER BY e.event_date, e.event_time
+      )
+      FROM public.events e
+      LEFT JOIN public.clients c ON c.id = e.client_id
+      WHERE (
+          e.created_by = v_user_id
+          OR EXISTS (
+            SELECT 1 FROM public.event_participants ep
+            WHERE ep.event_id = e.id
+            AND ep.user_id = v_user_id
+          )
+        )
+        AND (
+          e.event_date >= CURRENT_DATE - 180
+          OR (
+            e.recurrence_frequency IS NOT NULL
+            AND (e.recurrence_until IS NULL OR e.recurrence_until >= CURRENT_DATE - 180)
+          )
+        )
+    ), '[]'::jsonb)
+  );
+END;
+$$;
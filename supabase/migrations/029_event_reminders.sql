@@ -0,0 +1,42 @@
+-- Lembretes por email dos eventos da agenda.
+--
+-- Cada evento guarda em `reminder_minutes` com quantos minutos de antecedência os
+-- participantes devem ser avisados (ex.: {1440, 60} = 1 dia e 1 hora antes).
+-- O disparo é feito por POST /api/events/reminders (cron), que registra cada envio em
+-- `event_reminder_log` antes de mandar o email; a chave única impede envios duplicados
+-- mesmo com execuções concorrentes do cron.
+
+-- ---------------------------------------------------------------------------
+-- 1) Antecedências configuradas por evento
+-- ---------------------------------------------------------------------------
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS reminder_minutes integer[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_events_with_reminders
+  ON public.events(event_date)
+  WHERE reminder_minutes <> '{}';
+
+-- ---------------------------------------------------------------------------
+-- 2) Log de lembretes enviados (uma linha por ocorrência / antecedência / usuário)
+-- ---------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.event_reminder_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid REFERENCES public.events(id) ON DELETE CASCADE NOT NULL,
+  occurrence_date date NOT NULL,
+  reminder_minutes integer NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  sent_at timestamptz NOT NULL DEFAULT NOW(),
+  UNIQUE (event_id, occurrence_date, reminder_minutes, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_reminder_log_event_id
+  ON public.event_reminder_log(event_id);
+
+-- Escrita apenas pelo scheduler (service role, que ignora RLS)
+ALTER TABLE public.event_reminder_log ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view event reminder log" ON public.event_reminder_log;
+CREATE POLICY "Admins can view event reminder log"
+  ON public.event_reminder_log FOR SELECT
+  TO authenticated
+  USING (is_admin(auth.uid()));
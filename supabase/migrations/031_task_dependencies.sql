@@ -0,0 +1,93 @@
+-- Dependências entre tarefas do Kanban (bloqueada por / bloqueia).
+--
+-- Cada linha indica que `task_id` só pode começar depois que `depends_on_task_id`
+-- estiver concluída. O app avisa ao mover uma tarefa para "em progresso" com
+-- bloqueios pendentes; o trigger abaixo impede ciclos (A → B → A) mesmo que o
+-- cliente não faça a verificação.
+
+-- ---------------------------------------------------------------------------
+-- 1) Tabela de dependências
+-- ---------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.task_dependencies (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id uuid REFERENCES public.tasks(id) ON DELETE CASCADE NOT NULL,
+  depends_on_task_id uuid REFERENCES public.tasks(id) ON DELETE CASCADE NOT NULL,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT NOW(),
+  UNIQUE (task_id, depends_on_task_id),
+  CONSTRAINT task_dependencies_not_self CHECK (task_id <> depends_on_task_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_dependencies_task_id
+  ON public.task_dependencies(task_id);
+CREATE INDEX IF NOT EXISTS idx_task_dependencies_depends_on
+  ON public.task_dependencies(depends_on_task_id);
+
+-- ---------------------------------------------------------------------------
+-- 2) Bloqueio de ciclos
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.prevent_task_dependency_cycle()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  -- Há ciclo se a nova dependência já depende (direta ou indiretamente) da tarefa
+  IF EXISTS (
+    WITH RECURSIVE chain(task_id) AS (
+      SELECT d.depends_on_task_id
+      FROM public.task_dependencies d
+      WHERE d.task_id = NEW.depends_on_task_id
+      UNION
+      SELECT d.depends_on_task_id
+      FROM public.task_dependencies d
+      JOIN chain c ON d.task_id = c.task_id
+    )
+    SELECT 1 FROM chain WHERE task_id = NEW.task_id
+  ) THEN
+    RAISE EXCEPTION 'task dependency cycle'
+      USING ERRCODE = 'check_violation',
+            DETAIL = format('%s -> %s', NEW.task_id, NEW.depends_on_task_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_task_dependencies_no_cycle ON public.task_dependencies;
+CREATE TRIGGER trg_task_dependencies_no_cycle
+  BEFORE INSERT OR UPDATE ON public.task_dependencies
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_task_dependency_cycle();
+
+-- ---------------------------------------------------------------------------
+-- 3) RLS (mesmas permissões da seção kanban)
+-- ---------------------------------------------------------------------------
+ALTER TABLE public.task_dependencies ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view task dependencies" ON public.task_dependencies;
+CREATE POLICY "Users can view task dependencies"
+  ON public.task_dependencies FOR SELECT
+  TO authenticated
+  USING (
+    is_admin(auth.uid())
+    OR has_permission(auth.uid(), 'kanban', 'view')
+  );
+
+DROP POLICY IF EXISTS "Users can create task dependencies" ON public.task_dependencies;
+CREATE POLICY "Users can create task dependencies"
+  ON public.task_dependencies FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    is_admin(auth.uid())
+    OR has_permission(auth.uid(), 'kanban', 'edit')
+  );
+
+DROP POLICY IF EXISTS "Users can delete task dependencies" ON public.task_dependencies;
+CREATE POLICY "Users can delete task dependencies"
+  ON public.task_dependencies FOR DELETE
+  TO authenticated
+  USING (
+    is_admin(auth.uid())
+    OR has_permission(auth.uid(), 'kanban', 'edit')
+  );
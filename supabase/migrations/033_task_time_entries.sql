@@ -0,0 +1,67 @@
+-- Apontamento de horas nas tarefas.
+--
+-- Cada linha é um período trabalhado por um usuário em uma tarefa:
+-- - Cronômetro: criado com `ended_at` nulo e encerrado ao parar (um por usuário)
+-- - Lançamento manual: criado já encerrado, com a duração informada
+-- `duration_minutes` é preenchido ao encerrar e usado nos totais por tarefa / projeto.
+
+-- ---------------------------------------------------------------------------
+-- 1) Tabela de apontamentos
+-- ---------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.task_time_entries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id uuid REFERENCES public.tasks(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  started_at timestamptz NOT NULL DEFAULT NOW(),
+  ended_at timestamptz,
+  duration_minutes integer,
+  description text,
+  is_manual boolean NOT NULL DEFAULT FALSE,
+  created_at timestamptz NOT NULL DEFAULT NOW(),
+  CONSTRAINT task_time_entries_end_after_start CHECK (ended_at IS NULL OR ended_at >= started_at),
+  CONSTRAINT task_time_entries_duration_positive CHECK (duration_minutes IS NULL OR duration_minutes >= 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_time_entries_task_id
+  ON public.task_time_entries(task_id);
+
+-- Apenas um cronômetro ativo por usuário
+CREATE UNIQUE INDEX IF NOT EXISTS idx_task_time_entries_one_running_per_user
+  ON public.task_time_entries(user_id)
+  WHERE ended_at IS NULL;
+
+-- ---------------------------------------------------------------------------
+-- 2) RLS: todos com acesso ao kanban veem; cada usuário mantém os próprios apontamentos
+-- ---------------------------------------------------------------------------
+ALTER TABLE public.task_time_entries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view task time entries" ON public.task_time_entries;
+CREATE POLICY "Users can view task time entries"
+  ON public.task_time_entries FOR SELECT
+  TO authenticated
+  USING (
+    is_admin(auth.uid())
+    OR has_permission(auth.uid(), 'kanban', 'view')
+    OR has_permission(auth.uid(), 'projetos', 'view')
+  );
+
+DROP POLICY IF EXISTS "Users can create own time entries" ON public.task_time_entries;
+CREATE POLICY "Users can create own time entries"
+  ON public.task_time_entries FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND (is_admin(auth.uid()) OR has_permission(auth.uid(), 'kanban', 'edit'))
+  );
+
+DROP POLICY IF EXISTS "Users can update own time entries" ON public.task_time_entries;
+CREATE POLICY "Users can update own time entries"
+  ON public.task_time_entries FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid() OR is_admin(auth.uid()));
+
+DROP POLICY IF EXISTS "Users can delete own time entries" ON public.task_time_entries;
+CREATE POLICY "Users can delete own time entries"
+  ON public.task_time_entries FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid() OR is_admin(auth.uid()));
@@ -0,0 +1,68 @@
+-- Modelos de projeto.
+--
+-- Um modelo guarda a estrutura padrão de um novo projeto de avaliação:
+-- - kanban_columns: colunas próprias do projeto  [{ "name", "color" }]
+-- - tasks: tarefas iniciais com checklist        [{ "title", "description", "column_index", "status", "checklist": [text] }]
+--   (column_index aponta para kanban_columns; sem colunas próprias, status guarda a coluna global)
+-- - default_members: usuários incluídos na equipe (auth user ids)
+-- - drive_folders: subpastas criadas na pasta do projeto no Drive ("Laudos", "Fotos/Vistoria")
+-- A criação do projeto a partir do modelo é feita pelo app (lib/data/project-templates.ts).
+
+CREATE TABLE IF NOT EXISTS public.project_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  description text,
+  kanban_columns jsonb NOT NULL DEFAULT '[]'::jsonb,
+  tasks jsonb NOT NULL DEFAULT '[]'::jsonb,
+  default_members uuid[] NOT NULL DEFAULT '{}',
+  drive_folders text[] NOT NULL DEFAULT '{}',
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT NOW(),
+  updated_at timestamptz NOT NULL DEFAULT NOW(),
+  CONSTRAINT project_templates_columns_is_array CHECK (jsonb_typeof(kanban_columns) = 'array'),
+  CONSTRAINT project_templates_tasks_is_array CHECK (jsonb_typeof(tasks) = 'array')
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_project_templates_name
+  ON public.project_templates(lower(name));
+
+-- ---------------------------------------------------------------------------
+-- RLS (mesmas permissões da seção projetos)
+-- ---------------------------------------------------------------------------
+ALTER TABLE public.project_templates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view project templates" ON public.project_templates;
+CREATE POLICY "Users can view project templates"
+  ON public.project_templates FOR SELECT
+  TO authenticated
+  USING (
+    is_admin(auth.uid())
+    OR has_permission(auth.uid(), 'projetos', 'view')
+  );
+
+DROP POLICY IF EXISTS "Users can create project templates" ON public.project_templates;
+CREATE POLICY "Users can create project templates"
+  ON public.project_templates FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    is_admin(auth.uid())
+    OR has_permission(auth.uid(), 'projetos', 'create')
+  );
+
+DROP POLICY IF EXISTS "Users can update project templates" ON public.project_templates;
+CREATE POLICY "Users can update project templates"
+  ON public.project_templates FOR UPDATE
+  TO authenticated
+  USING (
+    is_admin(auth.uid())
+    OR has_permission(auth.uid(), 'projetos', 'edit')
+  );
+
+DROP POLICY IF EXISTS "Users can delete project templates" ON public.project_templates;
+CREATE POLICY "Users can delete project templates"
+  ON public.project_templates FOR DELETE
+  TO authenticated
+  USING (
+    is_admin(auth.uid())
+    OR has_permission(auth.uid(), 'projetos', 'delete')
+  );
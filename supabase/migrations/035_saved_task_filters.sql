@@ -0,0 +1,108 @@
+-- Filtros de tarefas salvos.
+--
+-- Cada filtro guarda um `TaskFilters` (lib/data/tasks.ts) com nome:
+-- - pessoal: visível apenas para o dono
+-- - compartilhado: visível para os usuários do mesmo grupo do dono (users.group_id)
+-- O grupo é preenchido pelo banco a partir do dono, nunca informado pelo app.
+
+CREATE TABLE IF NOT EXISTS public.saved_task_filters (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  filters jsonb NOT NULL DEFAULT '{}'::jsonb,
+  owner_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL DEFAULT auth.uid(),
+  is_shared boolean NOT NULL DEFAULT FALSE,
+  group_id uuid REFERENCES public.user_groups(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT NOW(),
+  updated_at timestamptz NOT NULL DEFAULT NOW(),
+  CONSTRAINT saved_task_filters_filters_is_object CHECK (jsonb_typeof(filters) = 'object')
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_task_filters_owner_id
+  ON public.saved_task_filters(owner_id);
+
+CREATE INDEX IF NOT EXISTS idx_saved_task_filters_group_id
+  ON public.saved_task_filters(group_id)
+  WHERE is_shared;
+
+-- ---------------------------------------------------------------------------
+-- 1) Grupo do usuário logado
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.current_user_group_id()
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT u.group_id
+  FROM users u
+  WHERE u.auth_user_id = auth.uid()
+    AND u.status = 'active'
+  LIMIT 1;
+$$;
+
+-- ---------------------------------------------------------------------------
+-- 2) Trigger: grupo do compartilhamento vem do dono
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.set_saved_task_filter_group()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.is_shared THEN
+    SELECT u.group_id INTO NEW.group_id
+    FROM users u
+    WHERE u.auth_user_id = NEW.owner_id
+    LIMIT 1;
+  ELSE
+    NEW.group_id := NULL;
+  END IF;
+
+  NEW.updated_at := NOW();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_saved_task_filters_group ON public.saved_task_filters;
+CREATE TRIGGER trg_saved_task_filters_group
+  BEFORE INSERT OR UPDATE ON public.saved_task_filters
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_saved_task_filter_group();
+
+-- ---------------------------------------------------------------------------
+-- 3) RLS: dono gerencia; grupo apenas visualiza os compartilhados
+-- ---------------------------------------------------------------------------
+ALTER TABLE public.saved_task_filters ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own or group task filters" ON public.saved_task_filters;
+CREATE POLICY "Users can view own or group task filters"
+  ON public.saved_task_filters FOR SELECT
+  TO authenticated
+  USING (
+    owner_id = auth.uid()
+    OR (is_shared AND group_id IS NOT NULL AND group_id = public.current_user_group_id())
+  );
+
+DROP POLICY IF EXISTS "Users can create own task filters" ON public.saved_task_filters;
+CREATE POLICY "Users can create own task filters"
+  ON public.saved_task_filters FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    owner_id = auth.uid()
+    AND (is_admin(auth.uid()) OR has_permission(auth.uid(), 'kanban', 'view'))
+  );
+
+DROP POLICY IF EXISTS "Users can update own task filters" ON public.saved_task_filters;
+CREATE POLICY "Users can update own task filters"
+  ON public.saved_task_filters FOR UPDATE
+  TO authenticated
+  USING (owner_id = auth.uid())
+  WITH CHECK (owner_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can delete own task filters" ON public.saved_task_filters;
+CREATE POLICY "Users can delete own task filters"
+  ON public.saved_task_filters FOR DELETE
+  TO authenticated
+  USING (owner_id = auth.uid() OR is_admin(auth.uid()));
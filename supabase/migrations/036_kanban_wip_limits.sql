@@ -0,0 +1,13 @@
+-- Limite de trabalho em andamento (WIP) por coluna do Kanban.
+--
+-- `wip_limit` nulo = sem limite. O limite é verificado pelo app ao criar ou mover
+-- tarefas (lib/data/tasks.ts), que permite excedê-lo após confirmação do usuário.
+
+ALTER TABLE public.kanban_columns
+  ADD COLUMN IF NOT EXISTS wip_limit integer;
+
+ALTER TABLE public.kanban_columns
+  DROP CONSTRAINT IF EXISTS kanban_columns_wip_limit_positive;
+
+ALTER TABLE public.kanban_columns
+  ADD CONSTRAINT kanban_columns_wip_limit_positive CHECK (wip_limit IS NULL OR wip_limit > 0);
@@ -0,0 +1,76 @@
+-- Histórico de colunas das tarefas (transições de status).
+--
+-- Cada mudança de `tasks.status` gera uma linha com a coluna de origem, a de
+-- destino e o momento da mudança. O registro é feito por trigger, então vale
+-- para moveTask, updateTask e qualquer outro caminho que altere o status.
+-- Usado pela aba de fluxo do projeto (fluxo cumulativo, tempo por coluna, vazão).
+
+-- ---------------------------------------------------------------------------
+-- 1) Tabela de histórico
+-- ---------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.task_status_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id uuid REFERENCES public.tasks(id) ON DELETE CASCADE NOT NULL,
+  from_status text, -- nulo na criação da tarefa
+  to_status text NOT NULL,
+  changed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  changed_at timestamptz NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_status_history_task_id
+  ON public.task_status_history(task_id, changed_at);
+
+-- ---------------------------------------------------------------------------
+-- 2) Trigger de registro
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.record_task_status_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.task_status_history (task_id, from_status, to_status, changed_by)
+    VALUES (
+      NEW.id,
+      CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE OLD.status END,
+      NEW.status,
+      auth.uid()
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_tasks_status_history ON public.tasks;
+CREATE TRIGGER trg_tasks_status_history
+  AFTER INSERT OR UPDATE OF status ON public.tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_task_status_change();
+
+-- ---------------------------------------------------------------------------
+-- 3) Tarefas existentes: ponto de partida com o status atual na data de criação
+-- ---------------------------------------------------------------------------
+INSERT INTO public.task_status_history (task_id, from_status, to_status, changed_by, changed_at)
+SELECT t.id, NULL, t.status, t.created_by, t.created_at
+FROM public.tasks t
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.task_status_history h WHERE h.task_id = t.id
+);
+
+-- ---------------------------------------------------------------------------
+-- 4) RLS: somente leitura para quem acessa kanban ou projetos (escrita via trigger)
+-- ---------------------------------------------------------------------------
+ALTER TABLE public.task_status_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view task status history" ON public.task_status_history;
+CREATE POLICY "Users can view task status history"
+  ON public.task_status_history FOR SELECT
+  TO authenticated
+  USING (
+    is_admin(auth.uid())
+    OR has_permission(auth.uid(), 'kanban', 'view')
+    OR has_permission(auth.uid(), 'projetos', 'view')
+  );
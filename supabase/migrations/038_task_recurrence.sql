@@ -0,0 +1,47 @@
+-- Tarefas recorrentes (vistorias periódicas, relatórios mensais...).
+--
+-- A regra fica na própria tarefa (mesmas colunas recurrence_* de `events`) e é
+-- copiada para cada nova instância. Uma série é o conjunto de tarefas com o mesmo
+-- `recurrence_series_id` (a primeira instância tem recurrence_series_id nulo e é a
+-- raiz). `recurrence_start_date` é a data-base da regra e
+-- `recurrence_occurrence_date` a ocorrência que cada instância representa
+-- (também usada como prazo da instância gerada).
+--
+-- Modos:
+--   - on_done  → a próxima instância é criada quando a atual chega em "done"
+--                (lib/data/tasks.ts)
+--   - schedule → a próxima instância é criada quando chega a data da atual,
+--                concluída ou não (cron: POST /api/tasks/recurrence)
+
+-- ---------------------------------------------------------------------------
+-- 1) Regra de recorrência em tasks
+-- ---------------------------------------------------------------------------
+ALTER TABLE public.tasks
+  ADD COLUMN IF NOT EXISTS recurrence_frequency text
+    CHECK (recurrence_frequency IN ('daily', 'weekly', 'monthly')),
+  ADD COLUMN IF NOT EXISTS recurrence_interval integer NOT NULL DEFAULT 1
+    CHECK (recurrence_interval >= 1),
+  ADD COLUMN IF NOT EXISTS recurrence_until date,
+  ADD COLUMN IF NOT EXISTS recurrence_count integer
+    CHECK (recurrence_count IS NULL OR recurrence_count >= 1),
+  ADD COLUMN IF NOT EXISTS recurrence_mode text NOT NULL DEFAULT 'on_done'
+    CHECK (recurrence_mode IN ('on_done', 'schedule')),
+  ADD COLUMN IF NOT EXISTS recurrence_start_date date,
+  ADD COLUMN IF NOT EXISTS recurrence_series_id uuid REFERENCES public.tasks(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS recurrence_occurrence_date date;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_recurrence_series_id
+  ON public.tasks(recurrence_series_id)
+  WHERE recurrence_series_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_recurrence_schedule
+  ON public.tasks(recurrence_occurrence_date)
+  WHERE recurrence_mode = 'schedule' AND recurrence_frequency IS NOT NULL;
+
+-- ---------------------------------------------------------------------------
+-- 2) Uma instância por ocorrência da série (evita duplicidade entre o
+--    movimento para "done" e execuções concorrentes do cron)
+-- ---------------------------------------------------------------------------
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tasks_recurrence_occurrence_unique
+  ON public.tasks((COALESCE(recurrence_series_id, id)), recurrence_occurrence_date)
+  WHERE recurrence_occurrence_date IS NOT NULL;
@@ -0,0 +1,79 @@
+-- Operações em lote no kanban (mover, responsável, prazo, etiquetas, observadores, excluir).
+--
+-- Cada chamada executa um único UPDATE/DELETE sobre as tarefas selecionadas, então o
+-- trigger `log_tasks_activity` (001) registra exatamente uma entrada de atividade por
+-- tarefa alterada. Tarefas que já estão no estado pedido não são tocadas.
+-- SECURITY INVOKER: as políticas de RLS de `tasks` continuam valendo para quem chama.
+
+CREATE OR REPLACE FUNCTION public.bulk_update_tasks(
+  p_task_ids uuid[],
+  p_operation text,
+  p_payload jsonb DEFAULT '{}'::jsonb
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_affected integer;
+  v_label text := p_payload->>'label';
+  v_watchers uuid[];
+BEGIN
+  CASE p_operation
+    WHEN 'move' THEN
+      UPDATE public.tasks
+      SET status = p_payload->>'status'
+      WHERE id = ANY(p_task_ids)
+        AND status IS DISTINCT FROM p_payload->>'status';
+
+    WHEN 'assign' THEN
+      UPDATE public.tasks
+      SET assigned_to = (p_payload->>'assigned_to')::uuid
+      WHERE id = ANY(p_task_ids)
+        AND assigned_to IS DISTINCT FROM (p_payload->>'assigned_to')::uuid;
+
+    WHEN 'deadline' THEN
+      UPDATE public.tasks
+      SET deadline = (p_payload->>'deadline')::date
+      WHERE id = ANY(p_task_ids)
+        AND deadline IS DISTINCT FROM (p_payload->>'deadline')::date;
+
+    WHEN 'add_label' THEN
+      UPDATE public.tasks
+      SET labels = array_append(COALESCE(labels, '{}'), v_label)
+      WHERE id = ANY(p_task_ids)
+        AND NOT (v_label = ANY(COALESCE(labels, '{}')));
+
+    WHEN 'remove_label' THEN
+      UPDATE public.tasks
+      SET labels = array_remove(labels, v_label)
+      WHERE id = ANY(p_task_ids)
+        AND v_label = ANY(COALESCE(labels, '{}'));
+
+    WHEN 'add_watchers' THEN
+      SELECT COALESCE(array_agg(value::uuid), '{}')
+      INTO v_watchers
+      FROM jsonb_array_elements_text(p_payload->'watchers') AS value;
+
+      UPDATE public.tasks
+      SET watchers = ARRAY(
+        SELECT DISTINCT w FROM unnest(COALESCE(watchers, '{}') || v_watchers) AS w
+      )
+      WHERE id = ANY(p_task_ids)
+        AND NOT (COALESCE(watchers, '{}') @> v_watchers);
+
+    WHEN 'delete' THEN
+      DELETE FROM public.tasks
+      WHERE id = ANY(p_task_ids);
+
+    ELSE
+      RAISE EXCEPTION 'Operação em lote desconhecida: %', p_operation;
+  END CASE;
+
+  GET DIAGNOSTICS v_affected = ROW_COUNT;
+  RETURN v_affected;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.bulk_update_tasks(uuid[], text, jsonb) TO authenticated;
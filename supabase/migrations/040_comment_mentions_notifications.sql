@@ -0,0 +1,63 @@
+-- Menções (@usuário) nos comentários de tarefas e notificações no app.
+--
+-- `task_comments.mentioned_user_ids` guarda quem foi mencionado (o texto continua
+-- com "@Nome" legível). Os mencionados viram observadores da tarefa e recebem uma
+-- notificação no app e por email (POST /api/tasks/[id]/mentions).
+--
+-- `notifications` é a caixa de notificações de cada usuário. As linhas são criadas
+-- apenas pelo servidor (service role, lib/services/notifications.ts); cada usuário
+-- lê, marca como lida e remove somente as próprias.
+
+-- ---------------------------------------------------------------------------
+-- 1) Usuários mencionados em comentários
+-- ---------------------------------------------------------------------------
+ALTER TABLE public.task_comments
+  ADD COLUMN IF NOT EXISTS mentioned_user_ids uuid[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_task_comments_mentioned_user_ids
+  ON public.task_comments USING GIN(mentioned_user_ids);
+
+-- ---------------------------------------------------------------------------
+-- 2) Notificações no app
+-- ---------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  type text NOT NULL, -- ex.: task_mention
+  title text NOT NULL,
+  message text,
+  link text, -- caminho no app (ex.: /kanban?task=<id>)
+  actor_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  entity_type text,
+  entity_id uuid,
+  read_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created
+  ON public.notifications(user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_unread
+  ON public.notifications(user_id)
+  WHERE read_at IS NULL;
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own notifications" ON public.notifications;
+CREATE POLICY "Users can view own notifications"
+  ON public.notifications FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can update own notifications" ON public.notifications;
+CREATE POLICY "Users can update own notifications"
+  ON public.notifications FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can delete own notifications" ON public.notifications;
+CREATE POLICY "Users can delete own notifications"
+  ON public.notifications FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
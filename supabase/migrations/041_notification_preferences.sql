@@ -0,0 +1,42 @@
+-- Central de notificações: preferências por tipo.
+--
+-- As notificações (040) passam a cobrir também atribuição de tarefa, participação
+-- em evento, observação de tarefa e entrada na equipe de um projeto. Cada usuário
+-- escolhe, por tipo, se recebe a notificação no app e/ou por email. Sem linha para
+-- o tipo, os dois canais ficam ativos.
+--
+-- Tipos: task_mention, task_assigned, task_watcher, event_participant, project_team
+
+-- ---------------------------------------------------------------------------
+-- Preferências por usuário e tipo
+-- ---------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.notification_preferences (
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  type text NOT NULL,
+  in_app boolean NOT NULL DEFAULT true,
+  email boolean NOT NULL DEFAULT true,
+  updated_at timestamptz NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (user_id, type)
+);
+
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own notification preferences" ON public.notification_preferences;
+CREATE POLICY "Users can view own notification preferences"
+  ON public.notification_preferences FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can insert own notification preferences" ON public.notification_preferences;
+CREATE POLICY "Users can insert own notification preferences"
+  ON public.notification_preferences FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can update own notification preferences" ON public.notification_preferences;
+CREATE POLICY "Users can update own notification preferences"
+  ON public.notification_preferences FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
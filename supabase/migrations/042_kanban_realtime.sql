@@ -0,0 +1,57 @@
+-- Quadro Kanban em tempo real.
+--
+-- Publica as tabelas do quadro no Supabase Realtime para que tarefas, colunas,
+-- dependências, checklist e comentários alterados por outra pessoa apareçam sem
+-- recarregar a página (as assinaturas respeitam o RLS de cada tabela).
+--
+-- Também torna determinística a posição de tarefas movidas ao mesmo tempo para a
+-- mesma coluna: antes, duas movimentações concorrentes liam o mesmo MAX(position)
+-- e ficavam com a mesma posição, e cada cliente podia exibir uma ordem diferente.
+
+-- ---------------------------------------------------------------------------
+-- 1) Publicação do Realtime
+-- ---------------------------------------------------------------------------
+DO $$
+DECLARE
+  t text;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    CREATE PUBLICATION supabase_realtime;
+  END IF;
+
+  FOREACH t IN ARRAY ARRAY['tasks', 'kanban_columns', 'task_dependencies', 'task_checklist', 'task_comments']
+  LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = t
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', t);
+    END IF;
+  END LOOP;
+END $$;
+
+-- ---------------------------------------------------------------------------
+-- 2) Posição ao mudar de coluna
+-- ---------------------------------------------------------------------------
+-- Movimentações para a mesma coluna são serializadas por um lock transacional:
+-- a segunda espera a primeira terminar e vai para a posição seguinte.
+-- Uma posição explícita (moveTask com `toPosition`) é mantida; empates ficam
+-- com a tarefa movida por último à frente (listTasks ordena por posição,
+-- updated_at desc e id), a mesma ordem para todos os clientes.
+CREATE OR REPLACE FUNCTION reorder_task_positions()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    PERFORM pg_advisory_xact_lock(hashtext('tasks.position:' || NEW.status));
+
+    IF NEW.position IS NULL OR NEW.position IS NOT DISTINCT FROM OLD.position THEN
+      SELECT COALESCE(MAX(position), -1) + 1
+      INTO NEW.position
+      FROM tasks
+      WHERE status = NEW.status
+        AND id <> NEW.id;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,13 @@
+-- Anexos de tarefas.
+--
+-- Os arquivos anexados a uma tarefa ficam no Drive, na subpasta "Tarefas/<id da
+-- tarefa>" da pasta do projeto, e são registrados em `files` com o projeto e a
+-- tarefa (POST /api/tasks/[id]/attachments). Excluir a tarefa mantém o arquivo
+-- no projeto, apenas sem o vínculo.
+
+ALTER TABLE public.files
+  ADD COLUMN IF NOT EXISTS task_id uuid REFERENCES public.tasks(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_files_task_id
+  ON public.files(task_id)
+  WHERE task_id IS NOT NULL;
@@ -0,0 +1,91 @@
+-- Unicidade de CPF/CNPJ dos clientes.
+--
+-- O documento passa a ser gravado apenas com dígitos (trigger abaixo), então
+-- "12.345.678/0001-95" e "12345678000195" contam como o mesmo cliente. A
+-- constraint UNIQUE original comparava o texto formatado e também impedia mais
+-- de um cliente sem documento; ela é trocada por um índice parcial.
+--
+-- A validação dos dígitos verificadores fica na aplicação (lib/utils/document.ts).
+
+-- ---------------------------------------------------------------------------
+-- 1) Normaliza os documentos existentes
+-- ---------------------------------------------------------------------------
+DO $$
+DECLARE
+  v_duplicates text;
+BEGIN
+  SELECT string_agg(digits, ', ')
+  INTO v_duplicates
+  FROM (
+    SELECT regexp_replace(document, '\D', '', 'g') AS digits
+    FROM public.clients
+    WHERE regexp_replace(document, '\D', '', 'g') <> ''
+    GROUP BY 1
+    HAVING COUNT(*) > 1
+  ) d;
+
+  IF v_duplicates IS NOT NULL THEN
+    RAISE EXCEPTION 'Clientes com documento duplicado após normalização: %. Unifique os cadastros antes de aplicar esta migration.', v_duplicates;
+  END IF;
+END;
+$$;
+
+UPDATE public.clients
+SET document = regexp_replace(document, '\D', '', 'g')
+WHERE document ~ '\D';
+
+-- ---------------------------------------------------------------------------
+-- 2) Índice único parcial (documento vazio é permitido em vários clientes)
+-- ---------------------------------------------------------------------------
+ALTER TABLE public.clients DROP CONSTRAINT IF EXISTS clients_document_key;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_clients_document_unique
+  ON public.clients(document)
+  WHERE document <> '';
+
+-- ---------------------------------------------------------------------------
+-- 3) Trigger de normalização
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.normalize_client_document()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.document := regexp_replace(COALESCE(NEW.document, ''), '\D', '', 'g');
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_normalize_client_document ON public.clients;
+CREATE TRIGGER trg_normalize_client_document
+  BEFORE INSERT OR UPDATE OF document ON public.clients
+  FOR EACH ROW
+  EXECUTE FUNCTION public.normalize_client_document();
+
+-- ---------------------------------------------------------------------------
+-- 4) Verificação de duplicidade
+--    SECURITY DEFINER: o RLS esconde clientes de outros responsáveis, mas a
+--    unicidade vale para a base inteira. Retorna apenas um booleano.
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.client_document_exists(
+  p_document text,
+  p_exclude_client_id uuid DEFAULT NULL
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.clients
+    WHERE document = regexp_replace(COALESCE(p_document, ''), '\D', '', 'g')
+      AND document <> ''
+      AND (p_exclude_client_id IS NULL OR id <> p_exclude_client_id)
+  )
+$$;
+
+REVOKE ALL ON FUNCTION public.client_document_exists(text, uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.client_document_exists(text, uuid) TO authenticated;
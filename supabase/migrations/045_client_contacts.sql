@@ -0,0 +1,227 @@
+-- Contatos dos clientes e participantes externos de eventos.
+--
+-- Um cliente pode ter vários contatos (financeiro, técnico, diretoria...), com
+-- no máximo um principal. Os contatos aparecem como sugestão de destinatário
+-- de email e podem ser convidados para eventos da agenda como participantes
+-- externos, que são identificados pelo email (com ou sem contato vinculado).
+
+-- ---------------------------------------------------------------------------
+-- 1) Contatos
+-- ---------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.client_contacts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id uuid NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  role text,
+  email text,
+  phone text,
+  is_primary boolean NOT NULL DEFAULT FALSE,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT NOW(),
+  updated_at timestamptz NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_client_contacts_client_id
+  ON public.client_contacts(client_id);
+
+CREATE INDEX IF NOT EXISTS idx_client_contacts_email
+  ON public.client_contacts(lower(email))
+  WHERE email IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_client_contacts_one_primary
+  ON public.client_contacts(client_id)
+  WHERE is_primary;
+
+-- Marcar um contato como principal desmarca o anterior do mesmo cliente
+CREATE OR REPLACE FUNCTION public.unset_other_primary_client_contacts()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.is_primary THEN
+    UPDATE public.client_contacts
+    SET is_primary = FALSE
+    WHERE client_id = NEW.client_id
+      AND id <> NEW.id
+      AND is_primary;
+  END IF;
+  NEW.updated_at := NOW();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_client_contacts_primary ON public.client_contacts;
+CREATE TRIGGER trg_client_contacts_primary
+  BEFORE INSERT OR UPDATE ON public.client_contacts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.unset_other_primary_client_contacts();
+
+ALTER TABLE public.client_contacts ENABLE ROW LEVEL SECURITY;
+
+-- Quem vê o cliente vê os contatos (o RLS de clients se aplica na subconsulta)
+DROP POLICY IF EXISTS "Users can view contacts of visible clients" ON public.client_contacts;
+CREATE POLICY "Users can view contacts of visible clients"
+  ON public.client_contacts FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM public.clients c WHERE c.id = client_id)
+  );
+
+DROP POLICY IF EXISTS "Users can add contacts to visible clients" ON public.client_contacts;
+CREATE POLICY "Users can add contacts to visible clients"
+  ON public.client_contacts FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    has_permission(auth.uid(), 'clientes', 'edit')
+    AND EXISTS (SELECT 1 FROM public.clients c WHERE c.id = client_id)
+  );
+
+DROP POLICY IF EXISTS "Users can update contacts of visible clients" ON public.client_contacts;
+CREATE POLICY "Users can update contacts of visible clients"
+  ON public.client_contacts FOR UPDATE
+  TO authenticated
+  USING (
+    has_permission(auth.uid(), 'clientes', 'edit')
+    AND EXISTS (SELECT 1 FROM public.clients c WHERE c.id = client_id)
+  );
+
+DROP POLICY IF EXISTS "Users can delete contacts of visible clients" ON public.client_contacts;
+CREATE POLICY "Users can delete contacts of visible clients"
+  ON public.client_contacts FOR DELETE
+  TO authenticated
+  USING (
+    has_permission(auth.uid(), 'clientes', 'edit')
+    AND EXISTS (SELECT 1 FROM public.clients c WHERE c.id = client_id)
+  );
+
+-- ---------------------------------------------------------------------------
+-- 2) Participantes externos de eventos
+-- ---------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.event_external_participants (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  contact_id uuid REFERENCES public.client_contacts(id) ON DELETE SET NULL,
+  name text,
+  email text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_event_external_participants_unique
+  ON public.event_external_participants(event_id, lower(email));
+
+ALTER TABLE public.event_external_participants ENABLE ROW LEVEL SECURITY;
+
+-- Mesmas regras de event_participants
+DROP POLICY IF EXISTS "Users can view external participants" ON public.event_external_participants;
+CREATE POLICY "Users can view external participants"
+  ON public.event_external_participants FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM public.events e WHERE e.id = event_id)
+  );
+
+DROP POLICY IF EXISTS "Users can add external participants to their events" ON public.event_external_participants;
+CREATE POLICY "Users can add external participants to their events"
+  ON public.event_external_participants FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    has_permission(auth.uid(), 'agenda', 'edit')
+    AND event_created_by(event_id) = auth.uid()
+  );
+
+DROP POLICY IF EXISTS "Users can remove external participants from their events" ON public.event_external_participants;
+CREATE POLICY "Users can remove external participants from their events"
+  ON public.event_external_participants FOR DELETE
+  TO authenticated
+  USING (
+    has_permission(auth.uid(), 'agenda', 'edit')
+    AND event_created_by(event_id) = auth.uid()
+  );
+
+-- ---------------------------------------------------------------------------
+-- 3) Feed iCalendar: participantes externos entram como ATTENDEE
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.get_calendar_feed(p_token text)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid;
+  v_user_name text;
+BEGIN
+  SELECT t.user_id, u.full_name
+    INTO v_user_id, v_user_name
+  FROM public.calendar_feed_tokens t
+  LEFT JOIN public.users u ON u.auth_user_id = t.user_id
+  WHERE t.token = p_token;
+
+  IF v_user_id IS NULL OR NOT has_permission(v_user_id, 'agenda', 'view') THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'user_name', v_user_name,
+    'events', COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', e.id,
+          'title', e.title,
+          'description', e.description,
+          'event_date', e.event_date,
+          'event_time', e.event_time,
+          'event_end_time', e.event_end_time,
+          'location', e.location,
+          'type', e.type,
+          'ical_uid', e.ical_uid,
+          'updated_at', e.updated_at,
+          'recurrence_frequency', e.recurrence_frequency,
+          'recurrence_interval', e.recurrence_interval,
+          'recurrence_until', e.recurrence_until,
+          'recurrence_count', e.recurrence_count,
+          'client_name', c.name,
+          'exceptions', COALESCE((
+            SELECT jsonb_agg(x.occurrence_date ORDER BY x.occurrence_date)
+            FROM public.event_exceptions x
+            WHERE x.event_id = e.id
+          ), '[]'::jsonb),
+          'participants', COALESCE((
+            SELECT jsonb_agg(p.attendee)
+            FROM (
+              SELECT jsonb_build_object('name', pu.full_name, 'email', pu.email) AS attendee
+              FROM public.event_participants ep
+              JOIN public.users pu ON pu.auth_user_id = ep.user_id
+              WHERE ep.event_id = e.id
+              UNION ALL
+              SELECT jsonb_build_object('name', xp.name, 'email', xp.email)
+              FROM public.event_external_participants xp
+              WHERE xp.event_id = e.id
+            ) p
+          ), '[]'::jsonb)
+        )
+        ORDER BY e.event_date, e.event_time
+      )
+      FROM public.events e
+      LEFT JOIN public.clients c ON c.id = e.client_id
+      WHERE (
+          e.created_by = v_user_id
+          OR EXISTS (
+            SELECT 1 FROM public.event_participants ep
+            WHERE ep.event_id = e.id
+            AND ep.user_id = v_user_id
+          )
+        )
+        AND (
+          e.event_date >= CURRENT_DATE - 180
+          OR (
+            e.recurrence_frequency IS NOT NULL
+            AND (e.recurrence_until IS NULL OR e.recurrence_until >= CURRENT_DATE - 180)
+          )
+        )
+    ), '[]'::jsonb)
+  );
+END;
+$$;
@@ -0,0 +1,115 @@
+-- Pipeline comercial (negócios por cliente).
+--
+-- Cada negócio passa pelas etapas lead → proposta enviada → negociação e
+-- termina ganho ou perdido, com o motivo do fechamento. Um negócio ganho pode
+-- ser convertido em projeto (createProject em lib/data/projects.ts); o projeto
+-- criado fica em `project_id`.
+
+CREATE TABLE IF NOT EXISTS public.deals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id uuid NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  title text NOT NULL,
+  description text,
+  stage text NOT NULL DEFAULT 'lead'
+    CHECK (stage IN ('lead', 'proposal_sent', 'negotiation', 'won', 'lost')),
+  estimated_value numeric(14, 2),
+  expected_close_date date,
+  close_reason text,
+  close_notes text,
+  closed_at timestamptz,
+  project_id uuid REFERENCES public.projects(id) ON DELETE SET NULL,
+  owner_id uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT NOW(),
+  updated_at timestamptz NOT NULL DEFAULT NOW(),
+  CONSTRAINT deals_estimated_value_positive CHECK (estimated_value IS NULL OR estimated_value >= 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_deals_client_id
+  ON public.deals(client_id);
+
+CREATE INDEX IF NOT EXISTS idx_deals_stage
+  ON public.deals(stage, expected_close_date);
+
+-- ---------------------------------------------------------------------------
+-- 1) Data de fechamento acompanha a etapa
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.set_deal_closed_at()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.stage IN ('won', 'lost') THEN
+    IF TG_OP = 'INSERT' OR OLD.stage IS DISTINCT FROM NEW.stage THEN
+      NEW.closed_at := NOW();
+    END IF;
+  ELSE
+    -- Negócio reaberto volta a ficar sem fechamento
+    NEW.closed_at := NULL;
+    NEW.close_reason := NULL;
+    NEW.close_notes := NULL;
+  END IF;
+  NEW.updated_at := NOW();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_deals_closed_at ON public.deals;
+CREATE TRIGGER trg_deals_closed_at
+  BEFORE INSERT OR UPDATE ON public.deals
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_deal_closed_at();
+
+-- ---------------------------------------------------------------------------
+-- 2) RLS: negócios seguem a visibilidade do cliente e a seção "clientes"
+-- ---------------------------------------------------------------------------
+ALTER TABLE public.deals ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view deals of visible clients" ON public.deals;
+CREATE POLICY "Users can view deals of visible clients"
+  ON public.deals FOR SELECT
+  TO authenticated
+  USING (
+    is_admin(auth.uid())
+    OR (
+      has_permission(auth.uid(), 'clientes', 'view')
+      AND EXISTS (SELECT 1 FROM public.clients c WHERE c.id = client_id)
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can create deals for visible clients" ON public.deals;
+CREATE POLICY "Users can create deals for visible clients"
+  ON public.deals FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    is_admin(auth.uid())
+    OR (
+      has_permission(auth.uid(), 'clientes', 'create')
+      AND EXISTS (SELECT 1 FROM public.clients c WHERE c.id = client_id)
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can update deals of visible clients" ON public.deals;
+CREATE POLICY "Users can update deals of visible clients"
+  ON public.deals FOR UPDATE
+  TO authenticated
+  USING (
+    is_admin(auth.uid())
+    OR (
+      has_permission(auth.uid(), 'clientes', 'edit')
+      AND EXISTS (SELECT 1 FROM public.clients c WHERE c.id = client_id)
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can delete deals of visible clients" ON public.deals;
+CREATE POLICY "Users can delete deals of visible clients"
+  ON public.deals FOR DELETE
+  TO authenticated
+  USING (
+    is_admin(auth.uid())
+    OR (
+      has_permission(auth.uid(), 'clientes', 'delete')
+      AND EXISTS (SELECT 1 FROM public.clients c WHERE c.id = client_id)
+    )
+  );
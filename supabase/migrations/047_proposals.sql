@@ -0,0 +1,113 @@
+-- Propostas comerciais.
+--
+-- Uma proposta pertence a um cliente e, opcionalmente, a um negócio do
+-- pipeline. Itens e impostos ficam em jsonb; os totais são calculados pela
+-- aplicação (computeProposalTotals em lib/utils/proposals.ts) e gravados para
+-- listagem. O PDF é gerado no servidor, guardado na pasta do cliente no Drive
+-- e enviado por email como anexo.
+
+CREATE TABLE IF NOT EXISTS public.proposals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  number bigint GENERATED BY DEFAULT AS IDENTITY UNIQUE,
+  client_id uuid NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  deal_id uuid REFERENCES public.deals(id) ON DELETE SET NULL,
+  title text NOT NULL,
+  -- [{ "description": text, "quantity": number, "unitPrice": number }]
+  items jsonb NOT NULL DEFAULT '[]'::jsonb,
+  -- [{ "name": text, "rate": number }] — percentual sobre o subtotal
+  taxes jsonb NOT NULL DEFAULT '[]'::jsonb,
+  subtotal numeric(14, 2) NOT NULL DEFAULT 0,
+  tax_total numeric(14, 2) NOT NULL DEFAULT 0,
+  total numeric(14, 2) NOT NULL DEFAULT 0,
+  valid_until date NOT NULL,
+  payment_terms text,
+  notes text,
+  status text NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'sent')),
+  drive_file_id text,
+  drive_web_view_link text,
+  sent_at timestamptz,
+  sent_to text[] NOT NULL DEFAULT '{}',
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT NOW(),
+  updated_at timestamptz NOT NULL DEFAULT NOW(),
+  CONSTRAINT proposals_items_is_array CHECK (jsonb_typeof(items) = 'array'),
+  CONSTRAINT proposals_taxes_is_array CHECK (jsonb_typeof(taxes) = 'array')
+);
+
+CREATE INDEX IF NOT EXISTS idx_proposals_client_id
+  ON public.proposals(client_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_proposals_deal_id
+  ON public.proposals(deal_id)
+  WHERE deal_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.set_proposals_updated_at()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.updated_at := NOW();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_proposals_updated_at ON public.proposals;
+CREATE TRIGGER trg_proposals_updated_at
+  BEFORE UPDATE ON public.proposals
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_proposals_updated_at();
+
+-- ---------------------------------------------------------------------------
+-- RLS: mesmas regras dos negócios (seção "clientes" + cliente visível)
+-- ---------------------------------------------------------------------------
+ALTER TABLE public.proposals ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view proposals of visible clients" ON public.proposals;
+CREATE POLICY "Users can view proposals of visible clients"
+  ON public.proposals FOR SELECT
+  TO authenticated
+  USING (
+    is_admin(auth.uid())
+    OR (
+      has_permission(auth.uid(), 'clientes', 'view')
+      AND EXISTS (SELECT 1 FROM public.clients c WHERE c.id = client_id)
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can create proposals for visible clients" ON public.proposals;
+CREATE POLICY "Users can create proposals for visible clients"
+  ON public.proposals FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    is_admin(auth.uid())
+    OR (
+      has_permission(auth.uid(), 'clientes', 'create')
+      AND EXISTS (SELECT 1 FROM public.clients c WHERE c.id = client_id)
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can update proposals of visible clients" ON public.proposals;
+CREATE POLICY "Users can update proposals of visible clients"
+  ON public.proposals FOR UPDATE
+  TO authenticated
+  USING (
+    is_admin(auth.uid())
+    OR (
+      has_permission(auth.uid(), 'clientes', 'edit')
+      AND EXISTS (SELECT 1 FROM public.clients c WHERE c.id = client_id)
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can delete proposals of visible clients" ON public.proposals;
+CREATE POLICY "Users can delete proposals of visible clients"
+  ON public.proposals FOR DELETE
+  TO authenticated
+  USING (
+    is_admin(auth.uid())
+    OR (
+      has_permission(auth.uid(), 'clientes', 'delete')
+      AND EXISTS (SELECT 1 FROM public.clients c WHERE c.id = client_id)
+    )
+  );
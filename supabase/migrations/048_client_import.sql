@@ -0,0 +1,34 @@
+-- Importação de clientes (CSV/XLSX).
+--
+-- A prévia da importação marca como duplicadas as linhas cujo documento
+-- (normalizado) ou email já existem na base. Como em client_document_exists
+-- (044), a consulta ignora o RLS — clientes de outros responsáveis também
+-- contam — e devolve só as chaves encontradas, sem dados dos clientes.
+
+CREATE INDEX IF NOT EXISTS idx_clients_email_lower
+  ON public.clients(lower(email))
+  WHERE email IS NOT NULL AND email <> '';
+
+CREATE OR REPLACE FUNCTION public.find_existing_client_keys(
+  p_documents text[],
+  p_emails text[]
+)
+RETURNS TABLE (document text, email text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    CASE WHEN c.document = ANY(p_documents) THEN c.document END,
+    CASE WHEN lower(c.email) = ANY(p_emails) THEN lower(c.email) END
+  FROM public.clients c
+  WHERE has_permission(auth.uid(), 'clientes', 'create')
+    AND (
+      (c.document <> '' AND c.document = ANY(p_documents))
+      OR (c.email IS NOT NULL AND c.email <> '' AND lower(c.email) = ANY(p_emails))
+    )
+$$;
+
+REVOKE ALL ON FUNCTION public.find_existing_client_keys(text[], text[]) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.find_existing_client_keys(text[], text[]) TO authenticated;
@@ -0,0 +1,15 @@
+-- Coluna "em andamento" do Kanban.
+--
+-- O aviso de dependências pendentes (031) vale ao mover a tarefa para uma coluna
+-- de trabalho em andamento. Como as colunas criadas pelo app têm status_key no
+-- formato `slug_sufixo` (e colunas de projeto nunca usam `in_progress`), a
+-- coluna passa a ser marcada por `is_in_progress` em vez de uma chave fixa.
+
+ALTER TABLE public.kanban_columns
+  ADD COLUMN IF NOT EXISTS is_in_progress boolean NOT NULL DEFAULT FALSE;
+
+-- Colunas existentes: a chave legada e as criadas com o nome padrão "Em Progresso"
+UPDATE public.kanban_columns
+SET is_in_progress = TRUE
+WHERE status_key = 'in_progress'
+   OR status_key ~ '^(em_progresso|em_andamento)_[a-z0-9]+$';
@@ -0,0 +1,74 @@
+-- Entrega das menções em comentários (040).
+--
+-- `notified_user_ids` guarda quem já foi avisado de cada comentário: repetir o
+-- POST /api/tasks/[id]/mentions não envia de novo, e a edição do comentário só
+-- avisa quem foi mencionado pela primeira vez. `mentions_notified_at` registra
+-- a última entrega.
+--
+-- `claim_comment_mentions` separa os ids ainda não avisados e os inclui como
+-- observadores da tarefa em uma única transação, com o comentário travado:
+-- chamadas simultâneas não avisam a mesma pessoa duas vezes nem perdem
+-- observadores. Só o servidor (service role) chama a função, depois de validar
+-- as menções contra o texto do comentário.
+
+ALTER TABLE public.task_comments
+  ADD COLUMN IF NOT EXISTS notified_user_ids uuid[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS mentions_notified_at timestamptz;
+
+-- Comentários existentes já tiveram as menções notificadas
+UPDATE public.task_comments
+SET notified_user_ids = mentioned_user_ids,
+    mentions_notified_at = COALESCE(updated_at, created_at)
+WHERE cardinality(mentioned_user_ids) > 0
+  AND cardinality(notified_user_ids) = 0;
+
+CREATE OR REPLACE FUNCTION public.claim_comment_mentions(
+  p_comment_id uuid,
+  p_user_ids uuid[]
+)
+RETURNS uuid[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_task_id uuid;
+  v_claimed uuid[];
+BEGIN
+  SELECT
+    c.task_id,
+    ARRAY(
+      SELECT DISTINCT u
+      FROM unnest(p_user_ids) AS u
+      WHERE u = ANY(c.mentioned_user_ids)
+        AND NOT u = ANY(c.notified_user_ids)
+    )
+  INTO v_task_id, v_claimed
+  FROM public.task_comments c
+  WHERE c.id = p_comment_id
+  FOR UPDATE;
+
+  IF v_task_id IS NULL OR cardinality(v_claimed) = 0 THEN
+    RETURN '{}';
+  END IF;
+
+  UPDATE public.task_comments
+  SET notified_user_ids = notified_user_ids || v_claimed,
+      mentions_notified_at = NOW()
+  WHERE id = p_comment_id;
+
+  UPDATE public.tasks
+  SET watchers = COALESCE(watchers, '{}') || ARRAY(
+    SELECT u
+    FROM unnest(v_claimed) AS u
+    WHERE NOT u = ANY(COALESCE(watchers, '{}'))
+  )
+  WHERE id = v_task_id;
+
+  RETURN v_claimed;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_comment_mentions(uuid, uuid[]) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.claim_comment_mentions(uuid, uuid[]) FROM anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_comment_mentions(uuid, uuid[]) TO service_role;
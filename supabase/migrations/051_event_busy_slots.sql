@@ -0,0 +1,84 @@
+-- Horários ocupados dos participantes, para a verificação de conflitos (028).
+--
+-- O RLS de `events` (008) só mostra ao usuário os eventos de que ele participa,
+-- então a consulta normal não enxerga os compromissos dos demais participantes
+-- e a maior parte dos conflitos passava despercebida. A função ignora o RLS e
+-- devolve apenas o horário dos eventos (sem descrição, local ou cliente); o
+-- título só aparece quando quem consulta também pode ver o evento.
+--
+-- Séries recorrentes voltam como uma linha com a regra e as exceções do
+-- período; a expansão das ocorrências continua no frontend (lib/data/events.ts).
+-- Prazos (`deadline`) não ocupam agenda.
+
+CREATE OR REPLACE FUNCTION public.find_participant_busy_events(
+  p_user_ids uuid[],
+  p_from date,
+  p_to date,
+  p_exclude_event_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  event_id uuid,
+  user_id uuid,
+  title text,
+  event_date date,
+  event_time time,
+  event_end_time time,
+  recurrence_frequency text,
+  recurrence_interval integer,
+  recurrence_until date,
+  recurrence_count integer,
+  exception_dates date[]
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    e.id,
+    ep.user_id,
+    CASE
+      WHEN is_admin(auth.uid())
+        OR e.created_by = auth.uid()
+        OR EXISTS (
+          SELECT 1 FROM public.event_participants own
+          WHERE own.event_id = e.id
+            AND own.user_id = auth.uid()
+        )
+      THEN e.title
+    END,
+    e.event_date,
+    e.event_time,
+    e.event_end_time,
+    e.recurrence_frequency,
+    e.recurrence_interval,
+    e.recurrence_until,
+    e.recurrence_count,
+    ARRAY(
+      SELECT x.occurrence_date
+      FROM public.event_exceptions x
+      WHERE x.event_id = e.id
+        AND x.occurrence_date BETWEEN p_from AND p_to
+    )
+  FROM public.events e
+  JOIN public.event_participants ep ON ep.event_id = e.id
+  WHERE auth.uid() IS NOT NULL
+    AND ep.user_id = ANY(p_user_ids)
+    AND e.type <> 'deadline'
+    -- Evento em edição e ocorrências já destacadas da mesma série
+    AND (
+      p_exclude_event_id IS NULL
+      OR (e.id <> p_exclude_event_id AND e.recurrence_parent_id IS DISTINCT FROM p_exclude_event_id)
+    )
+    AND e.event_date <= p_to
+    AND (
+      (e.recurrence_frequency IS NULL AND e.event_date >= p_from)
+      OR (
+        e.recurrence_frequency IS NOT NULL
+        AND (e.recurrence_until IS NULL OR e.recurrence_until >= p_from)
+      )
+    )
+$$;
+
+REVOKE ALL ON FUNCTION public.find_participant_busy_events(uuid[], date, date, uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.find_participant_busy_events(uuid[], date, date, uuid) TO authenticated;
@@ -0,0 +1,23 @@
+-- Deduplicação das notificações disparadas pelo app (041).
+--
+-- POST /api/notifications pode ser repetido por quem tem acesso ao item; sem
+-- controle, cada repetição enviava de novo notificação e email. Cada envio
+-- registra (tipo, item, destinatário, janela de tempo); a chave primária faz o
+-- registro falhar para quem já foi notificado na mesma janela, e só os
+-- destinatários efetivamente registrados recebem a notificação.
+--
+-- Tabela usada apenas pelo servidor (service role): RLS ativo e sem políticas.
+
+CREATE TABLE IF NOT EXISTS public.notification_dispatches (
+  type text NOT NULL,
+  entity_id uuid NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  window_start timestamptz NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (type, entity_id, user_id, window_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_dispatches_window_start
+  ON public.notification_dispatches(window_start);
+
+ALTER TABLE public.notification_dispatches ENABLE ROW LEVEL SECURITY;